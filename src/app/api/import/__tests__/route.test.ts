@@ -0,0 +1,203 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { NextRequest } from "next/server";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { POST as downloadAudio } from "../audio/route";
+import { POST as previewFeed } from "../feed/route";
+
+// 测试服务器监听在 127.0.0.1，只放行这一个地址，其余地址仍按真实规则校验
+vi.mock("@/lib/utils/ip-address", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/utils/ip-address")>();
+  return {
+    isPublicAddress: (address: string) =>
+      address === "127.0.0.1" || actual.isPublicAddress(address),
+  };
+});
+
+const HOSTS: Record<string, string[]> = {
+  "pinned.example": ["127.0.0.1"],
+  "internal.example": ["10.0.0.5"],
+  "mixed.example": ["127.0.0.1", "169.254.169.254"],
+};
+
+vi.mock("node:dns/promises", () => {
+  const lookup = async (host: string) => {
+    const addresses = HOSTS[host];
+    if (!addresses) throw new Error(`ENOTFOUND ${host}`);
+    return addresses.map((address) => ({ address, family: 4 }));
+  };
+  return { default: { lookup }, lookup };
+});
+
+// 以 ID3 开头的最小 MP3 数据
+const MP3_BYTES = Buffer.concat([
+  Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]),
+  Buffer.from([0xff, 0xfb, 0x90, 0x64]),
+  Buffer.alloc(2048),
+]);
+
+const RSS_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+  <channel>
+    <title>日本語ニュース &amp; Talk</title>
+    <itunes:author>NHK Fixture</itunes:author>
+    <image><url>/cover.png</url><title>Cover</title></image>
+    <item>
+      <title><![CDATA[第2回 <特集>]]></title>
+      <guid>episode-2</guid>
+      <pubDate>Tue, 02 Jan 2024 08:00:00 GMT</pubDate>
+      <itunes:duration>12:30</itunes:duration>
+      <enclosure url="/audio/episode-2.mp3" type="audio/mpeg" length="2062" />
+    </item>
+    <item>
+      <title>Video only</title>
+      <enclosure url="/video/episode.mp4" type="video/mp4" />
+    </item>
+  </channel>
+</rss>`;
+
+let server: Server;
+let baseUrl: string;
+
+function post(handler: (request: NextRequest) => Promise<Response>, body: unknown) {
+  return handler(
+    new NextRequest("http://localhost:3000/api/import", {
+      method: "POST",
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    switch (request.url) {
+      case "/feed.xml":
+        response.writeHead(200, { "content-type": "application/rss+xml; charset=utf-8" });
+        response.end(RSS_FEED);
+        return;
+      case "/audio/episode-2.mp3":
+        response.writeHead(200, { "content-type": "audio/mpeg" });
+        response.end(MP3_BYTES);
+        return;
+      case "/redirect":
+        response.writeHead(302, { location: "/audio/episode-2.mp3" });
+        response.end();
+        return;
+      case "/redirect-internal":
+        response.writeHead(302, { location: "http://internal.example/audio.mp3" });
+        response.end();
+        return;
+      case "/fake.mp3":
+        // 伪装成音频的可执行文件
+        response.writeHead(200, { "content-type": "audio/mpeg" });
+        response.end(Buffer.concat([Buffer.from("MZ"), Buffer.alloc(512)]));
+        return;
+      case "/page.html":
+        response.writeHead(200, { "content-type": "text/html" });
+        response.end("<html><body>hello</body></html>");
+        return;
+      default:
+        response.writeHead(404);
+        response.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("POST /api/import/feed", () => {
+  it("parses podcast feeds into episodes with metadata", async () => {
+    const response = await post(previewFeed, { url: `${baseUrl}/feed.xml` });
+    const json = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(json.data.kind).toBe("feed");
+    expect(json.data.feed).toMatchObject({
+      title: "日本語ニュース & Talk",
+      author: "NHK Fixture",
+      imageUrl: `${baseUrl}/cover.png`,
+    });
+    expect(json.data.feed.episodes).toEqual([
+      {
+        guid: "episode-2",
+        title: "第2回 <特集>",
+        audioUrl: `${baseUrl}/audio/episode-2.mp3`,
+        audioType: "audio/mpeg",
+        audioSize: 2062,
+        publishedAt: "2024-01-02T08:00:00.000Z",
+        duration: 750,
+      },
+    ]);
+  });
+
+  it("recognizes direct audio links", async () => {
+    const response = await post(previewFeed, { url: `${baseUrl}/audio/episode-2.mp3` });
+    const json = await response.json();
+
+    expect(json.data).toMatchObject({ kind: "audio", fileName: "episode-2.mp3" });
+  });
+
+  it("rejects pages that are neither audio nor feeds", async () => {
+    const response = await post(previewFeed, { url: `${baseUrl}/page.html` });
+    expect(response.status).toBe(422);
+  });
+
+  it("rejects unsupported protocols and missing resources", async () => {
+    expect((await post(previewFeed, { url: "file:///etc/passwd" })).status).toBe(400);
+    expect((await post(previewFeed, { url: `${baseUrl}/missing.xml` })).status).toBe(502);
+  });
+
+  it("rejects local and private addresses in any notation", async () => {
+    for (const url of [
+      "http://localhost/feed.xml",
+      "http://10.0.0.1/feed.xml",
+      "http://[::1]/feed.xml",
+      "http://[::ffff:169.254.169.254]/latest/meta-data",
+    ]) {
+      expect((await post(previewFeed, { url })).status, url).toBe(400);
+    }
+  });
+
+  it("rejects host names that resolve to private addresses", async () => {
+    expect((await post(previewFeed, { url: "http://internal.example/feed.xml" })).status).toBe(400);
+    expect((await post(previewFeed, { url: "http://mixed.example/feed.xml" })).status).toBe(400);
+  });
+
+  it("connects to the resolved address without resolving again", async () => {
+    const { port } = new URL(baseUrl);
+    const response = await post(previewFeed, { url: `http://pinned.example:${port}/feed.xml` });
+
+    expect(response.status).toBe(200);
+  });
+});
+
+describe("POST /api/import/audio", () => {
+  it("downloads and validates audio, following redirects", async () => {
+    const response = await post(downloadAudio, {
+      url: `${baseUrl}/redirect`,
+      title: "第2回 <特集>",
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("audio/mpeg");
+    expect(decodeURIComponent(response.headers.get("x-file-name") ?? "")).toBe("第2回 特集.mp3");
+    expect((await response.arrayBuffer()).byteLength).toBe(MP3_BYTES.length);
+  });
+
+  it("checks every redirect target", async () => {
+    const response = await post(downloadAudio, { url: `${baseUrl}/redirect-internal` });
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects files that fail the security checks", async () => {
+    const response = await post(downloadAudio, { url: `${baseUrl}/fake.mp3` });
+    const json = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(json.error.details.errors).toContain("MALICIOUS_SIGNATURE");
+  });
+});
@@ -0,0 +1,75 @@
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { apiError } from "@/lib/utils/api-response";
+import { isAppError } from "@/lib/utils/error-handler";
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  getRateLimitConfig,
+  getRateLimitHeaders,
+} from "@/lib/utils/rate-limiter";
+import { downloadRemoteAudio } from "@/lib/utils/remote-import";
+
+const audioSchema = z.object({
+  url: z.string().trim().min(1).max(2048),
+  title: z.string().max(500).optional(),
+});
+
+/**
+ * 代为下载远程音频，通过安全验证后原样返回给浏览器保存
+ * 文件名放在 X-File-Name 头中（URI 编码）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientId = getClientIdentifier(request);
+    const rateLimitConfig = getRateLimitConfig("/api/import");
+    const rateLimitResult = checkRateLimit(`import:${clientId}`, rateLimitConfig);
+
+    if (rateLimitResult.limited) {
+      return apiError({
+        code: "RATE_LIMIT_EXCEEDED",
+        message: rateLimitConfig.message || "请求过于频繁，请稍后再试",
+        details: {
+          retryAfter: rateLimitResult.retryAfter,
+          resetTime: rateLimitResult.resetTime,
+        },
+        statusCode: 429,
+        headers: getRateLimitHeaders(rateLimitResult),
+      });
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = audioSchema.safeParse(body);
+    if (!validation.success) {
+      return apiError({
+        code: "VALIDATION_ERROR",
+        message: "Invalid request data",
+        details: { issues: validation.error.issues.map((issue) => issue.message) },
+        statusCode: 400,
+      });
+    }
+
+    const audio = await downloadRemoteAudio(validation.data.url, validation.data.title);
+
+    return new Response(audio.data, {
+      status: 200,
+      headers: {
+        "Content-Type": audio.type,
+        "Content-Length": String(audio.data.byteLength),
+        "X-File-Name": encodeURIComponent(audio.fileName),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (isAppError(error)) {
+      return apiError(error);
+    }
+
+    return apiError({
+      code: "IMPORT_ERROR",
+      message: "下载音频失败",
+      details: error instanceof Error ? { message: error.message } : undefined,
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { isAppError } from "@/lib/utils/error-handler";
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  getRateLimitConfig,
+  getRateLimitHeaders,
+} from "@/lib/utils/rate-limiter";
+import { fetchImportPreview } from "@/lib/utils/remote-import";
+
+const feedSchema = z.object({
+  url: z.string().trim().min(1).max(2048),
+});
+
+/**
+ * 识别链接：音频直接返回文件信息，播客订阅源返回节目和单集列表
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientId = getClientIdentifier(request);
+    const rateLimitConfig = getRateLimitConfig("/api/import");
+    const rateLimitResult = checkRateLimit(`import:${clientId}`, rateLimitConfig);
+
+    if (rateLimitResult.limited) {
+      return apiError({
+        code: "RATE_LIMIT_EXCEEDED",
+        message: rateLimitConfig.message || "请求过于频繁，请稍后再试",
+        details: {
+          retryAfter: rateLimitResult.retryAfter,
+          resetTime: rateLimitResult.resetTime,
+        },
+        statusCode: 429,
+        headers: getRateLimitHeaders(rateLimitResult),
+      });
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = feedSchema.safeParse(body);
+    if (!validation.success) {
+      return apiError({
+        code: "VALIDATION_ERROR",
+        message: "Invalid request data",
+        details: { issues: validation.error.issues.map((issue) => issue.message) },
+        statusCode: 400,
+      });
+    }
+
+    return apiSuccess(await fetchImportPreview(validation.data.url));
+  } catch (error) {
+    if (isAppError(error)) {
+      return apiError(error);
+    }
+
+    return apiError({
+      code: "IMPORT_ERROR",
+      message: "读取链接失败",
+      details: error instanceof Error ? { message: error.message } : undefined,
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  createChatProvider,
+  getChatProviderConfig,
+  resolveChatModel,
+  validateChatProviderConfig,
+} from "@/lib/ai/chat-providers";
+import { lookupWord } from "@/lib/ai/word-lookup";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  getRateLimitConfig,
+  getRateLimitHeaders,
+} from "@/lib/utils/rate-limiter";
+
+const lookupSchema = z.object({
+  word: z.string().trim().min(1).max(64),
+  context: z.string().max(500).optional(),
+  language: z.string().optional().default("ja"),
+  targetLanguage: z.string().optional().default("zh"),
+});
+
+/**
+ * 查询字幕中的单词，返回原形、读音、词性、释义和等级
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientId = getClientIdentifier(request);
+    const rateLimitConfig = getRateLimitConfig("/api/lookup");
+    const rateLimitResult = checkRateLimit(`lookup:${clientId}`, rateLimitConfig);
+
+    if (rateLimitResult.limited) {
+      return apiError({
+        code: "RATE_LIMIT_EXCEEDED",
+        message: rateLimitConfig.message || "请求过于频繁，请稍后再试",
+        details: {
+          retryAfter: rateLimitResult.retryAfter,
+          resetTime: rateLimitResult.resetTime,
+        },
+        statusCode: 429,
+        headers: getRateLimitHeaders(rateLimitResult),
+      });
+    }
+
+    const body = await request.json().catch(() => null);
+    const validation = lookupSchema.safeParse(body);
+    if (!validation.success) {
+      return apiError({
+        code: "VALIDATION_ERROR",
+        message: "Invalid request data",
+        details: { issues: validation.error.issues.map((issue) => issue.message) },
+        statusCode: 400,
+      });
+    }
+
+    const config = getChatProviderConfig();
+    const configErrors = validateChatProviderConfig(config);
+    if (configErrors.length > 0) {
+      return apiError({
+        code: "CONFIG_ERROR",
+        message: "Lookup provider configuration invalid",
+        details: configErrors,
+        statusCode: 500,
+      });
+    }
+
+    const data = validation.data;
+    const entry = await lookupWord(
+      data,
+      createChatProvider(config),
+      resolveChatModel(config, data.language, data.targetLanguage),
+    );
+
+    return apiSuccess(entry);
+  } catch (error) {
+    const isProduction = process.env.NODE_ENV === "production";
+
+    return apiError({
+      code: "LOOKUP_ERROR",
+      message: isProduction ? "查词服务暂时不可用，请稍后重试" : "单词查询失败",
+      details: isProduction
+        ? undefined
+        : error instanceof Error
+          ? { message: error.message }
+          : undefined,
+      statusCode: 500,
+    });
+  }
+}
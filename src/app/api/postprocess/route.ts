@@ -1,5 +1,6 @@
 import type { NextRequest } from "next/server";
 import { z } from "zod";
+import { getChatProviderConfig, validateChatProviderConfig } from "@/lib/ai/chat-providers";
 import { apiError, apiFromError, apiSuccess } from "@/lib/utils/api-response";
 import { validationError } from "@/lib/utils/error-handler";
 import { processSegmentsOptimized } from "@/lib/utils/optimized-postprocess";
@@ -26,6 +27,7 @@ const postProcessSchema = z.object({
   targetLanguage: z.string().optional().default("en"),
   enableAnnotations: z.boolean().optional().default(true),
   enableFurigana: z.boolean().optional().default(true),
+  enableVocabulary: z.boolean().optional().default(true),
 });
 
 /**
@@ -120,14 +122,10 @@ function handleSpecificError(error: Error) {
 }
 
 /**
- * 验证Groq配置
+ * 验证后处理提供方配置
  */
-function validateGroqConfiguration(): { isValid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  if (!process.env.GROQ_API_KEY) {
-    errors.push("Groq API key is not configured");
-  }
+function validateProviderConfiguration(): { isValid: boolean; errors: string[] } {
+  const errors = validateChatProviderConfig(getChatProviderConfig());
 
   return {
     isValid: errors.length === 0,
@@ -140,11 +138,11 @@ export async function POST(request: NextRequest) {
 
   try {
     // 验证配置
-    const configValidation = validateGroqConfiguration();
+    const configValidation = validateProviderConfiguration();
     if (!configValidation.isValid) {
       return apiError({
         code: "CONFIG_ERROR",
-        message: "Groq configuration invalid",
+        message: "Post-processing provider configuration invalid",
         details: configValidation.errors,
         statusCode: 500,
       });
@@ -172,7 +170,14 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const { segments, language, targetLanguage, enableAnnotations, enableFurigana } = data;
+    const {
+      segments,
+      language,
+      targetLanguage,
+      enableAnnotations,
+      enableFurigana,
+      enableVocabulary,
+    } = data;
 
     // 验证segments
     const segmentValidation = validateSegments(segments);
@@ -193,6 +198,7 @@ export async function POST(request: NextRequest) {
       targetLanguage,
       enableAnnotations,
       enableFurigana,
+      enableVocabulary,
       maxConcurrent: segments.length > 50 ? 10 : 6, // 大数据集使用更高并发
       batchSize: segments.length > 100 ? 30 : 15,
     });
@@ -204,6 +210,7 @@ export async function POST(request: NextRequest) {
       translation: processedSegment.translation,
       annotations: processedSegment.annotations,
       furigana: processedSegment.furigana,
+      vocabulary: processedSegment.vocabulary,
     }));
 
     const totalTime = Date.now() - startTime;
@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  clearServerProgress,
+  getServerProgress,
+  type ServerProgressEvent,
+  subscribeServerProgress,
+} from "@/lib/ai/server-progress";
+import { POST } from "../route";
+
+function postProgress(fileId: string, body: unknown) {
+  const request = new NextRequest(`http://localhost:3000/api/progress/${fileId}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  return POST(request, { params: Promise.resolve({ fileId }) });
+}
+
+describe("POST /api/progress/[fileId]", () => {
+  afterEach(async () => {
+    await clearServerProgress(9);
+  });
+
+  it("should record client stages and notify subscribers", async () => {
+    const events: ServerProgressEvent[] = [];
+    const unsubscribe = subscribeServerProgress(9, (event) => events.push(event));
+
+    const saving = await postProgress("9", {
+      status: "processing",
+      progress: 90,
+      message: "正在保存转录结果...",
+    });
+    expect(saving.status).toBe(200);
+    expect(await getServerProgress(9)).toMatchObject({ status: "processing", progress: 90 });
+
+    await postProgress("9", { status: "completed", progress: 100, message: "转录完成" });
+    unsubscribe();
+
+    expect(events.map((event) => event.type === "progress" && event.progress.status)).toEqual([
+      "processing",
+      "completed",
+    ]);
+  });
+
+  it("should reject invalid file ids and malformed updates", async () => {
+    expect((await postProgress("abc", { status: "completed", progress: 100 })).status).toBe(400);
+    expect((await postProgress("9", { status: "done", progress: 100, message: "" })).status).toBe(
+      400,
+    );
+    expect(
+      (await postProgress("9", { status: "processing", progress: 120, message: "" })).status,
+    ).toBe(400);
+    expect(await getServerProgress(9)).toBeUndefined();
+  });
+});
@@ -1,5 +1,14 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { getServerProgress } from "@/lib/ai/server-progress";
+import { z } from "zod";
+import { getServerProgress, setServerProgress } from "@/lib/ai/server-progress";
+
+// 客户端上报的转录阶段：上传、后处理、校准时间轴、保存结果和完成
+const progressUpdateSchema = z.object({
+  status: z.enum(["processing", "completed", "failed"]),
+  progress: z.number().min(0).max(100),
+  message: z.string().max(200),
+  error: z.string().max(500).optional(),
+});
 
 export async function GET(
   _request: NextRequest,
@@ -40,3 +49,35 @@ export async function GET(
     );
   }
 }
+
+/**
+ * 记录浏览器端完成的转录阶段，和服务端进度一样推送给 SSE 订阅者
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> },
+) {
+  const resolvedParams = await params;
+  const fileId = parseInt(resolvedParams.fileId, 10);
+
+  if (Number.isNaN(fileId)) {
+    return NextResponse.json({ error: "Invalid file ID" }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const validation = progressUpdateSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid progress update",
+        message: validation.error.issues.map((issue) => issue.message).join(", "),
+      },
+      { status: 400 },
+    );
+  }
+
+  await setServerProgress(fileId, validation.data);
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { clearServerProgress, setServerProgress } from "@/lib/ai/server-progress";
+import { GET } from "../route";
+
+async function readEvents(response: Response): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("missing body");
+
+  const decoder = new TextDecoder();
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+  }
+  return text;
+}
+
+describe("GET /api/progress/[fileId]/stream", () => {
+  it("should return 400 for an invalid file id", async () => {
+    const request = new NextRequest("http://localhost:3000/api/progress/abc/stream");
+    const response = await GET(request, { params: Promise.resolve({ fileId: "abc" }) });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should stream progress events and close once transcription completes", async () => {
+    await setServerProgress(7, { status: "processing", progress: 10, message: "开始" });
+
+    const request = new NextRequest("http://localhost:3000/api/progress/7/stream");
+    const response = await GET(request, { params: Promise.resolve({ fileId: "7" }) });
+
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+
+    const body = readEvents(response);
+    await setServerProgress(7, { status: "completed", progress: 100, message: "转录完成" });
+    const text = await body;
+
+    const events = text
+      .trim()
+      .split("\n\n")
+      .map((block) => JSON.parse(block.split("data: ")[1]));
+    expect(events.map((event) => event.progress)).toEqual([10, 100]);
+    expect(events[1].status).toBe("completed");
+
+    await clearServerProgress(7);
+  });
+});
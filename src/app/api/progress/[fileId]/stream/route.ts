@@ -0,0 +1,87 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  getServerProgress,
+  type ServerProgressEvent,
+  subscribeServerProgress,
+} from "@/lib/ai/server-progress";
+
+// 保持连接的心跳间隔，避免代理因空闲断开
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * 以 Server-Sent Events 推送转录进度
+ * 事件类型：progress（ServerProgress）、segments（部分转录结果）
+ * 进度进入 completed / failed 后服务端主动关闭连接
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> },
+) {
+  const resolvedParams = await params;
+  const fileId = parseInt(resolvedParams.fileId, 10);
+
+  if (Number.isNaN(fileId)) {
+    return NextResponse.json({ error: "Invalid file ID" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup?.();
+        controller.close();
+      };
+
+      const send = (event: ServerProgressEvent) => {
+        if (closed) return;
+        const data = event.type === "progress" ? event.progress : event;
+        controller.enqueue(
+          encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`),
+        );
+
+        if (
+          event.type === "progress" &&
+          (event.progress.status === "completed" || event.progress.status === "failed")
+        ) {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeServerProgress(fileId, send);
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      request.signal.addEventListener("abort", close);
+
+      // 先发送当前进度，避免错过连接建立前的更新；已结束的旧进度可能属于上一次转录，不再推送
+      const current = await getServerProgress(fileId);
+      if (current && current.status !== "completed" && current.status !== "failed") {
+        send({ type: "progress", progress: current });
+      }
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { extractSpokenWords } from "@/lib/ai/pronunciation-scoring";
+import {
+  createTranscriptionProvider,
+  getTranscriptionProviderConfig,
+  validateTranscriptionProviderConfig,
+} from "@/lib/ai/transcription-providers";
+import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { isFileLike } from "@/lib/utils/file-validation";
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  getRateLimitConfig,
+  getRateLimitHeaders,
+} from "@/lib/utils/rate-limiter";
+
+/** 跟读录音只有一句话，限制体积避免被当作通用转录接口使用 */
+const MAX_RECORDING_SIZE = 5 * 1024 * 1024;
+
+const pronunciationQuerySchema = z.object({
+  language: z.string().optional().default("en"),
+});
+
+/**
+ * 转录一次跟读录音，返回带时间戳的单词
+ * 评分在客户端完成，参考文本不需要上传
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const clientId = getClientIdentifier(request);
+    const rateLimitConfig = getRateLimitConfig("/api/pronunciation");
+    const rateLimitResult = checkRateLimit(`pronunciation:${clientId}`, rateLimitConfig);
+
+    if (rateLimitResult.limited) {
+      return apiError({
+        code: "RATE_LIMIT_EXCEEDED",
+        message: rateLimitConfig.message || "请求过于频繁，请稍后再试",
+        details: {
+          retryAfter: rateLimitResult.retryAfter,
+          resetTime: rateLimitResult.resetTime,
+        },
+        statusCode: 429,
+        headers: getRateLimitHeaders(rateLimitResult),
+      });
+    }
+
+    const url = new URL(request.url);
+    const query = pronunciationQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!query.success) {
+      return apiError({
+        code: "VALIDATION_ERROR",
+        message: "Invalid request parameters",
+        details: { issues: query.error.issues.map((issue) => issue.message) },
+        statusCode: 400,
+      });
+    }
+
+    const formData = await request.formData();
+    const audio = formData.get("audio");
+    if (!isFileLike(audio) || audio.size === 0) {
+      return apiError({
+        code: "VALIDATION_ERROR",
+        message: "Audio file is required",
+        details: { reason: "MISSING_AUDIO" },
+        statusCode: 400,
+      });
+    }
+
+    if (audio.size > MAX_RECORDING_SIZE) {
+      return apiError({
+        code: "FILE_TOO_LARGE",
+        message: "录音过长，请只录制一句话",
+        details: { size: audio.size, maxSize: MAX_RECORDING_SIZE },
+        statusCode: 400,
+      });
+    }
+
+    const providerConfig = getTranscriptionProviderConfig();
+    const configError = validateTranscriptionProviderConfig(providerConfig);
+    if (configError) {
+      return apiError({
+        code: configError.code,
+        message: configError.message,
+        details: { provider: providerConfig.type },
+        statusCode: 500,
+      });
+    }
+
+    const { language } = query.data;
+    const transcription = await createTranscriptionProvider(providerConfig).transcribe(audio, {
+      language,
+    });
+
+    return apiSuccess({
+      text: transcription.text ?? "",
+      language: transcription.language || language,
+      duration: transcription.duration,
+      words: extractSpokenWords(transcription),
+    });
+  } catch (error) {
+    const isProduction = process.env.NODE_ENV === "production";
+
+    return apiError({
+      code: "PRONUNCIATION_ERROR",
+      message: isProduction ? "评分服务暂时不可用，请稍后重试" : "录音转录失败",
+      details: isProduction
+        ? undefined
+        : error instanceof Error
+          ? { message: error.message }
+          : undefined,
+      statusCode: 500,
+    });
+  }
+}
@@ -150,4 +150,55 @@ describe("POST /api/transcribe", () => {
     expect(response.status).toBe(500);
     expect(json.error.code).toBe("API_KEY_MISSING");
   });
+
+  it("should not require a Groq key when an openai-compatible provider is selected", async () => {
+    delete process.env.GROQ_API_KEY;
+    process.env.TRANSCRIPTION_PROVIDER = "openai-compatible";
+
+    try {
+      const formData = new FormData();
+      formData.append("audio", new File(["content"], "test.mp3", { type: "audio/mpeg" }));
+
+      const request = new NextRequest("http://localhost:3000/api/transcribe?fileId=1&language=en", {
+        method: "POST",
+        body: formData,
+      });
+
+      const response = await POST(request);
+      const json = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(json.error.code).toBe("PROVIDER_NOT_CONFIGURED");
+      expect(mockCreate).not.toHaveBeenCalled();
+    } finally {
+      delete process.env.TRANSCRIPTION_PROVIDER;
+    }
+  });
+
+  it("should count a chunked file once against the rate limit", async () => {
+    const post = (query: string) =>
+      POST(
+        new NextRequest(`http://localhost:3000/api/transcribe?fileId=1&language=en${query}`, {
+          method: "POST",
+          body: new FormData(),
+          headers: { "x-forwarded-for": "203.0.113.10" },
+        }),
+      );
+
+    // 12 个分块只占用一次配额，缺少音频时返回 400 而不是 429
+    for (let chunkIndex = 0; chunkIndex < 12; chunkIndex++) {
+      const response = await post(`&chunkIndex=${chunkIndex}&totalChunks=12`);
+      expect(response.status).toBe(400);
+    }
+
+    for (let i = 0; i < 9; i++) {
+      expect((await post("")).status).toBe(400);
+    }
+
+    const limited = await post("");
+    const json = await limited.json();
+    expect(limited.status).toBe(429);
+    expect(json.error.code).toBe("RATE_LIMIT_EXCEEDED");
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
 });
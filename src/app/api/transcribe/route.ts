@@ -1,50 +1,48 @@
-import Groq from "groq-sdk";
 import type { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import {
   buildSegmentsFromPlainText,
   buildSegmentsFromWords,
   mapGroqSegmentToTranscriptionSegment,
+  offsetTranscriptionSegments,
 } from "@/lib/ai/groq-transcription-utils";
+import {
+  publishServerSegments,
+  setServerProgress,
+  TRANSCRIPTION_PROGRESS,
+} from "@/lib/ai/server-progress";
+import {
+  createTranscriptionProvider,
+  getTranscriptionProviderConfig,
+  validateTranscriptionProviderConfig,
+} from "@/lib/ai/transcription-providers";
 import { apiError, apiSuccess } from "@/lib/utils/api-response";
+import { isFileLike } from "@/lib/utils/file-validation";
 import {
   checkRateLimit,
   getClientIdentifier,
   getRateLimitConfig,
   getRateLimitHeaders,
+  isFollowUpTranscribeChunk,
 } from "@/lib/utils/rate-limiter";
-import type { GroqTranscriptionResponse, TranscriptionSegment } from "@/types/transcription";
+import type { TranscriptionSegment } from "@/types/transcription";
 
 // Zod schemas for validation
 const transcribeQuerySchema = z.object({
   fileId: z.string().min(1, "fileId is required"),
   chunkIndex: z.coerce.number().int().min(0).optional(),
+  totalChunks: z.coerce.number().int().min(1).optional(),
   offsetSec: z.coerce.number().min(0).optional(),
   language: z.string().optional().default("en"),
 });
 
-// Helper function to check if object is a File-like object
-function isFileLike(obj: unknown): obj is File {
-  return (
-    obj !== null &&
-    typeof obj === "object" &&
-    "name" in obj &&
-    typeof obj.name === "string" &&
-    "size" in obj &&
-    typeof obj.size === "number" &&
-    "type" in obj &&
-    typeof obj.type === "string" &&
-    "arrayBuffer" in obj &&
-    typeof obj.arrayBuffer === "function"
-  );
-}
-
 const transcribeFormSchema = z.object({
   audio: z.any().refine((file) => isFileLike(file), { message: "Audio file is required" }),
   meta: z
     .object({
       fileId: z.string().optional(),
       chunkIndex: z.number().int().min(0).optional(),
+      totalChunks: z.number().int().min(1).optional(),
       offsetSec: z.number().min(0).optional(),
     })
     .optional(),
@@ -146,7 +144,7 @@ function validateFormData(formData: FormData) {
   return { success: true as const, data: validatedForm.data };
 }
 
-// Helper function to process transcription using Groq SDK
+// Helper function to process transcription using the configured provider
 async function processTranscription(
   uploadedFile: File,
   language: string,
@@ -173,7 +171,11 @@ async function processTranscription(
     }
   | { success: false; error: NextResponse }
 > {
-  console.log("开始处理转录请求 (Groq SDK):", {
+  const providerConfig = getTranscriptionProviderConfig();
+
+  console.log("开始处理转录请求:", {
+    provider: providerConfig.type,
+    model: providerConfig.model,
     fileName: uploadedFile.name,
     fileSize: uploadedFile.size,
     fileType: uploadedFile.type,
@@ -181,15 +183,16 @@ async function processTranscription(
     timestamp: new Date().toISOString(),
   });
 
-  // 检查 API 密钥
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey) {
+  // 检查提供方配置（Groq 需要 API 密钥，兼容服务需要地址）
+  const configError = validateTranscriptionProviderConfig(providerConfig);
+  if (configError) {
     return {
       success: false as const,
       error: apiError({
-        code: "API_KEY_MISSING",
-        message: "Groq API 密钥未配置",
+        code: configError.code,
+        message: configError.message,
         details: {
+          provider: providerConfig.type,
           fileName: uploadedFile.name,
         },
         statusCode: 500,
@@ -197,25 +200,15 @@ async function processTranscription(
     };
   }
 
-  // 初始化 Groq 客户端
-  const groq = new Groq({ apiKey });
+  const provider = createTranscriptionProvider(providerConfig);
 
   try {
-    // 使用 Groq SDK 进行转录
-    // Groq SDK 可以直接接受 File 对象
-    const transcription = await groq.audio.transcriptions.create({
-      file: uploadedFile, // 直接使用 File 对象
-      model: "whisper-large-v3-turbo",
-      temperature: 0,
-      response_format: "verbose_json",
-      language: language === "auto" ? undefined : language,
-      timestamp_granularities: ["word", "segment"],
-    });
+    // 提供方直接接受 File 对象，返回 verbose_json 结果
+    const transcription = await provider.transcribe(uploadedFile, { language });
 
-    // 使用类型断言访问可能的属性
-    const transcriptionData = transcription as GroqTranscriptionResponse;
+    const transcriptionData = transcription;
 
-    console.log("转录成功完成 (Groq SDK):", {
+    console.log("转录成功完成:", {
       fileName: uploadedFile.name,
       textLength: transcriptionData.text?.length || 0,
       duration: transcriptionData.duration,
@@ -224,23 +217,23 @@ async function processTranscription(
       transcriptionKeys: Object.keys(transcriptionData),
     });
 
-    // 处理 Groq SDK 返回的转录结果
+    // 处理提供方返回的转录结果
     let processedSegments: TranscriptionSegment[] = [];
 
     if (Array.isArray(transcriptionData.segments) && transcriptionData.segments.length > 0) {
-      // 使用 Groq SDK 返回的 segments
+      // 使用提供方返回的 segments
       processedSegments = transcriptionData.segments.map((segment, index) =>
         mapGroqSegmentToTranscriptionSegment(segment, index + 1),
       );
-      console.log("使用 Groq SDK 返回的 segments:", processedSegments.length);
+      console.log("使用提供方返回的 segments:", processedSegments.length);
     } else if (Array.isArray(transcriptionData.words) && transcriptionData.words.length > 0) {
       // 如果没有 segments 但有 words，根据 words 生成 segments
-      console.log("Groq SDK 未返回 segments，根据 words 生成");
+      console.log("提供方未返回 segments，根据 words 生成");
       processedSegments = buildSegmentsFromWords(transcriptionData.words, 10);
       console.log("根据 words 生成的 segments:", processedSegments.length);
     } else if (typeof transcriptionData.text === "string" && transcriptionData.text.length > 0) {
       // 生成基本的segments：按句子分割
-      console.log("Groq SDK 未返回详细数据，生成基本 segments");
+      console.log("提供方未返回详细数据，生成基本 segments");
       processedSegments = buildSegmentsFromPlainText(
         transcriptionData.text,
         transcriptionData.duration,
@@ -257,7 +250,7 @@ async function processTranscription(
 
     return { success: true as const, data: transcriptionResponse };
   } catch (transcriptionError) {
-    console.error("转录处理失败 (Groq SDK):", {
+    console.error("转录处理失败:", {
       fileName: uploadedFile.name,
       error:
         transcriptionError instanceof Error
@@ -318,12 +311,16 @@ async function processTranscription(
 
 export async function POST(request: NextRequest) {
   try {
-    // 速率限制检查
+    const url = new URL(request.url);
+
+    // 速率限制检查，分块转录只在第一个分块时计数
     const clientId = getClientIdentifier(request);
     const rateLimitConfig = getRateLimitConfig("/api/transcribe");
-    const rateLimitResult = checkRateLimit(`transcribe:${clientId}`, rateLimitConfig);
+    const rateLimitResult = isFollowUpTranscribeChunk(url.searchParams)
+      ? null
+      : checkRateLimit(`transcribe:${clientId}`, rateLimitConfig);
 
-    if (rateLimitResult.limited) {
+    if (rateLimitResult?.limited) {
       const headers = getRateLimitHeaders(rateLimitResult);
       return apiError({
         code: "RATE_LIMIT_EXCEEDED",
@@ -338,7 +335,6 @@ export async function POST(request: NextRequest) {
     }
 
     // Parse and validate query parameters
-    const url = new URL(request.url);
     const searchParams = Object.fromEntries(url.searchParams);
     const queryValidation = validateQueryParams(searchParams);
     if (!queryValidation.success) {
@@ -354,19 +350,53 @@ export async function POST(request: NextRequest) {
       return formValidation.error;
     }
 
+    const meta = formValidation.data.meta;
+    const chunkIndex = meta?.chunkIndex ?? queryValidation.data.chunkIndex;
+    const totalChunks = meta?.totalChunks ?? queryValidation.data.totalChunks ?? 1;
+    const offsetSec = meta?.offsetSec ?? queryValidation.data.offsetSec ?? 0;
+    const progressFileId = Number.parseInt(queryValidation.data.fileId, 10);
+    const chunkLabel = totalChunks > 1 ? ` (${(chunkIndex ?? 0) + 1}/${totalChunks})` : "";
+
+    // 记录服务端进度，供 SSE 和轮询接口读取；stage 为当前分块内的完成比例
+    // 转录只占总进度的一段，保存结果后由客户端上报 completed
+    const reportProgress = (
+      stage: number,
+      message: string,
+      status: "processing" | "failed" = "processing",
+    ) => {
+      if (Number.isNaN(progressFileId)) return;
+      const { transcribe, postprocess } = TRANSCRIPTION_PROGRESS;
+      const progress = Math.round(
+        transcribe + (((chunkIndex ?? 0) + stage) / totalChunks) * (postprocess - transcribe),
+      );
+      setServerProgress(progressFileId, { status, progress, message });
+    };
+
+    reportProgress(0.1, `正在转录${chunkLabel}...`);
+
     // Process transcription
     const transcriptionResult = await processTranscription(formValidation.data.audio, language);
     if (!transcriptionResult.success) {
+      reportProgress(0, `转录失败${chunkLabel}`, "failed");
       return transcriptionResult.error;
     }
 
+    // 分块上传时，将分块内的时间平移到整段音频的时间轴上
+    const segments = offsetTranscriptionSegments(transcriptionResult.data.segments, offsetSec);
+
+    if (!Number.isNaN(progressFileId)) {
+      publishServerSegments(progressFileId, segments, chunkIndex);
+    }
+    const isLastChunk = (chunkIndex ?? 0) + 1 >= totalChunks;
+    reportProgress(1, isLastChunk ? "转录完成，正在处理结果..." : `已完成${chunkLabel}`);
+
     return apiSuccess({
       status: "completed",
       text: transcriptionResult.data.text,
       language: transcriptionResult.data.language ?? language,
       duration: transcriptionResult.data.duration,
-      segments: transcriptionResult.data.segments,
-      meta: formValidation.data.meta,
+      segments,
+      meta: { ...meta, chunkIndex, totalChunks, offsetSec },
     });
   } catch (error) {
     // 安全处理错误 - 避免暴露敏感信息
@@ -5,6 +5,7 @@ import { SpeedInsights } from "@vercel/speed-insights/next";
 import { ThemeProvider } from "@/components/layout/contexts/ThemeContext";
 import { TranscriptionLanguageProvider } from "@/components/layout/contexts/TranscriptionLanguageContext";
 import { QueryProvider } from "@/components/layout/providers/QueryProvider";
+import { TranscriptionQueueRunner } from "@/components/transcription/TranscriptionQueueRunner";
 import { PageErrorBoundary } from "@/components/ui/ErrorBoundary";
 import { ToastContainer } from "@/components/ui/ErrorToast";
 import { MonitoringInitializer } from "@/components/ui/MonitoringInitializer";
@@ -62,6 +63,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
           <TranscriptionLanguageProvider>
             <MonitoringInitializer />
             <QueryProvider>
+              <TranscriptionQueueRunner />
               <PageErrorBoundary>
                 <div className="relative min-h-screen">{children}</div>
               </PageErrorBoundary>
@@ -5,17 +5,19 @@
 
 "use client";
 
-import { useParams } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 import PlayerErrorBoundary from "@/components/features/player/PlayerErrorBoundary";
 import PlayerPageComponent from "@/components/features/player/PlayerPage";
 
 export default function PlayerPage() {
   const params = useParams();
   const fileId = params.fileId as string;
+  // 从搜索结果打开时跳转到命中字幕段的时间
+  const time = Number.parseFloat(useSearchParams().get("t") ?? "");
 
   return (
     <PlayerErrorBoundary>
-      <PlayerPageComponent fileId={fileId} />
+      <PlayerPageComponent fileId={fileId} initialTime={Number.isFinite(time) ? time : undefined} />
     </PlayerErrorBoundary>
   );
 }
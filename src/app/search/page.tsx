@@ -0,0 +1,21 @@
+import { Suspense } from "react";
+import SearchPage from "@/components/features/search/SearchPage";
+import Navigation from "@/components/ui/Navigation";
+
+export default function SearchRoute() {
+  return (
+    <div className="relative flex min-h-screen w-full flex-col">
+      <Navigation />
+      <main className="flex-1">
+        <div className="flex-1 px-4 py-8 sm:px-6 lg:px-8 mt-24">
+          <div className="mx-auto max-w-4xl">
+            {/* SearchPage 读取 URL 查询参数，需要 Suspense 边界 */}
+            <Suspense>
+              <SearchPage />
+            </Suspense>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import Link from "next/link";
+import { useDeferredValue, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { ComponentLoadingState } from "@/components/ui/LoadingState";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useVocabularyList } from "@/hooks/db/useVocabulary";
+import { getPlayerRoute } from "@/lib/config/routes";
+import { cn } from "@/lib/utils/utils";
+
+type KnownFilter = "all" | "learning" | "known";
+
+const KNOWN_FILTER_LABELS: Record<KnownFilter, string> = {
+  all: "全部",
+  learning: "学习中",
+  known: "已掌握",
+};
+
+const LEVELS = ["N5", "N4", "N3", "N2", "N1", "A1", "A2", "B1", "B2", "C1", "C2"] as const;
+
+/**
+ * 个人词典页面
+ * 浏览、搜索后处理提取的单词，并标记已掌握的单词
+ */
+export default function DictionaryPage() {
+  const [search, setSearch] = useState("");
+  const [knownFilter, setKnownFilter] = useState<KnownFilter>("all");
+  const [level, setLevel] = useState("all");
+  const deferredSearch = useDeferredValue(search);
+
+  const { words, isLoading, error, setKnown } = useVocabularyList({
+    search: deferredSearch.trim() || undefined,
+    known: knownFilter === "all" ? undefined : knownFilter === "known",
+    level: level === "all" ? undefined : level,
+  });
+
+  return (
+    <div className="space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-[var(--text-primary)]">词典</h1>
+        <span className="text-sm text-[var(--text-muted)]">{words.length} 个单词</span>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="搜索单词、读音或释义"
+          aria-label="搜索单词"
+          className="min-w-48 flex-1"
+        />
+        <Select value={knownFilter} onValueChange={(value: KnownFilter) => setKnownFilter(value)}>
+          <SelectTrigger className="w-28" aria-label="掌握状态">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(KNOWN_FILTER_LABELS) as KnownFilter[]).map((filter) => (
+              <SelectItem key={filter} value={filter}>
+                {KNOWN_FILTER_LABELS[filter]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={level} onValueChange={setLevel}>
+          <SelectTrigger className="w-28" aria-label="等级">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">全部等级</SelectItem>
+            {LEVELS.map((item) => (
+              <SelectItem key={item} value={item}>
+                {item}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <ComponentLoadingState text="加载词典..." />
+      ) : error ? (
+        <div className="card-default p-6 text-center text-sm text-[var(--state-error-text)]">
+          {error}
+        </div>
+      ) : words.length === 0 ? (
+        <div className="card-default space-y-2 p-8 text-center">
+          <p className="text-[var(--text-primary)]">没有找到单词</p>
+          <p className="text-sm text-[var(--text-muted)]">
+            在播放器中点击“提取词汇”按钮，即可从字幕中生成词汇
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {words.map((word) => (
+            <li
+              key={word.id}
+              className={cn("card-default flex items-start justify-between gap-4 p-4", {
+                "opacity-60": word.known,
+              })}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-baseline gap-2">
+                  <span className="text-lg font-medium text-[var(--text-primary)]">
+                    {word.lemma}
+                  </span>
+                  {word.reading && word.reading !== word.lemma && (
+                    <span className="text-sm text-[var(--text-muted)]">{word.reading}</span>
+                  )}
+                  {word.partOfSpeech && (
+                    <span className="text-xs text-[var(--text-muted)]">{word.partOfSpeech}</span>
+                  )}
+                  {word.level && (
+                    <span className="rounded bg-[var(--surface-muted)] px-1.5 text-xs">
+                      {word.level}
+                    </span>
+                  )}
+                </div>
+                {word.gloss && <p className="text-sm text-[var(--text-primary)]">{word.gloss}</p>}
+                {word.example && (
+                  <Link
+                    href={getPlayerRoute(String(word.example.fileId))}
+                    className="block truncate text-xs text-[var(--text-muted)] hover:underline"
+                  >
+                    {word.example.text}
+                    {word.occurrences > 1 && ` · 共出现 ${word.occurrences} 次`}
+                  </Link>
+                )}
+              </div>
+              <button
+                type="button"
+                className={word.known ? "btn-primary" : "btn-secondary"}
+                onClick={() => word.id && setKnown(word.id, !word.known)}
+                aria-pressed={word.known}
+                aria-label={word.known ? "标记为学习中" : "标记为已掌握"}
+                title={word.known ? "标记为学习中" : "标记为已掌握"}
+              >
+                <span className="material-symbols-outlined">
+                  {word.known ? "check_circle" : "radio_button_unchecked"}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -5,16 +5,44 @@
 
 "use client";
 
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SUBTITLE_FILE_EXTENSIONS } from "@/lib/db/subtitle-import";
+import {
+  TRANSCRIPTION_QUEUE_PRIORITIES,
+  type TranscriptionQueueItem,
+  type TranscriptionQueuePriority,
+} from "@/lib/utils/transcription-queue";
 import type { FileRow } from "@/types/db/database";
 import { FileStatus } from "@/types/db/database";
 import { useFileStatus } from "@/hooks/useFileStatus";
+import TranscriptExportMenu from "./TranscriptExportMenu";
+
+const PRIORITY_LABELS: Record<TranscriptionQueuePriority, string> = {
+  urgent: "紧急",
+  high: "高",
+  normal: "普通",
+  low: "低",
+};
 
 interface FileCardProps {
   file: FileRow;
   onPlay?: (fileId: number) => void;
   onDelete?: (fileId: number) => void;
   onTranscribe?: (fileId: number) => void;
+  onImportSubtitles?: (fileId: number, subtitleFile: File) => void;
   isTranscribing?: boolean;
+  /** 文件在转录队列中的任务，不在队列中时为 null */
+  queueTask?: TranscriptionQueueItem | null;
+  onPauseTranscription?: (fileId: number) => void;
+  onResumeTranscription?: (fileId: number) => void;
+  onCancelTranscription?: (fileId: number) => void;
+  onPriorityChange?: (fileId: number, priority: TranscriptionQueuePriority) => void;
 }
 
 export default function FileCard({
@@ -22,7 +50,13 @@ export default function FileCard({
   onPlay,
   onDelete,
   onTranscribe,
+  onImportSubtitles,
   isTranscribing = false,
+  queueTask = null,
+  onPauseTranscription,
+  onResumeTranscription,
+  onCancelTranscription,
+  onPriorityChange,
 }: FileCardProps) {
   // 优雅地处理可能缺失的 file.id
   if (!file.id) {
@@ -37,6 +71,23 @@ export default function FileCard({
   const getStatusDisplay = () => {
     const status = statusLoading ? FileStatus.UPLOADED : realStatus;
 
+    if (queueTask?.status === "pending") {
+      return {
+        icon: "hourglass_top",
+        color: "status-ready",
+        label: `排队中 · 第 ${queueTask.position + 1} 位`,
+        type: "音频",
+      };
+    }
+    if (queueTask?.status === "paused") {
+      return {
+        icon: "pause_circle",
+        color: "status-ready",
+        label: "已暂停",
+        type: "音频",
+      };
+    }
+
     switch (status) {
       case FileStatus.TRANSCRIBING:
         return {
@@ -71,9 +122,99 @@ export default function FileCard({
 
   const status = getStatusDisplay();
 
+  // 导入字幕按钮，使用 label 包裹隐藏的文件选择框
+  const importSubtitlesButton = onImportSubtitles ? (
+    <label className="btn-secondary cursor-pointer" aria-label="导入字幕" title="导入字幕">
+      <span className="material-symbols-outlined">subtitles</span>
+      <input
+        type="file"
+        accept={SUBTITLE_FILE_EXTENSIONS.join(",")}
+        className="hidden"
+        onChange={(event) => {
+          const subtitleFile = event.target.files?.[0];
+          if (subtitleFile && file.id) {
+            onImportSubtitles(file.id, subtitleFile);
+          }
+          event.target.value = "";
+        }}
+      />
+    </label>
+  ) : null;
+
+  const deleteButton = (
+    <button
+      type="button"
+      className="btn-delete"
+      onClick={() => file.id && onDelete?.(file.id)}
+      aria-label="删除文件"
+    >
+      <span className="material-symbols-outlined text-2xl">delete</span>
+    </button>
+  );
+
+  // 队列中的任务：暂停/继续、优先级、取消
+  const getQueueActions = (task: TranscriptionQueueItem) => (
+    <>
+      {task.status === "paused" ? (
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={() => file.id && onResumeTranscription?.(file.id)}
+          aria-label="继续转录"
+          title="继续转录"
+        >
+          <span className="material-symbols-outlined">play_circle</span>
+        </button>
+      ) : (
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={() => file.id && onPauseTranscription?.(file.id)}
+          aria-label="暂停转录"
+          title="暂停转录"
+        >
+          <span className="material-symbols-outlined">pause</span>
+        </button>
+      )}
+      {task.status !== "processing" && onPriorityChange && (
+        <Select
+          value={task.priority}
+          onValueChange={(value: TranscriptionQueuePriority) =>
+            file.id && onPriorityChange(file.id, value)
+          }
+        >
+          <SelectTrigger className="w-24" aria-label="转录优先级">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRANSCRIPTION_QUEUE_PRIORITIES.map((priority) => (
+              <SelectItem key={priority} value={priority}>
+                {PRIORITY_LABELS[priority]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <button
+        type="button"
+        className="btn-secondary"
+        onClick={() => file.id && onCancelTranscription?.(file.id)}
+        aria-label="取消转录"
+        title="取消转录"
+      >
+        <span className="material-symbols-outlined">close</span>
+      </button>
+      {deleteButton}
+    </>
+  );
+
   const getActions = () => {
     const currentStatus = statusLoading ? FileStatus.UPLOADED : realStatus;
 
+    if (queueTask) {
+      return getQueueActions(queueTask);
+    }
+
     switch (currentStatus) {
       case FileStatus.COMPLETED:
         return (
@@ -86,29 +227,13 @@ export default function FileCard({
             >
               <span className="material-symbols-outlined">play_arrow</span>
             </button>
-            <button
-              type="button"
-              className="btn-delete"
-              onClick={() => file.id && onDelete?.(file.id)}
-              aria-label="删除文件"
-            >
-              <span className="material-symbols-outlined text-2xl">delete</span>
-            </button>
+            {file.id && <TranscriptExportMenu fileId={file.id} />}
+            {importSubtitlesButton}
+            {deleteButton}
           </>
         );
       case FileStatus.TRANSCRIBING:
-        return (
-          <>
-            <button
-              type="button"
-              className="btn-delete"
-              onClick={() => file.id && onDelete?.(file.id)}
-              aria-label="删除文件"
-            >
-              <span className="material-symbols-outlined text-2xl">delete</span>
-            </button>
-          </>
-        );
+        return deleteButton;
       case FileStatus.ERROR:
         return (
           <>
@@ -125,14 +250,8 @@ export default function FileCard({
                 <span>重试</span>
               )}
             </button>
-            <button
-              type="button"
-              className="btn-delete"
-              onClick={() => file.id && onDelete?.(file.id)}
-              aria-label="删除文件"
-            >
-              <span className="material-symbols-outlined text-2xl">delete</span>
-            </button>
+            {importSubtitlesButton}
+            {deleteButton}
           </>
         );
       default:
@@ -151,14 +270,8 @@ export default function FileCard({
                 <span>转录</span>
               )}
             </button>
-            <button
-              type="button"
-              className="btn-delete"
-              onClick={() => file.id && onDelete?.(file.id)}
-              aria-label="删除文件"
-            >
-              <span className="material-symbols-outlined text-2xl">delete</span>
-            </button>
+            {importSubtitlesButton}
+            {deleteButton}
           </>
         );
     }
@@ -170,6 +283,13 @@ export default function FileCard({
         <span className={`material-symbols-outlined text-4xl ${status.color}`}>{status.icon}</span>
         <div>
           <p className="text-file-name">{file.name}</p>
+          {file.source?.show && (
+            <p className="text-xs text-[var(--text-muted)]">
+              {file.source.show}
+              {file.source.publishedAt &&
+                ` · ${file.source.publishedAt.toLocaleDateString("zh-CN")}`}
+            </p>
+          )}
           <p className={`text-file-status ${status.color}`}>
             {status.type} · {status.label}
           </p>
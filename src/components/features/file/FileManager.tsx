@@ -6,7 +6,8 @@
 "use client";
 
 import { Search } from "lucide-react";
-import React, { useCallback, useState } from "react";
+import Link from "next/link";
+import React, { useCallback, useEffect, useState } from "react";
 
 import { useTranscriptionLanguage } from "@/components/layout/contexts/TranscriptionLanguageContext";
 import { Card, CardContent } from "@/components/ui/card";
@@ -19,11 +20,24 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useFiles } from "@/hooks";
-import { useFileStatus, useFileStatusManager } from "@/hooks/useFileStatus";
+import { type LibraryScope, useLibraryOrganization } from "@/hooks/db/useCollections";
+import { useAudioPreprocessSettings } from "@/hooks/ui/useAudioPreprocessSettings";
+import {
+  useBatchFileStatus,
+  useFileStatus,
+  useFileStatusManager,
+  useTranscriptionQueue,
+} from "@/hooks/useFileStatus";
+import { ROUTES } from "@/lib/config/routes";
+import { type AudioCompressionSummary, preprocessAudioFiles } from "@/lib/utils/audio-preprocess";
+import { cn } from "@/lib/utils/utils";
 import type { FileRow } from "@/types/db/database";
 import { FileStatus } from "@/types/db/database";
 import FileCard from "./FileCard";
 import FileUpload from "./FileUpload";
+import { LibraryBulkActions } from "./LibraryBulkActions";
+import { LibrarySidebar } from "./LibrarySidebar";
+import { UrlImportPanel } from "./UrlImportPanel";
 
 interface FileManagerProps {
   className?: string;
@@ -32,13 +46,96 @@ interface FileManagerProps {
 export default function FileManager({ className }: FileManagerProps) {
   // 基础状态
   const [searchQuery, setSearchQuery] = useState("");
-  const [sortBy, setSortBy] = useState<"name" | "date" | "size">("date");
+  const [sortBy, setSortBy] = useState<"name" | "date" | "size" | "position">("date");
   const [filterBy, setFilterBy] = useState<"all" | "transcribed" | "untranscribed">("all");
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [isCompressing, setIsCompressing] = useState(false);
+  const [compressionSummary, setCompressionSummary] = useState<AudioCompressionSummary | null>(
+    null,
+  );
+
+  // 正在拖动排序的队列任务
+  const [draggedFileId, setDraggedFileId] = useState<number | null>(null);
+
+  // 侧边栏选择的合集 / 标签，以及批量操作选中的文件
+  const [scope, setScope] = useState<LibraryScope>({ type: "all" });
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
 
   // Hooks
-  const { files, addFiles, deleteFile } = useFiles();
+  const { files, addFiles, deleteFile, deleteFiles } = useFiles();
+  const queueState = useTranscriptionQueue();
+  const { pauseQueue, resumeQueue, reorderQueue, startBatchTranscription } = useBatchFileStatus();
+  const organization = useLibraryOrganization(scope);
+  const { refresh: refreshOrganization, scopeFileIds, reorderCollection } = organization;
+  const { language } = useTranscriptionLanguage();
+  const { settings: preprocessSettings, updateSettings: updatePreprocessSettings } =
+    useAudioPreprocessSettings();
+
+  // 上传或删除文件后合集的文件数、未归入合集的文件都会变化，已删除的文件也要取消选择
+  useEffect(() => {
+    refreshOrganization();
+    const existing = new Set(files?.map((file) => file.id));
+    setSelectedIds((prev) => {
+      const next = prev.filter((id) => existing.has(id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [files, refreshOrganization]);
+
+  const handleScopeChange = useCallback((next: LibraryScope) => {
+    setScope(next);
+    setSelectedIds([]);
+    // 合集默认按合集内顺序显示
+    setSortBy((prev) =>
+      next.type === "collection" ? "position" : prev === "position" ? "date" : prev,
+    );
+  }, []);
+
+  const toggleSelected = useCallback((fileId: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(fileId) ? prev.filter((id) => id !== fileId) : [...prev, fileId],
+    );
+  }, []);
+
+  const handleBulkTranscribe = useCallback(
+    async (fileIds: number[]) => {
+      const { toast } = await import("sonner");
+      try {
+        await startBatchTranscription(fileIds, language);
+        toast.success(`已将 ${fileIds.length} 个文件加入转录队列`);
+      } catch (error) {
+        toast.error(`加入转录队列失败: ${error instanceof Error ? error.message : "未知错误"}`);
+      }
+    },
+    [startBatchTranscription, language],
+  );
+
+  const handleBulkDelete = useCallback(
+    async (fileIds: number[]) => {
+      const { toast } = await import("sonner");
+      try {
+        await deleteFiles(fileIds);
+        toast.success(`已删除 ${fileIds.length} 个文件`);
+      } catch (error) {
+        toast.error(`删除失败: ${error instanceof Error ? error.message : "未知错误"}`);
+      }
+    },
+    [deleteFiles],
+  );
+
+  // 在合集内上移 / 下移一个文件
+  const handleMoveInCollection = useCallback(
+    (fileId: number, offset: number) => {
+      if (scope.type !== "collection" || !scopeFileIds) return;
+      const order = [...scopeFileIds];
+      const index = order.indexOf(fileId);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= order.length) return;
+      [order[index], order[target]] = [order[target], order[index]];
+      reorderCollection({ collectionId: scope.collectionId, fileIds: order });
+    },
+    [scope, scopeFileIds, reorderCollection],
+  );
 
   // 统一文件ID处理为字符串
   const handleDeleteFile = useCallback(
@@ -48,6 +145,28 @@ export default function FileManager({ className }: FileManagerProps) {
     [deleteFile],
   );
 
+  // 将拖动的队列任务移动到目标任务的位置
+  const handleQueueDrop = useCallback(
+    (targetFileId: number) => {
+      if (draggedFileId === null || draggedFileId === targetFileId) {
+        return;
+      }
+
+      const order = queueState.tasks
+        .map((task) => task.fileId)
+        .filter((fileId) => fileId !== draggedFileId);
+      const targetIndex = order.indexOf(targetFileId);
+      if (targetIndex === -1) {
+        return;
+      }
+
+      order.splice(targetIndex, 0, draggedFileId);
+      reorderQueue(order);
+      setDraggedFileId(null);
+    },
+    [draggedFileId, queueState.tasks, reorderQueue],
+  );
+
   // 处理播放
   const handlePlayFile = useCallback((fileId: number) => {
     window.location.href = `/player/${fileId}`;
@@ -59,25 +178,12 @@ export default function FileManager({ className }: FileManagerProps) {
       try {
         setIsUploading(true);
         setUploadProgress(0);
+        setCompressionSummary(null);
 
-        // 检查文件数量限制
-        const currentFileCount = files?.length || 0;
-        const maxFiles = 5;
-        const remainingSlots = maxFiles - currentFileCount;
-
-        if (remainingSlots <= 0) {
-          const { toast } = await import("sonner");
-          toast.error(`已达到最大文件数量限制 (${maxFiles}个文件)`);
-          setIsUploading(false);
-          return;
-        }
-
-        // 如果选择的文件超过剩余槽位，只取前面的文件
-        const filesToAdd = selectedFiles.slice(0, remainingSlots);
-        if (filesToAdd.length < selectedFiles.length) {
-          const { toast } = await import("sonner");
-          toast.warning(`只能添加 ${remainingSlots} 个文件，已达到最大限制`);
-        }
+        // 可选的压缩：混合为单声道、重采样到 16kHz 并编码为更小的格式
+        setIsCompressing(preprocessSettings.enabled);
+        const prepared = await preprocessAudioFiles(selectedFiles, preprocessSettings);
+        setIsCompressing(false);
 
         // 模拟上传进度
         const progressInterval = setInterval(() => {
@@ -90,13 +196,14 @@ export default function FileManager({ className }: FileManagerProps) {
           });
         }, 200); // 从100ms增加到200ms，减少轮询频率
 
-        await addFiles(filesToAdd);
+        await addFiles(prepared.files, undefined, prepared.audioTracks);
 
         clearInterval(progressInterval);
         setUploadProgress(100);
+        setCompressionSummary(prepared.summary);
 
         const { toast } = await import("sonner");
-        toast.success(`成功上传 ${filesToAdd.length} 个文件`);
+        toast.success(`成功上传 ${selectedFiles.length} 个文件`);
 
         setTimeout(() => {
           setIsUploading(false);
@@ -105,17 +212,24 @@ export default function FileManager({ className }: FileManagerProps) {
       } catch (error) {
         const { toast } = await import("sonner");
         toast.error(`文件上传失败: ${error instanceof Error ? error.message : "未知错误"}`);
+        setIsCompressing(false);
         setIsUploading(false);
         setUploadProgress(0);
       }
     },
-    [addFiles, files?.length],
+    [addFiles, preprocessSettings],
   );
 
   // 过滤和排序文件
   const filteredFiles = React.useMemo(() => {
     let filtered = files || [];
 
+    // 合集 / 标签过滤
+    if (scopeFileIds) {
+      const scoped = new Set(scopeFileIds);
+      filtered = filtered.filter((file) => file.id !== undefined && scoped.has(file.id));
+    }
+
     // 搜索过滤
     if (searchQuery) {
       filtered = filtered.filter((file) =>
@@ -137,8 +251,11 @@ export default function FileManager({ className }: FileManagerProps) {
     }
 
     // 排序
+    const positions = new Map(scopeFileIds?.map((fileId, index) => [fileId, index]));
     return filtered.sort((a, b) => {
       switch (sortBy) {
+        case "position":
+          return (positions.get(a.id ?? 0) ?? 0) - (positions.get(b.id ?? 0) ?? 0);
         case "name":
           return a.name.localeCompare(b.name);
         case "size":
@@ -147,7 +264,12 @@ export default function FileManager({ className }: FileManagerProps) {
           return (b.uploadedAt?.getTime() || 0) - (a.uploadedAt?.getTime() || 0);
       }
     });
-  }, [files, searchQuery, sortBy, filterBy]);
+  }, [files, searchQuery, sortBy, filterBy, scopeFileIds]);
+
+  const visibleIds = filteredFiles.flatMap((file) => (file.id ? [file.id] : []));
+  const allVisibleSelected =
+    visibleIds.length > 0 && visibleIds.every((id) => selectedIds.includes(id));
+  const canReorder = scope.type === "collection" && sortBy === "position";
 
   return (
     <div className={`space-y-6 ${className}`}>
@@ -158,82 +280,188 @@ export default function FileManager({ className }: FileManagerProps) {
           isUploading={isUploading}
           uploadProgress={uploadProgress}
           currentFileCount={files?.length || 0}
-          maxFiles={5}
+          preprocessSettings={preprocessSettings}
+          onPreprocessSettingsChange={updatePreprocessSettings}
+          isCompressing={isCompressing}
+          compressionSummary={compressionSummary}
         />
+        <UrlImportPanel className="mt-4" files={files || []} onFilesReady={addFiles} />
       </div>
 
-      {/* 搜索和过滤器 */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        {/* 搜索框 */}
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="搜索文件..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
-        </div>
+      <div className="grid gap-6 lg:grid-cols-[14rem_1fr]">
+        {/* 合集和标签 */}
+        <LibrarySidebar
+          scope={scope}
+          onScopeChange={handleScopeChange}
+          organization={organization}
+          totalFiles={files?.length || 0}
+        />
 
-        {/* 过滤器 */}
-        <Select
-          value={filterBy}
-          onValueChange={(value: "all" | "transcribed" | "untranscribed") => setFilterBy(value)}
-        >
-          <SelectTrigger className="w-full sm:w-40">
-            <SelectValue placeholder="状态过滤" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">全部文件</SelectItem>
-            <SelectItem value="transcribed">已转录</SelectItem>
-            <SelectItem value="untranscribed">未转录</SelectItem>
-          </SelectContent>
-        </Select>
-
-        {/* 排序 */}
-        <Select
-          value={sortBy}
-          onValueChange={(value: "name" | "date" | "size") => setSortBy(value)}
-        >
-          <SelectTrigger className="w-full sm:w-40">
-            <SelectValue placeholder="排序方式" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="date">按日期</SelectItem>
-            <SelectItem value="name">按名称</SelectItem>
-            <SelectItem value="size">按大小</SelectItem>
-          </SelectContent>
-        </Select>
-      </div>
+        <div className="min-w-0 space-y-6">
+          {/* 搜索和过滤器 */}
+          <div className="flex flex-col sm:flex-row gap-4">
+            {/* 搜索框 */}
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="搜索文件..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
 
-      {/* 文件列表 */}
-      <div>
-        <h2 className="text-2xl font-bold mb-4 text-[var(--text-primary)]">文件列表</h2>
-        <div className="space-y-4">
-          {filteredFiles.length === 0 ? (
-            <Card>
-              <CardContent className="flex flex-col items-center justify-center py-12">
-                <div className="text-6xl mb-4">🎵</div>
-                <h3 className="text-lg font-semibold mb-2">
-                  {searchQuery ? "没有找到匹配的文件" : "还没有上传任何文件"}
-                </h3>
-                <p className="text-muted-foreground text-center mb-4">
-                  {searchQuery ? "尝试调整搜索条件或过滤器" : "上传音频文件开始使用转录功能"}
-                </p>
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="space-y-4">
-              {filteredFiles.map((file) => (
-                <FileCardWrapper
-                  key={file.id}
-                  file={file}
-                  onPlay={handlePlayFile}
-                  onDelete={handleDeleteFile}
+            {/* 过滤器 */}
+            <Select
+              value={filterBy}
+              onValueChange={(value: "all" | "transcribed" | "untranscribed") => setFilterBy(value)}
+            >
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue placeholder="状态过滤" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">全部文件</SelectItem>
+                <SelectItem value="transcribed">已转录</SelectItem>
+                <SelectItem value="untranscribed">未转录</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {/* 排序 */}
+            <Select
+              value={sortBy}
+              onValueChange={(value: "name" | "date" | "size" | "position") => setSortBy(value)}
+            >
+              <SelectTrigger className="w-full sm:w-40">
+                <SelectValue placeholder="排序方式" />
+              </SelectTrigger>
+              <SelectContent>
+                {scope.type === "collection" && <SelectItem value="position">合集顺序</SelectItem>}
+                <SelectItem value="date">按日期</SelectItem>
+                <SelectItem value="name">按名称</SelectItem>
+                <SelectItem value="size">按大小</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {searchQuery.trim() && (
+            <Link
+              href={`${ROUTES.SEARCH}?q=${encodeURIComponent(searchQuery.trim())}`}
+              className="-mt-4 inline-block text-sm text-[var(--text-muted)] hover:underline"
+            >
+              在所有字幕中搜索“{searchQuery.trim()}”
+            </Link>
+          )}
+
+          {selectedIds.length > 0 && (
+            <LibraryBulkActions
+              selectedIds={selectedIds}
+              scope={scope}
+              organization={organization}
+              onTranscribe={handleBulkTranscribe}
+              onDelete={handleBulkDelete}
+              onClearSelection={() => setSelectedIds([])}
+            />
+          )}
+
+          {/* 文件列表 */}
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={allVisibleSelected}
+                  onChange={() =>
+                    setSelectedIds((prev) =>
+                      allVisibleSelected
+                        ? prev.filter((id) => !visibleIds.includes(id))
+                        : [...new Set([...prev, ...visibleIds])],
+                    )
+                  }
+                  disabled={visibleIds.length === 0}
+                  aria-label="全选当前列表"
                 />
-              ))}
+                <h2 className="text-2xl font-bold text-[var(--text-primary)]">文件列表</h2>
+              </div>
+              {queueState.tasks.length > 0 && (
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-[var(--text-muted)]">
+                    {queueState.paused ? "队列已暂停" : "转录队列"} · {queueState.tasks.length}{" "}
+                    个任务
+                  </span>
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={queueState.paused ? resumeQueue : pauseQueue}
+                    aria-label={queueState.paused ? "继续转录队列" : "暂停转录队列"}
+                    title={queueState.paused ? "继续转录队列" : "暂停转录队列"}
+                  >
+                    <span className="material-symbols-outlined">
+                      {queueState.paused ? "play_arrow" : "pause"}
+                    </span>
+                  </button>
+                </div>
+              )}
             </div>
-          )}
+            <div className="space-y-4">
+              {filteredFiles.length === 0 ? (
+                <Card>
+                  <CardContent className="flex flex-col items-center justify-center py-12">
+                    <div className="text-6xl mb-4">🎵</div>
+                    <h3 className="text-lg font-semibold mb-2">
+                      {searchQuery
+                        ? "没有找到匹配的文件"
+                        : scope.type !== "all"
+                          ? "这里还没有文件"
+                          : "还没有上传任何文件"}
+                    </h3>
+                    <p className="text-muted-foreground text-center mb-4">
+                      {searchQuery
+                        ? "尝试调整搜索条件或过滤器"
+                        : scope.type !== "all"
+                          ? "在全部文件中勾选文件，即可加入合集或添加标签"
+                          : "上传音频文件开始使用转录功能"}
+                    </p>
+                  </CardContent>
+                </Card>
+              ) : (
+                <ul className="space-y-4" aria-label="文件列表">
+                  {filteredFiles.map((file, index) => (
+                    <FileCardWrapper
+                      key={file.id}
+                      file={file}
+                      onPlay={handlePlayFile}
+                      onDelete={handleDeleteFile}
+                      isDraggingQueueTask={draggedFileId !== null}
+                      onQueueDragStart={setDraggedFileId}
+                      onQueueDragEnd={() => setDraggedFileId(null)}
+                      onQueueDrop={handleQueueDrop}
+                      isSelected={file.id !== undefined && selectedIds.includes(file.id)}
+                      onToggleSelect={toggleSelected}
+                      tags={(file.id && organization.fileTags?.get(file.id)) || []}
+                      onTagClick={(tag) => handleScopeChange({ type: "tag", tag })}
+                      onRemoveTag={(fileId, tag) =>
+                        organization.removeTag({ tag, fileIds: [fileId] })
+                      }
+                      onMoveInCollection={
+                        canReorder
+                          ? {
+                              up:
+                                index > 0
+                                  ? (fileId) => handleMoveInCollection(fileId, -1)
+                                  : undefined,
+                              down:
+                                index < filteredFiles.length - 1
+                                  ? (fileId) => handleMoveInCollection(fileId, 1)
+                                  : undefined,
+                            }
+                          : undefined
+                      }
+                    />
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -247,39 +475,76 @@ function FileCardWrapper({
   file,
   onPlay,
   onDelete,
+  isDraggingQueueTask,
+  onQueueDragStart,
+  onQueueDragEnd,
+  onQueueDrop,
+  isSelected,
+  onToggleSelect,
+  tags,
+  onTagClick,
+  onRemoveTag,
+  onMoveInCollection,
 }: {
   file: FileRow;
   onPlay: (fileId: number) => void;
   onDelete: (fileId: number) => void;
+  isDraggingQueueTask: boolean;
+  onQueueDragStart: (fileId: number) => void;
+  onQueueDragEnd: () => void;
+  onQueueDrop: (targetFileId: number) => void;
+  isSelected: boolean;
+  onToggleSelect: (fileId: number) => void;
+  tags: string[];
+  onTagClick: (tag: string) => void;
+  onRemoveTag: (fileId: number, tag: string) => void;
+  /** 只在按合集顺序浏览时提供，首尾项对应的方向为空 */
+  onMoveInCollection?: {
+    up?: (fileId: number) => void;
+    down?: (fileId: number) => void;
+  };
 }) {
   // Hooks must be called before any early returns - 添加空值检查
   const { data: statusData, isLoading } = useFileStatus(file.id || 0);
-  const { startTranscription, isTranscribing } = useFileStatusManager(file.id || 0);
+  const {
+    startTranscription,
+    cancelTranscription,
+    pauseTranscription,
+    resumeTranscription,
+    setTranscriptionPriority,
+    importSubtitles,
+    queueTask,
+    isTranscribing,
+  } = useFileStatusManager(file.id || 0);
   const { language } = useTranscriptionLanguage();
 
   // 优雅地处理可能缺失的 file.id
   if (!file.id) {
     console.warn("FileCardWrapper: file.id is missing", file);
     return (
-      <Card>
-        <CardContent className="p-4">
-          <div className="text-center text-gray-500">文件信息不完整</div>
-        </CardContent>
-      </Card>
+      <li>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-center text-gray-500">文件信息不完整</div>
+          </CardContent>
+        </Card>
+      </li>
     );
   }
 
   if (isLoading || !statusData) {
     return (
-      <Card>
-        <CardContent className="p-4">
-          <div className="animate-pulse space-y-3">
-            <div className="h-4 bg-gray-200 rounded w-3/4"></div>
-            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
-            <div className="h-8 bg-gray-200 rounded"></div>
-          </div>
-        </CardContent>
-      </Card>
+      <li>
+        <Card>
+          <CardContent className="p-4">
+            <div className="animate-pulse space-y-3">
+              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+              <div className="h-8 bg-gray-200 rounded"></div>
+            </div>
+          </CardContent>
+        </Card>
+      </li>
     );
   }
 
@@ -294,13 +559,102 @@ function FileCardWrapper({
     startTranscription(language);
   };
 
+  const fileId = file.id;
+  // 等待中和已暂停的任务可以拖动调整顺序
+  const isReorderable = queueTask !== null && queueTask.status !== "processing";
+
+  // 列表项本身就是拖放目标，键盘用户可通过优先级选择调整队列顺序
   return (
-    <FileCard
-      file={fileWithStatus}
-      onPlay={onPlay}
-      onDelete={onDelete}
-      onTranscribe={() => handleTranscribe()}
-      isTranscribing={isTranscribing}
-    />
+    <li
+      draggable={isReorderable}
+      onDragStart={(event) => {
+        if (!isReorderable) return;
+        event.dataTransfer.effectAllowed = "move";
+        onQueueDragStart(fileId);
+      }}
+      onDragEnd={onQueueDragEnd}
+      onDragOver={(event) => {
+        if (isDraggingQueueTask && queueTask) {
+          event.preventDefault();
+        }
+      }}
+      onDrop={(event) => {
+        event.preventDefault();
+        onQueueDrop(fileId);
+      }}
+      className={cn("flex items-start gap-3", isReorderable && "cursor-grab")}
+    >
+      <input
+        type="checkbox"
+        className="mt-6 h-4 w-4 shrink-0"
+        checked={isSelected}
+        onChange={() => onToggleSelect(fileId)}
+        aria-label={`选择 ${file.name}`}
+      />
+      <div className="min-w-0 flex-1 space-y-2">
+        <FileCard
+          file={fileWithStatus}
+          onPlay={onPlay}
+          onDelete={onDelete}
+          onTranscribe={() => handleTranscribe()}
+          onImportSubtitles={(_fileId, subtitleFile) => {
+            importSubtitles(subtitleFile).catch(() => {});
+          }}
+          isTranscribing={isTranscribing}
+          queueTask={queueTask}
+          onPauseTranscription={pauseTranscription}
+          onResumeTranscription={resumeTranscription}
+          onCancelTranscription={cancelTranscription}
+          onPriorityChange={(_fileId, priority) => setTranscriptionPriority(priority)}
+        />
+        {tags.length > 0 && (
+          <ul className="flex flex-wrap gap-1" aria-label="标签">
+            {tags.map((tag) => (
+              <li
+                key={tag}
+                className="flex items-center rounded-full bg-[var(--surface-muted)] text-xs text-[var(--text-secondary)]"
+              >
+                <button type="button" className="py-0.5 pl-2" onClick={() => onTagClick(tag)}>
+                  #{tag}
+                </button>
+                <button
+                  type="button"
+                  className="px-1.5 py-0.5 hover:text-[var(--state-error-text)]"
+                  onClick={() => onRemoveTag(fileId, tag)}
+                  aria-label={`移除标签 ${tag}`}
+                  title="移除标签"
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {onMoveInCollection && (
+        <div className="mt-3 flex shrink-0 flex-col">
+          <button
+            type="button"
+            className="rounded p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-30"
+            onClick={() => onMoveInCollection.up?.(fileId)}
+            disabled={!onMoveInCollection.up}
+            aria-label="在合集中上移"
+            title="上移"
+          >
+            <span className="material-symbols-outlined">arrow_upward</span>
+          </button>
+          <button
+            type="button"
+            className="rounded p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-30"
+            onClick={() => onMoveInCollection.down?.(fileId)}
+            disabled={!onMoveInCollection.down}
+            aria-label="在合集中下移"
+            title="下移"
+          >
+            <span className="material-symbols-outlined">arrow_downward</span>
+          </button>
+        </div>
+      )}
+    </li>
   );
 }
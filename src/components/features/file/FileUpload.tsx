@@ -1,6 +1,11 @@
 "use client";
 
 import { useCallback, useId, useRef, useState } from "react";
+import type {
+  AudioCompressionSummary,
+  AudioPreprocessSettings,
+} from "@/lib/utils/audio-preprocess";
+import { formatFileSize } from "@/lib/utils/utils";
 
 interface FileUploadProps {
   onFilesSelected: (files: File[]) => void;
@@ -8,7 +13,13 @@ interface FileUploadProps {
   uploadProgress?: number;
   className?: string;
   currentFileCount?: number; // 当前已上传的文件数量
-  maxFiles?: number; // 最大文件数量限制
+  maxFiles?: number; // 最大文件数量限制，不传则不限制
+  /** 上传前压缩音频的设置，不传则不显示压缩选项 */
+  preprocessSettings?: AudioPreprocessSettings;
+  onPreprocessSettingsChange?: (patch: Partial<AudioPreprocessSettings>) => void;
+  isCompressing?: boolean;
+  /** 最近一次上传压缩前后的大小 */
+  compressionSummary?: AudioCompressionSummary | null;
 }
 
 export default function FileUpload({
@@ -17,7 +28,11 @@ export default function FileUpload({
   uploadProgress = 0,
   className = "",
   currentFileCount = 0,
-  maxFiles = 5,
+  maxFiles = Number.POSITIVE_INFINITY,
+  preprocessSettings,
+  onPreprocessSettingsChange,
+  isCompressing = false,
+  compressionSummary = null,
 }: FileUploadProps) {
   const [isDragActive, setIsDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -30,7 +45,7 @@ export default function FileUpload({
       const fileArray = Array.from(files);
       setIsDragActive(false);
 
-      // 文件类型过滤
+      // 文件类型过滤，视频文件导入后会提取音轨
       const audioFiles = fileArray.filter((file) => {
         const validTypes = [
           "audio/mp3",
@@ -41,17 +56,22 @@ export default function FileUpload({
           "audio/mp4",
           "audio/ogg",
           "audio/flac",
+          "video/mp4",
+          "video/webm",
         ];
-        return validTypes.includes(file.type) || file.name.match(/\.(mp3|wav|m4a|ogg|flac)$/i);
+        return (
+          validTypes.includes(file.type) ||
+          file.name.match(/\.(mp3|wav|m4a|ogg|flac|mp4|m4v|webm)$/i)
+        );
       });
 
       if (audioFiles.length === 0) {
-        console.error("没有有效的音频文件");
+        console.error("没有有效的音频或视频文件");
         return;
       }
 
       if (audioFiles.length < fileArray.length) {
-        console.warn(`${fileArray.length - audioFiles.length} 个文件不是支持的音频格式，已忽略`);
+        console.warn(`${fileArray.length - audioFiles.length} 个文件不是支持的格式，已忽略`);
       }
 
       // 检查文件数量限制
@@ -121,6 +141,7 @@ export default function FileUpload({
 
   const isDisabled = isUploading || currentFileCount >= maxFiles;
   const remainingSlots = maxFiles - currentFileCount;
+  const hasFileLimit = Number.isFinite(maxFiles);
 
   return (
     <div className={className}>
@@ -149,10 +170,10 @@ export default function FileUpload({
           ref={fileInputRef}
           type="file"
           multiple
-          accept="audio/*"
+          accept="audio/*,video/mp4,video/webm"
           onChange={handleFileInputChange}
           className="hidden"
-          aria-label="选择音频文件"
+          aria-label="选择音频或视频文件"
         />
 
         <span
@@ -186,18 +207,60 @@ export default function FileUpload({
           <p className="text-sm text-[var(--text-muted)]">
             {currentFileCount >= maxFiles
               ? `最多支持 ${maxFiles} 个文件`
-              : `支持 MP3、WAV、M4A、OGG、FLAC 格式`}
+              : `支持 MP3、WAV、M4A、OGG、FLAC 音频及 MP4、WebM 视频`}
           </p>
-          {currentFileCount < maxFiles && remainingSlots > 0 && (
+          {hasFileLimit && currentFileCount < maxFiles && remainingSlots > 0 && (
             <p className="text-xs text-[var(--text-muted)]">还可添加 {remainingSlots} 个文件</p>
           )}
         </div>
       </section>
 
+      {/* 上传前压缩选项 */}
+      {preprocessSettings && onPreprocessSettingsChange && (
+        <div className="mt-3 flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-sm text-[var(--text-secondary)]">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={preprocessSettings.enabled}
+              onChange={(event) => onPreprocessSettingsChange({ enabled: event.target.checked })}
+              disabled={isUploading}
+            />
+            上传前压缩音频（单声道 16kHz）
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={preprocessSettings.keepOriginal}
+              onChange={(event) =>
+                onPreprocessSettingsChange({ keepOriginal: event.target.checked })
+              }
+              disabled={isUploading || !preprocessSettings.enabled}
+            />
+            保留原始文件用于播放
+          </label>
+        </div>
+      )}
+
+      {compressionSummary && !isUploading && (
+        <p className="mt-2 text-center text-sm text-[var(--state-success-text)]" aria-live="polite">
+          已压缩 {compressionSummary.fileCount} 个文件：
+          {formatFileSize(compressionSummary.originalSize)} →{" "}
+          {formatFileSize(compressionSummary.compressedSize)}，节省{" "}
+          {Math.round(
+            (1 - compressionSummary.compressedSize / compressionSummary.originalSize) * 100,
+          )}
+          %
+        </p>
+      )}
+
       {/* 上传进度指示器 */}
       {isUploading && (
         <div className="mt-4 text-center">
-          <p className="mb-2 text-sm text-[var(--text-muted)]">上传中... {uploadProgress}%</p>
+          <p className="mb-2 text-sm text-[var(--text-muted)]">
+            {isCompressing ? "正在压缩音频..." : `上传中... ${uploadProgress}%`}
+          </p>
           <div className="h-2 w-full rounded-full bg-[var(--border-muted)]">
             <div
               className="bg-[var(--button-color)] h-2 rounded-full transition-all duration-300"
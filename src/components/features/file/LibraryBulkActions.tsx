@@ -0,0 +1,169 @@
+/**
+ * 文件批量操作栏
+ * 对选中的文件执行移动到合集、添加标签、转录和删除
+ */
+
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { LibraryOrganizationControls, LibraryScope } from "@/hooks/db/useCollections";
+
+interface LibraryBulkActionsProps {
+  selectedIds: number[];
+  scope: LibraryScope;
+  organization: LibraryOrganizationControls;
+  onTranscribe: (fileIds: number[]) => Promise<void>;
+  onDelete: (fileIds: number[]) => Promise<void>;
+  onClearSelection: () => void;
+}
+
+export function LibraryBulkActions({
+  selectedIds,
+  scope,
+  organization,
+  onTranscribe,
+  onDelete,
+  onClearSelection,
+}: LibraryBulkActionsProps) {
+  const [tagInput, setTagInput] = useState("");
+  // 确认删除时的选择，选择变化后需要重新确认
+  const [confirmedSelection, setConfirmedSelection] = useState<number[] | null>(null);
+  const confirmingDelete = confirmedSelection === selectedIds;
+  const [isBusy, setIsBusy] = useState(false);
+  const currentCollectionId = scope.type === "collection" ? scope.collectionId : undefined;
+  const targets = organization.collections.filter(
+    (collection) => collection.id !== currentCollectionId,
+  );
+
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleMove = (value: string) =>
+    run(async () => {
+      const moved = await organization.moveFiles({
+        fileIds: selectedIds,
+        toCollectionId: Number(value),
+        fromCollectionId: currentCollectionId,
+      });
+      if (moved && currentCollectionId !== undefined) onClearSelection();
+    });
+
+  const handleAddTags = (event: FormEvent) => {
+    event.preventDefault();
+    const tags = tagInput.split(/[,，]/);
+    run(async () => {
+      if (await organization.addTags({ fileIds: selectedIds, tags })) {
+        setTagInput("");
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!confirmingDelete) {
+      setConfirmedSelection(selectedIds);
+      return;
+    }
+    run(async () => {
+      await onDelete(selectedIds);
+      onClearSelection();
+    });
+  };
+
+  return (
+    <section
+      className="card-default flex flex-wrap items-center gap-3 p-3"
+      aria-label="批量操作"
+      aria-live="polite"
+    >
+      <span className="text-sm font-medium text-[var(--text-primary)]">
+        已选择 {selectedIds.length} 个文件
+      </span>
+
+      <Select value="" onValueChange={handleMove} disabled={isBusy || targets.length === 0}>
+        <SelectTrigger className="w-40" aria-label="移动到合集">
+          <SelectValue placeholder={currentCollectionId ? "移动到合集" : "加入合集"} />
+        </SelectTrigger>
+        <SelectContent>
+          {targets.map((collection) => (
+            <SelectItem key={collection.id} value={String(collection.id)}>
+              {collection.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {currentCollectionId !== undefined && (
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={() =>
+            run(async () => {
+              if (
+                await organization.removeFromCollection({
+                  collectionId: currentCollectionId,
+                  fileIds: selectedIds,
+                })
+              ) {
+                onClearSelection();
+              }
+            })
+          }
+          disabled={isBusy}
+          title="移出当前合集（文件保留）"
+        >
+          <span>移出合集</span>
+        </button>
+      )}
+
+      <form className="flex items-center gap-1" onSubmit={handleAddTags}>
+        <Input
+          value={tagInput}
+          onChange={(event) => setTagInput(event.target.value)}
+          placeholder="标签，用逗号分隔"
+          className="w-44"
+          aria-label="要添加的标签"
+        />
+        <button type="submit" className="btn-secondary" disabled={isBusy || !tagInput.trim()}>
+          <span>添加标签</span>
+        </button>
+      </form>
+
+      <button
+        type="button"
+        className="btn-secondary"
+        onClick={() => run(() => onTranscribe(selectedIds))}
+        disabled={isBusy}
+      >
+        <span>转录</span>
+      </button>
+
+      <button type="button" className="btn-delete" onClick={handleDelete} disabled={isBusy}>
+        <span>{confirmingDelete ? `确认删除 ${selectedIds.length} 个文件` : "删除"}</span>
+      </button>
+
+      <button
+        type="button"
+        className="ml-auto rounded p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+        onClick={onClearSelection}
+        aria-label="取消选择"
+        title="取消选择"
+      >
+        <span className="material-symbols-outlined">close</span>
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,178 @@
+/**
+ * 文件库侧边栏
+ * 按合集或标签浏览文件，并可新建、重命名和删除合集
+ */
+
+"use client";
+
+import { type FormEvent, useState } from "react";
+import { Input } from "@/components/ui/input";
+import type { LibraryOrganizationControls, LibraryScope } from "@/hooks/db/useCollections";
+import { cn } from "@/lib/utils/utils";
+
+interface LibrarySidebarProps {
+  scope: LibraryScope;
+  onScopeChange: (scope: LibraryScope) => void;
+  organization: LibraryOrganizationControls;
+  totalFiles: number;
+  className?: string;
+}
+
+function isSameScope(a: LibraryScope, b: LibraryScope): boolean {
+  if (a.type !== b.type) return false;
+  if (a.type === "collection" && b.type === "collection") return a.collectionId === b.collectionId;
+  if (a.type === "tag" && b.type === "tag") return a.tag === b.tag;
+  return true;
+}
+
+export function LibrarySidebar({
+  scope,
+  onScopeChange,
+  organization,
+  totalFiles,
+  className,
+}: LibrarySidebarProps) {
+  const { collections, tags } = organization;
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+    if (await organization.createCollection(newName)) {
+      setNewName("");
+    }
+  };
+
+  const handleRename = async (event: FormEvent, id: number) => {
+    event.preventDefault();
+    if (await organization.renameCollection({ id, name: editingName })) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (await organization.deleteCollection(id)) {
+      if (scope.type === "collection" && scope.collectionId === id) {
+        onScopeChange({ type: "all" });
+      }
+    }
+  };
+
+  const scopeButton = (target: LibraryScope, icon: string, label: string, count?: number) => {
+    const isActive = isSameScope(scope, target);
+    return (
+      <button
+        type="button"
+        className={cn(
+          "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm",
+          isActive
+            ? "bg-[var(--player-highlight-bg)] font-medium text-[var(--text-primary)]"
+            : "text-[var(--text-secondary)] hover:bg-[var(--surface-muted)]",
+        )}
+        onClick={() => onScopeChange(target)}
+        aria-current={isActive ? "true" : undefined}
+      >
+        <span className="material-symbols-outlined text-lg">{icon}</span>
+        <span className="flex-1 truncate">{label}</span>
+        {count !== undefined && <span className="text-xs text-[var(--text-muted)]">{count}</span>}
+      </button>
+    );
+  };
+
+  return (
+    <nav className={cn("space-y-6", className)} aria-label="文件库">
+      <div className="space-y-1">
+        {scopeButton({ type: "all" }, "library_music", "全部文件", totalFiles)}
+        {scopeButton({ type: "uncollected" }, "inbox", "未归入合集")}
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="px-2 text-xs font-medium text-[var(--text-muted)]">合集</h3>
+        <ul className="space-y-1">
+          {collections.map((collection) => (
+            <li key={collection.id} className="group flex items-center gap-1">
+              {editingId === collection.id ? (
+                <form
+                  className="flex-1"
+                  onSubmit={(event) => handleRename(event, collection.id)}
+                  onReset={() => setEditingId(null)}
+                >
+                  <Input
+                    value={editingName}
+                    onChange={(event) => setEditingName(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === "Escape") setEditingId(null);
+                    }}
+                    aria-label="合集名称"
+                    autoFocus
+                  />
+                </form>
+              ) : (
+                <>
+                  <div className="min-w-0 flex-1">
+                    {scopeButton(
+                      { type: "collection", collectionId: collection.id },
+                      "playlist_play",
+                      collection.name,
+                      collection.fileCount,
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    className="rounded p-1 text-[var(--text-muted)] opacity-0 hover:text-[var(--text-primary)] focus:opacity-100 group-hover:opacity-100"
+                    onClick={() => {
+                      setEditingId(collection.id);
+                      setEditingName(collection.name);
+                    }}
+                    aria-label={`重命名合集“${collection.name}”`}
+                    title="重命名"
+                  >
+                    <span className="material-symbols-outlined text-base">edit</span>
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded p-1 text-[var(--text-muted)] opacity-0 hover:text-[var(--state-error-text)] focus:opacity-100 group-hover:opacity-100"
+                    onClick={() => handleDelete(collection.id)}
+                    aria-label={`删除合集“${collection.name}”`}
+                    title="删除合集（文件保留）"
+                  >
+                    <span className="material-symbols-outlined text-base">delete</span>
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+        <form className="flex gap-1" onSubmit={handleCreate}>
+          <Input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            placeholder="新建合集..."
+            aria-label="新合集名称"
+          />
+          <button
+            type="submit"
+            className="btn-secondary"
+            disabled={!newName.trim()}
+            aria-label="新建合集"
+          >
+            <span className="material-symbols-outlined">add</span>
+          </button>
+        </form>
+      </section>
+
+      {tags.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="px-2 text-xs font-medium text-[var(--text-muted)]">标签</h3>
+          <ul className="space-y-1">
+            {tags.map(({ tag, fileCount }) => (
+              <li key={tag}>{scopeButton({ type: "tag", tag }, "sell", tag, fileCount)}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * 转录导出菜单
+ * 支持 SRT / WebVTT / TSV / JSON，并可选择附带翻译、振假名和罗马音
+ */
+
+"use client";
+
+import { useState } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  downloadExportedFiles,
+  exportTranscriptForFile,
+  SUBTITLE_EXPORT_FORMATS,
+  SUBTITLE_EXTRA_FIELDS,
+  type SubtitleExportFormat,
+  type SubtitleExtraField,
+  type SubtitleExtraMode,
+} from "@/lib/db/subtitle-export";
+
+interface TranscriptExportMenuProps {
+  fileId: number;
+  className?: string;
+}
+
+export default function TranscriptExportMenu({
+  fileId,
+  className = "btn-secondary",
+}: TranscriptExportMenuProps) {
+  const [extras, setExtras] = useState<SubtitleExtraField[]>([]);
+  const [extrasMode, setExtrasMode] = useState<SubtitleExtraMode>("lines");
+  const [wordTiming, setWordTiming] = useState(false);
+
+  const toggleExtra = (field: SubtitleExtraField, checked: boolean) => {
+    setExtras((prev) => (checked ? [...prev, field] : prev.filter((item) => item !== field)));
+  };
+
+  const handleExport = async (format: SubtitleExportFormat) => {
+    const { toast } = await import("sonner");
+
+    try {
+      const files = await exportTranscriptForFile(fileId, {
+        format,
+        extras,
+        extrasMode,
+        wordTiming,
+      });
+      downloadExportedFiles(files);
+      toast.success(`已导出 ${files.map((file) => file.fileName).join("、")}`);
+    } catch (error) {
+      toast.error(`导出失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button type="button" className={className} aria-label="导出字幕" title="导出字幕">
+          <span className="material-symbols-outlined">download</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>导出格式</DropdownMenuLabel>
+        {(Object.keys(SUBTITLE_EXPORT_FORMATS) as SubtitleExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {SUBTITLE_EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>附加内容</DropdownMenuLabel>
+        {(Object.keys(SUBTITLE_EXTRA_FIELDS) as SubtitleExtraField[]).map((field) => (
+          <DropdownMenuCheckboxItem
+            key={field}
+            checked={extras.includes(field)}
+            onCheckedChange={(checked) => toggleExtra(field, checked === true)}
+            onSelect={(event) => event.preventDefault()}
+          >
+            {SUBTITLE_EXTRA_FIELDS[field]}
+          </DropdownMenuCheckboxItem>
+        ))}
+
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={extrasMode}
+          onValueChange={(value) => setExtrasMode(value as SubtitleExtraMode)}
+        >
+          <DropdownMenuRadioItem value="lines" onSelect={(event) => event.preventDefault()}>
+            作为额外行
+          </DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="tracks" onSelect={(event) => event.preventDefault()}>
+            作为独立字幕轨
+          </DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={wordTiming}
+          onCheckedChange={(checked) => setWordTiming(checked === true)}
+          onSelect={(event) => event.preventDefault()}
+        >
+          WebVTT 逐词时间
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,285 @@
+/**
+ * 从链接导入
+ * 粘贴音频直链或播客 RSS / Atom 地址；播客可以订阅并选择单集下载到资料库
+ */
+
+"use client";
+
+import Image from "next/image";
+import { type FormEvent, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { episodeToImportItem, type UrlImportItem, useUrlImport } from "@/hooks/api/useUrlImport";
+import { formatFileSize } from "@/lib/utils/utils";
+import type { FileRow, FileSource } from "@/types/db/database";
+
+interface UrlImportPanelProps {
+  files: FileRow[];
+  onFilesReady: (files: File[], sources: FileSource[]) => Promise<void>;
+  className?: string;
+}
+
+function formatEpisodeDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours} 小时 ${minutes} 分` : `${Math.max(1, minutes)} 分钟`;
+}
+
+export function UrlImportPanel({ files, onFilesReady, className = "" }: UrlImportPanelProps) {
+  const urlImport = useUrlImport(onFilesReady);
+  const { preview, subscriptions, progress, lastCheckedAt } = urlImport;
+  const [url, setUrl] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const importedUrls = useMemo(
+    () => new Set(files.flatMap((file) => (file.source ? [file.source.url] : []))),
+    [files],
+  );
+  const feed = preview?.kind === "feed" ? preview.feed : null;
+  const subscription = feed && subscriptions.find((item) => item.feedUrl === feed.feedUrl);
+  const isBusy = urlImport.isLoadingPreview || progress !== null;
+
+  const loadPreview = async (target: string) => {
+    setSelected([]);
+    try {
+      await urlImport.loadPreview(target);
+    } catch {
+      // 错误信息通过 previewError 显示
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (url.trim()) loadPreview(url.trim());
+  };
+
+  const runImport = async (items: UrlImportItem[]) => {
+    const { toast } = await import("sonner");
+    try {
+      const { imported, failures } = await urlImport.importItems(items);
+      if (imported > 0) {
+        toast.success(`已导入 ${imported} 个文件`);
+        setSelected([]);
+      }
+      for (const { item, message } of failures) {
+        toast.error(`${item.title ?? item.url}: ${message}`);
+      }
+    } catch (error) {
+      toast.error(`导入失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    }
+  };
+
+  const toggleSubscription = async () => {
+    if (!feed) return;
+    const { toast } = await import("sonner");
+    try {
+      if (subscription) {
+        await urlImport.unsubscribe(subscription.id);
+        toast.success(`已取消订阅“${feed.title}”`);
+      } else {
+        await urlImport.subscribe(feed);
+        toast.success(`已订阅“${feed.title}”`);
+      }
+    } catch (error) {
+      toast.error(`操作失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    }
+  };
+
+  const selectableEpisodes = feed?.episodes.filter(
+    (episode) => !importedUrls.has(episode.audioUrl),
+  );
+
+  return (
+    <section className={`card-default space-y-4 p-4 ${className}`} aria-label="从链接导入">
+      <form className="flex gap-2" onSubmit={handleSubmit}>
+        <Input
+          type="url"
+          value={url}
+          onChange={(event) => setUrl(event.target.value)}
+          placeholder="粘贴音频链接或播客 RSS 地址"
+          aria-label="音频或播客订阅链接"
+        />
+        <button type="submit" className="btn-primary" disabled={isBusy || !url.trim()}>
+          <span>{urlImport.isLoadingPreview ? "读取中..." : "读取"}</span>
+        </button>
+      </form>
+
+      {subscriptions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-[var(--text-muted)]">我的订阅</span>
+          {subscriptions.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              className="rounded-full bg-[var(--surface-muted)] px-3 py-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+              onClick={() => {
+                setUrl(item.feedUrl);
+                loadPreview(item.feedUrl);
+              }}
+              disabled={isBusy}
+            >
+              {item.title}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {urlImport.previewError && (
+        <p className="text-sm text-[var(--state-error-text)]" role="alert">
+          {urlImport.previewError.message}
+        </p>
+      )}
+
+      {preview?.kind === "audio" && (
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <p className="truncate text-sm font-medium text-[var(--text-primary)]">
+              {preview.fileName}
+            </p>
+            {preview.size && (
+              <p className="text-xs text-[var(--text-muted)]">{formatFileSize(preview.size)}</p>
+            )}
+          </div>
+          <button
+            type="button"
+            className="btn-primary"
+            disabled={isBusy || importedUrls.has(preview.url)}
+            onClick={() =>
+              runImport([{ url: preview.url, source: { type: "url", url: preview.url } }])
+            }
+          >
+            <span>{importedUrls.has(preview.url) ? "已导入" : "导入"}</span>
+          </button>
+        </div>
+      )}
+
+      {feed && (
+        <div className="space-y-3">
+          <div className="flex items-start gap-3">
+            {feed.imageUrl && (
+              // 封面来自任意第三方域名，不经过图片优化服务
+              <Image
+                src={feed.imageUrl}
+                alt=""
+                width={56}
+                height={56}
+                className="h-14 w-14 shrink-0 rounded object-cover"
+                unoptimized
+              />
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-[var(--text-primary)]">{feed.title}</p>
+              {feed.author && <p className="text-xs text-[var(--text-muted)]">{feed.author}</p>}
+              {feed.description && (
+                <p className="mt-1 line-clamp-2 text-xs text-[var(--text-secondary)]">
+                  {feed.description}
+                </p>
+              )}
+            </div>
+            <button type="button" className="btn-secondary" onClick={toggleSubscription}>
+              <span>{subscription ? "取消订阅" : "订阅"}</span>
+            </button>
+          </div>
+
+          {feed.episodes.length === 0 ? (
+            <p className="text-sm text-[var(--text-muted)]">这个订阅源里没有音频单集</p>
+          ) : (
+            <>
+              <label className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={
+                    Boolean(selectableEpisodes?.length) &&
+                    selected.length === selectableEpisodes?.length
+                  }
+                  onChange={(event) =>
+                    setSelected(
+                      event.target.checked
+                        ? (selectableEpisodes ?? []).map((episode) => episode.guid)
+                        : [],
+                    )
+                  }
+                  disabled={!selectableEpisodes?.length}
+                />
+                全选未导入的单集（共 {feed.episodes.length} 集）
+              </label>
+              <ul className="max-h-80 space-y-1 overflow-y-auto">
+                {feed.episodes.map((episode) => {
+                  const isImported = importedUrls.has(episode.audioUrl);
+                  const isNew =
+                    lastCheckedAt !== null &&
+                    episode.publishedAt !== undefined &&
+                    new Date(episode.publishedAt) > lastCheckedAt;
+                  return (
+                    <li key={episode.guid}>
+                      <label className="flex items-start gap-3 rounded-md px-2 py-1.5 hover:bg-[var(--surface-muted)]">
+                        <input
+                          type="checkbox"
+                          className="mt-1 h-4 w-4 shrink-0"
+                          checked={selected.includes(episode.guid)}
+                          onChange={() =>
+                            setSelected((prev) =>
+                              prev.includes(episode.guid)
+                                ? prev.filter((guid) => guid !== episode.guid)
+                                : [...prev, episode.guid],
+                            )
+                          }
+                          disabled={isImported}
+                        />
+                        <span className="min-w-0 flex-1">
+                          <span className="block text-sm text-[var(--text-primary)]">
+                            {episode.title}
+                            {isNew && (
+                              <span className="ml-2 text-xs text-[var(--state-success-text)]">
+                                新
+                              </span>
+                            )}
+                            {isImported && (
+                              <span className="ml-2 text-xs text-[var(--text-muted)]">已导入</span>
+                            )}
+                          </span>
+                          <span className="block text-xs text-[var(--text-muted)]">
+                            {[
+                              episode.publishedAt &&
+                                new Date(episode.publishedAt).toLocaleDateString("zh-CN"),
+                              episode.duration && formatEpisodeDuration(episode.duration),
+                              episode.audioSize && formatFileSize(episode.audioSize),
+                            ]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </span>
+                        </span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  className="btn-primary"
+                  disabled={isBusy || selected.length === 0}
+                  onClick={() =>
+                    runImport(
+                      feed.episodes
+                        .filter((episode) => selected.includes(episode.guid))
+                        .map((episode) => episodeToImportItem(feed, episode)),
+                    )
+                  }
+                >
+                  <span>下载所选（{selected.length}）</span>
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {progress && (
+        <p className="text-sm text-[var(--text-muted)]" aria-live="polite">
+          正在下载 {progress.done} / {progress.total}...
+        </p>
+      )}
+    </section>
+  );
+}
@@ -68,11 +68,13 @@ const AudioPlayer = React.memo<AudioPlayerProps>(
 
     // Keyboard controls
     useKeyboardControls({
-      audioUrl,
-      onPlayPause: handlePlayPause,
-      onSkipBack,
-      onSkipForward,
-      onToggleMute: toggleMute,
+      enabled: Boolean(audioUrl),
+      handlers: {
+        playPause: handlePlayPause,
+        skipBack: onSkipBack,
+        skipForward: onSkipForward,
+        toggleMute,
+      },
       onSetPlaybackRate: (rate) => setPlaybackRate([rate]),
     });
 
@@ -2,6 +2,7 @@
 
 import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useId, useRef, useState } from "react";
+import TranscriptExportMenu from "@/components/features/file/TranscriptExportMenu";
 import {
   PlayerErrorState,
   PlayerLoadingState,
@@ -10,15 +11,39 @@ import {
 import { PlayerFooter } from "@/components/features/player/page/PlayerFooter";
 import { PlayerPageLayout } from "@/components/features/player/page/PlayerPageLayout";
 import ScrollableSubtitleDisplay from "@/components/features/player/ScrollableSubtitleDisplay";
+import { SentencePlaybackPanel } from "@/components/features/player/SentencePlaybackPanel";
+import { ShadowingPanel } from "@/components/features/player/ShadowingPanel";
+import { ShortcutHelpDialog } from "@/components/features/player/ShortcutHelpDialog";
+import { TranscriptEditor } from "@/components/features/player/TranscriptEditor";
+import { VideoPanel } from "@/components/features/player/VideoPanel";
+import { TranscriptionLoading } from "@/components/transcription/TranscriptionLoading";
 import ApiKeyError from "@/components/ui/ApiKeyError";
+import { useSegmentReviewCards } from "@/hooks/db/useReviewDeck";
+import { useKnownWordForms, useVocabularyExtraction } from "@/hooks/db/useVocabulary";
 import { usePlayerDataQuery } from "@/hooks/player/usePlayerDataQuery";
+import { usePronunciationScoring } from "@/hooks/player/usePronunciationScoring";
+import { useSentencePlayback } from "@/hooks/player/useSentencePlayback";
+import { findShadowingSegment, useShadowingMode } from "@/hooks/player/useShadowingMode";
+import { useSilenceSkipping } from "@/hooks/player/useSilenceSkipping";
+import { useTranscriptEditor } from "@/hooks/player/useTranscriptEditor";
 import { useAudioPlayer } from "@/hooks/ui/useAudioPlayer";
+import { useKeyboardControls } from "@/hooks/ui/useKeyboardControls";
+import { useMediaSession } from "@/hooks/ui/useMediaSession";
 import { isApiKeyError } from "@/lib/utils/error-handler";
+import { isVideoType } from "@/lib/utils/file-validation";
 import type { Segment } from "@/types/db/database";
 
-export default function PlayerPageComponent({ fileId }: { fileId: string }) {
+export default function PlayerPageComponent({
+  fileId,
+  initialTime,
+}: {
+  fileId: string;
+  /** 打开时跳转到的时间（秒） */
+  initialTime?: number;
+}) {
   const router = useRouter();
-  const { file, segments, audioUrl, loading, error, retry } = usePlayerDataQuery(fileId);
+  const { file, segments, transcript, audioUrl, transcriptionTask, loading, error, retry } =
+    usePlayerDataQuery(fileId);
 
   const {
     audioPlayerState,
@@ -34,11 +59,60 @@ export default function PlayerPageComponent({ fileId }: { fileId: string }) {
     onSkipForward,
     loopStart,
     loopEnd,
+    onSetLoop,
     onClearLoop,
   } = useAudioPlayer();
 
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const shadowing = useShadowingMode({
+    fileId: file?.id,
+    segments,
+    currentTime: audioPlayerState.currentTime,
+    onSeek: handleSeek,
+    onPlay,
+    onPause,
+  });
+
+  const sentence = useSentencePlayback({
+    segments,
+    currentTime: audioPlayerState.currentTime,
+    isPlaying: audioPlayerState.isPlaying,
+    playbackRate,
+    onSeek: handleSeek,
+    onPlay,
+    onPause,
+  });
+
+  const silenceSkipping = useSilenceSkipping({
+    fileId: file?.id,
+    currentTime: audioPlayerState.currentTime,
+    isPlaying: audioPlayerState.isPlaying,
+    enabled: !shadowing.isActive,
+    onSeek: handleSeek,
+  });
+
+  const pronunciation = usePronunciationScoring({
+    fileId: file?.id,
+    segment: shadowing.segment,
+    language: transcript?.language,
+  });
+
+  const { savedSegmentIds, toggleSegment } = useSegmentReviewCards(file?.id);
+  const knownWordForms = useKnownWordForms(file?.id);
+  const vocabularyExtraction = useVocabularyExtraction(file?.id, transcript?.id);
+  const transcriptEditor = useTranscriptEditor({
+    fileId: file?.id,
+    transcriptId: transcript?.id,
+    segments,
+  });
+
+  const mediaRef = useRef<HTMLMediaElement>(null);
   const [volume, setVolume] = useState(1);
+  const volumeBeforeMuteRef = useRef(1);
+  const [showPitch, setShowPitch] = useState(false);
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [showFurigana, setShowFurigana] = useState(true);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const [showVideoSubtitles, setShowVideoSubtitles] = useState(true);
   const subtitleContainerId = useId();
 
   const sanitizeNumber = useCallback((value: number, fallback: number = 0): number => {
@@ -55,72 +129,74 @@ export default function PlayerPageComponent({ fileId }: { fileId: string }) {
   }, [file, audioUrl, setCurrentFile]);
 
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio || !audioUrl) return;
+    const media = mediaRef.current;
+    if (!media || !audioUrl) return;
 
-    audio.pause();
-    audio.currentTime = 0;
-    audio.load();
+    const startTime = sanitizeNumber(initialTime ?? 0, 0);
+    media.pause();
+    media.load();
+    // 元数据加载前设置的时间会作为默认开始位置
+    media.currentTime = startTime;
 
     const fallbackDuration = file?.duration ?? 0;
     updatePlayerState({
       isPlaying: false,
-      currentTime: 0,
+      currentTime: startTime,
       duration: sanitizeNumber(fallbackDuration, 0),
     });
-  }, [audioUrl, file?.duration, updatePlayerState, sanitizeNumber]);
+  }, [audioUrl, file?.duration, initialTime, updatePlayerState, sanitizeNumber]);
 
   useEffect(() => {
-    if (!audioRef.current) return;
+    if (!mediaRef.current) return;
 
     if (audioPlayerState.isPlaying) {
-      audioRef.current.play().catch(() => {
+      mediaRef.current.play().catch(() => {
         updatePlayerState({ isPlaying: false });
       });
     } else {
-      audioRef.current.pause();
+      mediaRef.current.pause();
     }
   }, [audioPlayerState.isPlaying, updatePlayerState]);
 
   useEffect(() => {
-    if (!audioRef.current) return;
-    audioRef.current.playbackRate = playbackRate;
+    if (!mediaRef.current) return;
+    mediaRef.current.playbackRate = playbackRate;
   }, [playbackRate]);
 
   useEffect(() => {
-    if (!audioRef.current) return;
+    if (!mediaRef.current) return;
 
-    const currentTime = audioRef.current.currentTime;
+    const currentTime = mediaRef.current.currentTime;
     const diff = Math.abs(currentTime - audioPlayerState.currentTime);
 
     if (diff > 0.1) {
-      audioRef.current.currentTime = audioPlayerState.currentTime;
+      mediaRef.current.currentTime = audioPlayerState.currentTime;
     }
   }, [audioPlayerState.currentTime]);
 
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
+    const media = mediaRef.current;
+    if (!media) return;
 
     const handleTimeUpdate = () => {
-      const current = sanitizeNumber(audio.currentTime, 0);
+      const current = sanitizeNumber(media.currentTime, 0);
       updatePlayerState({ currentTime: current });
     };
 
     const handleLoadedMetadata = () => {
       const fallbackDuration = file?.duration ?? 0;
-      const duration = sanitizeNumber(audio.duration, fallbackDuration);
+      const duration = sanitizeNumber(media.duration, fallbackDuration);
       updatePlayerState({ duration });
     };
 
     const handleDurationChange = () => {
       const fallbackDuration = file?.duration ?? 0;
-      const duration = sanitizeNumber(audio.duration, fallbackDuration);
+      const duration = sanitizeNumber(media.duration, fallbackDuration);
       updatePlayerState({ duration });
     };
 
     const handleEnded = () => {
-      const duration = sanitizeNumber(audio.duration, audioPlayerState.duration);
+      const duration = sanitizeNumber(media.duration, audioPlayerState.duration);
       updatePlayerState({ isPlaying: false, currentTime: duration });
       onClearLoop();
     };
@@ -133,30 +209,45 @@ export default function PlayerPageComponent({ fileId }: { fileId: string }) {
       updatePlayerState({ isPlaying: false });
     };
 
-    audio.addEventListener("timeupdate", handleTimeUpdate);
-    audio.addEventListener("loadedmetadata", handleLoadedMetadata);
-    audio.addEventListener("durationchange", handleDurationChange);
-    audio.addEventListener("ended", handleEnded);
-    audio.addEventListener("play", handlePlay);
-    audio.addEventListener("pause", handlePause);
+    media.addEventListener("timeupdate", handleTimeUpdate);
+    media.addEventListener("loadedmetadata", handleLoadedMetadata);
+    media.addEventListener("durationchange", handleDurationChange);
+    media.addEventListener("ended", handleEnded);
+    media.addEventListener("play", handlePlay);
+    media.addEventListener("pause", handlePause);
 
     return () => {
-      audio.removeEventListener("timeupdate", handleTimeUpdate);
-      audio.removeEventListener("loadedmetadata", handleLoadedMetadata);
-      audio.removeEventListener("durationchange", handleDurationChange);
-      audio.removeEventListener("ended", handleEnded);
-      audio.removeEventListener("play", handlePlay);
-      audio.removeEventListener("pause", handlePause);
+      media.removeEventListener("timeupdate", handleTimeUpdate);
+      media.removeEventListener("loadedmetadata", handleLoadedMetadata);
+      media.removeEventListener("durationchange", handleDurationChange);
+      media.removeEventListener("ended", handleEnded);
+      media.removeEventListener("play", handlePlay);
+      media.removeEventListener("pause", handlePause);
     };
   }, [updatePlayerState, sanitizeNumber, file?.duration, audioPlayerState.duration, onClearLoop]);
 
   const handleSegmentClick = (segment: Segment) => {
+    // 跟读模式下点击字幕切换要循环的字幕段
+    if (shadowing.isActive) {
+      shadowing.start(segment);
+      return;
+    }
+
     handleSeek(segment.start);
     if (!audioPlayerState.isPlaying) {
       onPlay();
     }
   };
 
+  const handleWordSeek = (segment: Segment, time: number) => {
+    if (shadowing.isActive) {
+      shadowing.start(segment);
+      return;
+    }
+
+    handleSeek(time);
+  };
+
   const handleBack = useCallback(() => {
     clearAudio();
     router.push("/");
@@ -172,11 +263,93 @@ export default function PlayerPageComponent({ fileId }: { fileId: string }) {
 
   const handleVolumeChange = useCallback((newVolume: number) => {
     setVolume(newVolume);
-    if (audioRef.current) {
-      audioRef.current.volume = newVolume;
+    if (mediaRef.current) {
+      mediaRef.current.volume = newVolume;
     }
   }, []);
 
+  const handleToggleMute = useCallback(() => {
+    if (volume > 0) {
+      volumeBeforeMuteRef.current = volume;
+      handleVolumeChange(0);
+    } else {
+      handleVolumeChange(volumeBeforeMuteRef.current || 1);
+    }
+  }, [volume, handleVolumeChange]);
+
+  const getCurrentSegment = () =>
+    shadowing.isActive
+      ? shadowing.segment
+      : findShadowingSegment(segments, audioPlayerState.currentTime);
+
+  /** 上一句 / 下一句，逐句和跟读模式下交给对应模式处理 */
+  const handleStepSegment = (offset: number) => {
+    if (sentence.isActive) {
+      if (offset < 0) sentence.previous();
+      else sentence.advance();
+      return;
+    }
+
+    const current = getCurrentSegment();
+    if (!current) return;
+    // 第一句开始之前，下一句就是第一句
+    const index =
+      audioPlayerState.currentTime < current.start && offset > 0
+        ? segments.indexOf(current) - 1
+        : segments.indexOf(current);
+    const target = segments[Math.min(segments.length - 1, Math.max(0, index + offset))];
+    if (target) handleSegmentClick(target);
+  };
+
+  const handleReplaySegment = () => {
+    if (sentence.isActive) {
+      sentence.repeat();
+      return;
+    }
+    const current = getCurrentSegment();
+    if (current) handleSegmentClick(current);
+  };
+
+  const handleLoopSegment = () => {
+    const current = getCurrentSegment();
+    if (!current) return;
+    onSetLoop(current.start, current.end);
+    handleSeek(current.start);
+  };
+
+  const { bindings: shortcutBindings } = useKeyboardControls({
+    enabled: Boolean(audioUrl),
+    handlers: {
+      playPause: handleTogglePlay,
+      skipBack: onSkipBack,
+      skipForward: onSkipForward,
+      toggleMute: handleToggleMute,
+      previousSegment: () => handleStepSegment(-1),
+      nextSegment: () => handleStepSegment(1),
+      replaySegment: handleReplaySegment,
+      loopSegment: handleLoopSegment,
+      toggleTranslation: () => setShowTranslation((prev) => !prev),
+      toggleFurigana: () => setShowFurigana((prev) => !prev),
+      showHelp: () => setShowShortcutHelp((prev) => !prev),
+    },
+    onSetPlaybackRate: setPlaybackRate,
+  });
+
+  useMediaSession({
+    title: audioUrl ? file?.name : undefined,
+    isPlaying: audioPlayerState.isPlaying,
+    currentTime: audioPlayerState.currentTime,
+    duration: audioPlayerState.duration,
+    playbackRate,
+    onPlay,
+    onPause,
+    onSeek: handleSeek,
+    onSkipBack,
+    onSkipForward,
+    onPreviousSegment: () => handleStepSegment(-1),
+    onNextSegment: () => handleStepSegment(1),
+  });
+
   const layoutFooter = audioUrl ? (
     <PlayerFooter
       audioPlayerState={audioPlayerState}
@@ -187,6 +360,10 @@ export default function PlayerPageComponent({ fileId }: { fileId: string }) {
       onClearLoop={onClearLoop}
       loopStart={loopStart}
       loopEnd={loopEnd}
+      onSetLoop={onSetLoop}
+      fileId={file?.id}
+      segments={transcriptEditor.segments}
+      shadowingRange={shadowing.isActive ? (shadowing.segment ?? undefined) : undefined}
       playbackRate={playbackRate}
       onPlaybackRateChange={setPlaybackRate}
       volume={volume}
@@ -223,6 +400,9 @@ export default function PlayerPageComponent({ fileId }: { fileId: string }) {
     );
   }
 
+  // 视频文件用 <video> 替代隐藏的 <audio> 播放
+  const isVideo = isVideoType(file.type);
+
   return (
     <>
       <PlayerPageLayout
@@ -230,23 +410,188 @@ export default function PlayerPageComponent({ fileId }: { fileId: string }) {
         showFooter={Boolean(layoutFooter)}
         footer={layoutFooter ?? undefined}
       >
-        {segments.length > 0 ? (
-          <ScrollableSubtitleDisplay
+        {isVideo && audioUrl && (
+          <VideoPanel
+            mediaRef={mediaRef}
+            src={audioUrl}
             segments={segments}
             currentTime={audioPlayerState.currentTime}
-            isPlaying={audioPlayerState.isPlaying}
-            onSegmentClick={handleSegmentClick}
+            showSubtitles={showVideoSubtitles}
+            onToggleSubtitles={() => setShowVideoSubtitles((prev) => !prev)}
+            showTranslation={showTranslation}
           />
-        ) : (
+        )}
+        {transcriptionTask && <TranscriptionLoading task={transcriptionTask} className="py-4" />}
+        {segments.length > 0 ? (
+          <>
+            {file.id && !transcriptionTask && (
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  className={shadowing.isActive ? "btn-primary" : "btn-secondary"}
+                  onClick={() => (shadowing.isActive ? shadowing.stop() : shadowing.start())}
+                  disabled={transcriptEditor.isEditing || sentence.isActive}
+                  aria-pressed={shadowing.isActive}
+                  aria-label="跟读模式"
+                  title="跟读模式"
+                >
+                  <span className="material-symbols-outlined">record_voice_over</span>
+                </button>
+                <button
+                  type="button"
+                  className={sentence.isActive ? "btn-primary" : "btn-secondary"}
+                  onClick={() => (sentence.isActive ? sentence.stop() : sentence.start())}
+                  disabled={shadowing.isActive}
+                  aria-pressed={sentence.isActive}
+                  aria-label="逐句播放"
+                  title="逐句播放：每句结束后自动暂停"
+                >
+                  <span className="material-symbols-outlined">playlist_play</span>
+                </button>
+                <button
+                  type="button"
+                  className={silenceSkipping.isActive ? "btn-primary" : "btn-secondary"}
+                  onClick={silenceSkipping.toggle}
+                  disabled={shadowing.isActive}
+                  aria-pressed={silenceSkipping.isActive}
+                  aria-label="跳过静音"
+                  title="跳过静音：播放时跳过较长的停顿"
+                >
+                  <span className="material-symbols-outlined">
+                    {silenceSkipping.isAnalyzing ? "hourglass_top" : "fast_forward"}
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  className={showPitch ? "btn-primary" : "btn-secondary"}
+                  onClick={() => setShowPitch((prev) => !prev)}
+                  aria-pressed={showPitch}
+                  aria-label="音高曲线"
+                  title="显示当前字幕段的音高曲线"
+                >
+                  <span className="material-symbols-outlined">show_chart</span>
+                </button>
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => vocabularyExtraction.extract()}
+                  disabled={vocabularyExtraction.isExtracting || transcript?.status !== "completed"}
+                  aria-label="提取词汇"
+                  title="生成翻译、注音并提取词汇到词典"
+                >
+                  <span className="material-symbols-outlined">
+                    {vocabularyExtraction.isExtracting ? "hourglass_top" : "translate"}
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  className={transcriptEditor.isEditing ? "btn-primary" : "btn-secondary"}
+                  onClick={() =>
+                    transcriptEditor.isEditing
+                      ? transcriptEditor.cancel()
+                      : transcriptEditor.start()
+                  }
+                  disabled={shadowing.isActive || transcriptEditor.isSaving}
+                  aria-pressed={transcriptEditor.isEditing}
+                  aria-label="编辑字幕"
+                  title="编辑字幕"
+                >
+                  <span className="material-symbols-outlined">edit_note</span>
+                </button>
+                {segments.some((segment) => segment.translation) && (
+                  <button
+                    type="button"
+                    className={showTranslation ? "btn-primary" : "btn-secondary"}
+                    onClick={() => setShowTranslation((prev) => !prev)}
+                    aria-pressed={showTranslation}
+                    aria-label="显示翻译"
+                    title="显示翻译"
+                  >
+                    <span className="material-symbols-outlined">subtitles</span>
+                  </button>
+                )}
+                {segments.some((segment) => segment.furigana) && (
+                  <button
+                    type="button"
+                    className={showFurigana ? "btn-primary" : "btn-secondary"}
+                    onClick={() => setShowFurigana((prev) => !prev)}
+                    aria-pressed={showFurigana}
+                    aria-label="显示注音"
+                    title="显示注音"
+                  >
+                    <span className="material-symbols-outlined">text_fields</span>
+                  </button>
+                )}
+                <TranscriptExportMenu fileId={file.id} />
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setShowShortcutHelp(true)}
+                  aria-label="键盘快捷键"
+                  title="键盘快捷键"
+                >
+                  <span className="material-symbols-outlined">keyboard</span>
+                </button>
+              </div>
+            )}
+            {shadowing.isActive && (
+              <ShadowingPanel
+                shadowing={shadowing}
+                pronunciation={pronunciation}
+                pitchFileId={showPitch ? file.id : undefined}
+                language={transcript?.language}
+              />
+            )}
+            {sentence.isActive && (
+              <SentencePlaybackPanel
+                sentence={sentence}
+                totalSentences={segments.length}
+                isPlaying={audioPlayerState.isPlaying}
+              />
+            )}
+            {transcriptEditor.isEditing && file.id ? (
+              <TranscriptEditor
+                fileId={file.id}
+                editor={transcriptEditor}
+                currentTime={audioPlayerState.currentTime}
+                onSeek={handleSeek}
+              />
+            ) : (
+              <ScrollableSubtitleDisplay
+                segments={segments}
+                currentTime={audioPlayerState.currentTime}
+                isPlaying={audioPlayerState.isPlaying}
+                onSegmentClick={handleSegmentClick}
+                savedSegmentIds={savedSegmentIds}
+                onToggleSave={toggleSegment}
+                knownWordForms={knownWordForms}
+                onWordSeek={handleWordSeek}
+                lookupFileId={file?.id}
+                language={transcript?.language}
+                pitchFileId={showPitch ? file.id : undefined}
+                showTranslation={showTranslation}
+                showFurigana={showFurigana}
+              />
+            )}
+          </>
+        ) : transcriptionTask ? null : (
           <div className="flex flex-col items-center gap-3 py-12 text-center text-sm text-[var(--secondary-text-color)] dark:text-[var(--text-color)]/70">
             <p>暂无字幕内容，请先在主页转录此文件</p>
           </div>
         )}
       </PlayerPageLayout>
 
-      <audio ref={audioRef} src={audioUrl ?? undefined} preload="auto" className="hidden">
-        <track kind="captions" />
-      </audio>
+      <ShortcutHelpDialog
+        open={showShortcutHelp}
+        onOpenChange={setShowShortcutHelp}
+        bindings={shortcutBindings}
+      />
+
+      {!isVideo && (
+        <audio ref={mediaRef} src={audioUrl ?? undefined} preload="auto" className="hidden">
+          <track kind="captions" />
+        </audio>
+      )}
     </>
   );
 }
@@ -0,0 +1,113 @@
+/**
+ * 发音评分报告
+ * 逐词准确度、时间偏差、多读的词，以及该字幕段历次评分的走势
+ */
+
+"use client";
+
+import { cn } from "@/lib/utils/utils";
+import type { PronunciationScoreRow, PronunciationWordScore } from "@/types/db/database";
+
+interface PronunciationReportProps {
+  report: PronunciationScoreRow;
+  history: PronunciationScoreRow[];
+  className?: string;
+}
+
+function getAccuracyClass(accuracy: number): string {
+  if (accuracy >= 0.85) return "bg-green-500/15 text-green-700 dark:text-green-300";
+  if (accuracy >= 0.5) return "bg-amber-500/15 text-amber-700 dark:text-amber-300";
+  return "bg-red-500/15 text-red-700 dark:text-red-300";
+}
+
+function describeWord(word: PronunciationWordScore): string {
+  const parts = [`准确度 ${Math.round(word.accuracy * 100)}%`];
+  if (word.spoken && word.spoken !== word.word) {
+    parts.push(`听到「${word.spoken}」`);
+  }
+  if (!word.spoken) {
+    parts.push("未读出");
+  }
+  if (word.timingOffset !== undefined && Math.abs(word.timingOffset) >= 0.05) {
+    const offset = Math.abs(word.timingOffset).toFixed(2);
+    parts.push(word.timingOffset > 0 ? `晚 ${offset} 秒` : `早 ${offset} 秒`);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * 历次总分的折线图
+ */
+function ScoreHistory({ history }: { history: PronunciationScoreRow[] }) {
+  if (history.length < 2) return null;
+
+  const width = 160;
+  const height = 32;
+  const step = width / (history.length - 1);
+  const points = history
+    .map((entry, index) => `${index * step},${height - (entry.score / 100) * height}`)
+    .join(" ");
+  const first = history[0].score;
+  const last = history[history.length - 1].score;
+
+  return (
+    <div className="flex items-center gap-3">
+      <svg
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        className="overflow-visible text-[var(--text-muted)]"
+        role="img"
+        aria-label={`最近 ${history.length} 次评分走势`}
+      >
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} />
+      </svg>
+      <span className="text-xs text-[var(--text-muted)]">
+        {history.length} 次 · {last >= first ? "+" : ""}
+        {last - first} 分
+      </span>
+    </div>
+  );
+}
+
+/**
+ * 以单词及其在句中第几次出现作为 key，同一句中可能出现重复的词
+ */
+function getWordKey(words: PronunciationWordScore[], index: number): string {
+  const word = words[index].word;
+  const occurrence = words.slice(0, index).filter((item) => item.word === word).length;
+  return `${word}-${occurrence}`;
+}
+
+export function PronunciationReport({ report, history, className }: PronunciationReportProps) {
+  return (
+    <div className={cn("space-y-3 rounded-lg bg-[var(--surface-muted)] p-3", className)}>
+      <div className="flex items-baseline gap-4">
+        <span className="text-2xl font-semibold text-[var(--text-primary)]">{report.score}</span>
+        <span className="text-xs text-[var(--text-muted)]">准确度 {report.accuracy}</span>
+        <span className="text-xs text-[var(--text-muted)]">节奏 {report.rhythm}</span>
+      </div>
+
+      <ul className="flex flex-wrap gap-1" aria-label="逐词评分">
+        {report.words.map((word, index) => (
+          <li
+            key={getWordKey(report.words, index)}
+            className={cn("rounded px-1.5 py-0.5 text-sm", getAccuracyClass(word.accuracy))}
+            title={describeWord(word)}
+          >
+            {word.word}
+          </li>
+        ))}
+      </ul>
+
+      {report.extraWords.length > 0 && (
+        <p className="text-xs text-[var(--text-muted)]">多读：{report.extraWords.join("、")}</p>
+      )}
+      {report.transcript && (
+        <p className="text-xs text-[var(--text-muted)]">识别结果：{report.transcript}</p>
+      )}
+
+      <ScoreHistory history={history} />
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 "use client";
 
-import React, { useCallback, useEffect, useMemo, useRef } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { SegmentPitchContour } from "@/components/features/player/SegmentPitchContour";
+import { WordLookupPopover } from "@/components/features/player/WordLookupPopover";
+import { normalizeWord } from "@/lib/ai/pronunciation-scoring";
+import { normalizeFuriganaEntries } from "@/lib/utils/furigana";
 import { cn } from "@/lib/utils/utils";
+import { getCurrentWord, getWordContext } from "@/lib/utils/word-timestamp-service";
 import type { Segment } from "@/types/db/database";
 
 interface ScrollableSubtitleDisplayProps {
@@ -9,14 +14,37 @@ interface ScrollableSubtitleDisplayProps {
   currentTime: number;
   isPlaying: boolean;
   onSegmentClick?: (segment: Segment) => void;
+  /** 已收藏到复习卡片的字幕段 id */
+  savedSegmentIds?: Set<number>;
+  onToggleSave?: (segment: Segment) => void;
+  /** 已掌握的单词（normalizeWord 规范化后），在字幕中弱化显示 */
+  knownWordForms?: Set<string>;
+  /** 点击单词时跳转到单词的开始时间 */
+  onWordSeek?: (segment: Segment, time: number) => void;
+  /** 提供后点击单词会弹出查词卡片 */
+  lookupFileId?: number;
+  language?: string;
+  /** 提供后在当前字幕段下方显示音高曲线 */
+  pitchFileId?: number;
+  /** 在字幕下方显示翻译 */
+  showTranslation?: boolean;
+  /** 在单词上方显示注音 */
+  showFurigana?: boolean;
   className?: string;
 }
 
-interface FuriganaEntry {
-  text: string;
-  reading: string;
+interface SelectedWord {
+  /** 打开卡片时的字幕，字幕重新加载后卡片自动关闭 */
+  segments: Segment[];
+  segmentIndex: number;
+  tokenIndex: number;
+  left: number;
+  top: number;
 }
 
+/** 查词卡片宽度，与 WordLookupPopover 的 w-72 一致 */
+const POPOVER_WIDTH = 288;
+
 interface Token {
   word: string;
   reading?: string;
@@ -25,67 +53,29 @@ interface Token {
   end?: number;
 }
 
-function normalizeFurigana(rawFurigana: unknown): FuriganaEntry[] {
-  if (!rawFurigana) {
-    return [];
-  }
-
-  if (Array.isArray(rawFurigana)) {
-    return rawFurigana
-      .map((entry) => {
-        if (typeof entry === "string") {
-          const trimmed = entry.trim();
-          return trimmed ? { text: trimmed, reading: trimmed } : null;
-        }
-
-        if (entry && typeof entry === "object") {
-          const candidate = entry as Record<string, unknown>;
-          const textValue = typeof candidate.text === "string" ? candidate.text : undefined;
-          const readingValue =
-            typeof candidate.reading === "string" ? candidate.reading : undefined;
-
-          if (textValue || readingValue) {
-            const safeText = (textValue ?? readingValue ?? "").trim();
-            const safeReading = (readingValue ?? textValue ?? "").trim();
-            if (safeText && safeReading) {
-              return { text: safeText, reading: safeReading };
-            }
-          }
-        }
-
-        return null;
-      })
-      .filter((entry): entry is FuriganaEntry => !!entry);
-  }
-
-  if (typeof rawFurigana === "string") {
-    const trimmed = rawFurigana.trim();
-    if (!trimmed) return [];
-
-    try {
-      const parsed = JSON.parse(trimmed);
-      return normalizeFurigana(parsed);
-    } catch (_error) {
-      return trimmed
-        .split(/\s+/)
-        .filter(Boolean)
-        .map((token) => ({ text: token, reading: token }));
-    }
-  }
-
-  if (typeof rawFurigana === "object") {
-    return normalizeFurigana(Object.values(rawFurigana ?? {}));
-  }
-
-  return [];
-}
-
 const ScrollableSubtitleDisplay = React.memo<ScrollableSubtitleDisplayProps>(
-  ({ segments, currentTime, isPlaying, onSegmentClick, className }) => {
+  ({
+    segments,
+    currentTime,
+    isPlaying,
+    onSegmentClick,
+    savedSegmentIds,
+    onToggleSave,
+    knownWordForms,
+    onWordSeek,
+    lookupFileId,
+    language,
+    pitchFileId,
+    showTranslation = false,
+    showFurigana = false,
+    className,
+  }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const activeSegmentRef = useRef<HTMLButtonElement>(null);
     const previousActiveIndex = useRef<number>(-1);
     const scrollTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+    const [lookup, setSelectedWord] = useState<SelectedWord | null>(null);
+    const selectedWord = lookup?.segments === segments ? lookup : null;
 
     const safeCurrentTime =
       Number.isFinite(currentTime) && !Number.isNaN(currentTime) ? currentTime : 0;
@@ -156,7 +146,7 @@ const ScrollableSubtitleDisplay = React.memo<ScrollableSubtitleDisplayProps>(
 
     const segmentTokens = useMemo<Token[][]>(() => {
       return segments.map((segment) => {
-        const furiganaEntries = normalizeFurigana(segment.furigana as unknown);
+        const furiganaEntries = normalizeFuriganaEntries(segment.furigana);
 
         if (Array.isArray(segment.wordTimestamps) && segment.wordTimestamps.length > 0) {
           return segment.wordTimestamps.map((timestamp, index) => ({
@@ -188,6 +178,37 @@ const ScrollableSubtitleDisplay = React.memo<ScrollableSubtitleDisplayProps>(
       }) as Token[][];
     }, [segments]);
 
+    const closeLookup = useCallback(() => setSelectedWord(null), []);
+
+    /**
+     * 点击单词：跳转到单词开始，并在单词下方打开查词卡片
+     */
+    const handleWordClick = (segmentIndex: number, tokenIndex: number, element: HTMLElement) => {
+      const segment = segments[segmentIndex];
+      const timestamps = segment.wordTimestamps ?? [];
+      const timestamp = timestamps[tokenIndex];
+      const context = timestamp
+        ? getWordContext((timestamp.start + timestamp.end) / 2, timestamps, 0)
+        : null;
+      onWordSeek?.(segment, context?.current?.start ?? segment.start);
+
+      const wrapper = element.closest<HTMLElement>("[data-segment-wrapper]");
+      if (!lookupFileId || !wrapper) return;
+
+      const wrapperRect = wrapper.getBoundingClientRect();
+      const wordRect = element.getBoundingClientRect();
+      setSelectedWord({
+        segments,
+        segmentIndex,
+        tokenIndex,
+        left: Math.max(
+          0,
+          Math.min(wordRect.left - wrapperRect.left, wrapperRect.width - POPOVER_WIDTH),
+        ),
+        top: wordRect.bottom - wrapperRect.top + 4,
+      });
+    };
+
     return (
       <>
         {/* 字幕容器 */}
@@ -216,68 +237,172 @@ const ScrollableSubtitleDisplay = React.memo<ScrollableSubtitleDisplayProps>(
                 .map((line) => line.trim())
                 .filter(Boolean);
 
+              const isSaved = segment.id !== undefined && savedSegmentIds?.has(segment.id);
+              const currentWord =
+                isActive && segment.wordTimestamps
+                  ? getCurrentWord(safeCurrentTime, segment.wordTimestamps)
+                  : null;
+              const selectedToken =
+                selectedWord?.segmentIndex === index ? tokens[selectedWord.tokenIndex] : undefined;
+              const isWordTarget = hasTokens && Boolean(onWordSeek || lookupFileId);
+
               return (
-                <button
-                  type="button"
+                <div
                   key={segment.id ?? `${segment.start}-${segment.end}-${index}`}
-                  ref={isActive ? activeSegmentRef : null}
-                  onClick={() => onSegmentClick?.(segment)}
-                  onKeyDown={(event) => {
-                    if (event.key === "Enter" || event.key === " ") {
-                      event.preventDefault();
+                  className="relative"
+                  data-segment-wrapper
+                >
+                  <button
+                    type="button"
+                    ref={isActive ? activeSegmentRef : null}
+                    onClick={(event) => {
+                      // 单词通过事件委托处理，避免在按钮中嵌套按钮
+                      const wordElement = isWordTarget
+                        ? (event.target as HTMLElement).closest<HTMLElement>("[data-word-index]")
+                        : null;
+                      if (wordElement) {
+                        handleWordClick(index, Number(wordElement.dataset.wordIndex), wordElement);
+                        return;
+                      }
                       onSegmentClick?.(segment);
-                    }
-                  }}
-                  data-testid="subtitle-card"
-                  data-active={isActive}
-                  className={cn(
-                    "subtitle-line mb-[var(--space-subtitle-gap)] w-full text-left",
-                    isActive && "highlight",
+                    }}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter" || event.key === " ") {
+                        event.preventDefault();
+                        onSegmentClick?.(segment);
+                      }
+                    }}
+                    data-testid="subtitle-card"
+                    data-active={isActive}
+                    className={cn(
+                      "subtitle-line mb-[var(--space-subtitle-gap)] w-full text-left",
+                      isActive && "highlight",
+                      onToggleSave && "pr-10",
+                    )}
+                    style={{
+                      marginBottom: isActive
+                        ? "var(--space-status-gap)"
+                        : "var(--space-subtitle-gap)",
+                    }}
+                  >
+                    {hasTokens ? (
+                      <div className="flex flex-wrap items-end justify-start gap-2">
+                        {tokens.map((token, tokenIndex) => {
+                          const isTokenActive = currentWord?.index === tokenIndex;
+                          const isTokenSpoken =
+                            isActive &&
+                            !isTokenActive &&
+                            typeof token.end === "number" &&
+                            safeCurrentTime > token.end;
+                          const isKnown = knownWordForms?.has(normalizeWord(token.word)) ?? false;
+
+                          // 卡拉OK式高亮：当前单词按播放进度逐渐填充
+                          const progress =
+                            isTokenActive &&
+                            typeof token.start === "number" &&
+                            typeof token.end === "number" &&
+                            token.end > token.start
+                              ? Math.min(
+                                  1,
+                                  Math.max(
+                                    0,
+                                    (safeCurrentTime - token.start) / (token.end - token.start),
+                                  ),
+                                )
+                              : 1;
+
+                          return (
+                            <div
+                              key={`${segment.id ?? index}-token-${tokenIndex}-${token.word}`}
+                              className={cn(
+                                "word-group",
+                                isKnown && !isTokenActive && "opacity-50",
+                                isTokenActive && "karaoke-active",
+                                isTokenSpoken && "karaoke-spoken",
+                                selectedToken === token && "word-selected",
+                              )}
+                              style={
+                                isTokenActive
+                                  ? ({
+                                      "--word-progress": `${Math.round(progress * 100)}%`,
+                                    } as React.CSSProperties)
+                                  : undefined
+                              }
+                              data-word-index={isWordTarget ? tokenIndex : undefined}
+                              data-known={isKnown || undefined}
+                              data-testid={isTokenActive ? "active-word" : undefined}
+                            >
+                              {showFurigana && token.reading && token.reading !== token.word ? (
+                                <ruby>
+                                  <span className="player-word-surface">{token.word}</span>
+                                  <rt>{token.reading}</rt>
+                                </ruby>
+                              ) : (
+                                <span className="player-word-surface">{token.word}</span>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <div className="space-y-2 text-left">
+                        {lines.length > 0 ? (
+                          lines.map((line, lineIndex) => (
+                            <p
+                              key={`${segment.id ?? index}-line-${lineIndex}`}
+                              className="player-subtitle-plain"
+                            >
+                              {line}
+                            </p>
+                          ))
+                        ) : (
+                          <p className="player-subtitle-plain text-base">{displayText}</p>
+                        )}
+                      </div>
+                    )}
+                    {showTranslation && segment.translation && (
+                      <p className="player-translation mt-2">{segment.translation}</p>
+                    )}
+                    {isActive && pitchFileId && (
+                      <SegmentPitchContour
+                        fileId={pitchFileId}
+                        segment={segment}
+                        language={language}
+                        currentTime={safeCurrentTime}
+                        className="mt-3"
+                      />
+                    )}
+                  </button>
+                  {selectedWord && selectedToken && lookupFileId && (
+                    <WordLookupPopover
+                      key={`${selectedWord.segmentIndex}-${selectedWord.tokenIndex}`}
+                      fileId={lookupFileId}
+                      segment={segment}
+                      word={selectedToken.word}
+                      reading={selectedToken.reading}
+                      language={language}
+                      position={selectedWord}
+                      onClose={closeLookup}
+                    />
                   )}
-                  style={{
-                    marginBottom: isActive
-                      ? "var(--space-status-gap)"
-                      : "var(--space-subtitle-gap)",
-                  }}
-                >
-                  {hasTokens ? (
-                    <div className="flex flex-wrap items-end justify-start gap-2">
-                      {tokens.map((token, tokenIndex) => {
-                        const isTokenActive =
-                          isActive &&
-                          typeof token.start === "number" &&
-                          typeof token.end === "number" &&
-                          safeCurrentTime >= token.start &&
-                          safeCurrentTime <= token.end;
-
-                        return (
-                          <div
-                            key={`${segment.id ?? index}-token-${tokenIndex}-${token.word}`}
-                            className="word-group"
-                            data-testid={isTokenActive ? "active-word" : undefined}
-                          >
-                            <span className="player-word-surface">{token.word}</span>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  ) : (
-                    <div className="space-y-2 text-left">
-                      {lines.length > 0 ? (
-                        lines.map((line, lineIndex) => (
-                          <p
-                            key={`${segment.id ?? index}-line-${lineIndex}`}
-                            className="player-subtitle-plain"
-                          >
-                            {line}
-                          </p>
-                        ))
-                      ) : (
-                        <p className="player-subtitle-plain text-base">{displayText}</p>
+                  {onToggleSave && segment.id !== undefined && (
+                    <button
+                      type="button"
+                      className={cn(
+                        "absolute top-2 right-2 rounded p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]",
+                        isSaved && "text-[var(--text-primary)]",
                       )}
-                    </div>
+                      onClick={() => onToggleSave(segment)}
+                      aria-pressed={isSaved}
+                      aria-label={isSaved ? "取消收藏" : "收藏到复习"}
+                      title={isSaved ? "取消收藏" : "收藏到复习"}
+                    >
+                      <span className="material-symbols-outlined text-xl">
+                        {isSaved ? "bookmark_added" : "bookmark_add"}
+                      </span>
+                    </button>
                   )}
-                </button>
+                </div>
               );
             })
           )}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { formatTime } from "@/lib/db/subtitle-sync";
+import { retimeSegment } from "@/lib/db/transcript-editor";
+import { drawWaveform, type WaveformPeaks } from "@/lib/utils/waveform";
+import type { Segment } from "@/types/db/database";
+
+/** 波形两侧额外显示的时长（秒） */
+const WINDOW_PADDING = 2;
+/** 方向键微调步长（秒），按住 Shift 时乘以 10 */
+const NUDGE_STEP = 0.05;
+
+type Edge = "start" | "end";
+
+interface SegmentBoundaryEditorProps {
+  segments: Segment[];
+  index: number;
+  waveform?: WaveformPeaks;
+  isWaveformLoading?: boolean;
+  currentTime: number;
+  onRetime: (range: { start?: number; end?: number }) => void;
+  onSeek: (time: number) => void;
+}
+
+/**
+ * 在波形上拖动字幕段的开始 / 结束边界
+ * 显示相邻字幕段，拖动时预览，松开后才记入编辑历史
+ */
+export function SegmentBoundaryEditor({
+  segments,
+  index,
+  waveform,
+  isWaveformLoading,
+  currentTime,
+  onRetime,
+  onSeek,
+}: SegmentBoundaryEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<{ edge: Edge; time: number } | null>(null);
+
+  const segment = segments[index];
+  const previous = segments[index - 1];
+  const next = segments[index + 1];
+
+  // 拖动预览不改变窗口范围，松开后才按新边界重新计算
+  const windowRange = useMemo(() => {
+    const start = Math.max(
+      0,
+      Math.min(previous?.start ?? Infinity, segment.start - WINDOW_PADDING),
+    );
+    const end = Math.max(next?.end ?? 0, segment.end + WINDOW_PADDING);
+    return { start, end: waveform ? Math.min(end, waveform.duration) : end };
+  }, [previous?.start, next?.end, segment.start, segment.end, waveform]);
+
+  const duration = windowRange.end - windowRange.start;
+  const preview = dragging
+    ? retimeSegment(segments, index, { [dragging.edge]: dragging.time })[index]
+    : segment;
+
+  const toPercent = (time: number) =>
+    `${Math.min(100, Math.max(0, ((time - windowRange.start) / duration) * 100))}%`;
+
+  const timeFromClientX = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return windowRange.start;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return windowRange.start + ratio * duration;
+  };
+
+  useEffect(() => {
+    if (!canvasRef.current || !waveform) return;
+    const color = getComputedStyle(canvasRef.current).color;
+    drawWaveform(canvasRef.current, waveform, windowRange, color);
+  }, [waveform, windowRange]);
+
+  const handlePointerDown = (edge: Edge) => (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragging({ edge, time: edge === "start" ? segment.start : segment.end });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging) return;
+    setDragging({ ...dragging, time: timeFromClientX(event.clientX) });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragging) return;
+    onRetime({ [dragging.edge]: dragging.time });
+    setDragging(null);
+  };
+
+  const handleKeyDown = (edge: Edge) => (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? NUDGE_STEP * 10 : NUDGE_STEP;
+    const delta = event.key === "ArrowLeft" ? -step : event.key === "ArrowRight" ? step : 0;
+    if (delta === 0) return;
+    event.preventDefault();
+    onRetime({ [edge]: segment[edge] + delta });
+  };
+
+  const renderHandle = (edge: Edge) => (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label={edge === "start" ? "开始时间" : "结束时间"}
+      aria-valuemin={windowRange.start}
+      aria-valuemax={windowRange.end}
+      aria-valuenow={preview[edge]}
+      aria-valuetext={formatTime(preview[edge])}
+      className="absolute inset-y-0 z-10 w-3 -translate-x-1/2 cursor-ew-resize touch-none rounded bg-[var(--player-accent-color)] opacity-80 hover:opacity-100 focus-visible:opacity-100"
+      style={{ left: toPercent(preview[edge]) }}
+      onPointerDown={handlePointerDown(edge)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDragging(null)}
+      onKeyDown={handleKeyDown(edge)}
+    />
+  );
+
+  return (
+    <div className="space-y-1">
+      <div
+        ref={trackRef}
+        className="relative h-20 overflow-hidden rounded-md bg-[var(--surface-muted)] text-[var(--text-muted)]"
+      >
+        <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+        {!waveform && (
+          <span className="absolute inset-0 flex items-center justify-center text-xs">
+            {isWaveformLoading ? "正在生成波形..." : "波形不可用"}
+          </span>
+        )}
+        {[previous, next].map(
+          (neighbour) =>
+            neighbour && (
+              <div
+                key={`${neighbour.start}-${neighbour.end}`}
+                className="pointer-events-none absolute inset-y-0 bg-[var(--text-muted)] opacity-10"
+                style={{
+                  left: toPercent(neighbour.start),
+                  width: `calc(${toPercent(neighbour.end)} - ${toPercent(neighbour.start)})`,
+                }}
+              />
+            ),
+        )}
+        <button
+          type="button"
+          className="absolute inset-y-0 bg-[var(--player-highlight-bg)]"
+          style={{
+            left: toPercent(preview.start),
+            width: `calc(${toPercent(preview.end)} - ${toPercent(preview.start)})`,
+          }}
+          onClick={(event) => onSeek(timeFromClientX(event.clientX))}
+          aria-label="从点击位置播放"
+        />
+        <div
+          className="pointer-events-none absolute inset-y-0 w-px bg-[var(--text-primary)]"
+          style={{ left: toPercent(currentTime) }}
+        />
+        {renderHandle("start")}
+        {renderHandle("end")}
+      </div>
+      <div className="flex justify-between text-xs text-[var(--text-muted)]">
+        <span>{formatTime(preview.start)}</span>
+        <span>{(preview.end - preview.start).toFixed(2)}s</span>
+        <span>{formatTime(preview.end)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useMemo } from "react";
+import { useRecordingPitch, useSegmentPitch } from "@/hooks/player/usePitchContour";
+import { normalizeFuriganaEntries } from "@/lib/utils/furigana";
+import { isKana, splitMora } from "@/lib/utils/mora";
+import { getVoicedSpan, type PitchContour, toSemitones } from "@/lib/utils/pitch";
+import { cn } from "@/lib/utils/utils";
+import type { Segment, ShadowingRecordingRow } from "@/types/db/database";
+
+/** 纵轴显示的音高范围（相对中位音高 ± 半音） */
+const SEMITONE_RANGE = 12;
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 100;
+
+interface ContourLabel {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface SegmentPitchContourProps {
+  fileId: number;
+  segment: Segment;
+  language?: string;
+  /** 提供时叠加这次跟读录音的音高曲线 */
+  recording?: ShadowingRecordingRow;
+  currentTime?: number;
+  className?: string;
+}
+
+/**
+ * 曲线下方的标注：日语按拍（有读音时）对齐，其余语言按单词对齐
+ */
+function getContourLabels(segment: Segment, language?: string): ContourLabel[] {
+  const furigana = normalizeFuriganaEntries(segment.furigana);
+  const isJapanese = language?.startsWith("ja") ?? false;
+  const spread = (text: string, start: number, end: number) => {
+    const mora = splitMora(text);
+    const step = (end - start) / Math.max(1, mora.length);
+    return mora.map((item, index) => ({
+      text: item,
+      start: start + index * step,
+      end: start + (index + 1) * step,
+    }));
+  };
+
+  const words = segment.wordTimestamps ?? [];
+  if (words.length === 0) {
+    // 没有单词时间戳时只能把整句读音平均分配到字幕段上
+    const reading = furigana.map((entry) => entry.reading).join("") || segment.text;
+    return isJapanese && isKana(reading) ? spread(reading, segment.start, segment.end) : [];
+  }
+
+  return words.flatMap((word, index) => {
+    const reading = furigana[index]?.reading ?? word.word;
+    if (isJapanese && isKana(reading)) {
+      return spread(reading, word.start, word.end);
+    }
+    return [{ text: word.word, start: word.start, end: word.end }];
+  });
+}
+
+function toY(semitone: number): number {
+  const clamped = Math.max(-SEMITONE_RANGE, Math.min(SEMITONE_RANGE, semitone));
+  return VIEW_HEIGHT / 2 - (clamped / SEMITONE_RANGE) * (VIEW_HEIGHT / 2 - 5);
+}
+
+/**
+ * 把曲线转换为 SVG 路径，无声帧处断开
+ * @param timeOf 第 index 帧对应的时间
+ */
+function buildPath(
+  semitones: Float32Array,
+  timeOf: (index: number) => number,
+  range: { start: number; end: number },
+): string {
+  const duration = range.end - range.start;
+  const commands: string[] = [];
+  let drawing = false;
+
+  semitones.forEach((value, index) => {
+    if (Number.isNaN(value)) {
+      drawing = false;
+      return;
+    }
+    const x = ((timeOf(index) - range.start) / duration) * VIEW_WIDTH;
+    const y = toY(value);
+    commands.push(`${drawing ? "L" : "M"}${x.toFixed(1)},${y.toFixed(1)}`);
+    drawing = true;
+  });
+  return commands.join(" ");
+}
+
+/**
+ * 录音曲线的有声部分按时间拉伸到原音有声部分，便于对比语调走向
+ */
+function buildLearnerPath(
+  reference: PitchContour,
+  learner: PitchContour,
+  range: { start: number; end: number },
+): string | null {
+  const referenceSpan = getVoicedSpan(reference.values);
+  const learnerSpan = getVoicedSpan(learner.values);
+  if (!referenceSpan || !learnerSpan || learnerSpan.last === learnerSpan.first) return null;
+
+  const targetStart = reference.start + referenceSpan.first / reference.framesPerSecond;
+  const targetEnd = reference.start + referenceSpan.last / reference.framesPerSecond;
+  const voiced = learner.values.subarray(learnerSpan.first, learnerSpan.last + 1);
+  const frames = voiced.length - 1;
+
+  return buildPath(
+    toSemitones(voiced),
+    (index) => targetStart + (index / frames) * (targetEnd - targetStart),
+    range,
+  );
+}
+
+/**
+ * 字幕段的音高（基频）曲线，纵轴为相对中位音高的半音
+ */
+export function SegmentPitchContour({
+  fileId,
+  segment,
+  language,
+  recording,
+  currentTime,
+  className,
+}: SegmentPitchContourProps) {
+  const reference = useSegmentPitch(fileId, segment);
+  const learner = useRecordingPitch(recording);
+
+  const range = useMemo(
+    () => ({ start: segment.start, end: segment.end }),
+    [segment.start, segment.end],
+  );
+  const labels = useMemo(() => getContourLabels(segment, language), [segment, language]);
+
+  const referencePath = useMemo(() => {
+    if (!reference.contour) return null;
+    const { values, framesPerSecond, start } = reference.contour;
+    return buildPath(toSemitones(values), (index) => start + index / framesPerSecond, range);
+  }, [reference.contour, range]);
+
+  const learnerPath = useMemo(
+    () =>
+      reference.contour && learner.data
+        ? buildLearnerPath(reference.contour, learner.data, range)
+        : null,
+    [reference.contour, learner.data, range],
+  );
+
+  const duration = range.end - range.start;
+  const toPercent = (time: number) => ((time - range.start) / duration) * 100;
+  const showPlayhead =
+    currentTime !== undefined && currentTime >= range.start && currentTime <= range.end;
+
+  if (duration <= 0) return null;
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="relative h-16 w-full overflow-hidden rounded-md bg-[var(--surface-muted)]/40">
+        <svg
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="absolute inset-0 h-full w-full"
+          role="img"
+          aria-label={recording ? "原音与跟读录音的音高曲线" : "原音的音高曲线"}
+        >
+          {labels.map((label) => (
+            <line
+              key={`tick-${label.start}`}
+              x1={(toPercent(label.start) / 100) * VIEW_WIDTH}
+              x2={(toPercent(label.start) / 100) * VIEW_WIDTH}
+              y1={0}
+              y2={VIEW_HEIGHT}
+              className="stroke-[var(--border-muted)]"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+          <line
+            x1={0}
+            x2={VIEW_WIDTH}
+            y1={VIEW_HEIGHT / 2}
+            y2={VIEW_HEIGHT / 2}
+            className="stroke-[var(--border-muted)]"
+            strokeDasharray="4 4"
+            vectorEffect="non-scaling-stroke"
+          />
+          {referencePath && (
+            <path
+              d={referencePath}
+              fill="none"
+              className="stroke-[var(--player-accent-color)]"
+              strokeWidth={2.5}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {learnerPath && (
+            <path
+              d={learnerPath}
+              fill="none"
+              className="stroke-[var(--state-error-text)]"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+        {showPlayhead && (
+          <div
+            className="pointer-events-none absolute inset-y-0 w-px bg-[var(--text-primary)]"
+            style={{ left: `${toPercent(currentTime ?? 0)}%` }}
+          />
+        )}
+        {!reference.contour && (
+          <span className="absolute inset-0 flex items-center justify-center text-xs text-[var(--text-muted)]">
+            {reference.isLoading ? "正在分析音高..." : "无法提取音高"}
+          </span>
+        )}
+      </div>
+      {labels.length > 0 && (
+        <div className="relative h-5 w-full text-xs text-[var(--text-muted)]" aria-hidden="true">
+          {labels.map((label) => (
+            <span
+              key={`label-${label.start}`}
+              className="absolute -translate-x-1/2 whitespace-nowrap"
+              style={{ left: `${toPercent((label.start + label.end) / 2)}%` }}
+            >
+              {label.text}
+            </span>
+          ))}
+        </div>
+      )}
+      {recording && (
+        <div className="flex gap-3 text-xs text-[var(--text-muted)]">
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-0.5 w-4 bg-[var(--player-accent-color)]" />
+            原音
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-4 border-t-2 border-dashed border-[var(--state-error-text)]" />
+            {learner.isLoading ? "正在分析录音..." : "我的录音"}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * 逐句播放面板
+ * 显示当前句子与遍数，设置句尾停顿方式和每句重复次数
+ */
+
+"use client";
+
+import {
+  SettingsButtonGroup,
+  SettingsNumberInput,
+} from "@/components/features/settings/SettingsControls";
+import {
+  MAX_GAP_RATIO,
+  MAX_GAP_SECONDS,
+  MAX_REPEAT_COUNT,
+  MIN_GAP_RATIO,
+  MIN_GAP_SECONDS,
+  type SentenceGapMode,
+  type SentencePlaybackControls,
+} from "@/hooks/player/useSentencePlayback";
+import { formatTime } from "@/lib/db/subtitle-sync";
+import { cn } from "@/lib/utils/utils";
+
+const GAP_MODE_OPTIONS: { value: SentenceGapMode; label: string }[] = [
+  { value: "proportional", label: "按句长" },
+  { value: "fixed", label: "固定时长" },
+];
+
+interface SentencePlaybackPanelProps {
+  sentence: SentencePlaybackControls;
+  totalSentences: number;
+  isPlaying: boolean;
+  className?: string;
+}
+
+export function SentencePlaybackPanel({
+  sentence,
+  totalSentences,
+  isPlaying,
+  className,
+}: SentencePlaybackPanelProps) {
+  const { phase, segment, index, repetition, gapDuration, settings, updateSettings } = sentence;
+
+  const status =
+    phase === "gap"
+      ? `停顿 ${gapDuration.toFixed(1)} 秒，请跟读`
+      : isPlaying && segment
+        ? "播放中"
+        : "已暂停";
+
+  return (
+    <section
+      className={cn("card-default space-y-3 p-4", className)}
+      aria-label="逐句播放"
+      aria-live="polite"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span
+            className={cn(
+              "material-symbols-outlined",
+              phase === "gap"
+                ? "animate-pulse text-[var(--player-accent-color)]"
+                : "text-[var(--text-muted)]",
+            )}
+          >
+            {phase === "gap" ? "hourglass_top" : "playlist_play"}
+          </span>
+          <span className="text-sm font-medium text-[var(--text-primary)]">{status}</span>
+        </div>
+        {segment && (
+          <span className="text-xs text-[var(--text-muted)]">
+            第 {index + 1}/{totalSentences} 句 · 第 {repetition}/{settings.repeatCount} 遍 ·{" "}
+            {formatTime(segment.start)} - {formatTime(segment.end)}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={sentence.previous}
+          disabled={index <= 0}
+          aria-label="上一句"
+          title="上一句"
+        >
+          <span className="material-symbols-outlined">skip_previous</span>
+        </button>
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={sentence.repeat}
+          disabled={totalSentences === 0}
+          aria-label="重复本句"
+          title="重复本句"
+        >
+          <span className="material-symbols-outlined">replay</span>
+        </button>
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={sentence.advance}
+          disabled={index >= totalSentences - 1}
+          aria-label="下一句"
+          title="下一句"
+        >
+          <span className="material-symbols-outlined">skip_next</span>
+        </button>
+        <button
+          type="button"
+          className="btn-delete"
+          onClick={sentence.stop}
+          aria-label="退出逐句播放"
+          title="退出逐句播放"
+        >
+          <span className="material-symbols-outlined">close</span>
+        </button>
+      </div>
+
+      <div className="grid gap-3 text-sm text-[var(--text-primary)] sm:grid-cols-3">
+        <div className="space-y-1">
+          <span className="text-xs text-[var(--text-muted)]">句尾停顿</span>
+          <SettingsButtonGroup
+            options={GAP_MODE_OPTIONS}
+            value={settings.gapMode}
+            onChange={(value) => updateSettings({ gapMode: value as SentenceGapMode })}
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-[var(--text-muted)]">
+            {settings.gapMode === "fixed" ? "停顿秒数" : "停顿时长 / 句长"}
+          </span>
+          {settings.gapMode === "fixed" ? (
+            <SettingsNumberInput
+              value={settings.gapSeconds}
+              onChange={(value) => updateSettings({ gapSeconds: value })}
+              min={MIN_GAP_SECONDS}
+              max={MAX_GAP_SECONDS}
+              step={0.5}
+            />
+          ) : (
+            <SettingsNumberInput
+              value={settings.gapRatio}
+              onChange={(value) => updateSettings({ gapRatio: value })}
+              min={MIN_GAP_RATIO}
+              max={MAX_GAP_RATIO}
+              step={0.25}
+            />
+          )}
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-[var(--text-muted)]">每句播放遍数</span>
+          <SettingsNumberInput
+            value={settings.repeatCount}
+            onChange={(value) => updateSettings({ repeatCount: value })}
+            min={1}
+            max={MAX_REPEAT_COUNT}
+          />
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,195 @@
+/**
+ * 跟读面板
+ * 显示当前循环的字幕段、跟读阶段，并提供原音 / 录音的 A/B 对比和发音评分
+ */
+
+"use client";
+
+import { useState } from "react";
+import { PronunciationReport } from "@/components/features/player/PronunciationReport";
+import { SegmentPitchContour } from "@/components/features/player/SegmentPitchContour";
+import type { PronunciationScoringControls } from "@/hooks/player/usePronunciationScoring";
+import type { ShadowingModeControls, ShadowingPhase } from "@/hooks/player/useShadowingMode";
+import { formatTime } from "@/lib/db/subtitle-sync";
+import { cn } from "@/lib/utils/utils";
+
+const PHASE_LABELS: Record<ShadowingPhase, string> = {
+  idle: "未开始",
+  listening: "播放原音…",
+  recording: "录音中，请跟读",
+  reviewing: "对比中",
+};
+
+interface ShadowingPanelProps {
+  shadowing: ShadowingModeControls;
+  pronunciation: PronunciationScoringControls;
+  /** 提供后显示原音与最近一次录音的音高曲线 */
+  pitchFileId?: number;
+  language?: string;
+  className?: string;
+}
+
+export function ShadowingPanel({
+  shadowing,
+  pronunciation,
+  pitchFileId,
+  language,
+  className,
+}: ShadowingPanelProps) {
+  const { phase, segment, recordings } = shadowing;
+  const [selectedScoreId, setSelectedScoreId] = useState<number | null>(null);
+
+  if (!segment) {
+    return null;
+  }
+
+  // 默认展示最近一次评分，点击录音旁的分数可切换
+  const report =
+    pronunciation.scores.find((score) => score.id === selectedScoreId) ?? pronunciation.latest;
+
+  return (
+    <section
+      className={cn("card-default space-y-3 p-4", className)}
+      aria-label="跟读练习"
+      aria-live="polite"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span
+            className={cn(
+              "material-symbols-outlined",
+              phase === "recording" ? "text-red-500 animate-pulse" : "text-[var(--text-muted)]",
+            )}
+          >
+            {phase === "recording" ? "mic" : "record_voice_over"}
+          </span>
+          <span className="text-sm font-medium text-[var(--text-primary)]">
+            {PHASE_LABELS[phase]}
+          </span>
+        </div>
+        <span className="text-xs text-[var(--text-muted)]">
+          {formatTime(segment.start)} - {formatTime(segment.end)}
+        </span>
+      </div>
+
+      <p className="text-lg text-[var(--text-primary)]">{segment.text}</p>
+
+      {pitchFileId && (
+        <SegmentPitchContour
+          fileId={pitchFileId}
+          segment={segment}
+          language={language}
+          recording={recordings[0]}
+        />
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={shadowing.playOriginal}
+          aria-label="播放原音"
+          title="A：原音"
+        >
+          <span>A 原音</span>
+        </button>
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={() => shadowing.playRecording()}
+          disabled={recordings.length === 0}
+          aria-label="播放我的录音"
+          title="B：我的录音"
+        >
+          <span>B 我的录音</span>
+        </button>
+        {phase === "reviewing" ? (
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={() => shadowing.start(segment)}
+            aria-label="继续跟读"
+          >
+            <span className="material-symbols-outlined">replay</span>
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={shadowing.review}
+            aria-label="暂停循环"
+          >
+            <span className="material-symbols-outlined">pause</span>
+          </button>
+        )}
+        <button
+          type="button"
+          className="btn-delete"
+          onClick={shadowing.stop}
+          aria-label="退出跟读"
+          title="退出跟读"
+        >
+          <span className="material-symbols-outlined">close</span>
+        </button>
+      </div>
+
+      {recordings.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {recordings.map((recording, index) => {
+            const score = pronunciation.getScoreForRecording(recording.id);
+            const isScoring =
+              pronunciation.isScoring && pronunciation.scoringRecordingId === recording.id;
+
+            return (
+              <li key={recording.id} className="flex items-center justify-between gap-2">
+                <span className="text-[var(--text-muted)]">
+                  第 {recordings.length - index} 次 · {recording.duration.toFixed(1)} 秒
+                </span>
+                <div className="flex items-center gap-1">
+                  {score ? (
+                    <button
+                      type="button"
+                      className={cn("btn-secondary", report?.id === score.id && "font-semibold")}
+                      onClick={() => setSelectedScoreId(score.id ?? null)}
+                      aria-label="查看这次的评分"
+                    >
+                      <span>{score.score} 分</span>
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => pronunciation.scoreRecording(recording)}
+                      disabled={pronunciation.isScoring}
+                      aria-label="为这次录音评分"
+                    >
+                      <span>{isScoring ? "评分中…" : "评分"}</span>
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={() => shadowing.playRecording(recording)}
+                    aria-label="播放这次录音"
+                  >
+                    <span className="material-symbols-outlined">play_arrow</span>
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-delete"
+                    onClick={() => recording.id && shadowing.deleteRecording(recording.id)}
+                    aria-label="删除这次录音"
+                  >
+                    <span className="material-symbols-outlined">delete</span>
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {report && <PronunciationReport report={report} history={pronunciation.scores} />}
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * 快捷键列表
+ * 按分组列出当前生效的按键，可在设置页中重新绑定
+ */
+
+"use client";
+
+import Link from "next/link";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  formatKeyCombo,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_DEFINITIONS,
+  SHORTCUT_GROUP_LABELS,
+  type ShortcutBindings,
+  type ShortcutGroup,
+} from "@/lib/utils/keyboard-shortcuts";
+
+interface ShortcutHelpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: ShortcutBindings;
+}
+
+export function ShortcutHelpDialog({ open, onOpenChange, bindings }: ShortcutHelpDialogProps) {
+  const groups = Object.keys(SHORTCUT_GROUP_LABELS) as ShortcutGroup[];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>键盘快捷键</DialogTitle>
+          <DialogDescription>
+            耳机和键盘上的媒体键同样可以控制播放、切换上一句 / 下一句。
+            <Link href="/settings#shortcuts-section" className="ml-1 underline">
+              自定义快捷键
+            </Link>
+          </DialogDescription>
+        </DialogHeader>
+        {groups.map((group) => (
+          <section key={group} className="space-y-2">
+            <h3 className="text-sm font-medium text-[var(--text-muted)]">
+              {SHORTCUT_GROUP_LABELS[group]}
+            </h3>
+            <dl className="space-y-1 text-sm">
+              {SHORTCUT_ACTIONS.filter(
+                (action) => SHORTCUT_DEFINITIONS[action].group === group,
+              ).map((action) => (
+                <div key={action} className="flex items-center justify-between gap-4">
+                  <dt className="text-[var(--text-primary)]">
+                    {SHORTCUT_DEFINITIONS[action].label}
+                  </dt>
+                  <dd>
+                    <kbd className="rounded border border-[var(--border-muted)] px-2 py-0.5 font-mono text-xs text-[var(--text-secondary)]">
+                      {formatKeyCombo(bindings[action])}
+                    </kbd>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        ))}
+      </DialogContent>
+    </Dialog>
+  );
+}
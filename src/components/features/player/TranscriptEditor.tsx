@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SegmentBoundaryEditor } from "@/components/features/player/SegmentBoundaryEditor";
+import { Textarea } from "@/components/ui/textarea";
+import type { TranscriptEditorControls } from "@/hooks/player/useTranscriptEditor";
+import { useWaveformPeaks } from "@/hooks/player/useWaveformPeaks";
+import { formatTime } from "@/lib/db/subtitle-sync";
+import { MIN_SEGMENT_DURATION } from "@/lib/db/transcript-editor";
+import { cn } from "@/lib/utils/utils";
+
+interface TranscriptEditorProps {
+  fileId: number;
+  editor: TranscriptEditorControls;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+/**
+ * 字幕编辑面板
+ * 修改文本（失焦时提交）、在播放位置拆分、与下一段合并，以及在波形上调整边界
+ */
+export function TranscriptEditor({ fileId, editor, currentTime, onSeek }: TranscriptEditorProps) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const waveform = useWaveformPeaks(fileId, selectedIndex !== null);
+  const { segments, undo, redo } = editor;
+
+  // 撤销 / 重做：Ctrl+Z、Ctrl+Shift+Z、Ctrl+Y；输入框中保留浏览器自带的撤销
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea") || !(event.ctrlKey || event.metaKey)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === "y" || (key === "z" && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  const selected = selectedIndex !== null && segments[selectedIndex] ? selectedIndex : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="sticky top-0 z-10 flex flex-wrap items-center justify-between gap-2 rounded-md bg-[var(--surface-card)] py-2">
+        <div className="flex gap-2">
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={editor.undo}
+            disabled={!editor.canUndo}
+            aria-label="撤销"
+            title="撤销 (Ctrl+Z)"
+          >
+            <span className="material-symbols-outlined">undo</span>
+          </button>
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={editor.redo}
+            disabled={!editor.canRedo}
+            aria-label="重做"
+            title="重做 (Ctrl+Shift+Z)"
+          >
+            <span className="material-symbols-outlined">redo</span>
+          </button>
+        </div>
+        <span className="text-sm text-[var(--text-muted)]">
+          {editor.isDirty ? "有未保存的修改" : "编辑模式"} · {segments.length} 段
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={editor.cancel}
+            disabled={editor.isSaving}
+          >
+            <span>{editor.isDirty ? "放弃修改" : "退出编辑"}</span>
+          </button>
+          <button
+            type="button"
+            className="btn-primary"
+            onClick={editor.save}
+            disabled={!editor.isDirty || editor.isSaving}
+          >
+            <span>{editor.isSaving ? "保存中..." : "保存"}</span>
+          </button>
+        </div>
+      </div>
+
+      <ol className="space-y-3">
+        {segments.map((segment, index) => {
+          const isActive = currentTime >= segment.start && currentTime <= segment.end;
+          const canSplit =
+            currentTime - segment.start >= MIN_SEGMENT_DURATION &&
+            segment.end - currentTime >= MIN_SEGMENT_DURATION;
+          const text = segment.normalizedText || segment.text;
+
+          return (
+            <li
+              key={segment.id ?? `new-${segment.start}`}
+              className={cn(
+                "card-default space-y-2 p-3",
+                isActive && "border-[var(--player-accent-color)]",
+              )}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <button
+                  type="button"
+                  className="text-xs text-[var(--text-muted)] hover:underline"
+                  onClick={() => onSeek(segment.start)}
+                >
+                  {formatTime(segment.start)} - {formatTime(segment.end)}
+                </button>
+                <div className="flex gap-1">
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={() => editor.split(index, currentTime)}
+                    disabled={!canSplit}
+                    aria-label="在播放位置拆分"
+                    title="在播放位置拆分"
+                  >
+                    <span className="material-symbols-outlined">content_cut</span>
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={() => editor.merge(index)}
+                    disabled={index === segments.length - 1}
+                    aria-label="与下一段合并"
+                    title="与下一段合并"
+                  >
+                    <span className="material-symbols-outlined">merge</span>
+                  </button>
+                  <button
+                    type="button"
+                    className={selected === index ? "btn-primary" : "btn-secondary"}
+                    onClick={() => setSelectedIndex(selected === index ? null : index)}
+                    aria-pressed={selected === index}
+                    aria-label="调整时间边界"
+                    title="调整时间边界"
+                  >
+                    <span className="material-symbols-outlined">graphic_eq</span>
+                  </button>
+                </div>
+              </div>
+              <Textarea
+                // 撤销或重做后文本变化时重新挂载
+                key={text}
+                defaultValue={text}
+                rows={Math.min(4, Math.max(1, Math.ceil(text.length / 40)))}
+                aria-label={`第 ${index + 1} 段字幕文本`}
+                onBlur={(event) => editor.editText(index, event.target.value)}
+              />
+              {selected === index && (
+                <SegmentBoundaryEditor
+                  segments={segments}
+                  index={index}
+                  waveform={waveform.data}
+                  isWaveformLoading={waveform.isLoading}
+                  currentTime={currentTime}
+                  onRetime={(range) => editor.retime(index, range)}
+                  onSeek={onSeek}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * 视频画面
+ * 视频文件在字幕列表上方播放画面，可以把当前字幕叠加在画面底部
+ */
+
+"use client";
+
+import { type RefObject, useCallback } from "react";
+import type { Segment } from "@/types/db/database";
+
+interface VideoPanelProps {
+  /** 与音频播放共用的媒体元素引用，播放状态由播放器统一控制 */
+  mediaRef: RefObject<HTMLMediaElement | null>;
+  src: string;
+  segments: Segment[];
+  currentTime: number;
+  showSubtitles: boolean;
+  onToggleSubtitles: () => void;
+  showTranslation?: boolean;
+}
+
+export function VideoPanel({
+  mediaRef,
+  src,
+  segments,
+  currentTime,
+  showSubtitles,
+  onToggleSubtitles,
+  showTranslation = false,
+}: VideoPanelProps) {
+  const setVideoElement = useCallback(
+    (element: HTMLVideoElement | null) => {
+      mediaRef.current = element;
+    },
+    [mediaRef],
+  );
+
+  // 只显示正在播放的字幕段，句间停顿时不显示
+  const activeSegment = segments.find(
+    (segment) => currentTime >= segment.start && currentTime < segment.end,
+  );
+
+  return (
+    <div className="relative overflow-hidden rounded-lg bg-black">
+      <video
+        ref={setVideoElement}
+        src={src}
+        preload="auto"
+        playsInline
+        className="mx-auto max-h-[50vh] w-full"
+      >
+        <track kind="captions" />
+      </video>
+
+      {segments.length > 0 && (
+        <button
+          type="button"
+          className="absolute right-2 top-2 rounded-md bg-black/60 p-1 text-white hover:bg-black/80"
+          onClick={onToggleSubtitles}
+          aria-pressed={showSubtitles}
+          aria-label="画面字幕"
+          title={showSubtitles ? "隐藏画面字幕" : "在画面上显示字幕"}
+        >
+          <span className="material-symbols-outlined">
+            {showSubtitles ? "closed_caption" : "closed_caption_disabled"}
+          </span>
+        </button>
+      )}
+
+      {showSubtitles && activeSegment && (
+        <div className="pointer-events-none absolute inset-x-0 bottom-4 flex justify-center px-4">
+          <p className="max-w-[90%] rounded bg-black/70 px-3 py-1 text-center text-lg leading-snug text-white">
+            {activeSegment.text}
+            {showTranslation && activeSegment.translation && (
+              <span className="mt-1 block text-sm text-white/80">{activeSegment.translation}</span>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useWordLookup } from "@/hooks/player/useWordLookup";
+import { cn } from "@/lib/utils/utils";
+import type { Segment } from "@/types/db/database";
+
+interface WordLookupPopoverProps {
+  fileId: number;
+  segment: Segment;
+  word: string;
+  /** 字幕中的注音，模型和词典都没有读音时使用 */
+  reading?: string;
+  language?: string;
+  /** 相对于字幕段容器的位置 */
+  position: { left: number; top: number };
+  onClose: () => void;
+}
+
+/**
+ * 单词查询卡片
+ * 显示读音和释义，释义来自后处理词汇、字幕段注释或按需的模型查询
+ */
+export function WordLookupPopover({
+  fileId,
+  segment,
+  word,
+  reading,
+  language,
+  position,
+  onClose,
+}: WordLookupPopoverProps) {
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const lookup = useWordLookup({ fileId, segment, word, language });
+  const entry = lookup.entry;
+
+  // Esc 或点击卡片外部时关闭
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    const handlePointerDown = (event: PointerEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("pointerdown", handlePointerDown);
+    };
+  }, [onClose]);
+
+  const displayReading = entry?.reading ?? reading;
+
+  return (
+    <div
+      ref={popoverRef}
+      role="dialog"
+      aria-label={`查询 ${word}`}
+      className="card-default absolute z-20 w-72 space-y-3 p-4 text-left shadow-lg"
+      style={{ left: position.left, top: position.top }}
+      data-testid="word-lookup-popover"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-baseline gap-2">
+            <span className="text-lg font-semibold text-[var(--text-primary)]">
+              {entry?.lemma ?? word}
+            </span>
+            {displayReading && displayReading !== (entry?.lemma ?? word) && (
+              <span className="text-sm text-[var(--text-muted)]">{displayReading}</span>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2 text-xs text-[var(--text-muted)]">
+            {entry?.lemma && entry.lemma !== word && <span>{word}</span>}
+            {entry?.partOfSpeech && <span>{entry.partOfSpeech}</span>}
+            {entry?.level && (
+              <span className="rounded bg-[var(--surface-muted)] px-1.5">{entry.level}</span>
+            )}
+          </div>
+        </div>
+        <button
+          type="button"
+          className="rounded p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)]"
+          onClick={onClose}
+          aria-label="关闭"
+        >
+          <span className="material-symbols-outlined text-base">close</span>
+        </button>
+      </div>
+
+      {entry?.gloss && <p className="text-sm text-[var(--text-primary)]">{entry.gloss}</p>}
+
+      {lookup.annotations.length > 0 && (
+        <ul className="space-y-1 text-xs text-[var(--text-muted)]">
+          {lookup.annotations.map((annotation) => (
+            <li key={annotation}>{annotation}</li>
+          ))}
+        </ul>
+      )}
+
+      {lookup.lookupError && (
+        <p className="text-xs text-[var(--state-error-text)]">{lookup.lookupError}</p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {!entry?.gloss && (
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={lookup.lookup}
+            disabled={lookup.isLoading || lookup.isLookingUp}
+          >
+            <span className="material-symbols-outlined">
+              {lookup.isLookingUp ? "hourglass_top" : "search"}
+            </span>
+            <span>{lookup.isLookingUp ? "查询中..." : "查询释义"}</span>
+          </button>
+        )}
+        <button
+          type="button"
+          className={cn(lookup.isSaved ? "btn-secondary" : "btn-primary")}
+          onClick={lookup.addToDeck}
+          disabled={lookup.isAdding || !segment.id}
+        >
+          <span className="material-symbols-outlined">
+            {lookup.isSaved ? "library_add_check" : "library_add"}
+          </span>
+          <span>加入复习</span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import type { AudioPlayerState } from "@/types/db/database";
+import { WaveformTimeline } from "@/components/features/player/page/WaveformTimeline";
+import type { AudioPlayerState, Segment } from "@/types/db/database";
 
 const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.5];
 
@@ -12,6 +13,11 @@ interface PlayerFooterProps {
   onClearLoop?: () => void;
   loopStart?: number;
   loopEnd?: number;
+  onSetLoop?: (start: number, end: number) => void;
+  /** 提供时显示波形时间轴 */
+  fileId?: number;
+  segments?: Segment[];
+  shadowingRange?: { start: number; end: number };
   playbackRate: number;
   onPlaybackRateChange: (rate: number) => void;
   volume: number;
@@ -27,12 +33,17 @@ export function PlayerFooter({
   onClearLoop,
   loopStart,
   loopEnd,
+  onSetLoop,
+  fileId,
+  segments,
+  shadowingRange,
   playbackRate,
   onPlaybackRateChange,
   volume,
   onVolumeChange,
 }: PlayerFooterProps) {
   const [showSpeedMenu, setShowSpeedMenu] = useState(false);
+  const [showWaveform, setShowWaveform] = useState(true);
   const speedMenuRef = useRef<HTMLDivElement>(null);
 
   const progressWidth = useMemo(() => {
@@ -67,6 +78,19 @@ export function PlayerFooter({
   return (
     <footer className="fixed bottom-0 left-0 right-0 z-10 border-t border-[var(--border-muted)] bg-[var(--background-color)]/95 backdrop-blur-xl">
       <div className="mx-auto flex w-full max-w-5xl flex-col gap-4 px-4 py-4 sm:px-6">
+        {fileId && showWaveform ? (
+          <WaveformTimeline
+            fileId={fileId}
+            duration={audioPlayerState.duration}
+            currentTime={audioPlayerState.currentTime}
+            segments={segments}
+            loopStart={loopStart}
+            loopEnd={loopEnd}
+            shadowingRange={shadowingRange}
+            onSeek={onSeek}
+            onSetLoop={onSetLoop}
+          />
+        ) : null}
         <div className="flex flex-wrap items-center gap-3 text-[var(--text-color)]/70">
           <span className="min-w-[3rem] text-xs font-mono tabular-nums">
             {formatTime(audioPlayerState.currentTime)}
@@ -94,6 +118,20 @@ export function PlayerFooter({
           <span className="min-w-[3rem] text-right text-xs font-mono tabular-nums">
             {formatTime(audioPlayerState.duration || 0)}
           </span>
+          {fileId ? (
+            <button
+              type="button"
+              onClick={() => setShowWaveform((prev) => !prev)}
+              className={`rounded-full p-1 transition hover:text-[var(--primary-color)] ${
+                showWaveform ? "text-[var(--primary-color)]" : ""
+              }`}
+              aria-pressed={showWaveform}
+              aria-label="显示波形"
+              title="显示波形"
+            >
+              <span className="material-symbols-outlined text-base">graphic_eq</span>
+            </button>
+          ) : null}
         </div>
 
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -0,0 +1,339 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useAudioSamples, useWaveformPeaks } from "@/hooks/player/useWaveformPeaks";
+import { formatTime } from "@/lib/db/subtitle-sync";
+import { computePitchContour, drawPitchContour } from "@/lib/utils/pitch";
+import { cn } from "@/lib/utils/utils";
+import { computeSpectrogram, drawSpectrogram, drawWaveform } from "@/lib/utils/waveform";
+import type { Segment } from "@/types/db/database";
+
+const ZOOM_LEVELS = [1, 2, 4, 8, 16, 32, 64, 128];
+/** 放大后最短显示的时长（秒） */
+const MIN_VISIBLE_SECONDS = 2;
+/** 显示频谱图和基频曲线时允许的最长时长（秒），再长计算量过大 */
+const DETAIL_MAX_SECONDS = 30;
+/** 拖动超过该像素数才视为创建循环，否则视为点击跳转 */
+const DRAG_THRESHOLD_PX = 4;
+/** 拖动创建的循环最短时长（秒） */
+const MIN_LOOP_SECONDS = 0.2;
+/** 频谱图最多计算的列数 */
+const MAX_SPECTROGRAM_COLUMNS = 400;
+
+type Overlay = "none" | "pitch" | "spectrogram";
+
+const OVERLAY_OPTIONS: Array<{ value: Overlay; label: string; icon: string }> = [
+  { value: "none", label: "仅波形", icon: "graphic_eq" },
+  { value: "pitch", label: "音高曲线", icon: "show_chart" },
+  { value: "spectrogram", label: "频谱图", icon: "gradient" },
+];
+
+interface WaveformTimelineProps {
+  fileId: number;
+  duration: number;
+  currentTime: number;
+  segments?: Segment[];
+  loopStart?: number;
+  loopEnd?: number;
+  /** 跟读模式正在循环的范围 */
+  shadowingRange?: { start: number; end: number };
+  onSeek: (time: number) => void;
+  onSetLoop?: (start: number, end: number) => void;
+}
+
+/**
+ * 可缩放的波形时间轴
+ * 显示字幕段和循环范围，点击跳转，拖动创建循环；放大后可叠加音高曲线或频谱图
+ */
+export function WaveformTimeline({
+  fileId,
+  duration: mediaDuration,
+  currentTime,
+  segments = [],
+  loopStart,
+  loopEnd,
+  shadowingRange,
+  onSeek,
+  onSetLoop,
+}: WaveformTimelineProps) {
+  const waveformCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [zoomIndex, setZoomIndex] = useState(0);
+  const [viewStart, setViewStart] = useState(0);
+  const [overlay, setOverlay] = useState<Overlay>("none");
+  const [drag, setDrag] = useState<{ anchor: number; time: number; x: number; moved: boolean }>();
+
+  const waveform = useWaveformPeaks(fileId);
+  const duration = waveform.data?.duration || mediaDuration;
+  const visible = Math.min(
+    duration,
+    Math.max(MIN_VISIBLE_SECONDS, duration / ZOOM_LEVELS[zoomIndex]),
+  );
+  const showDetail = overlay !== "none" && visible <= DETAIL_MAX_SECONDS;
+  const samples = useAudioSamples(fileId, showDetail);
+
+  const clampStart = (start: number) =>
+    Math.min(Math.max(0, start), Math.max(0, duration - visible));
+
+  const windowRange = useMemo(
+    () => ({ start: viewStart, end: viewStart + visible }),
+    [viewStart, visible],
+  );
+
+  // 播放越过可见范围或跳转到范围外时翻页；手动拖动位置后暂停跟随，直到播放位置再次进入可见范围
+  const followRef = useRef({ windowRange, duration, lastTime: currentTime });
+  followRef.current.windowRange = windowRange;
+  followRef.current.duration = duration;
+  useEffect(() => {
+    const { windowRange: range, duration: total, lastTime } = followRef.current;
+    followRef.current.lastTime = currentTime;
+    const isInside = (time: number) => time >= range.start && time <= range.end;
+    const isSeek = Math.abs(currentTime - lastTime) > 1;
+    if (isInside(currentTime) || (!isInside(lastTime) && !isSeek)) return;
+
+    const span = range.end - range.start;
+    setViewStart(Math.min(Math.max(0, currentTime - span * 0.1), Math.max(0, total - span)));
+  }, [currentTime]);
+
+  useEffect(() => {
+    const canvas = waveformCanvasRef.current;
+    if (!canvas || !waveform.data) return;
+    drawWaveform(canvas, waveform.data, windowRange, getComputedStyle(canvas).color);
+  }, [waveform.data, windowRange]);
+
+  useEffect(() => {
+    const canvas = overlayCanvasRef.current;
+    if (!canvas) return;
+    if (!showDetail || !samples.data) {
+      canvas.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    const color = getComputedStyle(canvas).color;
+    if (overlay === "spectrogram") {
+      const columns = Math.min(MAX_SPECTROGRAM_COLUMNS, Math.max(1, canvas.clientWidth / 2));
+      drawSpectrogram(
+        canvas,
+        computeSpectrogram(samples.data, windowRange, Math.floor(columns)),
+        color,
+      );
+    } else {
+      drawPitchContour(canvas, computePitchContour(samples.data, windowRange), windowRange, color);
+    }
+  }, [showDetail, samples.data, overlay, windowRange]);
+
+  const changeZoom = (nextIndex: number) => {
+    const index = Math.min(ZOOM_LEVELS.length - 1, Math.max(0, nextIndex));
+    const nextVisible = Math.min(
+      duration,
+      Math.max(MIN_VISIBLE_SECONDS, duration / ZOOM_LEVELS[index]),
+    );
+    setZoomIndex(index);
+    // 以播放位置为中心缩放
+    setViewStart(
+      Math.min(Math.max(0, currentTime - nextVisible / 2), Math.max(0, duration - nextVisible)),
+    );
+  };
+
+  const toPercent = (time: number) => ((time - windowRange.start) / visible) * 100;
+
+  const timeFromClientX = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return windowRange.start;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    return windowRange.start + ratio * visible;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const time = timeFromClientX(event.clientX);
+    setDrag({ anchor: time, time, x: event.clientX, moved: false });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    setDrag({
+      ...drag,
+      time: timeFromClientX(event.clientX),
+      moved: drag.moved || Math.abs(event.clientX - drag.x) > DRAG_THRESHOLD_PX,
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const start = Math.min(drag.anchor, drag.time);
+    const end = Math.max(drag.anchor, drag.time);
+    if (!drag.moved) {
+      onSeek(drag.anchor);
+    } else if (onSetLoop && end - start >= MIN_LOOP_SECONDS) {
+      onSetLoop(start, end);
+      onSeek(start);
+    }
+    setDrag(undefined);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? 5 : 1;
+    if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+      event.preventDefault();
+      const delta = event.key === "ArrowLeft" ? -step : step;
+      onSeek(Math.min(duration, Math.max(0, currentTime + delta)));
+    } else if (event.key === "+" || event.key === "=") {
+      event.preventDefault();
+      changeZoom(zoomIndex + 1);
+    } else if (event.key === "-") {
+      event.preventDefault();
+      changeZoom(zoomIndex - 1);
+    }
+  };
+
+  const regionStyle = (start: number, end: number) => {
+    const left = Math.max(0, toPercent(start));
+    return { left: `${left}%`, width: `${Math.max(0, Math.min(100, toPercent(end)) - left)}%` };
+  };
+
+  const visibleSegments = segments.filter(
+    (segment) => segment.end > windowRange.start && segment.start < windowRange.end,
+  );
+  const hasLoop = loopStart !== undefined && loopEnd !== undefined && loopEnd > loopStart;
+  const dragRange =
+    drag?.moved && onSetLoop
+      ? { start: Math.min(drag.anchor, drag.time), end: Math.max(drag.anchor, drag.time) }
+      : null;
+
+  if (!duration) return null;
+
+  return (
+    <div className="flex flex-col gap-1.5 text-[var(--text-color)]/70">
+      <div
+        ref={trackRef}
+        role="slider"
+        tabIndex={0}
+        aria-label="波形，点击跳转，拖动创建循环"
+        aria-valuemin={0}
+        aria-valuemax={duration}
+        aria-valuenow={currentTime}
+        aria-valuetext={formatTime(currentTime)}
+        className="relative h-16 cursor-crosshair touch-none select-none overflow-hidden rounded-lg bg-[var(--surface-muted)]/40 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[var(--primary-color)]"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(undefined)}
+        onKeyDown={handleKeyDown}
+      >
+        {visibleSegments.map((segment, index) => (
+          <div
+            key={segment.id ?? `${segment.start}-${segment.end}`}
+            className={cn(
+              "pointer-events-none absolute inset-y-0 border-l border-[var(--border-muted)]",
+              index % 2 === 0 ? "bg-[var(--primary-color)]/5" : "bg-[var(--primary-color)]/10",
+            )}
+            style={regionStyle(segment.start, segment.end)}
+          />
+        ))}
+        {hasLoop && (
+          <div
+            className="pointer-events-none absolute inset-y-0 border-x-2 border-[var(--primary-color)] bg-[var(--primary-color)]/20"
+            style={regionStyle(loopStart ?? 0, loopEnd ?? 0)}
+          />
+        )}
+        {shadowingRange && (
+          <div
+            className="pointer-events-none absolute inset-y-0 border-x-2 border-dashed border-[var(--state-error-text)] bg-[var(--state-error-text)]/10"
+            style={regionStyle(shadowingRange.start, shadowingRange.end)}
+          />
+        )}
+        {dragRange && (
+          <div
+            className="pointer-events-none absolute inset-y-0 bg-[var(--primary-color)]/30"
+            style={regionStyle(dragRange.start, dragRange.end)}
+          />
+        )}
+        <canvas
+          ref={waveformCanvasRef}
+          className="pointer-events-none absolute inset-0 h-full w-full text-[var(--text-color)]/60"
+        />
+        <canvas
+          ref={overlayCanvasRef}
+          className={cn(
+            "pointer-events-none absolute inset-0 h-full w-full",
+            overlay === "spectrogram"
+              ? "text-[var(--primary-color)]"
+              : "text-[var(--state-error-text)]",
+          )}
+        />
+        <div
+          className="pointer-events-none absolute inset-y-0 w-0.5 bg-[var(--primary-color)]"
+          style={{ left: `${toPercent(currentTime)}%` }}
+        />
+        {!waveform.data && (
+          <span className="pointer-events-none absolute inset-0 flex items-center justify-center text-xs">
+            {waveform.isLoading ? "正在生成波形..." : "波形不可用"}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-[0.7rem]">
+        <span className="font-mono tabular-nums">{formatTime(windowRange.start)}</span>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => changeZoom(zoomIndex - 1)}
+            disabled={zoomIndex === 0}
+            className="rounded-full p-1 transition hover:text-[var(--primary-color)] disabled:opacity-40"
+            aria-label="缩小波形"
+          >
+            <span className="material-symbols-outlined text-base">zoom_out</span>
+          </button>
+          <span className="w-10 text-center font-mono tabular-nums">{ZOOM_LEVELS[zoomIndex]}x</span>
+          <button
+            type="button"
+            onClick={() => changeZoom(zoomIndex + 1)}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1 || visible <= MIN_VISIBLE_SECONDS}
+            className="rounded-full p-1 transition hover:text-[var(--primary-color)] disabled:opacity-40"
+            aria-label="放大波形"
+          >
+            <span className="material-symbols-outlined text-base">zoom_in</span>
+          </button>
+        </div>
+        {zoomIndex > 0 && (
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, duration - visible)}
+            step={0.1}
+            value={viewStart}
+            onChange={(event) => setViewStart(clampStart(parseFloat(event.target.value)))}
+            className="h-1 min-w-[6rem] flex-1 cursor-pointer accent-[var(--primary-color)]"
+            aria-label="波形位置"
+          />
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          {OVERLAY_OPTIONS.map((option) => (
+            <button
+              type="button"
+              key={option.value}
+              onClick={() => setOverlay(option.value)}
+              aria-pressed={overlay === option.value}
+              className={cn(
+                "rounded-full p-1 transition hover:text-[var(--primary-color)]",
+                overlay === option.value && "text-[var(--primary-color)]",
+              )}
+              aria-label={option.label}
+              title={option.label}
+            >
+              <span className="material-symbols-outlined text-base">{option.icon}</span>
+            </button>
+          ))}
+        </div>
+        {overlay !== "none" && !showDetail && (
+          <span className="text-[var(--text-color)]/50">
+            放大到 {DETAIL_MAX_SECONDS} 秒以内显示
+          </span>
+        )}
+        {showDetail && samples.isLoading && <span>正在分析音频...</span>}
+        <span className="font-mono tabular-nums">{formatTime(windowRange.end)}</span>
+      </div>
+    </div>
+  );
+}
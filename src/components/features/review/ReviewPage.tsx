@@ -0,0 +1,258 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ComponentLoadingState } from "@/components/ui/LoadingState";
+import { useReviewSession } from "@/hooks/db/useReviewDeck";
+import { useSegmentClipPlayer } from "@/hooks/player/useSegmentClipPlayer";
+import { getPlayerRoute } from "@/lib/config/routes";
+import { formatReviewInterval, REVIEW_GRADES, scheduleReview } from "@/lib/db/review-deck";
+import { formatTime } from "@/lib/db/subtitle-sync";
+import { normalizeFuriganaEntries } from "@/lib/utils/furigana";
+import type { ReviewGrade } from "@/types/db/database";
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: "忘记",
+  hard: "困难",
+  good: "记得",
+  easy: "简单",
+};
+
+const GRADE_CLASSES: Record<ReviewGrade, string> = {
+  again: "btn-delete",
+  hard: "btn-secondary",
+  good: "btn-primary",
+  easy: "btn-secondary",
+};
+
+interface ReviewToken {
+  /** 在原文中的起始位置，作为 key */
+  offset: number;
+  text: string;
+  reading?: string;
+}
+
+/**
+ * 原文按注音拆分为片段，没有注音时整句作为一个片段
+ */
+function ReviewText({ text, furigana }: { text: string; furigana?: unknown }) {
+  const tokens = useMemo<ReviewToken[]>(() => {
+    const entries = normalizeFuriganaEntries(furigana);
+    if (entries.length === 0) return [{ offset: 0, text }];
+
+    let offset = 0;
+    return entries.map((entry) => {
+      const token = { offset, text: entry.text, reading: entry.reading };
+      offset += entry.text.length;
+      return token;
+    });
+  }, [text, furigana]);
+
+  return (
+    <p className="text-xl text-[var(--text-primary)]">
+      {tokens.map((token) =>
+        token.reading && token.reading !== token.text ? (
+          <ruby key={token.offset}>
+            {token.text}
+            <rt>{token.reading}</rt>
+          </ruby>
+        ) : (
+          <span key={token.offset}>{token.text}</span>
+        ),
+      )}
+    </p>
+  );
+}
+
+/**
+ * 复习页面
+ * 先只播放字幕段音频，回忆后显示原文、注音和翻译，再按回忆程度评价
+ */
+export default function ReviewPage() {
+  const { items, isLoading, error, stats, isGrading, grade, reload } = useReviewSession();
+  const clipPlayer = useSegmentClipPlayer();
+  // 记录已显示答案的卡片，切换到下一张卡片时自然回到隐藏状态
+  const [revealedCardId, setRevealedCardId] = useState<number | undefined>();
+  const autoplayedCardIdRef = useRef<number | undefined>(undefined);
+
+  const current = items[0] ?? null;
+  const clip = current?.segment ?? current?.card ?? null;
+  const currentCardId = current?.card.id;
+  const revealed = currentCardId !== undefined && revealedCardId === currentCardId;
+  const reveal = useCallback(() => setRevealedCardId(currentCardId), [currentCardId]);
+
+  const playClip = useCallback(() => {
+    if (current && clip) {
+      clipPlayer.play(current.card.fileId, clip);
+    }
+  }, [current, clip, clipPlayer]);
+
+  // 切换到下一张卡片时自动播放，同一张卡片只播放一次
+  useEffect(() => {
+    if (currentCardId === undefined || autoplayedCardIdRef.current === currentCardId) return;
+    autoplayedCardIdRef.current = currentCardId;
+    playClip();
+  }, [currentCardId, playClip]);
+
+  const handleGrade = useCallback(
+    (reviewGrade: ReviewGrade) => {
+      if (!current || isGrading) return;
+      clipPlayer.stop();
+      grade(current.card, reviewGrade);
+    },
+    [current, isGrading, clipPlayer, grade],
+  );
+
+  // 空格显示答案 / 重播，数字键 1-4 评价
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!current || event.target instanceof HTMLInputElement) return;
+
+      if (event.code === "Space") {
+        event.preventDefault();
+        if (revealed) {
+          playClip();
+        } else {
+          reveal();
+        }
+        return;
+      }
+
+      const gradeIndex = Number.parseInt(event.key, 10) - 1;
+      if (revealed && REVIEW_GRADES[gradeIndex]) {
+        handleGrade(REVIEW_GRADES[gradeIndex]);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [current, revealed, playClip, reveal, handleGrade]);
+
+  const gradeHints = useMemo(() => {
+    if (!current) return null;
+    const now = new Date();
+    return Object.fromEntries(
+      REVIEW_GRADES.map((reviewGrade) => [
+        reviewGrade,
+        formatReviewInterval(scheduleReview(current.card, reviewGrade, now).due, now),
+      ]),
+    ) as Record<ReviewGrade, string>;
+  }, [current]);
+
+  if (isLoading) {
+    return <ComponentLoadingState text="加载复习卡片..." />;
+  }
+
+  if (error) {
+    return (
+      <div className="card-default p-6 text-center text-sm text-[var(--state-error-text)]">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-[var(--text-primary)]">复习</h1>
+        <span className="text-sm text-[var(--text-muted)]">
+          待复习 {items.length} · 共 {stats.total} 张
+        </span>
+      </header>
+
+      {!current ? (
+        <div className="card-default space-y-3 p-8 text-center">
+          <p className="text-[var(--text-primary)]">
+            {stats.total === 0 ? "还没有收藏的句子" : "今天的复习已完成"}
+          </p>
+          <p className="text-sm text-[var(--text-muted)]">
+            {stats.total === 0
+              ? "在播放器中点击字幕旁的书签图标即可收藏难句"
+              : "稍后再来，到期的卡片会自动出现在这里"}
+          </p>
+          {stats.total > 0 && (
+            <button type="button" className="btn-secondary" onClick={reload}>
+              <span>刷新</span>
+            </button>
+          )}
+        </div>
+      ) : (
+        <section className="card-default space-y-6 p-6" aria-label="复习卡片" aria-live="polite">
+          <div className="flex items-center justify-between text-xs text-[var(--text-muted)]">
+            {current.file ? (
+              <Link href={getPlayerRoute(String(current.card.fileId))} className="hover:underline">
+                {current.file.name}
+              </Link>
+            ) : (
+              <span>文件已删除</span>
+            )}
+            {clip && (
+              <span>
+                {formatTime(clip.start)} - {formatTime(clip.end)}
+              </span>
+            )}
+          </div>
+
+          <div className="flex justify-center">
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={clipPlayer.isPlaying ? clipPlayer.stop : playClip}
+              disabled={!current.file}
+              aria-label={clipPlayer.isPlaying ? "停止播放" : "播放句子"}
+            >
+              <span className="material-symbols-outlined">
+                {clipPlayer.isPlaying ? "stop" : "volume_up"}
+              </span>
+            </button>
+          </div>
+
+          {revealed ? (
+            <div className="space-y-3 text-center">
+              {current.segment ? (
+                <ReviewText
+                  text={current.segment.normalizedText || current.segment.text}
+                  furigana={current.segment.furigana}
+                />
+              ) : (
+                <ReviewText text={current.card.text} />
+              )}
+              {current.segment?.translation && (
+                <p className="text-[var(--text-muted)]">{current.segment.translation}</p>
+              )}
+              {!current.segment && (
+                <p className="text-xs text-[var(--text-muted)]">
+                  原字幕已被重新转录替换，显示的是收藏时的文本
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <button type="button" className="btn-secondary" onClick={reveal}>
+                <span>显示原文（空格）</span>
+              </button>
+            </div>
+          )}
+
+          {revealed && gradeHints && (
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {REVIEW_GRADES.map((reviewGrade, index) => (
+                <button
+                  key={reviewGrade}
+                  type="button"
+                  className={GRADE_CLASSES[reviewGrade]}
+                  onClick={() => handleGrade(reviewGrade)}
+                  disabled={isGrading}
+                >
+                  <span>
+                    {index + 1}. {GRADE_LABELS[reviewGrade]} · {gradeHints[reviewGrade]}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useDeferredValue, useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { ComponentLoadingState } from "@/components/ui/LoadingState";
+import { useLibrarySearch } from "@/hooks/db/useLibrarySearch";
+import { getPlayerRoute, ROUTES } from "@/lib/config/routes";
+import type { SnippetPart } from "@/lib/db/search-index";
+import { formatTime } from "@/lib/db/subtitle-sync";
+
+function Snippet({ parts }: { parts: SnippetPart[] }) {
+  // 片段在摘要中的起始位置唯一，作为 key
+  let offset = 0;
+  const keyed = parts.map((part) => {
+    const key = offset;
+    offset += part.text.length;
+    return { ...part, key };
+  });
+
+  return (
+    <>
+      {keyed.map((part) =>
+        part.match ? (
+          <mark
+            key={part.key}
+            className="rounded bg-[var(--player-highlight-bg)] px-0.5 text-[var(--text-primary)]"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={part.key}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+/**
+ * 全文搜索页面
+ * 在所有转录的原文、规范化文本和翻译中搜索，点击结果跳转到播放器中对应的字幕段
+ */
+export default function SearchPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [query, setQuery] = useState(() => searchParams.get("q") ?? "");
+  const deferredQuery = useDeferredValue(query);
+  const { results, isIndexing, isSearching, error } = useLibrarySearch(deferredQuery);
+
+  // 查询写入 URL，从播放器返回时保留搜索结果
+  useEffect(() => {
+    const trimmed = deferredQuery.trim();
+    router.replace(trimmed ? `${ROUTES.SEARCH}?q=${encodeURIComponent(trimmed)}` : ROUTES.SEARCH, {
+      scroll: false,
+    });
+  }, [deferredQuery, router]);
+
+  return (
+    <div className="space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-semibold text-[var(--text-primary)]">搜索</h1>
+        {deferredQuery.trim() && !isIndexing && (
+          <span className="text-sm text-[var(--text-muted)]">
+            {isSearching ? "搜索中..." : `${results.length} 条结果`}
+          </span>
+        )}
+      </header>
+
+      <Input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="搜索所有字幕的原文和翻译"
+        aria-label="搜索字幕"
+      />
+
+      {isIndexing ? (
+        <ComponentLoadingState text="正在建立搜索索引..." />
+      ) : error ? (
+        <div className="card-default p-6 text-center text-sm text-[var(--state-error-text)]">
+          {error}
+        </div>
+      ) : !deferredQuery.trim() ? (
+        <p className="text-center text-sm text-[var(--text-muted)]">
+          输入单词或句子，在所有已转录的文件中查找
+        </p>
+      ) : results.length === 0 && !isSearching ? (
+        <div className="card-default p-8 text-center text-[var(--text-primary)]">
+          没有找到匹配的字幕
+        </div>
+      ) : (
+        <ul className="space-y-2" aria-live="polite">
+          {results.map((result) => (
+            <li key={result.segmentId}>
+              <Link
+                href={getPlayerRoute(String(result.fileId), result.start)}
+                className="card-default block space-y-1 p-4 hover:bg-[var(--surface-muted)]"
+              >
+                <div className="flex items-center justify-between gap-2 text-xs text-[var(--text-muted)]">
+                  <span className="truncate">{result.fileName || "未命名文件"}</span>
+                  <span className="shrink-0">{formatTime(result.start)}</span>
+                </div>
+                <p className="text-[var(--text-primary)]">
+                  <Snippet parts={result.snippet} />
+                </p>
+                {result.translationSnippet && (
+                  <p className="text-sm text-[var(--text-muted)]">
+                    <Snippet parts={result.translationSnippet} />
+                  </p>
+                )}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
+import { DataBackupSection } from "@/components/features/settings/page/DataBackupSection";
 import { FeedbackSection } from "@/components/features/settings/page/FeedbackSection";
+import { KeyboardShortcutsSection } from "@/components/features/settings/page/KeyboardShortcutsSection";
 import { LearningLanguageSection } from "@/components/features/settings/page/LearningLanguageSection";
 import { SettingsLayout } from "@/components/features/settings/SettingsLayout";
 
@@ -9,6 +11,8 @@ export default function SettingsPage() {
     <SettingsLayout>
       <div className="space-y-8">
         <LearningLanguageSection />
+        <KeyboardShortcutsSection />
+        <DataBackupSection />
         <FeedbackSection />
       </div>
     </SettingsLayout>
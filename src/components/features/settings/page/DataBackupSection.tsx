@@ -0,0 +1,126 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import {
+  SettingsCard,
+  SettingsRow,
+  SettingsRowContent,
+  SettingsSection,
+} from "@/components/features/settings/SettingsCard";
+import { SettingsButtonGroup } from "@/components/features/settings/SettingsControls";
+import {
+  BACKUP_FILE_EXTENSION,
+  type BackupImportMode,
+  exportLibraryBackup,
+  getBackupFileName,
+  importLibraryBackup,
+} from "@/lib/db/library-backup";
+import { getTranscriptionQueue } from "@/lib/utils/transcription-queue";
+
+const IMPORT_MODE_OPTIONS: { value: BackupImportMode; label: string }[] = [
+  { value: "merge", label: "合并" },
+  { value: "replace", label: "覆盖" },
+];
+
+export function DataBackupSection() {
+  const queryClient = useQueryClient();
+  const [importMode, setImportMode] = useState<BackupImportMode>("merge");
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async () => {
+    const { toast } = await import("sonner");
+    setIsBusy(true);
+
+    try {
+      const archive = await exportLibraryBackup();
+      const url = URL.createObjectURL(archive);
+
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getBackupFileName();
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast.success("资料库备份已导出");
+    } catch (error) {
+      toast.error(`备份失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async (archive: File) => {
+    const { toast } = await import("sonner");
+    setIsBusy(true);
+
+    try {
+      // 覆盖会清空资料库，先清空转录队列，避免旧任务被写回
+      if (importMode === "replace") {
+        getTranscriptionQueue().cancelAll();
+      }
+      const result = await importLibraryBackup(archive, { mode: importMode });
+      await queryClient.invalidateQueries();
+
+      const skipped = result.skippedFiles > 0 ? `，跳过 ${result.skippedFiles} 个重复文件` : "";
+      toast.success(`已恢复 ${result.files} 个文件、${result.segments} 条字幕${skipped}`);
+    } catch (error) {
+      toast.error(`恢复失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <SettingsSection title="数据备份" sectionKey="backup">
+      <SettingsCard>
+        <SettingsRow>
+          <SettingsRowContent
+            title="导出备份"
+            description="将音频、转录、字幕、学习记录、词典、合集、播客订阅和设置打包为单个文件"
+          />
+          <button type="button" className="btn-secondary" onClick={handleExport} disabled={isBusy}>
+            <span className="material-symbols-outlined">download</span>
+          </button>
+        </SettingsRow>
+
+        <SettingsRow>
+          <SettingsRowContent
+            title="导入方式"
+            description="合并会保留现有数据并跳过重复文件，覆盖会先清空当前资料库"
+          />
+          <SettingsButtonGroup
+            options={IMPORT_MODE_OPTIONS}
+            value={importMode}
+            onChange={(value) => setImportMode(value as BackupImportMode)}
+          />
+        </SettingsRow>
+
+        <SettingsRow>
+          <SettingsRowContent title="从备份恢复" />
+          <label
+            className={`btn-secondary ${isBusy ? "pointer-events-none opacity-50" : "cursor-pointer"}`}
+            aria-label="从备份恢复"
+          >
+            <span className="material-symbols-outlined">upload</span>
+            <input
+              type="file"
+              accept={BACKUP_FILE_EXTENSION}
+              className="hidden"
+              disabled={isBusy}
+              onChange={(event) => {
+                const archive = event.target.files?.[0];
+                if (archive) {
+                  handleImport(archive);
+                }
+                event.target.value = "";
+              }}
+            />
+          </label>
+        </SettingsRow>
+      </SettingsCard>
+    </SettingsSection>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * 快捷键设置组件
+ * 点击按键后按下新的组合键即可重新绑定，与其他动作冲突时拒绝修改
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  SettingsCard,
+  SettingsRow,
+  SettingsRowContent,
+  SettingsSection,
+} from "@/components/features/settings/SettingsCard";
+import { type ShortcutBindingResult, useShortcutBindings } from "@/hooks/ui/useShortcutBindings";
+import {
+  formatKeyCombo,
+  getKeyCombo,
+  SHORTCUT_ACTIONS,
+  SHORTCUT_DEFINITIONS,
+  type ShortcutAction,
+} from "@/lib/utils/keyboard-shortcuts";
+import { cn } from "@/lib/utils/utils";
+
+function describeFailure(result: ShortcutBindingResult, combo: string): string | null {
+  if (result.ok) return null;
+  if (result.reason === "reserved") {
+    return `${formatKeyCombo(combo)} 为保留按键，不能绑定`;
+  }
+  return `${formatKeyCombo(combo)} 已被「${SHORTCUT_DEFINITIONS[result.conflict].label}」使用`;
+}
+
+export function KeyboardShortcutsSection() {
+  const { bindings, updateBinding, clearBinding, resetBinding, resetAll } = useShortcutBindings();
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!recordingAction) return;
+
+    // 捕获阶段拦截，避免录制按键时触发其他快捷键
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === "Escape") {
+        setRecordingAction(null);
+        return;
+      }
+
+      const combo = getKeyCombo(event);
+      if (!combo) return;
+      setMessage(describeFailure(updateBinding(recordingAction, combo), combo));
+      setRecordingAction(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [recordingAction, updateBinding]);
+
+  const handleReset = (action: ShortcutAction) => {
+    setMessage(describeFailure(resetBinding(action), SHORTCUT_DEFINITIONS[action].defaultKey));
+  };
+
+  return (
+    <SettingsSection title="快捷键" sectionKey="shortcuts">
+      <SettingsCard>
+        {SHORTCUT_ACTIONS.map((action) => {
+          const definition = SHORTCUT_DEFINITIONS[action];
+          const isRecording = recordingAction === action;
+          const isCustomized = bindings[action] !== definition.defaultKey;
+
+          return (
+            <SettingsRow key={action}>
+              <SettingsRowContent title={definition.label} />
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className={cn(
+                    "min-w-24 rounded-lg border-2 px-3 py-1 font-mono text-sm",
+                    isRecording
+                      ? "border-[var(--state-info-text)] text-[var(--state-info-text)]"
+                      : "border-[var(--border-secondary)] text-[var(--text-primary)]",
+                  )}
+                  onClick={() => {
+                    setMessage(null);
+                    setRecordingAction(isRecording ? null : action);
+                  }}
+                  aria-label={`修改「${definition.label}」的快捷键`}
+                  aria-pressed={isRecording}
+                >
+                  {isRecording ? "请按下按键…" : formatKeyCombo(bindings[action])}
+                </button>
+                <button
+                  type="button"
+                  className="rounded p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-30"
+                  onClick={() => clearBinding(action)}
+                  disabled={!bindings[action]}
+                  aria-label={`清除「${definition.label}」的快捷键`}
+                  title="清除"
+                >
+                  <span className="material-symbols-outlined text-xl">backspace</span>
+                </button>
+                <button
+                  type="button"
+                  className="rounded p-1 text-[var(--text-muted)] hover:text-[var(--text-primary)] disabled:opacity-30"
+                  onClick={() => handleReset(action)}
+                  disabled={!isCustomized}
+                  aria-label={`恢复「${definition.label}」的默认快捷键`}
+                  title={`恢复默认（${formatKeyCombo(definition.defaultKey)}）`}
+                >
+                  <span className="material-symbols-outlined text-xl">restart_alt</span>
+                </button>
+              </div>
+            </SettingsRow>
+          );
+        })}
+
+        <SettingsRow>
+          <SettingsRowContent
+            title="恢复全部默认"
+            description="播放页可随时打开快捷键列表查看当前按键，录制时按 Esc 取消"
+          />
+          <button
+            type="button"
+            className="btn-secondary"
+            onClick={() => {
+              resetAll();
+              setMessage(null);
+            }}
+          >
+            <span>恢复默认</span>
+          </button>
+        </SettingsRow>
+      </SettingsCard>
+      {message && (
+        <p className="text-sm text-[var(--state-error-text)]" role="alert">
+          {message}
+        </p>
+      )}
+    </SettingsSection>
+  );
+}
@@ -0,0 +1,13 @@
+/**
+ * 转录队列执行器
+ * 不渲染任何内容，挂载后恢复持久化的队列并在后台执行转录任务
+ */
+
+"use client";
+
+import { useTranscriptionQueueRunner } from "@/hooks/useFileStatus";
+
+export function TranscriptionQueueRunner() {
+  useTranscriptionQueueRunner();
+  return null;
+}
@@ -15,6 +15,24 @@ export default function Navigation() {
       icon: "home",
       href: ROUTES.HOME,
     },
+    {
+      id: "search",
+      label: "搜索",
+      icon: "search",
+      href: ROUTES.SEARCH,
+    },
+    {
+      id: "review",
+      label: "复习",
+      icon: "style",
+      href: ROUTES.REVIEW,
+    },
+    {
+      id: "dictionary",
+      label: "词典",
+      icon: "menu_book",
+      href: ROUTES.DICTIONARY,
+    },
     {
       id: "settings",
       label: "设置",
@@ -1,10 +1,29 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { db } from "@/lib/db/db";
+import { useEffect } from "react";
+import {
+  AUDIO_CHUNKING_CONFIG,
+  type AudioChunk,
+  type ChunkProgressHandler,
+  decodeToMono,
+  getAudioFileName,
+  shouldChunkAudio,
+  transcribeInChunks,
+} from "@/lib/ai/audio-chunking";
+import { type ServerProgress, TRANSCRIPTION_PROGRESS } from "@/lib/ai/server-progress";
+import { DBUtils, db } from "@/lib/db/db";
 import {
   handleTranscriptionError,
   handleTranscriptionSuccess,
 } from "@/lib/utils/transcription-error-handler";
 import { getCacheManager } from "@/lib/utils/cache-manager";
+import {
+  detectSpeechRegions,
+  refineSegmentsWithAudio,
+  refineSegmentsWithSpeech,
+  type SpeechRegion,
+} from "@/lib/utils/voice-activity";
+import type { Segment, TranscriptRow } from "@/types/db/database";
+import type { TranscriptionSegment } from "@/types/transcription";
 
 // 转录响应类型
 interface TranscriptionResponse {
@@ -15,6 +34,7 @@ interface TranscriptionResponse {
     language: string;
     duration?: number;
     segments: Array<{
+      id: number;
       start: number;
       end: number;
       text: string;
@@ -32,6 +52,20 @@ interface TranscriptionResponse {
   };
 }
 
+/**
+ * 转录状态查询的数据
+ * progress 和 partialSegments 仅在转录进行中由进度流写入
+ */
+export interface TranscriptionStatusData {
+  transcript: TranscriptRow | null;
+  segments: Segment[];
+  progress?: ServerProgress;
+  partialSegments?: TranscriptionSegment[];
+}
+
+// 进度流不可用时的轮询间隔
+const PROGRESS_POLL_INTERVAL_MS = 2000;
+
 // 查询转录状态的查询键
 export const transcriptionKeys = {
   all: ["transcription"] as const,
@@ -39,11 +73,97 @@ export const transcriptionKeys = {
   progress: (fileId: number) => [...transcriptionKeys.forFile(fileId), "progress"] as const,
 };
 
-// 获取文件转录状态的查询 - 简化版本
+/**
+ * 订阅转录进度：优先使用 SSE，连接失败或浏览器不支持时回退为轮询
+ * 收到的进度和部分 segments 写入转录状态查询的缓存
+ */
+function useTranscriptionProgressStream(fileId: number, enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled || Number.isNaN(fileId)) return;
+
+    const queryKey = transcriptionKeys.forFile(fileId);
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let finished = false;
+
+    const applyProgress = (progress: ServerProgress) => {
+      finished = progress.status === "completed" || progress.status === "failed";
+      queryClient.setQueryData<TranscriptionStatusData>(queryKey, (old) =>
+        old ? { ...old, progress } : old,
+      );
+    };
+
+    const startPolling = () => {
+      if (pollTimer) return;
+
+      const poll = async () => {
+        try {
+          const response = await fetch(`/api/progress/${fileId}`);
+          // 404 表示服务端尚未记录进度
+          if (!response.ok) return;
+          const result = (await response.json()) as { progress?: ServerProgress };
+          if (result.progress) {
+            applyProgress(result.progress);
+          }
+        } catch (error) {
+          console.warn("轮询转录进度失败:", error);
+        }
+      };
+
+      poll();
+      pollTimer = setInterval(poll, PROGRESS_POLL_INTERVAL_MS);
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      source = new EventSource(`/api/progress/${fileId}/stream`);
+
+      source.addEventListener("progress", (event) => {
+        applyProgress(JSON.parse((event as MessageEvent<string>).data) as ServerProgress);
+      });
+
+      source.addEventListener("segments", (event) => {
+        const { segments } = JSON.parse((event as MessageEvent<string>).data) as {
+          segments: TranscriptionSegment[];
+        };
+        queryClient.setQueryData<TranscriptionStatusData>(queryKey, (old) =>
+          old
+            ? {
+                ...old,
+                partialSegments: [...(old.partialSegments ?? []), ...segments].sort(
+                  (a, b) => a.start - b.start,
+                ),
+              }
+            : old,
+        );
+      });
+
+      // 服务端在转录结束后关闭连接属于正常情况，其余错误回退为轮询
+      source.onerror = () => {
+        source?.close();
+        if (!finished) {
+          startPolling();
+        }
+      };
+    }
+
+    return () => {
+      source?.close();
+      if (pollTimer) {
+        clearInterval(pollTimer);
+      }
+    };
+  }, [fileId, enabled, queryClient]);
+}
+
+// 获取文件转录状态的查询 - 转录进行中时同时订阅进度流
 export function useTranscriptionStatus(fileId: number) {
-  return useQuery({
+  const query = useQuery({
     queryKey: transcriptionKeys.forFile(fileId),
-    queryFn: async () => {
+    queryFn: async (): Promise<TranscriptionStatusData> => {
       const transcripts = await db.transcripts.where("fileId").equals(fileId).toArray();
       const transcript = transcripts.length > 0 ? transcripts[0] : null;
 
@@ -63,6 +183,10 @@ export function useTranscriptionStatus(fileId: number) {
     staleTime: 1000 * 60 * 15, // 15 minutes - 增加缓存时间减少网络请求
     gcTime: 1000 * 60 * 30, // 30 minutes
   });
+
+  useTranscriptionProgressStream(fileId, query.data?.transcript?.status === "processing");
+
+  return query;
 }
 
 /**
@@ -173,6 +297,27 @@ async function saveTranscriptionResults(
   }
 }
 
+/**
+ * 上报在浏览器中完成的转录阶段，经服务端进度推送给订阅者
+ * 上报失败只记录警告，不影响转录本身
+ */
+async function reportTranscriptionStage(
+  fileId: number,
+  progress: number,
+  message: string,
+  status: "processing" | "completed" = "processing",
+): Promise<void> {
+  try {
+    await fetch(`/api/progress/${fileId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ status, progress, message }),
+    });
+  } catch (error) {
+    console.warn("上报转录进度失败:", error);
+  }
+}
+
 /**
  * 延迟函数
  */
@@ -197,6 +342,124 @@ function isRetryableError(error: unknown): boolean {
   );
 }
 
+/**
+ * 读取 429 响应要求的等待秒数，优先使用 Retry-After 响应头
+ */
+function getRetryAfterSeconds(response: Response, errorData: unknown): number | null {
+  const header = Number(response.headers.get("Retry-After"));
+  if (Number.isFinite(header) && header > 0) return header;
+  const details = (errorData as { error?: { details?: { retryAfter?: unknown } } }).error?.details;
+  const retryAfter = Number(details?.retryAfter);
+  return Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null;
+}
+
+/**
+ * 上传音频到转录 API，失败时按指数退避重试，被限流时按 Retry-After 等待后重试
+ * 分块上传时通过 query 和 meta 同时传递分块序号与偏移量
+ */
+async function requestTranscription({
+  audio,
+  fileName,
+  fileId,
+  language,
+  maxRetries,
+  signal,
+  chunk,
+}: {
+  audio: Blob;
+  fileName: string;
+  fileId: number;
+  language: string;
+  maxRetries: number;
+  signal?: AbortSignal;
+  chunk?: Pick<AudioChunk, "index" | "start"> & { totalChunks: number };
+}): Promise<TranscriptionResponse["data"]> {
+  // 准备表单数据
+  const formData = new FormData();
+  formData.append("audio", audio, fileName);
+  formData.append(
+    "meta",
+    JSON.stringify({
+      fileId: fileId.toString(),
+      ...(chunk
+        ? { chunkIndex: chunk.index, totalChunks: chunk.totalChunks, offsetSec: chunk.start }
+        : {}),
+    }),
+  );
+
+  const params = new URLSearchParams({ fileId: fileId.toString(), language });
+  if (chunk) {
+    params.set("chunkIndex", chunk.index.toString());
+    params.set("totalChunks", chunk.totalChunks.toString());
+    params.set("offsetSec", chunk.start.toString());
+  }
+
+  let lastError: Error | null = null;
+
+  // 重试循环
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    // 检查是否已取消
+    if (signal?.aborted) {
+      throw new DOMException("转录已取消", "AbortError");
+    }
+
+    try {
+      // 调用服务器端 API 路由，传入 signal 支持取消
+      const response = await fetch(`/api/transcribe?${params.toString()}`, {
+        method: "POST",
+        body: formData,
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        if (response.status === 429 && attempt < maxRetries - 1) {
+          const waitTime = (getRetryAfterSeconds(response, errorData) ?? 2 ** attempt) * 1000;
+          console.log(`请求过于频繁，${waitTime / 1000}秒后重试 (${attempt + 1}/${maxRetries})...`);
+          await delay(waitTime);
+          continue;
+        }
+        throw new Error(
+          errorData.message || `转录失败: ${response.statusText} (${response.status})`,
+        );
+      }
+
+      const result: TranscriptionResponse = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error?.message || "转录请求失败");
+      }
+
+      return result.data;
+    } catch (error) {
+      // 如果是取消操作，直接抛出不重试
+      if (error instanceof DOMException && error.name === "AbortError") {
+        throw error;
+      }
+
+      lastError = error instanceof Error ? error : new Error(String(error));
+
+      // 最后一次尝试或不可重试的错误，直接抛出
+      if (attempt === maxRetries - 1 || !isRetryableError(error)) {
+        handleTranscriptionError(error, {
+          fileId,
+          operation: "transcribe",
+          language,
+        });
+        throw error;
+      }
+
+      // 指数退避等待
+      const waitTime = 1000 * 2 ** attempt; // 1s, 2s, 4s
+      console.log(`转录失败，${waitTime / 1000}秒后重试 (${attempt + 1}/${maxRetries})...`);
+      await delay(waitTime);
+    }
+  }
+
+  // 不应该到达这里，但为了类型安全
+  throw lastError || new Error("转录失败");
+}
+
 // 转录操作的 mutation - 支持自动重试和取消
 export function useTranscription() {
   const queryClient = useQueryClient();
@@ -207,84 +470,97 @@ export function useTranscription() {
       language = "ja",
       maxRetries = 3,
       signal,
+      onProgress,
     }: {
       fileId: number;
       language?: string;
       maxRetries?: number;
       signal?: AbortSignal;
+      onProgress?: ChunkProgressHandler;
     }) => {
       // 获取文件数据
       const file = await db.files.get(fileId);
-      if (!file || !file.blob) {
+      const audioBlob = file ? await DBUtils.getAudioBlob(file) : undefined;
+      if (!file || !audioBlob) {
         throw new Error("文件不存在或文件数据已损坏");
       }
 
-      // 准备表单数据
-      const formData = new FormData();
-      formData.append("audio", file.blob, file.name);
-      formData.append("meta", JSON.stringify({ fileId: file.id?.toString() || "" }));
-
-      let lastError: Error | null = null;
-
-      // 重试循环
-      for (let attempt = 0; attempt < maxRetries; attempt++) {
-        // 检查是否已取消
-        if (signal?.aborted) {
-          throw new DOMException("转录已取消", "AbortError");
-        }
-
-        try {
-          // 调用服务器端 API 路由，传入 signal 支持取消
-          const response = await fetch(`/api/transcribe?fileId=${fileId}&language=${language}`, {
-            method: "POST",
-            body: formData,
-            signal,
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json().catch(() => ({}));
-            throw new Error(
-              errorData.message || `转录失败: ${response.statusText} (${response.status})`,
-            );
-          }
-
-          const result: TranscriptionResponse = await response.json();
-
-          if (!result.success) {
-            throw new Error(result.error?.message || "转录请求失败");
-          }
-
-          // 保存转录结果到数据库（使用事务）
-          await saveTranscriptionResults(fileId, result.data);
+      let data: TranscriptionResponse["data"];
+      let speechRegions: SpeechRegion[] | null = null;
+
+      await reportTranscriptionStage(fileId, TRANSCRIPTION_PROGRESS.upload, "正在上传音频...");
+
+      if (shouldChunkAudio(audioBlob)) {
+        // 超过上传限制的长音频：切分后逐块转录，再拼接结果
+        // 语音检测复用分块时解码的样本，不再重复解码整个文件
+        const samples = await decodeToMono(audioBlob);
+        speechRegions = detectSpeechRegions(samples, AUDIO_CHUNKING_CONFIG.sampleRate);
+        const baseName = file.name.replace(/\.[^/.]+$/, "") || "audio";
+        const merged = await transcribeInChunks(
+          audioBlob,
+          (chunk, totalChunks) =>
+            requestTranscription({
+              audio: chunk.blob,
+              fileName: `${baseName}.part${chunk.index + 1}.wav`,
+              fileId,
+              language,
+              maxRetries,
+              signal,
+              chunk: { ...chunk, totalChunks },
+            }),
+          { onProgress, samples },
+        );
+
+        data = {
+          status: "completed",
+          text: merged.text,
+          language: merged.language ?? language,
+          duration: merged.duration,
+          segments: merged.segments ?? [],
+        };
+      } else {
+        data = await requestTranscription({
+          audio: audioBlob,
+          fileName: getAudioFileName(file),
+          fileId,
+          language,
+          maxRetries,
+          signal,
+        });
+      }
 
-          return result.data;
-        } catch (error) {
-          // 如果是取消操作，直接抛出不重试
-          if (error instanceof DOMException && error.name === "AbortError") {
-            throw error;
-          }
+      await reportTranscriptionStage(
+        fileId,
+        TRANSCRIPTION_PROGRESS.postprocess,
+        "正在整理转录结果...",
+      );
+      await reportTranscriptionStage(
+        fileId,
+        TRANSCRIPTION_PROGRESS.refine,
+        "正在按语音校准字幕时间...",
+      );
 
-          lastError = error instanceof Error ? error : new Error(String(error));
+      // Whisper 的字幕段常从停顿处提前开始，按检测到的语音修正起止时间并在长静音处拆分
+      data = {
+        ...data,
+        segments: speechRegions
+          ? refineSegmentsWithSpeech(data.segments, speechRegions)
+          : await refineSegmentsWithAudio(audioBlob, data.segments),
+      };
 
-          // 最后一次尝试或不可重试的错误，直接抛出
-          if (attempt === maxRetries - 1 || !isRetryableError(error)) {
-            handleTranscriptionError(error, {
-              fileId,
-              operation: "transcribe",
-              language,
-            });
-            throw error;
-          }
+      // 保存转录结果到数据库（使用事务）
+      await reportTranscriptionStage(fileId, TRANSCRIPTION_PROGRESS.save, "正在保存转录结果...");
+      await saveTranscriptionResults(fileId, data);
 
-          // 指数退避等待
-          const waitTime = 1000 * 2 ** attempt; // 1s, 2s, 4s
-          console.log(`转录失败，${waitTime / 1000}秒后重试 (${attempt + 1}/${maxRetries})...`);
-          await delay(waitTime);
-        }
-      }
+      // segments 写入数据库后才算完成，进度流随之关闭
+      await reportTranscriptionStage(
+        fileId,
+        TRANSCRIPTION_PROGRESS.completed,
+        "转录完成",
+        "completed",
+      );
 
-      // 不应该到达这里，但为了类型安全
-      throw lastError || new Error("转录失败");
+      return data;
     },
     onSuccess: (_result, variables) => {
       // 转录完成并保存
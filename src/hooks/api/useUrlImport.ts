@@ -0,0 +1,174 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import {
+  getPodcastSubscriptions,
+  markPodcastChecked,
+  subscribeToPodcast,
+  unsubscribeFromPodcast,
+} from "@/lib/db/podcast-subscriptions";
+import type { PodcastEpisode, PodcastFeed } from "@/lib/utils/podcast-feed";
+import type { ImportPreview } from "@/lib/utils/remote-import";
+import type { FileSource } from "@/types/db/database";
+
+export const podcastKeys = {
+  all: ["podcasts"] as const,
+  subscriptions: () => [...podcastKeys.all, "subscriptions"] as const,
+};
+
+/**
+ * 让服务端识别链接：音频或播客订阅源
+ */
+async function requestImportPreview(url: string): Promise<ImportPreview> {
+  const response = await fetch("/api/import/feed", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url }),
+  });
+  const result = (await response.json().catch(() => null)) as {
+    success: boolean;
+    data?: ImportPreview;
+    error?: { message?: string };
+  } | null;
+
+  if (!response.ok || !result?.success || !result.data) {
+    throw new Error(result?.error?.message || `读取链接失败 (${response.status})`);
+  }
+
+  return result.data;
+}
+
+/**
+ * 通过服务端下载音频，返回可直接保存的 File
+ */
+async function requestImportAudio(url: string, title?: string): Promise<File> {
+  const response = await fetch("/api/import/audio", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url, title }),
+  });
+
+  if (!response.ok) {
+    const result = (await response.json().catch(() => null)) as {
+      error?: { message?: string };
+    } | null;
+    throw new Error(result?.error?.message || `下载音频失败 (${response.status})`);
+  }
+
+  const blob = await response.blob();
+  const fileName = decodeURIComponent(response.headers.get("X-File-Name") ?? "") || "audio.mp3";
+  return new File([blob], fileName, { type: blob.type });
+}
+
+export interface UrlImportItem {
+  url: string;
+  title?: string;
+  source: FileSource;
+}
+
+/**
+ * 播客单集转为导入项，保留标题、节目名和发布日期
+ */
+export function episodeToImportItem(feed: PodcastFeed, episode: PodcastEpisode): UrlImportItem {
+  return {
+    url: episode.audioUrl,
+    title: episode.title,
+    source: {
+      type: "podcast",
+      url: episode.audioUrl,
+      title: episode.title,
+      show: feed.title,
+      feedUrl: feed.feedUrl,
+      guid: episode.guid,
+      publishedAt: episode.publishedAt ? new Date(episode.publishedAt) : undefined,
+    },
+  };
+}
+
+/**
+ * 从链接或播客订阅源导入音频
+ * @param onFilesReady 下载完成后保存到资料库
+ */
+export function useUrlImport(
+  onFilesReady: (files: File[], sources: FileSource[]) => Promise<void>,
+) {
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  // 上次查看已订阅节目的时间，之后发布的单集标记为新单集
+  const [lastCheckedAt, setLastCheckedAt] = useState<Date | null>(null);
+
+  const subscriptionsQuery = useQuery({
+    queryKey: podcastKeys.subscriptions(),
+    queryFn: getPodcastSubscriptions,
+  });
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: podcastKeys.all });
+
+  const previewMutation = useMutation({
+    mutationFn: requestImportPreview,
+    onSuccess: async (preview) => {
+      const subscription =
+        preview.kind === "feed"
+          ? subscriptionsQuery.data?.find((item) => item.feedUrl === preview.feed.feedUrl)
+          : undefined;
+      setLastCheckedAt(subscription?.lastCheckedAt ?? null);
+      if (subscription) {
+        await markPodcastChecked(subscription.feedUrl);
+        invalidate();
+      }
+    },
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: subscribeToPodcast,
+    onSuccess: invalidate,
+  });
+  const unsubscribeMutation = useMutation({
+    mutationFn: unsubscribeFromPodcast,
+    onSuccess: invalidate,
+  });
+
+  /**
+   * 逐个下载，单个失败不影响其余文件
+   * @returns 失败的条目及原因
+   */
+  const importItems = async (items: UrlImportItem[]) => {
+    const files: File[] = [];
+    const sources: FileSource[] = [];
+    const failures: { item: UrlImportItem; message: string }[] = [];
+
+    setProgress({ done: 0, total: items.length });
+    try {
+      for (const [index, item] of items.entries()) {
+        try {
+          files.push(await requestImportAudio(item.url, item.title));
+          sources.push(item.source);
+        } catch (error) {
+          failures.push({ item, message: error instanceof Error ? error.message : "未知错误" });
+        }
+        setProgress({ done: index + 1, total: items.length });
+      }
+      if (files.length > 0) {
+        await onFilesReady(files, sources);
+      }
+    } finally {
+      setProgress(null);
+    }
+
+    return { imported: files.length, failures };
+  };
+
+  return {
+    preview: previewMutation.data ?? null,
+    previewError: previewMutation.error,
+    isLoadingPreview: previewMutation.isPending,
+    loadPreview: previewMutation.mutateAsync,
+    clearPreview: previewMutation.reset,
+    lastCheckedAt,
+    subscriptions: subscriptionsQuery.data ?? [],
+    subscribe: subscribeMutation.mutateAsync,
+    unsubscribe: unsubscribeMutation.mutateAsync,
+    importItems,
+    progress,
+  };
+}
+
+export type UrlImportControls = ReturnType<typeof useUrlImport>;
@@ -8,9 +8,11 @@ vi.mock("@/lib/db/db", () => ({
   DBUtils: {
     getAllFiles: vi.fn(),
     addFile: vi.fn(),
+    addChunkedFile: vi.fn(),
     deleteFile: vi.fn(),
   },
   db: {},
+  CHUNKED_STORAGE_THRESHOLD: 16,
 }));
 
 describe("useFiles", () => {
@@ -145,6 +147,28 @@ describe("useFiles", () => {
 
       expect(DBUtils.addFile).toHaveBeenCalledTimes(2);
     });
+
+    it("should use chunked storage for large files", async () => {
+      (DBUtils.addChunkedFile as ReturnType<typeof vi.fn>).mockResolvedValue(1);
+
+      const { result } = renderHook(() => useFiles());
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      const largeFile = new File(["a".repeat(32)], "podcast.mp3", { type: "audio/mpeg" });
+
+      await act(async () => {
+        await result.current.addFiles([largeFile]);
+      });
+
+      expect(DBUtils.addFile).not.toHaveBeenCalled();
+      expect(DBUtils.addChunkedFile).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "podcast.mp3", size: 32 }),
+        largeFile,
+      );
+    });
   });
 
   describe("deleteFile", () => {
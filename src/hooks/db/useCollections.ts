@@ -0,0 +1,162 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
+import {
+  addTagsToFiles,
+  createCollection,
+  deleteCollection,
+  getCollectionFileIds,
+  getCollections,
+  getFileIdsByTag,
+  getFileTagMap,
+  getTags,
+  getUncollectedFileIds,
+  moveFilesToCollection,
+  removeFilesFromCollection,
+  removeTag,
+  renameCollection,
+  reorderCollection,
+} from "@/lib/db/collections";
+
+/**
+ * 失败时 onError 已经提示过错误，调用方只需要知道是否成功
+ */
+function settle<TVariables>(mutateAsync: (variables: TVariables) => Promise<unknown>) {
+  return (variables: TVariables) =>
+    mutateAsync(variables).then(
+      () => true,
+      () => false,
+    );
+}
+
+/** 文件列表的浏览范围：全部、某个合集、未归入合集或某个标签 */
+export type LibraryScope =
+  | { type: "all" }
+  | { type: "uncollected" }
+  | { type: "collection"; collectionId: number }
+  | { type: "tag"; tag: string };
+
+export const collectionKeys = {
+  all: ["collections"] as const,
+  list: () => [...collectionKeys.all, "list"] as const,
+  tags: () => [...collectionKeys.all, "tags"] as const,
+  fileTags: () => [...collectionKeys.all, "file-tags"] as const,
+  scope: (scope: LibraryScope) => [...collectionKeys.all, "scope", scope] as const,
+};
+
+async function getScopeFileIds(scope: LibraryScope): Promise<number[] | null> {
+  switch (scope.type) {
+    case "collection":
+      return getCollectionFileIds(scope.collectionId);
+    case "uncollected":
+      return getUncollectedFileIds();
+    case "tag":
+      return getFileIdsByTag(scope.tag);
+    default:
+      return null;
+  }
+}
+
+/**
+ * 文件库的合集和标签，以及批量整理操作
+ */
+export function useLibraryOrganization(scope: LibraryScope) {
+  const queryClient = useQueryClient();
+
+  const collectionsQuery = useQuery({
+    queryKey: collectionKeys.list(),
+    queryFn: getCollections,
+  });
+  const tagsQuery = useQuery({
+    queryKey: collectionKeys.tags(),
+    queryFn: getTags,
+  });
+  const fileTagsQuery = useQuery({
+    queryKey: collectionKeys.fileTags(),
+    queryFn: getFileTagMap,
+  });
+  // 合集中的文件 id 按合集内顺序排列，null 表示不限制范围
+  const scopeQuery = useQuery({
+    queryKey: collectionKeys.scope(scope),
+    queryFn: () => getScopeFileIds(scope),
+  });
+
+  const invalidate = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: collectionKeys.all }),
+    [queryClient],
+  );
+  const onError = async (error: Error) => {
+    const { toast } = await import("sonner");
+    toast.error(`操作失败: ${error.message}`);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (name: string) => createCollection(name),
+    onSuccess: invalidate,
+    onError,
+  });
+  const renameMutation = useMutation({
+    mutationFn: ({ id, name }: { id: number; name: string }) => renameCollection(id, name),
+    onSuccess: invalidate,
+    onError,
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => deleteCollection(id),
+    onSuccess: invalidate,
+    onError,
+  });
+  const moveMutation = useMutation({
+    mutationFn: ({
+      fileIds,
+      toCollectionId,
+      fromCollectionId,
+    }: {
+      fileIds: number[];
+      toCollectionId: number;
+      fromCollectionId?: number;
+    }) => moveFilesToCollection(fileIds, toCollectionId, fromCollectionId),
+    onSuccess: invalidate,
+    onError,
+  });
+  const removeFromCollectionMutation = useMutation({
+    mutationFn: ({ collectionId, fileIds }: { collectionId: number; fileIds: number[] }) =>
+      removeFilesFromCollection(collectionId, fileIds),
+    onSuccess: invalidate,
+    onError,
+  });
+  const reorderMutation = useMutation({
+    mutationFn: ({ collectionId, fileIds }: { collectionId: number; fileIds: number[] }) =>
+      reorderCollection(collectionId, fileIds),
+    onSuccess: invalidate,
+    onError,
+  });
+  const addTagsMutation = useMutation({
+    mutationFn: ({ fileIds, tags }: { fileIds: number[]; tags: string[] }) =>
+      addTagsToFiles(fileIds, tags),
+    onSuccess: invalidate,
+    onError,
+  });
+  const removeTagMutation = useMutation({
+    mutationFn: ({ tag, fileIds }: { tag: string; fileIds?: number[] }) => removeTag(tag, fileIds),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return {
+    collections: collectionsQuery.data ?? [],
+    tags: tagsQuery.data ?? [],
+    fileTags: fileTagsQuery.data,
+    scopeFileIds: scopeQuery.data,
+    isScopeLoading: scopeQuery.isLoading,
+    createCollection: settle(createMutation.mutateAsync),
+    renameCollection: settle(renameMutation.mutateAsync),
+    deleteCollection: settle(deleteMutation.mutateAsync),
+    moveFiles: settle(moveMutation.mutateAsync),
+    removeFromCollection: settle(removeFromCollectionMutation.mutateAsync),
+    reorderCollection: reorderMutation.mutate,
+    addTags: settle(addTagsMutation.mutateAsync),
+    removeTag: settle(removeTagMutation.mutateAsync),
+    refresh: invalidate,
+  };
+}
+
+export type LibraryOrganizationControls = ReturnType<typeof useLibraryOrganization>;
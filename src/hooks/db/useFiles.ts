@@ -4,19 +4,39 @@
  */
 
 import { useCallback, useEffect, useState } from "react";
-import { DBUtils } from "@/lib/db/db";
-import type { FileRow } from "@/types/db/database";
+import { extractAudioTrack } from "@/lib/ai/audio-chunking";
+import { CHUNKED_STORAGE_THRESHOLD, DBUtils } from "@/lib/db/db";
+import { isVideoType, resolveMediaType } from "@/lib/utils/file-validation";
+import { getTranscriptionQueue } from "@/lib/utils/transcription-queue";
+import type { FileRow, FileSource } from "@/types/db/database";
 
 export interface UseFilesReturn {
   files: FileRow[];
   isLoading: boolean;
   loadFiles: () => Promise<void>;
   refreshFiles: () => Promise<void>;
-  addFiles: (files: File[]) => Promise<void>;
+  addFiles: (
+    files: File[],
+    sources?: (FileSource | undefined)[],
+    audioTracks?: (Blob | undefined)[],
+  ) => Promise<void>;
   deleteFile: (fileId: string) => Promise<void>;
+  deleteFiles: (fileIds: number[]) => Promise<void>;
   error: string | null;
 }
 
+/**
+ * 提取视频音轨；浏览器无法解码时返回 undefined，转录时退回使用原视频
+ */
+async function extractVideoAudio(file: File): Promise<Blob | undefined> {
+  try {
+    return await extractAudioTrack(file);
+  } catch (err) {
+    console.warn(`提取视频音轨失败: ${file.name}`, err);
+    return undefined;
+  }
+}
+
 export function useFiles(): UseFilesReturn {
   const [files, setFiles] = useState<FileRow[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -41,20 +61,50 @@ export function useFiles(): UseFilesReturn {
   }, [loadFiles]);
 
   const addFiles = useCallback(
-    async (newFiles: File[]) => {
+    async (
+      newFiles: File[],
+      sources?: (FileSource | undefined)[],
+      audioTracks?: (Blob | undefined)[],
+    ) => {
       try {
         setError(null);
 
-        for (const file of newFiles) {
+        for (const [index, file] of newFiles.entries()) {
           const now = new Date();
+          // 通过链接导入的文件保留来源信息
+          const source = sources?.[index];
+          const type = await resolveMediaType(file);
+          // 视频和保留了原文件的压缩音频：原文件用于播放，另存的音轨用于转录
+          const audioTrack =
+            audioTracks?.[index] ?? (isVideoType(type) ? await extractVideoAudio(file) : undefined);
+
+          // 大文件使用分块存储
+          if (file.size > CHUNKED_STORAGE_THRESHOLD) {
+            await DBUtils.addChunkedFile(
+              {
+                name: file.name,
+                size: file.size,
+                type,
+                uploadedAt: now,
+                updatedAt: now,
+                source,
+                audioTrack,
+              },
+              file,
+            );
+            continue;
+          }
+
           const fileRow: Omit<FileRow, "id"> = {
             name: file.name,
             size: file.size,
-            type: file.type,
+            type,
             blob: file,
             isChunked: false,
             uploadedAt: now, // 使用数据库 schema 中定义的字段名
             updatedAt: now,
+            source,
+            audioTrack,
           };
 
           await DBUtils.addFile(fileRow);
@@ -76,6 +126,8 @@ export function useFiles(): UseFilesReturn {
         setError(null);
         const id = parseInt(fileId, 10);
         if (!Number.isNaN(id)) {
+          // 先移出转录队列，避免队列把已删除文件的任务写回数据库
+          getTranscriptionQueue().cancel(id);
           await DBUtils.deleteFile(id);
           await loadFiles(); // 重新加载文件列表
         }
@@ -88,6 +140,26 @@ export function useFiles(): UseFilesReturn {
     [loadFiles],
   );
 
+  // 批量删除，全部删除后只重新加载一次
+  const deleteFiles = useCallback(
+    async (fileIds: number[]) => {
+      try {
+        setError(null);
+        for (const id of fileIds) {
+          getTranscriptionQueue().cancel(id);
+          await DBUtils.deleteFile(id);
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "删除文件失败";
+        setError(errorMessage);
+        throw err;
+      } finally {
+        await loadFiles();
+      }
+    },
+    [loadFiles],
+  );
+
   // 初始加载
   useEffect(() => {
     loadFiles();
@@ -100,6 +172,7 @@ export function useFiles(): UseFilesReturn {
     refreshFiles,
     addFiles,
     deleteFile,
+    deleteFiles,
     error,
   };
 }
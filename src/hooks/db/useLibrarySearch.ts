@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+import { searchLibrary, syncSearchIndex } from "@/lib/db/search-index";
+
+export const searchKeys = {
+  all: ["search"] as const,
+  index: () => [...searchKeys.all, "index"] as const,
+  results: (query: string) => [...searchKeys.all, "results", query] as const,
+};
+
+/**
+ * 全文搜索：打开页面时先同步索引，之后的查询只读索引
+ */
+export function useLibrarySearch(query: string) {
+  const trimmed = query.trim();
+
+  const indexQuery = useQuery({
+    queryKey: searchKeys.index(),
+    queryFn: syncSearchIndex,
+    staleTime: 0,
+  });
+
+  const resultsQuery = useQuery({
+    queryKey: searchKeys.results(query),
+    queryFn: () => searchLibrary(query),
+    enabled: indexQuery.isSuccess && trimmed.length > 0,
+    placeholderData: (previous) => previous,
+  });
+
+  return {
+    results: trimmed ? (resultsQuery.data ?? []) : [],
+    isIndexing: indexQuery.isLoading,
+    isSearching: resultsQuery.isFetching,
+    error: indexQuery.error?.message ?? resultsQuery.error?.message ?? null,
+  };
+}
@@ -0,0 +1,123 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useMemo } from "react";
+import {
+  addReviewCard,
+  getDueReviewItems,
+  getReviewCardsForFile,
+  getReviewStats,
+  gradeReviewCard,
+  removeReviewCard,
+} from "@/lib/db/review-deck";
+import type { ReviewCardRow, ReviewGrade, Segment } from "@/types/db/database";
+
+export const reviewKeys = {
+  all: ["review"] as const,
+  forFile: (fileId: number) => [...reviewKeys.all, "file", fileId] as const,
+  due: () => [...reviewKeys.all, "due"] as const,
+  stats: () => [...reviewKeys.all, "stats"] as const,
+};
+
+/**
+ * 播放器中的收藏状态：按字幕段收藏 / 取消收藏
+ */
+export function useSegmentReviewCards(fileId?: number) {
+  const queryClient = useQueryClient();
+
+  const cardsQuery = useQuery({
+    queryKey: reviewKeys.forFile(fileId ?? 0),
+    queryFn: () => getReviewCardsForFile(fileId ?? 0),
+    enabled: Boolean(fileId),
+  });
+
+  const cardsBySegment = useMemo(() => {
+    const map = new Map<number, ReviewCardRow>();
+    for (const card of cardsQuery.data ?? []) {
+      map.set(card.segmentId, card);
+    }
+    return map;
+  }, [cardsQuery.data]);
+
+  const toggleMutation = useMutation({
+    mutationFn: async (segment: Segment) => {
+      if (!fileId || !segment.id) return;
+
+      const existing = cardsBySegment.get(segment.id);
+      if (existing?.id) {
+        await removeReviewCard(existing.id);
+      } else {
+        await addReviewCard(fileId, segment);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: reviewKeys.all });
+    },
+    onError: async (error) => {
+      const { toast } = await import("sonner");
+      toast.error(`收藏失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    },
+  });
+
+  const { mutate } = toggleMutation;
+  const toggleSegment = useCallback((segment: Segment) => mutate(segment), [mutate]);
+
+  const savedSegmentIds = useMemo(() => new Set(cardsBySegment.keys()), [cardsBySegment]);
+
+  return { savedSegmentIds, toggleSegment };
+}
+
+/**
+ * 复习会话：获取到期的卡片并记录评价
+ */
+export function useReviewSession() {
+  const queryClient = useQueryClient();
+
+  const dueQuery = useQuery({
+    queryKey: reviewKeys.due(),
+    queryFn: () => getDueReviewItems(),
+    // 复习过程中不自动刷新，避免刚评价"忘记"的卡片立刻重新出现打乱顺序
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  const statsQuery = useQuery({
+    queryKey: reviewKeys.stats(),
+    queryFn: () => getReviewStats(),
+  });
+
+  const gradeMutation = useMutation({
+    mutationFn: ({ card, grade }: { card: ReviewCardRow; grade: ReviewGrade }) =>
+      gradeReviewCard(card, grade),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(reviewKeys.due(), (items: typeof dueQuery.data) =>
+        items?.filter((item) => item.card.id !== updated.id),
+      );
+      queryClient.invalidateQueries({ queryKey: reviewKeys.stats() });
+      queryClient.invalidateQueries({ queryKey: reviewKeys.forFile(updated.fileId) });
+    },
+    onError: async (error) => {
+      const { toast } = await import("sonner");
+      toast.error(`保存复习结果失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    },
+  });
+
+  const { mutate } = gradeMutation;
+  const grade = useCallback(
+    (card: ReviewCardRow, reviewGrade: ReviewGrade) => mutate({ card, grade: reviewGrade }),
+    [mutate],
+  );
+
+  // 重新获取到期卡片，包括本轮评价为"忘记"且已到期的卡片
+  const { refetch } = dueQuery;
+  const reload = useCallback(() => {
+    refetch();
+  }, [refetch]);
+
+  return {
+    items: dueQuery.data ?? [],
+    isLoading: dueQuery.isLoading,
+    error: dueQuery.error?.message ?? null,
+    stats: statsQuery.data ?? { total: 0, due: 0 },
+    isGrading: gradeMutation.isPending,
+    grade,
+    reload,
+  };
+}
@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
+import { transcriptionKeys } from "@/hooks/api/useTranscription";
+import { postProcessSegmentsByTranscriptId } from "@/lib/ai/transcription-service";
+import {
+  getKnownWordForms,
+  getVocabularyList,
+  setVocabularyKnown,
+  type VocabularyFilter,
+} from "@/lib/db/vocabulary";
+
+export const vocabularyKeys = {
+  all: ["vocabulary"] as const,
+  list: (filter: VocabularyFilter) => [...vocabularyKeys.all, "list", filter] as const,
+  knownForms: (fileId: number) => [...vocabularyKeys.all, "known", fileId] as const,
+  word: (segmentId: number, word: string) =>
+    [...vocabularyKeys.all, "word", segmentId, word] as const,
+};
+
+/**
+ * 词典页面：按条件查询单词并切换掌握状态
+ */
+export function useVocabularyList(filter: VocabularyFilter) {
+  const queryClient = useQueryClient();
+
+  const listQuery = useQuery({
+    queryKey: vocabularyKeys.list(filter),
+    queryFn: () => getVocabularyList(filter),
+    placeholderData: (previous) => previous,
+  });
+
+  const knownMutation = useMutation({
+    mutationFn: ({ id, known }: { id: number; known: boolean }) => setVocabularyKnown(id, known),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: vocabularyKeys.all });
+    },
+    onError: async (error) => {
+      const { toast } = await import("sonner");
+      toast.error(`更新失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    },
+  });
+
+  const { mutate } = knownMutation;
+  const setKnown = useCallback((id: number, known: boolean) => mutate({ id, known }), [mutate]);
+
+  return {
+    words: listQuery.data ?? [],
+    isLoading: listQuery.isLoading,
+    error: listQuery.error?.message ?? null,
+    setKnown,
+  };
+}
+
+/**
+ * 播放器字幕中需要弱化显示的已掌握单词
+ */
+export function useKnownWordForms(fileId?: number) {
+  const query = useQuery({
+    queryKey: vocabularyKeys.knownForms(fileId ?? 0),
+    queryFn: () => getKnownWordForms(fileId ?? 0),
+    enabled: Boolean(fileId),
+  });
+  return query.data;
+}
+
+/**
+ * 对文件的转录重新后处理，生成翻译、注音和词汇
+ */
+export function useVocabularyExtraction(fileId?: number, transcriptId?: number) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (!transcriptId) {
+        throw new Error("请先完成转录");
+      }
+      return postProcessSegmentsByTranscriptId(transcriptId);
+    },
+    onSuccess: async () => {
+      if (fileId) {
+        queryClient.invalidateQueries({ queryKey: transcriptionKeys.forFile(fileId) });
+      }
+      queryClient.invalidateQueries({ queryKey: vocabularyKeys.all });
+      const { toast } = await import("sonner");
+      toast.success("词汇提取完成");
+    },
+    onError: async (error) => {
+      const { toast } = await import("sonner");
+      toast.error(`词汇提取失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    },
+  });
+
+  return { extract: mutation.mutate, isExtracting: mutation.isPending };
+}
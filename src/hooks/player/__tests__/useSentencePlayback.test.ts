@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { Segment } from "@/types/db/database";
+import {
+  DEFAULT_SENTENCE_PLAYBACK_SETTINGS,
+  findSentenceIndex,
+  getSentenceGap,
+} from "../useSentencePlayback";
+
+function createSegment(id: number, start: number, end: number): Segment {
+  return {
+    id,
+    transcriptId: 1,
+    start,
+    end,
+    text: `segment ${id}`,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("useSentencePlayback helpers", () => {
+  const segments = [createSegment(1, 0, 2), createSegment(2, 3, 5), createSegment(3, 5, 8)];
+
+  it("finds the sentence being played", () => {
+    expect(findSentenceIndex(segments, 1)).toBe(0);
+    expect(findSentenceIndex(segments, 5)).toBe(2);
+  });
+
+  it("moves on to the next sentence at a sentence end or in a gap", () => {
+    expect(findSentenceIndex(segments, 1.98)).toBe(1);
+    expect(findSentenceIndex(segments, 2.5)).toBe(1);
+    expect(findSentenceIndex(segments, 9)).toBe(-1);
+  });
+
+  it("pauses for a fixed time or in proportion to the sentence length", () => {
+    const fixed = { ...DEFAULT_SENTENCE_PLAYBACK_SETTINGS, gapMode: "fixed" as const };
+    const proportional = { ...DEFAULT_SENTENCE_PLAYBACK_SETTINGS, gapRatio: 1.5 };
+
+    expect(getSentenceGap({ start: 0, end: 4 }, { ...fixed, gapSeconds: 3 })).toBe(3);
+    expect(getSentenceGap({ start: 10, end: 14 }, proportional)).toBe(6);
+  });
+
+  it("keeps the pause within a usable range", () => {
+    const proportional = { ...DEFAULT_SENTENCE_PLAYBACK_SETTINGS, gapRatio: 1 };
+
+    expect(getSentenceGap({ start: 0, end: 0.1 }, proportional)).toBe(0.5);
+    expect(getSentenceGap({ start: 0, end: 60 }, proportional)).toBe(30);
+  });
+});
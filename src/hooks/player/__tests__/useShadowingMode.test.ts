@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import type { Segment } from "@/types/db/database";
+import { findShadowingSegment, getShadowingRecordDuration } from "../useShadowingMode";
+
+function createSegment(id: number, start: number, end: number): Segment {
+  return {
+    id,
+    transcriptId: 1,
+    start,
+    end,
+    text: `segment ${id}`,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("useShadowingMode helpers", () => {
+  const segments = [createSegment(1, 0, 2), createSegment(2, 3, 5), createSegment(3, 5, 8)];
+
+  it("finds the segment at the given time", () => {
+    expect(findShadowingSegment(segments, 3.5)?.id).toBe(2);
+    expect(findShadowingSegment(segments, 5)?.id).toBe(3);
+  });
+
+  it("falls back to the previous segment between segments", () => {
+    expect(findShadowingSegment(segments, 2.5)?.id).toBe(1);
+    expect(findShadowingSegment(segments, 20)?.id).toBe(3);
+  });
+
+  it("returns the first segment before any subtitle starts", () => {
+    expect(findShadowingSegment([createSegment(1, 2, 4)], 0)?.id).toBe(1);
+    expect(findShadowingSegment([], 0)).toBeNull();
+  });
+
+  it("records a little longer than the original sentence", () => {
+    expect(getShadowingRecordDuration({ start: 10, end: 14 })).toBe(5.75);
+    expect(getShadowingRecordDuration({ start: 0, end: 0.2 })).toBe(1.5);
+  });
+});
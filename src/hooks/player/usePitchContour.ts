@@ -0,0 +1,93 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAudioSamples } from "@/hooks/player/useWaveformPeaks";
+import { DBUtils } from "@/lib/db/db";
+import { computePitchContour, type PitchContour } from "@/lib/utils/pitch";
+import { decodeAudioSamples } from "@/lib/utils/waveform";
+import type { Segment, ShadowingRecordingRow } from "@/types/db/database";
+
+/** 基频曲线的帧率 */
+const PITCH_FRAMES_PER_SECOND = 100;
+
+export const pitchKeys = {
+  all: ["pitch"] as const,
+  forSegment: (fileId: number, segmentId: number, start: number, end: number) =>
+    [...pitchKeys.all, "segment", fileId, segmentId, start, end] as const,
+  forRecording: (recordingId: number) => [...pitchKeys.all, "recording", recordingId] as const,
+};
+
+/**
+ * 字幕段原音的基频曲线
+ * 先读取 IndexedDB 中的缓存；没有缓存时解码整个音频文件计算并写入缓存
+ */
+export function useSegmentPitch(fileId?: number, segment?: Segment | null, enabled = true) {
+  const segmentId = segment?.id ?? 0;
+  const start = segment?.start ?? 0;
+  const end = segment?.end ?? 0;
+  const queryKey = pitchKeys.forSegment(fileId ?? 0, segmentId, start, end);
+  const isEnabled = enabled && Boolean(fileId && segmentId);
+
+  const cachedQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<PitchContour | null> => {
+      const cached = await DBUtils.getPitchContour(segmentId);
+      if (!cached || cached.start !== start || cached.end !== end) return null;
+      return { values: cached.values, framesPerSecond: cached.framesPerSecond, start };
+    },
+    enabled: isEnabled,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  // 只有缓存未命中时才需要解码音频
+  const needsAudio = isEnabled && cachedQuery.data === null;
+  const samples = useAudioSamples(fileId, needsAudio);
+
+  const computedQuery = useQuery({
+    queryKey: [...queryKey, "computed"],
+    queryFn: async (): Promise<PitchContour> => {
+      if (!samples.data) {
+        throw new Error("音频尚未解码");
+      }
+      const contour = computePitchContour(samples.data, { start, end }, PITCH_FRAMES_PER_SECOND);
+      // 缓存写入失败不影响显示
+      await DBUtils.savePitchContour({
+        segmentId,
+        fileId: fileId ?? 0,
+        start,
+        end,
+        framesPerSecond: contour.framesPerSecond,
+        values: contour.values,
+        createdAt: new Date(),
+      }).catch(() => undefined);
+      return contour;
+    },
+    enabled: needsAudio && Boolean(samples.data),
+    staleTime: Number.POSITIVE_INFINITY,
+    retry: false,
+  });
+
+  return {
+    contour: cachedQuery.data ?? computedQuery.data,
+    isLoading:
+      cachedQuery.isLoading || (needsAudio && (samples.isLoading || computedQuery.isLoading)),
+    error: samples.error ?? computedQuery.error,
+  };
+}
+
+/**
+ * 跟读录音的基频曲线，只保存在内存中
+ */
+export function useRecordingPitch(recording?: ShadowingRecordingRow, enabled = true) {
+  return useQuery({
+    queryKey: pitchKeys.forRecording(recording?.id ?? 0),
+    queryFn: async (): Promise<PitchContour> => {
+      if (!recording) {
+        throw new Error("录音不存在");
+      }
+      const audio = await decodeAudioSamples(recording.blob);
+      return computePitchContour(audio, { start: 0, end: audio.duration }, PITCH_FRAMES_PER_SECOND);
+    },
+    enabled: enabled && Boolean(recording?.id),
+    staleTime: Number.POSITIVE_INFINITY,
+    retry: false,
+  });
+}
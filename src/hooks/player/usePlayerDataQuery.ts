@@ -1,8 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
-import { useCallback } from "react";
+import { useCallback, useMemo } from "react";
 import { useTranscriptionStatus } from "@/hooks/api/useTranscription";
-import { db } from "@/lib/db/db";
+import { DBUtils, db } from "@/lib/db/db";
 import type { FileRow, Segment, TranscriptRow } from "@/types/db/database";
+import type { TranscriptionTask } from "@/types/transcription";
 
 // 音频URL缓存管理 - 使用 WeakMap 防止内存泄漏
 const audioUrlCache = new WeakMap<Blob, string>();
@@ -37,9 +38,11 @@ function useFileQuery(fileId: number) {
         throw new Error("文件不存在");
       }
 
+      // 分块存储的文件会拼接为按需读取的 Blob
       let audioUrl: string | null = null;
-      if (file.blob) {
-        audioUrl = createAudioUrl(file.blob);
+      const audioBlob = await DBUtils.getFileBlob(file);
+      if (audioBlob) {
+        audioUrl = createAudioUrl(audioBlob);
       }
 
       return { file, audioUrl };
@@ -54,6 +57,8 @@ interface UsePlayerDataQueryReturn {
   segments: Segment[];
   transcript: TranscriptRow | null;
   audioUrl: string | null;
+  /** 转录进行中时的任务进度，供 TranscriptionLoading 展示 */
+  transcriptionTask: TranscriptionTask | null;
   loading: boolean;
   error: string | null;
   retry: () => void;
@@ -74,7 +79,50 @@ export function usePlayerDataQuery(fileId: string): UsePlayerDataQueryReturn {
   // 获取转录状态
   const transcriptionQuery = useTranscriptionStatus(parsedFileId);
   const transcript = transcriptionQuery.data?.transcript || null;
-  const segments = transcriptionQuery.data?.segments || [];
+  const storedSegments = transcriptionQuery.data?.segments;
+  const partialSegments = transcriptionQuery.data?.partialSegments;
+  const liveProgress = transcriptionQuery.data?.progress;
+  const isTranscribing = transcript?.status === "processing";
+
+  // 转录完成前先展示进度流推送的部分 segments
+  const segments = useMemo<Segment[]>(() => {
+    if (storedSegments && storedSegments.length > 0) return storedSegments;
+    if (!isTranscribing || !transcript?.id || !partialSegments) return [];
+
+    const transcriptId = transcript.id;
+    return partialSegments.map((segment) => ({
+      transcriptId,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+      wordTimestamps: segment.wordTimestamps,
+      createdAt: transcript.createdAt,
+      updatedAt: transcript.updatedAt,
+    }));
+  }, [storedSegments, partialSegments, isTranscribing, transcript]);
+
+  const transcriptionTask = useMemo<TranscriptionTask | null>(() => {
+    if (!isTranscribing || !file?.id || !transcript) return null;
+
+    return {
+      id: `transcript-${transcript.id ?? file.id}`,
+      fileId: file.id,
+      fileName: file.name,
+      fileSize: file.size,
+      duration: file.duration,
+      status: "processing",
+      priority: "normal",
+      progress: {
+        fileId: file.id,
+        status: "processing",
+        progress: liveProgress?.progress ?? 0,
+        message: liveProgress?.message,
+        error: liveProgress?.error,
+        createdAt: transcript.createdAt,
+        options: {},
+      },
+    };
+  }, [isTranscribing, file, transcript, liveProgress]);
 
   // 只等待文件加载完成
   const loading = fileQuery.isLoading;
@@ -91,6 +139,7 @@ export function usePlayerDataQuery(fileId: string): UsePlayerDataQueryReturn {
     segments,
     transcript,
     audioUrl,
+    transcriptionTask,
     loading,
     error,
     retry,
@@ -0,0 +1,121 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
+import {
+  getReferenceWords,
+  type SpokenWord,
+  scorePronunciation,
+} from "@/lib/ai/pronunciation-scoring";
+import { DBUtils } from "@/lib/db/db";
+import type { PronunciationScoreRow, Segment, ShadowingRecordingRow } from "@/types/db/database";
+
+export const pronunciationKeys = {
+  all: ["pronunciation"] as const,
+  forSegment: (fileId: number, segmentId: number) =>
+    [...pronunciationKeys.all, "scores", fileId, segmentId] as const,
+};
+
+/**
+ * 上传跟读录音并取回带时间戳的转录单词
+ */
+async function transcribeRecording(blob: Blob, language: string): Promise<SpokenWord[]> {
+  const extension = blob.type.includes("mp4") ? "m4a" : blob.type.includes("ogg") ? "ogg" : "webm";
+  const formData = new FormData();
+  formData.append("audio", blob, `shadowing.${extension}`);
+
+  const response = await fetch(`/api/pronunciation?language=${encodeURIComponent(language)}`, {
+    method: "POST",
+    body: formData,
+  });
+  const result = (await response.json().catch(() => null)) as {
+    success: boolean;
+    data?: { words: SpokenWord[] };
+    error?: { message?: string };
+  } | null;
+
+  if (!response.ok || !result?.success || !result.data) {
+    throw new Error(result?.error?.message || `评分请求失败 (${response.status})`);
+  }
+
+  return result.data.words;
+}
+
+interface UsePronunciationScoringOptions {
+  fileId?: number;
+  segment: Segment | null;
+  language?: string;
+}
+
+/**
+ * 跟读发音评分
+ * 将录音转录后与字幕段的逐词时间戳对比，评分结果按字幕段保存，用于查看历次进步
+ */
+export function usePronunciationScoring({
+  fileId,
+  segment,
+  language = "en",
+}: UsePronunciationScoringOptions) {
+  const queryClient = useQueryClient();
+
+  const scoresQuery = useQuery({
+    queryKey: pronunciationKeys.forSegment(fileId ?? 0, segment?.id ?? 0),
+    queryFn: () => DBUtils.getPronunciationScores(fileId ?? 0, segment?.id ?? 0),
+    enabled: Boolean(fileId && segment?.id),
+  });
+  const scores = scoresQuery.data ?? [];
+
+  const mutation = useMutation({
+    mutationFn: async (recording: ShadowingRecordingRow): Promise<PronunciationScoreRow> => {
+      if (!fileId || !segment?.id) {
+        throw new Error("没有可评分的字幕段");
+      }
+
+      const spoken = await transcribeRecording(recording.blob, language);
+      const report = scorePronunciation(getReferenceWords(segment), spoken);
+      const score: PronunciationScoreRow = {
+        ...report,
+        fileId,
+        segmentId: segment.id,
+        recordingId: recording.id,
+        createdAt: new Date(),
+      };
+      score.id = await DBUtils.addPronunciationScore(score);
+      return score;
+    },
+    onSuccess: (score) => {
+      queryClient.invalidateQueries({
+        queryKey: pronunciationKeys.forSegment(score.fileId, score.segmentId),
+      });
+    },
+    onError: async (error) => {
+      const { toast } = await import("sonner");
+      toast.error(`发音评分失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    },
+  });
+
+  const { mutate } = mutation;
+  const scoreRecording = useCallback(
+    (recording: ShadowingRecordingRow) => mutate(recording),
+    [mutate],
+  );
+
+  /** 某次录音最近一次的评分 */
+  const getScoreForRecording = useCallback(
+    (recordingId?: number) => {
+      if (recordingId === undefined) return undefined;
+      const matches = scores.filter((score) => score.recordingId === recordingId);
+      return matches[matches.length - 1];
+    },
+    [scores],
+  );
+
+  return {
+    scores,
+    latest: scores[scores.length - 1] ?? null,
+    isScoring: mutation.isPending,
+    scoringRecordingId: mutation.isPending ? mutation.variables?.id : undefined,
+    scoreRecording,
+    getScoreForRecording,
+  };
+}
+
+export type PronunciationScoringControls = ReturnType<typeof usePronunciationScoring>;
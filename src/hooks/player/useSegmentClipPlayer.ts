@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { DBUtils } from "@/lib/db/db";
+import type { Segment } from "@/types/db/database";
+
+/**
+ * 播放音频文件中的一段（例如复习卡片对应的字幕段），播放到结尾自动停止
+ * 每个文件的音频 URL 在组件生命周期内复用，卸载时统一释放
+ */
+export function useSegmentClipPlayer() {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const urlsRef = useRef(new Map<number, string>());
+  const clipEndRef = useRef<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const getAudio = useCallback(() => {
+    if (!audioRef.current) {
+      const audio = new Audio();
+      audio.addEventListener("timeupdate", () => {
+        if (clipEndRef.current !== null && audio.currentTime >= clipEndRef.current) {
+          audio.pause();
+        }
+      });
+      audio.addEventListener("pause", () => setIsPlaying(false));
+      audio.addEventListener("play", () => setIsPlaying(true));
+      audioRef.current = audio;
+    }
+    return audioRef.current;
+  }, []);
+
+  const getFileUrl = useCallback(async (fileId: number) => {
+    const cached = urlsRef.current.get(fileId);
+    if (cached) return cached;
+
+    const blob = await DBUtils.getFileBlob(fileId);
+    if (!blob) {
+      throw new Error("音频文件不存在");
+    }
+    const url = URL.createObjectURL(blob);
+    urlsRef.current.set(fileId, url);
+    return url;
+  }, []);
+
+  const play = useCallback(
+    async (fileId: number, clip: Pick<Segment, "start" | "end">) => {
+      try {
+        const audio = getAudio();
+        const url = await getFileUrl(fileId);
+        if (audio.src !== url) {
+          audio.src = url;
+        }
+
+        clipEndRef.current = clip.end;
+        audio.currentTime = clip.start;
+        await audio.play();
+      } catch (playError) {
+        const { toast } = await import("sonner");
+        toast.error(`播放失败: ${playError instanceof Error ? playError.message : "未知错误"}`);
+      }
+    },
+    [getAudio, getFileUrl],
+  );
+
+  const stop = useCallback(() => {
+    audioRef.current?.pause();
+  }, []);
+
+  useEffect(() => {
+    const urls = urlsRef.current;
+    return () => {
+      audioRef.current?.pause();
+      for (const url of urls.values()) {
+        URL.revokeObjectURL(url);
+      }
+      urls.clear();
+    };
+  }, []);
+
+  return { isPlaying, play, stop };
+}
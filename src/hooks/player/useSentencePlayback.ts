@@ -0,0 +1,281 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Segment } from "@/types/db/database";
+
+const STORAGE_KEY = "umuo-sentence-playback";
+
+/** 距离句尾小于该值（秒）时视为已到句尾 */
+const END_TOLERANCE = 0.05;
+/** 距离句尾小于该值（秒）时改用定时器精确暂停，timeupdate 的间隔约 250ms */
+const END_LOOKAHEAD = 0.5;
+/** 播放位置偏离当前句子超过该值（秒）时视为用户跳转，重新定位句子 */
+const SEEK_TOLERANCE = 0.5;
+export const MIN_GAP_SECONDS = 0.5;
+export const MAX_GAP_SECONDS = 30;
+export const MIN_GAP_RATIO = 0.25;
+export const MAX_GAP_RATIO = 4;
+export const MAX_REPEAT_COUNT = 10;
+
+export type SentenceGapMode = "fixed" | "proportional";
+export type SentencePhase = "idle" | "playing" | "gap";
+
+export interface SentencePlaybackSettings {
+  gapMode: SentenceGapMode;
+  /** 固定停顿时长（秒） */
+  gapSeconds: number;
+  /** 按句长停顿时，停顿时长与句子时长之比 */
+  gapRatio: number;
+  /** 每句播放的遍数 */
+  repeatCount: number;
+}
+
+export const DEFAULT_SENTENCE_PLAYBACK_SETTINGS: SentencePlaybackSettings = {
+  gapMode: "proportional",
+  gapSeconds: 2,
+  gapRatio: 1,
+  repeatCount: 1,
+};
+
+interface UseSentencePlaybackOptions {
+  segments: Segment[];
+  currentTime: number;
+  isPlaying: boolean;
+  playbackRate: number;
+  onSeek: (time: number) => void;
+  onPlay: () => void;
+  onPause: () => void;
+}
+
+/**
+ * 当前时间所在的句子；在两句之间时返回下一句，全部播完时返回 -1
+ */
+export function findSentenceIndex(segments: Segment[], time: number): number {
+  const containing = segments.findIndex(
+    (segment) => time >= segment.start && time < segment.end - END_TOLERANCE,
+  );
+  if (containing !== -1) return containing;
+  return segments.findIndex((segment) => segment.start >= time);
+}
+
+/**
+ * 句尾停顿时长（秒）
+ */
+export function getSentenceGap(
+  segment: Pick<Segment, "start" | "end">,
+  settings: SentencePlaybackSettings,
+): number {
+  const gap =
+    settings.gapMode === "fixed"
+      ? settings.gapSeconds
+      : (segment.end - segment.start) * settings.gapRatio;
+  return Math.min(MAX_GAP_SECONDS, Math.max(MIN_GAP_SECONDS, gap));
+}
+
+function normalizeSettings(value: Partial<SentencePlaybackSettings>): SentencePlaybackSettings {
+  const merged = { ...DEFAULT_SENTENCE_PLAYBACK_SETTINGS, ...value };
+  return {
+    gapMode: merged.gapMode === "fixed" ? "fixed" : "proportional",
+    gapSeconds: Math.min(MAX_GAP_SECONDS, Math.max(MIN_GAP_SECONDS, Number(merged.gapSeconds))),
+    gapRatio: Math.min(MAX_GAP_RATIO, Math.max(MIN_GAP_RATIO, Number(merged.gapRatio))),
+    repeatCount: Math.min(MAX_REPEAT_COUNT, Math.max(1, Math.round(Number(merged.repeatCount)))),
+  };
+}
+
+/**
+ * 逐句播放模式
+ * 每句结束时自动暂停一段时间，可将每句重复播放若干遍后再进入下一句
+ */
+export function useSentencePlayback(options: UseSentencePlaybackOptions) {
+  const { segments, currentTime, isPlaying } = options;
+  const [isActive, setIsActive] = useState(false);
+  const [settings, setSettings] = useState(DEFAULT_SENTENCE_PLAYBACK_SETTINGS);
+  const [phase, setPhase] = useState<SentencePhase>("idle");
+  const [index, setIndex] = useState(-1);
+  const [repetition, setRepetition] = useState(1);
+  const [gapDuration, setGapDuration] = useState(0);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const phaseRef = useRef<SentencePhase>("idle");
+  const indexRef = useRef(-1);
+  const repetitionRef = useRef(1);
+  const endTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const gapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      if (stored) setSettings(normalizeSettings(JSON.parse(stored)));
+    } catch (error) {
+      console.warn("Failed to read sentence playback settings from localStorage:", error);
+    }
+  }, []);
+
+  const updateSettings = useCallback((updates: Partial<SentencePlaybackSettings>) => {
+    setSettings((current) => {
+      const next = normalizeSettings({ ...current, ...updates });
+      try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn("Failed to save sentence playback settings to localStorage:", error);
+      }
+      return next;
+    });
+  }, []);
+
+  const updatePhase = useCallback((next: SentencePhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  }, []);
+
+  const setTarget = useCallback((nextIndex: number, nextRepetition: number) => {
+    indexRef.current = nextIndex;
+    repetitionRef.current = nextRepetition;
+    setIndex(nextIndex);
+    setRepetition(nextRepetition);
+  }, []);
+
+  const clearTimers = useCallback(() => {
+    if (endTimerRef.current) clearTimeout(endTimerRef.current);
+    if (gapTimerRef.current) clearTimeout(gapTimerRef.current);
+    endTimerRef.current = null;
+    gapTimerRef.current = null;
+  }, []);
+
+  const playSentence = useCallback(
+    (nextIndex: number, nextRepetition: number) => {
+      const segment = optionsRef.current.segments[nextIndex];
+      clearTimers();
+      if (!segment) {
+        updatePhase("idle");
+        return;
+      }
+      setTarget(nextIndex, nextRepetition);
+      updatePhase("playing");
+      optionsRef.current.onSeek(segment.start);
+      optionsRef.current.onPlay();
+    },
+    [clearTimers, setTarget, updatePhase],
+  );
+
+  // 停顿结束：未达到遍数时重播当前句，否则进入下一句
+  const finishGap = useCallback(() => {
+    const current = indexRef.current;
+    if (repetitionRef.current < settingsRef.current.repeatCount) {
+      playSentence(current, repetitionRef.current + 1);
+    } else if (current + 1 < optionsRef.current.segments.length) {
+      playSentence(current + 1, 1);
+    } else {
+      clearTimers();
+      updatePhase("idle");
+    }
+  }, [playSentence, clearTimers, updatePhase]);
+
+  const handleSentenceEnd = useCallback(() => {
+    const segment = optionsRef.current.segments[indexRef.current];
+    if (phaseRef.current !== "playing" || !segment) return;
+
+    clearTimers();
+    optionsRef.current.onPause();
+    const gap = getSentenceGap(segment, settingsRef.current);
+    setGapDuration(gap);
+    updatePhase("gap");
+    gapTimerRef.current = setTimeout(finishGap, gap * 1000);
+  }, [clearTimers, finishGap, updatePhase]);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    if (endTimerRef.current) {
+      clearTimeout(endTimerRef.current);
+      endTimerRef.current = null;
+    }
+
+    if (phaseRef.current === "gap") {
+      // 停顿中手动继续播放等同于跳过停顿
+      if (isPlaying) finishGap();
+      return;
+    }
+    if (!isPlaying) return;
+
+    let segment = segments[indexRef.current];
+    if (
+      !segment ||
+      currentTime < segment.start - SEEK_TOLERANCE ||
+      currentTime > segment.end + SEEK_TOLERANCE
+    ) {
+      const nextIndex = findSentenceIndex(segments, currentTime);
+      if (nextIndex === -1) return;
+      setTarget(nextIndex, 1);
+      segment = segments[nextIndex];
+    }
+    if (phaseRef.current !== "playing") updatePhase("playing");
+
+    const remaining = segment.end - currentTime;
+    if (remaining <= END_TOLERANCE) {
+      handleSentenceEnd();
+    } else if (remaining < END_LOOKAHEAD) {
+      const rate = optionsRef.current.playbackRate || 1;
+      endTimerRef.current = setTimeout(handleSentenceEnd, (remaining / rate) * 1000);
+    }
+  }, [
+    isActive,
+    isPlaying,
+    currentTime,
+    segments,
+    finishGap,
+    handleSentenceEnd,
+    setTarget,
+    updatePhase,
+  ]);
+
+  useEffect(() => clearTimers, [clearTimers]);
+
+  const start = useCallback(() => {
+    const { segments: currentSegments, currentTime: time } = optionsRef.current;
+    setTarget(findSentenceIndex(currentSegments, time), 1);
+    updatePhase("idle");
+    setIsActive(true);
+  }, [setTarget, updatePhase]);
+
+  const stop = useCallback(() => {
+    clearTimers();
+    updatePhase("idle");
+    setIsActive(false);
+  }, [clearTimers, updatePhase]);
+
+  /** 从头重播当前句，不计入遍数 */
+  const repeat = useCallback(() => {
+    const { segments: currentSegments, currentTime: time } = optionsRef.current;
+    const current =
+      indexRef.current >= 0 ? indexRef.current : findSentenceIndex(currentSegments, time);
+    playSentence(current, repetitionRef.current);
+  }, [playSentence]);
+
+  const advance = useCallback(() => {
+    playSentence(indexRef.current + 1, 1);
+  }, [playSentence]);
+
+  const previous = useCallback(() => {
+    playSentence(Math.max(0, indexRef.current - 1), 1);
+  }, [playSentence]);
+
+  return {
+    isActive,
+    phase,
+    index,
+    segment: segments[index] ?? null,
+    repetition,
+    gapDuration,
+    settings,
+    updateSettings,
+    start,
+    stop,
+    repeat,
+    advance,
+    previous,
+  };
+}
+
+export type SentencePlaybackControls = ReturnType<typeof useSentencePlayback>;
@@ -0,0 +1,332 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { DBUtils } from "@/lib/db/db";
+import { AbLoopManager } from "@/lib/db/subtitle-sync";
+import type { Segment, ShadowingRecordingRow } from "@/types/db/database";
+
+/**
+ * 跟读阶段
+ * listening: 播放原音；recording: 录制学习者的跟读；reviewing: 暂停循环，对比原音和录音
+ */
+export type ShadowingPhase = "idle" | "listening" | "recording" | "reviewing";
+
+export const shadowingKeys = {
+  all: ["shadowing"] as const,
+  forSegment: (fileId: number, segmentId: number) =>
+    [...shadowingKeys.all, "recordings", fileId, segmentId] as const,
+};
+
+/**
+ * 单次录音时长：比原句稍长，给跟读留出反应时间
+ */
+export function getShadowingRecordDuration(segment: Pick<Segment, "start" | "end">): number {
+  return Math.max(1.5, (segment.end - segment.start) * 1.25 + 0.75);
+}
+
+/**
+ * 查找当前时间所在的字幕段，位于两段之间时取前一段
+ */
+export function findShadowingSegment(segments: Segment[], time: number): Segment | null {
+  let candidate: Segment | null = null;
+  for (const segment of segments) {
+    if (segment.start > time) break;
+    candidate = segment;
+    if (time < segment.end) break;
+  }
+  return candidate ?? segments[0] ?? null;
+}
+
+function pickRecorderMimeType(): string | undefined {
+  const candidates = ["audio/webm;codecs=opus", "audio/webm", "audio/mp4", "audio/ogg"];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+interface UseShadowingModeOptions {
+  fileId?: number;
+  segments: Segment[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+  onPlay: () => void;
+  onPause: () => void;
+}
+
+/**
+ * 跟读模式
+ * 用 AbLoopManager 循环当前字幕段：每播放一遍原音就录一遍跟读，录音按字幕段保存在 IndexedDB 中
+ */
+export function useShadowingMode({
+  fileId,
+  segments,
+  currentTime,
+  onSeek,
+  onPlay,
+  onPause,
+}: UseShadowingModeOptions) {
+  const queryClient = useQueryClient();
+  const [phase, setPhase] = useState<ShadowingPhase>("idle");
+  const [segment, setSegment] = useState<Segment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const phaseRef = useRef<ShadowingPhase>("idle");
+  const segmentRef = useRef<Segment | null>(null);
+  const loopManagerRef = useRef<AbLoopManager | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const recordTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const playbackRef = useRef<HTMLAudioElement | null>(null);
+
+  const updatePhase = useCallback((next: ShadowingPhase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  }, []);
+
+  const recordingsQuery = useQuery({
+    queryKey: shadowingKeys.forSegment(fileId ?? 0, segment?.id ?? 0),
+    queryFn: () => DBUtils.getShadowingRecordings(fileId ?? 0, segment?.id ?? 0),
+    enabled: Boolean(fileId && segment?.id),
+  });
+  const recordings = recordingsQuery.data ?? [];
+
+  const stopPlayback = useCallback(() => {
+    const playback = playbackRef.current;
+    if (playback) {
+      playback.pause();
+      URL.revokeObjectURL(playback.src);
+      playbackRef.current = null;
+    }
+  }, []);
+
+  // 从头播放当前字幕段
+  const playSegment = useCallback(() => {
+    const target = segmentRef.current;
+    if (!target) return;
+    stopPlayback();
+    onSeek(target.start);
+    onPlay();
+  }, [onSeek, onPlay, stopPlayback]);
+
+  const saveRecording = useCallback(
+    async (target: Segment, blob: Blob, duration: number) => {
+      if (!fileId || !target.id || blob.size === 0) return;
+
+      await DBUtils.addShadowingRecording({
+        fileId,
+        segmentId: target.id,
+        blob,
+        duration,
+        createdAt: new Date(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: shadowingKeys.forSegment(fileId, target.id),
+      });
+    },
+    [fileId, queryClient],
+  );
+
+  const startRecording = useCallback(() => {
+    const stream = streamRef.current;
+    const target = segmentRef.current;
+    if (!stream || !target) return;
+
+    const mimeType = pickRecorderMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      recorderRef.current = null;
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || "audio/webm" });
+
+      saveRecording(target, blob, (Date.now() - startedAt) / 1000)
+        .catch(async (saveError) => {
+          const { toast } = await import("sonner");
+          toast.error(
+            `保存录音失败: ${saveError instanceof Error ? saveError.message : "未知错误"}`,
+          );
+        })
+        .finally(() => {
+          // 录完一遍后继续下一轮循环
+          if (phaseRef.current === "recording") {
+            updatePhase("listening");
+            playSegment();
+          }
+        });
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    updatePhase("recording");
+
+    recordTimerRef.current = setTimeout(() => {
+      if (recorder.state !== "inactive") recorder.stop();
+    }, getShadowingRecordDuration(target) * 1000);
+  }, [saveRecording, playSegment, updatePhase]);
+
+  // 中途打断的录音直接丢弃
+  const discardRecording = useCallback(() => {
+    if (recordTimerRef.current) {
+      clearTimeout(recordTimerRef.current);
+      recordTimerRef.current = null;
+    }
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (recorder && recorder.state !== "inactive") {
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      recorder.stop();
+    }
+  }, []);
+
+  // 原音播放到字幕段结尾时由 AbLoopManager 触发
+  const handleLoopEnd = useCallback(() => {
+    onPause();
+    if (phaseRef.current === "listening") {
+      startRecording();
+    }
+  }, [onPause, startRecording]);
+
+  const handleLoopEndRef = useRef(handleLoopEnd);
+  handleLoopEndRef.current = handleLoopEnd;
+
+  if (!loopManagerRef.current) {
+    loopManagerRef.current = new AbLoopManager();
+    loopManagerRef.current.onLoop(() => handleLoopEndRef.current());
+  }
+
+  useEffect(() => {
+    if (phaseRef.current === "listening" || phaseRef.current === "reviewing") {
+      loopManagerRef.current?.checkLoop(currentTime);
+    }
+  }, [currentTime]);
+
+  /**
+   * 开始跟读指定字幕段（默认为当前播放位置所在的字幕段）
+   */
+  const start = useCallback(
+    async (target?: Segment) => {
+      const next = target ?? findShadowingSegment(segments, currentTime);
+      if (!next) return;
+
+      try {
+        if (!streamRef.current) {
+          streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+        }
+        setError(null);
+      } catch (micError) {
+        const message =
+          micError instanceof Error ? `无法访问麦克风: ${micError.message}` : "无法访问麦克风";
+        setError(message);
+        const { toast } = await import("sonner");
+        toast.error(message);
+        return;
+      }
+
+      // 切换字幕段时丢弃正在进行的录音
+      discardRecording();
+      updatePhase("listening");
+
+      segmentRef.current = next;
+      setSegment(next);
+      loopManagerRef.current?.setLoop(next.start, next.end);
+      playSegment();
+    },
+    [segments, currentTime, playSegment, discardRecording, updatePhase],
+  );
+
+  /**
+   * 暂停循环，进入对比模式
+   */
+  const review = useCallback(() => {
+    if (phaseRef.current === "idle") return;
+    discardRecording();
+    updatePhase("reviewing");
+    onPause();
+  }, [onPause, discardRecording, updatePhase]);
+
+  /**
+   * A：播放一遍原音
+   */
+  const playOriginal = useCallback(() => {
+    review();
+    playSegment();
+  }, [review, playSegment]);
+
+  /**
+   * B：播放自己的录音（默认最新一次）
+   */
+  const playRecording = useCallback(
+    (recording?: ShadowingRecordingRow) => {
+      const target = recording ?? recordings[0];
+      if (!target) return;
+
+      review();
+      stopPlayback();
+      const playback = new Audio(URL.createObjectURL(target.blob));
+      playbackRef.current = playback;
+      playback.addEventListener("ended", stopPlayback, { once: true });
+      playback.play().catch(stopPlayback);
+    },
+    [recordings, review, stopPlayback],
+  );
+
+  const deleteRecording = useCallback(
+    async (recordingId: number) => {
+      await DBUtils.deleteShadowingRecording(recordingId);
+      if (fileId && segment?.id) {
+        queryClient.invalidateQueries({
+          queryKey: shadowingKeys.forSegment(fileId, segment.id),
+        });
+      }
+    },
+    [fileId, segment, queryClient],
+  );
+
+  /**
+   * 退出跟读模式并释放麦克风
+   */
+  const stop = useCallback(() => {
+    discardRecording();
+    updatePhase("idle");
+    stopPlayback();
+    loopManagerRef.current?.clearLoop();
+    segmentRef.current = null;
+    setSegment(null);
+    onPause();
+
+    for (const track of streamRef.current?.getTracks() ?? []) {
+      track.stop();
+    }
+    streamRef.current = null;
+  }, [onPause, discardRecording, stopPlayback, updatePhase]);
+
+  // 卸载时释放麦克风和录音
+  useEffect(() => {
+    return () => {
+      phaseRef.current = "idle";
+      discardRecording();
+      stopPlayback();
+      for (const track of streamRef.current?.getTracks() ?? []) {
+        track.stop();
+      }
+    };
+  }, [discardRecording, stopPlayback]);
+
+  return {
+    isActive: phase !== "idle",
+    phase,
+    segment,
+    recordings,
+    error,
+    start,
+    stop,
+    review,
+    playOriginal,
+    playRecording,
+    deleteRecording,
+  };
+}
+
+export type ShadowingModeControls = ReturnType<typeof useShadowingMode>;
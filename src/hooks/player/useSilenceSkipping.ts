@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAudioSamples } from "@/hooks/player/useWaveformPeaks";
+import { detectSpeechRegions, findSilenceSkipTarget } from "@/lib/utils/voice-activity";
+
+/** 短于该值（秒）的静音照常播放，保留自然的语句停顿 */
+const MIN_SKIPPED_SILENCE = 0.6;
+
+interface UseSilenceSkippingOptions {
+  fileId?: number;
+  currentTime: number;
+  isPlaying: boolean;
+  /** 跟读等模式自行控制播放位置时暂停跳过 */
+  enabled?: boolean;
+  onSeek: (time: number) => void;
+}
+
+/**
+ * 跳过静音播放
+ * 开启后解码音频检测语音区间，播放进入较长的静音时直接跳到下一段语音
+ */
+export function useSilenceSkipping({
+  fileId,
+  currentTime,
+  isPlaying,
+  enabled = true,
+  onSeek,
+}: UseSilenceSkippingOptions) {
+  const [isActive, setIsActive] = useState(false);
+  const { data: audio, isLoading } = useAudioSamples(fileId, isActive);
+
+  const regions = useMemo(
+    () => (audio ? detectSpeechRegions(audio.samples, audio.sampleRate) : []),
+    [audio],
+  );
+
+  const onSeekRef = useRef(onSeek);
+  onSeekRef.current = onSeek;
+
+  useEffect(() => {
+    if (!isActive || !enabled || !isPlaying) return;
+
+    const target = findSilenceSkipTarget(regions, currentTime, MIN_SKIPPED_SILENCE);
+    if (target !== null) {
+      onSeekRef.current(target);
+    }
+  }, [isActive, enabled, isPlaying, currentTime, regions]);
+
+  const toggle = useCallback(() => setIsActive((prev) => !prev), []);
+
+  return {
+    isActive,
+    /** 正在解码音频、检测语音区间 */
+    isAnalyzing: isActive && isLoading,
+    toggle,
+  };
+}
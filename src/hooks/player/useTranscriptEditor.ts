@@ -0,0 +1,175 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useState } from "react";
+import { transcriptionKeys } from "@/hooks/api/useTranscription";
+import { vocabularyKeys } from "@/hooks/db/useVocabulary";
+import {
+  editSegmentText,
+  mergeSegments,
+  retimeSegment,
+  saveTranscriptEdits,
+  splitSegment,
+} from "@/lib/db/transcript-editor";
+import type { Segment } from "@/types/db/database";
+
+/** 最多保留的撤销步数 */
+const MAX_HISTORY = 100;
+
+interface EditorHistory {
+  /** 进入编辑模式时的字幕，保存时用于比较 */
+  original: Segment[];
+  past: Segment[][];
+  present: Segment[];
+  future: Segment[][];
+}
+
+interface UseTranscriptEditorOptions {
+  fileId?: number;
+  transcriptId?: number;
+  segments: Segment[];
+}
+
+/**
+ * 字幕编辑模式
+ * 每次编辑生成新的字幕列表并记入历史，支持撤销 / 重做，保存时一次性写入数据库
+ */
+export function useTranscriptEditor({
+  fileId,
+  transcriptId,
+  segments,
+}: UseTranscriptEditorOptions) {
+  const queryClient = useQueryClient();
+  const [history, setHistory] = useState<EditorHistory | null>(null);
+
+  const start = useCallback(() => {
+    const sorted = [...segments].sort((a, b) => a.start - b.start);
+    setHistory({ original: sorted, past: [], present: sorted, future: [] });
+  }, [segments]);
+
+  const cancel = useCallback(() => setHistory(null), []);
+
+  const apply = useCallback((update: (draft: Segment[]) => Segment[]) => {
+    setHistory((current) => {
+      if (!current) return current;
+      const next = update(current.present);
+      if (next === current.present) return current;
+      return {
+        ...current,
+        past: [...current.past, current.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const editText = useCallback(
+    (index: number, text: string) =>
+      apply((draft) => {
+        const edited = draft[index] ? editSegmentText(draft[index], text) : undefined;
+        if (!edited || edited === draft[index]) return draft;
+        return draft.map((segment, segmentIndex) => (segmentIndex === index ? edited : segment));
+      }),
+    [apply],
+  );
+
+  const split = useCallback(
+    (index: number, time: number) =>
+      apply((draft) => {
+        const parts = draft[index] ? splitSegment(draft[index], time) : null;
+        if (!parts) return draft;
+        return [...draft.slice(0, index), ...parts, ...draft.slice(index + 1)];
+      }),
+    [apply],
+  );
+
+  const merge = useCallback(
+    (index: number) =>
+      apply((draft) => {
+        if (!draft[index] || !draft[index + 1]) return draft;
+        return [
+          ...draft.slice(0, index),
+          mergeSegments(draft[index], draft[index + 1]),
+          ...draft.slice(index + 2),
+        ];
+      }),
+    [apply],
+  );
+
+  const retime = useCallback(
+    (index: number, range: { start?: number; end?: number }) =>
+      apply((draft) => retimeSegment(draft, index, range)),
+    [apply],
+  );
+
+  const undo = useCallback(() => {
+    setHistory((current) => {
+      const previous = current?.past[current.past.length - 1];
+      if (!current || !previous) return current;
+      return {
+        ...current,
+        past: current.past.slice(0, -1),
+        present: previous,
+        future: [current.present, ...current.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((current) => {
+      const next = current?.future[0];
+      if (!current || !next) return current;
+      return {
+        ...current,
+        past: [...current.past, current.present],
+        present: next,
+        future: current.future.slice(1),
+      };
+    });
+  }, []);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!history || !transcriptId) {
+        throw new Error("没有可保存的字幕");
+      }
+      return saveTranscriptEdits(transcriptId, history.original, history.present);
+    },
+    onSuccess: async (result) => {
+      if (fileId) {
+        await queryClient.invalidateQueries({ queryKey: transcriptionKeys.forFile(fileId) });
+      }
+      queryClient.invalidateQueries({ queryKey: vocabularyKeys.all });
+      setHistory(null);
+      const { toast } = await import("sonner");
+      toast.success(
+        `字幕已保存：修改 ${result.updated} 段，新增 ${result.added} 段，删除 ${result.removed} 段`,
+      );
+    },
+    onError: async (error) => {
+      const { toast } = await import("sonner");
+      toast.error(`保存失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    },
+  });
+
+  const { mutate } = saveMutation;
+  const save = useCallback(() => mutate(), [mutate]);
+
+  return {
+    isEditing: history !== null,
+    segments: history?.present ?? segments,
+    isDirty: Boolean(history?.past.length),
+    canUndo: Boolean(history?.past.length),
+    canRedo: Boolean(history?.future.length),
+    isSaving: saveMutation.isPending,
+    start,
+    cancel,
+    editText,
+    split,
+    merge,
+    retime,
+    undo,
+    redo,
+    save,
+  };
+}
+
+export type TranscriptEditorControls = ReturnType<typeof useTranscriptEditor>;
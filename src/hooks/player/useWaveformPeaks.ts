@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { DBUtils } from "@/lib/db/db";
+import { decodeAudioSamples, decodeWaveformPeaks, type WaveformPeaks } from "@/lib/utils/waveform";
+
+export const waveformKeys = {
+  all: ["waveform"] as const,
+  forFile: (fileId: number) => [...waveformKeys.all, fileId] as const,
+  samples: (fileId: number) => [...waveformKeys.all, fileId, "samples"] as const,
+};
+
+async function getAudioBlob(fileId: number): Promise<Blob> {
+  // 视频和保留原文件的压缩音频使用单独的音轨
+  const blob = await DBUtils.getAudioBlob(fileId);
+  if (!blob) {
+    throw new Error("音频文件不存在");
+  }
+  return blob;
+}
+
+/**
+ * 文件的波形峰值
+ * 优先读取 IndexedDB 中的缓存，文件大小不一致或没有缓存时重新解码并写入缓存
+ */
+export function useWaveformPeaks(fileId?: number, enabled: boolean = true) {
+  return useQuery({
+    queryKey: waveformKeys.forFile(fileId ?? 0),
+    queryFn: async (): Promise<WaveformPeaks> => {
+      const id = fileId ?? 0;
+      const [file, cached] = await Promise.all([DBUtils.getFile(id), DBUtils.getWaveformCache(id)]);
+      if (cached && file && cached.fileSize === file.size) {
+        return cached;
+      }
+
+      const waveform = await decodeWaveformPeaks(await getAudioBlob(id));
+      if (file) {
+        // 缓存写入失败不影响显示
+        await DBUtils.saveWaveformCache({
+          ...waveform,
+          fileId: id,
+          fileSize: file.size,
+          createdAt: new Date(),
+        }).catch(() => undefined);
+      }
+      return waveform;
+    },
+    enabled: Boolean(fileId) && enabled,
+    staleTime: Number.POSITIVE_INFINITY,
+    retry: false,
+  });
+}
+
+/**
+ * 解码后的完整音频，用于计算频谱图和基频
+ * 占用内存较大，不写入 IndexedDB，停止使用后很快从内存中释放
+ */
+export function useAudioSamples(fileId?: number, enabled: boolean = true) {
+  return useQuery({
+    queryKey: waveformKeys.samples(fileId ?? 0),
+    queryFn: async () => decodeAudioSamples(await getAudioBlob(fileId ?? 0)),
+    enabled: Boolean(fileId) && enabled,
+    staleTime: Number.POSITIVE_INFINITY,
+    gcTime: 30 * 1000,
+    retry: false,
+  });
+}
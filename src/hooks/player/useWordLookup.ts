@@ -0,0 +1,120 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useMemo } from "react";
+import { reviewKeys } from "@/hooks/db/useReviewDeck";
+import { vocabularyKeys } from "@/hooks/db/useVocabulary";
+import { addReviewCard } from "@/lib/db/review-deck";
+import { addVocabularyWord, findWordVocabulary } from "@/lib/db/vocabulary";
+import type { Segment } from "@/types/db/database";
+import type { VocabularyEntry } from "@/types/transcription";
+
+/**
+ * 让对话模型解释句中的单词
+ */
+async function requestWordLookup(body: {
+  word: string;
+  context: string;
+  language: string;
+  targetLanguage: string;
+}): Promise<VocabularyEntry> {
+  const response = await fetch("/api/lookup", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const result = (await response.json().catch(() => null)) as {
+    success: boolean;
+    data?: VocabularyEntry;
+    error?: { message?: string };
+  } | null;
+
+  if (!response.ok || !result?.success || !result.data) {
+    throw new Error(result?.error?.message || `查词请求失败 (${response.status})`);
+  }
+
+  return result.data;
+}
+
+interface UseWordLookupOptions {
+  fileId: number;
+  segment: Segment;
+  word: string;
+  language?: string;
+  targetLanguage?: string;
+}
+
+/**
+ * 字幕单词查询
+ * 优先使用词典中已保存的后处理词汇和字幕段注释，没有时按需调用模型查询
+ */
+export function useWordLookup({
+  fileId,
+  segment,
+  word,
+  language = "ja",
+  targetLanguage = "zh",
+}: UseWordLookupOptions) {
+  const queryClient = useQueryClient();
+
+  const savedQuery = useQuery({
+    queryKey: vocabularyKeys.word(segment.id ?? 0, word),
+    queryFn: () => findWordVocabulary(segment.id ?? 0, language, word),
+    enabled: Boolean(segment.id && word.trim()),
+  });
+
+  const annotations = useMemo(
+    () => (segment.annotations ?? []).filter((annotation) => annotation.includes(word.trim())),
+    [segment.annotations, word],
+  );
+
+  const lookupMutation = useMutation({
+    mutationFn: () =>
+      requestWordLookup({
+        word: word.trim(),
+        context: segment.normalizedText || segment.text,
+        language,
+        targetLanguage,
+      }),
+  });
+
+  const entry: VocabularyEntry | undefined = savedQuery.data ?? lookupMutation.data;
+
+  const deckMutation = useMutation({
+    mutationFn: async () => {
+      if (!segment.id) {
+        throw new Error("字幕段尚未保存，无法加入复习");
+      }
+      await addVocabularyWord(fileId, segment.id, language, {
+        ...(entry ?? { lemma: word.trim() }),
+        surface: word.trim(),
+      });
+      await addReviewCard(fileId, segment);
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: vocabularyKeys.all });
+      queryClient.invalidateQueries({ queryKey: reviewKeys.all });
+      const { toast } = await import("sonner");
+      toast.success("已加入词典和复习卡片");
+    },
+    onError: async (error) => {
+      const { toast } = await import("sonner");
+      toast.error(`加入失败: ${error instanceof Error ? error.message : "未知错误"}`);
+    },
+  });
+
+  const { mutate: lookupMutate } = lookupMutation;
+  const { mutate: deckMutate } = deckMutation;
+  const lookup = useCallback(() => lookupMutate(), [lookupMutate]);
+  const addToDeck = useCallback(() => deckMutate(), [deckMutate]);
+
+  return {
+    entry,
+    annotations,
+    isSaved: Boolean(savedQuery.data),
+    isLoading: savedQuery.isLoading,
+    lookup,
+    isLookingUp: lookupMutation.isPending,
+    lookupError: lookupMutation.error?.message ?? null,
+    addToDeck,
+    isAdding: deckMutation.isPending,
+  };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  AUDIO_PREPROCESS_STORAGE_KEY,
+  type AudioPreprocessSettings,
+  DEFAULT_AUDIO_PREPROCESS_SETTINGS,
+  loadAudioPreprocessSettings,
+  saveAudioPreprocessSettings,
+} from "@/lib/utils/audio-preprocess";
+
+/**
+ * 上传前音频压缩的设置，修改后写入 localStorage 并同步到其他标签页
+ */
+export function useAudioPreprocessSettings() {
+  const [settings, setSettings] = useState<AudioPreprocessSettings>(
+    DEFAULT_AUDIO_PREPROCESS_SETTINGS,
+  );
+
+  useEffect(() => {
+    setSettings(loadAudioPreprocessSettings());
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === AUDIO_PREPROCESS_STORAGE_KEY) {
+        setSettings(loadAudioPreprocessSettings());
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const updateSettings = useCallback(
+    (patch: Partial<AudioPreprocessSettings>) => {
+      const next = { ...settings, ...patch };
+      setSettings(next);
+      saveAudioPreprocessSettings(next);
+    },
+    [settings],
+  );
+
+  return { settings, updateSettings };
+}
@@ -1,60 +1,83 @@
-import { useCallback, useEffect } from "react";
+import { useEffect, useRef } from "react";
+import { useShortcutBindings } from "@/hooks/ui/useShortcutBindings";
+import {
+  findShortcutAction,
+  getKeyCombo,
+  MEDIA_KEY_ACTIONS,
+  SHORTCUT_DEFINITIONS,
+  type ShortcutAction,
+} from "@/lib/utils/keyboard-shortcuts";
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
 
 interface UseKeyboardControlsProps {
-  audioUrl?: string;
-  onPlayPause: () => void;
-  onSkipBack?: () => void;
-  onSkipForward?: () => void;
-  onToggleMute: () => void;
-  onSetPlaybackRate: (rate: number) => void;
+  /** 没有可播放的音频时不响应快捷键 */
+  enabled: boolean;
+  handlers: ShortcutHandlers;
+  /** 倍速动作（rate025 等）统一交给该回调处理 */
+  onSetPlaybackRate?: (rate: number) => void;
+}
+
+/**
+ * 焦点在输入框等可编辑元素上时不响应快捷键
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
 }
 
+/**
+ * 按快捷键注册表分发按键，返回当前生效的按键用于展示
+ */
 export function useKeyboardControls({
-  audioUrl,
-  onPlayPause,
-  onSkipBack,
-  onSkipForward,
-  onToggleMute,
+  enabled,
+  handlers,
   onSetPlaybackRate,
 }: UseKeyboardControlsProps) {
-  const handleKeyPress = useCallback(
-    (event: KeyboardEvent) => {
-      if (!audioUrl) return;
-
-      switch (event.key.toLowerCase()) {
-        case " ":
-          event.preventDefault();
-          onPlayPause();
-          break;
-        case "arrowleft":
-          event.preventDefault();
-          onSkipBack?.();
-          break;
-        case "arrowright":
-          event.preventDefault();
-          onSkipForward?.();
-          break;
-        case "m":
-          event.preventDefault();
-          onToggleMute();
-          break;
-        case "1":
-        case "2":
-        case "3":
-        case "4":
-        case "5": {
-          event.preventDefault();
-          const speed = parseInt(event.key, 10) * 0.25;
-          onSetPlaybackRate(speed);
-          break;
-        }
-      }
-    },
-    [audioUrl, onPlayPause, onSkipBack, onSkipForward, onToggleMute, onSetPlaybackRate],
-  );
+  const { bindings } = useShortcutBindings();
+  const handlersRef = useRef({ handlers, onSetPlaybackRate });
+  handlersRef.current = { handlers, onSetPlaybackRate };
 
   useEffect(() => {
-    window.addEventListener("keydown", handleKeyPress);
-    return () => window.removeEventListener("keydown", handleKeyPress);
-  }, [handleKeyPress]);
+    if (!enabled) return;
+
+    const runAction = (action: ShortcutAction): boolean => {
+      const { handlers: current, onSetPlaybackRate: setRate } = handlersRef.current;
+      const rate = SHORTCUT_DEFINITIONS[action].playbackRate;
+      if (rate !== undefined && setRate) {
+        setRate(rate);
+        return true;
+      }
+      const handler = current[action];
+      handler?.();
+      return Boolean(handler);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const mediaAction = MEDIA_KEY_ACTIONS[event.key];
+      if (mediaAction) {
+        if (runAction(mediaAction)) event.preventDefault();
+        return;
+      }
+
+      // 波形、滑块等控件已自行处理的按键不再重复响应
+      if (event.defaultPrevented || isEditableTarget(event.target)) return;
+
+      const combo = getKeyCombo(event);
+      const action = combo ? findShortcutAction(bindings, combo) : null;
+      if (action && runAction(action)) {
+        event.preventDefault();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled, bindings]);
+
+  return { bindings };
 }
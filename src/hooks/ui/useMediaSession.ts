@@ -0,0 +1,94 @@
+import { useEffect, useRef } from "react";
+
+interface UseMediaSessionOptions {
+  /** 为空时不接管系统媒体控制 */
+  title?: string;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  playbackRate: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  onSkipBack?: () => void;
+  onSkipForward?: () => void;
+  onPreviousSegment?: () => void;
+  onNextSegment?: () => void;
+}
+
+function getMediaSession(): MediaSession | null {
+  return typeof navigator !== "undefined" && "mediaSession" in navigator
+    ? navigator.mediaSession
+    : null;
+}
+
+/**
+ * 通过 MediaSession 接入耳机、锁屏和系统媒体键的播放控制
+ * 上一曲 / 下一曲对应上一句 / 下一句
+ */
+export function useMediaSession(options: UseMediaSessionOptions) {
+  const { title, isPlaying, duration, playbackRate } = options;
+  // 系统会按播放速度推算进度，只需在跳转等时机同步，按整秒更新即可
+  const position = Math.round(options.currentTime);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const session = getMediaSession();
+    if (!session || !title) return;
+
+    session.metadata = new MediaMetadata({ title, artist: "umuo" });
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ["play", () => optionsRef.current.onPlay()],
+      ["pause", () => optionsRef.current.onPause()],
+      ["seekbackward", () => optionsRef.current.onSkipBack?.()],
+      ["seekforward", () => optionsRef.current.onSkipForward?.()],
+      ["previoustrack", () => optionsRef.current.onPreviousSegment?.()],
+      ["nexttrack", () => optionsRef.current.onNextSegment?.()],
+      [
+        "seekto",
+        (details) => {
+          if (details.seekTime !== undefined) optionsRef.current.onSeek(details.seekTime);
+        },
+      ],
+    ];
+
+    for (const [action, handler] of handlers) {
+      try {
+        session.setActionHandler(action, handler);
+      } catch {
+        // 部分浏览器不支持某些动作
+      }
+    }
+
+    return () => {
+      session.metadata = null;
+      for (const [action] of handlers) {
+        try {
+          session.setActionHandler(action, null);
+        } catch {
+          // 同上
+        }
+      }
+    };
+  }, [title]);
+
+  // 播放状态和进度一起同步，播放 / 暂停时系统需要新的起点来推算进度
+  useEffect(() => {
+    const session = getMediaSession();
+    if (!session || !title) return;
+    session.playbackState = isPlaying ? "playing" : "paused";
+
+    if (!(duration > 0) || !session.setPositionState) return;
+    try {
+      session.setPositionState({
+        duration,
+        playbackRate,
+        position: Math.min(duration, Math.max(0, position)),
+      });
+    } catch {
+      // 时长尚未确定时会抛出异常
+    }
+  }, [title, isPlaying, duration, playbackRate, position]);
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  findShortcutConflict,
+  getDefaultShortcutBindings,
+  isReservedKeyCombo,
+  loadShortcutBindings,
+  SHORTCUT_DEFINITIONS,
+  SHORTCUT_STORAGE_KEY,
+  type ShortcutAction,
+  type ShortcutBindings,
+  saveShortcutBindings,
+} from "@/lib/utils/keyboard-shortcuts";
+
+export type ShortcutBindingResult =
+  | { ok: true }
+  | { ok: false; reason: "reserved" }
+  | { ok: false; reason: "conflict"; conflict: ShortcutAction };
+
+/**
+ * 当前生效的快捷键，修改后写入 localStorage 并同步到其他标签页
+ */
+export function useShortcutBindings() {
+  const [bindings, setBindings] = useState<ShortcutBindings>(getDefaultShortcutBindings);
+
+  useEffect(() => {
+    setBindings(loadShortcutBindings());
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SHORTCUT_STORAGE_KEY) {
+        setBindings(loadShortcutBindings());
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, []);
+
+  const commit = useCallback((next: ShortcutBindings) => {
+    setBindings(next);
+    saveShortcutBindings(next);
+  }, []);
+
+  /** 与其他动作冲突时不修改，返回冲突的动作 */
+  const updateBinding = useCallback(
+    (action: ShortcutAction, combo: string): ShortcutBindingResult => {
+      if (isReservedKeyCombo(combo)) {
+        return { ok: false, reason: "reserved" };
+      }
+      const conflict = findShortcutConflict(bindings, action, combo);
+      if (conflict) {
+        return { ok: false, reason: "conflict", conflict };
+      }
+      commit({ ...bindings, [action]: combo });
+      return { ok: true };
+    },
+    [bindings, commit],
+  );
+
+  const clearBinding = useCallback(
+    (action: ShortcutAction) => commit({ ...bindings, [action]: "" }),
+    [bindings, commit],
+  );
+
+  /** 恢复默认按键，默认按键已被其他动作占用时返回该动作 */
+  const resetBinding = useCallback(
+    (action: ShortcutAction): ShortcutBindingResult =>
+      updateBinding(action, SHORTCUT_DEFINITIONS[action].defaultKey),
+    [updateBinding],
+  );
+
+  const resetAll = useCallback(() => commit(getDefaultShortcutBindings()), [commit]);
+
+  return { bindings, updateBinding, clearBinding, resetBinding, resetAll };
+}
@@ -4,13 +4,18 @@
  */
 
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
 import type { TranscriptionLanguageCode } from "@/components/layout/contexts/TranscriptionLanguageContext";
 import { useTranscriptionLanguage } from "@/components/layout/contexts/TranscriptionLanguageContext";
-import { useTranscription } from "@/hooks/api/useTranscription";
+import { transcriptionKeys, useTranscription } from "@/hooks/api/useTranscription";
+import { importSubtitlesForFile } from "@/lib/db/subtitle-import";
 import { getFileRealStatus, safeUpdateTranscriptionStatus } from "@/lib/utils/file-status-manager";
 import { handleTranscriptionError } from "@/lib/utils/transcription-error-handler";
-import { getTranscriptionQueue } from "@/lib/utils/transcription-queue";
+import {
+  getTranscriptionQueue,
+  type TranscriptionQueuePriority,
+  type TranscriptionQueueSnapshot,
+} from "@/lib/utils/transcription-queue";
 import { FileStatus } from "@/types/db/database";
 import { db } from "@/lib/db/db";
 
@@ -47,16 +52,99 @@ export function useFileStatus(fileId: number) {
   });
 }
 
+/**
+ * 订阅全局转录队列的状态
+ */
+export function useTranscriptionQueue(): TranscriptionQueueSnapshot {
+  const queue = getTranscriptionQueue();
+  return useSyncExternalStore(
+    useCallback((listener) => queue.subscribe(listener), [queue]),
+    () => queue.getSnapshot(),
+    () => EMPTY_QUEUE_SNAPSHOT,
+  );
+}
+
+const EMPTY_QUEUE_SNAPSHOT: TranscriptionQueueSnapshot = { tasks: [], paused: false };
+
+/**
+ * 转录队列执行器
+ * 在应用根部挂载一次：恢复上次未完成的队列，并负责执行队列中的任务
+ */
+export function useTranscriptionQueueRunner() {
+  const queryClient = useQueryClient();
+  const transcription = useTranscription();
+  const mutateAsyncRef = useRef(transcription.mutateAsync);
+  mutateAsyncRef.current = transcription.mutateAsync;
+
+  useEffect(() => {
+    const queue = getTranscriptionQueue();
+
+    const invalidateFile = (fileId: number) => {
+      // 转录状态查询据此开启或关闭进度流
+      queryClient.invalidateQueries({ queryKey: fileStatusKeys.forFile(fileId) });
+      queryClient.invalidateQueries({ queryKey: transcriptionKeys.forFile(fileId) });
+    };
+
+    queue.setTaskCallback(async (task) => {
+      try {
+        // 设置状态为转录中
+        await safeUpdateTranscriptionStatus(task.fileId, "processing");
+        invalidateFile(task.fileId);
+
+        // 开始转录（支持自动重试和取消）
+        await mutateAsyncRef.current({
+          fileId: task.fileId,
+          language: task.language,
+          signal: task.abortController.signal,
+        });
+
+        await safeUpdateTranscriptionStatus(task.fileId, "completed");
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") {
+          // 取消或暂停不算错误，恢复到待转录状态
+          await safeUpdateTranscriptionStatus(task.fileId, "pending");
+        } else {
+          handleTranscriptionError(error, {
+            fileId: task.fileId,
+            operation: "transcribe",
+            language: task.language,
+          });
+          await safeUpdateTranscriptionStatus(
+            task.fileId,
+            "failed",
+            error instanceof Error ? error.message : "转录失败",
+          );
+        }
+        throw error;
+      } finally {
+        invalidateFile(task.fileId);
+      }
+    });
+
+    queue
+      .restore()
+      .then((repairedFileIds) => {
+        repairedFileIds.forEach(invalidateFile);
+      })
+      .catch((error) => {
+        console.error("恢复转录队列失败:", error);
+      });
+
+    return () => {
+      queue.setTaskCallback(null);
+    };
+  }, [queryClient]);
+}
+
 /**
  * 文件状态管理 Hook
- * 使用转录队列和统一的状态管理
+ * 转录任务交给持久化的转录队列执行
  */
 export function useFileStatusManager(fileId: number) {
   const queryClient = useQueryClient();
-  const transcription = useTranscription();
   const { learningLanguage } = useTranscriptionLanguage();
-  const [isTranscribing, setIsTranscribing] = useState(false);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const queueState = useTranscriptionQueue();
+  const queueTask = queueState.tasks.find((task) => task.fileId === fileId) ?? null;
 
   // 更新转录状态（使用统一的状态管理器）
   const updateTranscriptionStatus = useCallback(
@@ -65,10 +153,13 @@ export function useFileStatusManager(fileId: number) {
         // 使用统一的状态管理器进行安全的状态更新
         await safeUpdateTranscriptionStatus(fileId, status, error);
 
-        // 刷新查询缓存
+        // 刷新查询缓存（转录状态查询据此开启或关闭进度流）
         queryClient.invalidateQueries({
           queryKey: fileStatusKeys.forFile(fileId),
         });
+        queryClient.invalidateQueries({
+          queryKey: transcriptionKeys.forFile(fileId),
+        });
       } catch (error) {
         console.error("更新转录状态失败:", error);
       }
@@ -76,70 +167,38 @@ export function useFileStatusManager(fileId: number) {
     [fileId, queryClient],
   );
 
-  // 开始转录（使用队列和学习语言配置）
+  // 开始转录：加入队列，使用学习语言中的目标语言作为默认语言
   const startTranscription = useCallback(
-    async (language?: TranscriptionLanguageCode) => {
-      const queue = getTranscriptionQueue();
-
-      // 如果已经在处理，不重复添加
-      if (queue.isInQueue(fileId)) {
-        return;
-      }
-
-      setIsTranscribing(true);
-
-      // 创建 abort controller
-      const abortController = new AbortController();
-      abortControllerRef.current = abortController;
-
-      try {
-        // 设置状态为转录中
-        await updateTranscriptionStatus("processing");
+    async (
+      language?: TranscriptionLanguageCode,
+      priority: TranscriptionQueuePriority = "normal",
+    ) => {
+      const targetLang = (language || learningLanguage.targetLanguage) as TranscriptionLanguageCode;
+      await getTranscriptionQueue().add(fileId, targetLang, { priority });
+    },
+    [fileId, learningLanguage],
+  );
 
-        // 使用学习语言中的目标语言，如果没有指定语言参数
-        const targetLang = language || learningLanguage.targetLanguage;
+  // 取消转录（从队列移除，处理中的请求会被中止）
+  const cancelTranscription = useCallback(() => {
+    getTranscriptionQueue().cancel(fileId);
+  }, [fileId]);
 
-        // 开始转录（支持自动重试和取消）
-        await transcription.mutateAsync({
-          fileId,
-          language: targetLang,
-          signal: abortController.signal,
-        });
+  const pauseTranscription = useCallback(() => {
+    getTranscriptionQueue().pause(fileId);
+  }, [fileId]);
 
-        // 转录成功后设置状态为完成
-        await updateTranscriptionStatus("completed");
-      } catch (error) {
-        // 检查是否是取消操作
-        if (error instanceof DOMException && error.name === "AbortError") {
-          // 取消不算错误，恢复到待转录状态
-          await updateTranscriptionStatus("pending");
-          return;
-        }
+  const resumeTranscription = useCallback(() => {
+    getTranscriptionQueue().resume(fileId);
+  }, [fileId]);
 
-        const errorMessage = error instanceof Error ? error.message : "转录失败";
-        handleTranscriptionError(error, {
-          fileId,
-          operation: "transcribe",
-          language,
-        });
-        await updateTranscriptionStatus("failed", errorMessage);
-        throw error;
-      } finally {
-        setIsTranscribing(false);
-        abortControllerRef.current = null;
-      }
+  const setTranscriptionPriority = useCallback(
+    (priority: TranscriptionQueuePriority) => {
+      getTranscriptionQueue().setPriority(fileId, priority);
     },
-    [fileId, transcription, updateTranscriptionStatus, learningLanguage],
+    [fileId],
   );
 
-  // 取消转录
-  const cancelTranscription = useCallback(() => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      setIsTranscribing(false);
-    }
-  }, []);
-
   // 重置文件状态
   const resetFileStatus = useCallback(async () => {
     // 取消正在进行的转录
@@ -160,21 +219,46 @@ export function useFileStatusManager(fileId: number) {
     });
   }, [fileId, queryClient, cancelTranscription]);
 
-  // 清理
-  useEffect(() => {
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
+  // 导入字幕文件，直接生成完成状态的转录
+  const importSubtitles = useCallback(
+    async (subtitleFile: File) => {
+      const { toast } = await import("sonner");
+
+      try {
+        const content = await subtitleFile.text();
+        const result = await importSubtitlesForFile(fileId, content, {
+          fileName: subtitleFile.name,
+          language: learningLanguage.targetLanguage,
+        });
+
+        queryClient.invalidateQueries({
+          queryKey: fileStatusKeys.forFile(fileId),
+        });
+        queryClient.invalidateQueries({
+          queryKey: transcriptionKeys.forFile(fileId),
+        });
+
+        toast.success(`已导入 ${result.segmentCount} 条字幕`);
+        return result;
+      } catch (error) {
+        toast.error(`字幕导入失败: ${error instanceof Error ? error.message : "未知错误"}`);
+        throw error;
       }
-    };
-  }, []);
+    },
+    [fileId, queryClient, learningLanguage],
+  );
 
   return {
     updateTranscriptionStatus,
     startTranscription,
     cancelTranscription,
+    pauseTranscription,
+    resumeTranscription,
+    setTranscriptionPriority,
     resetFileStatus,
-    isTranscribing: isTranscribing || transcription.isPending,
+    importSubtitles,
+    queueTask,
+    isTranscribing: queueTask?.status === "processing",
   };
 }
 
@@ -183,92 +267,43 @@ export function useFileStatusManager(fileId: number) {
  * 使用转录队列进行并发控制
  */
 export function useBatchFileStatus() {
-  const queryClient = useQueryClient();
-  const transcription = useTranscription();
-
-  // 批量转录 - 使用队列
+  // 批量转录 - 按顺序加入队列
   const startBatchTranscription = useCallback(
-    async (fileIds: number[], language: TranscriptionLanguageCode = "ja") => {
+    async (
+      fileIds: number[],
+      language: TranscriptionLanguageCode = "ja",
+      priority: TranscriptionQueuePriority = "normal",
+    ) => {
       const queue = getTranscriptionQueue();
-      const results: Array<{
-        fileId: number;
-        success: boolean;
-        error?: string;
-      }> = [];
-
-      // 设置队列任务回调
-      queue.setTaskCallback(async (task) => {
-        // 创建转录记录
-        await db.transcripts.add({
-          fileId: task.fileId,
-          status: "processing",
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        });
-
-        queryClient.invalidateQueries({
-          queryKey: fileStatusKeys.forFile(task.fileId),
-        });
-
-        // 执行转录
-        await transcription.mutateAsync({
-          fileId: task.fileId,
-          language: language,
-          signal: task.abortController.signal,
-        });
-
-        // 更新状态为完成
-        const transcripts = await db.transcripts.where("fileId").equals(task.fileId).toArray();
-        if (transcripts.length > 0 && transcripts[0].id) {
-          await db.transcripts.update(transcripts[0].id, {
-            status: "completed",
-            updatedAt: new Date(),
-          });
-        }
-
-        queryClient.invalidateQueries({
-          queryKey: fileStatusKeys.forFile(task.fileId),
-        });
-
-        results.push({ fileId: task.fileId, success: true });
-      });
-
-      // 设置状态变更回调
-      queue.setStatusChangeCallback(async (fileId, status, error) => {
-        if (status === "failed") {
-          const transcripts = await db.transcripts.where("fileId").equals(fileId).toArray();
-          if (transcripts.length > 0 && transcripts[0].id) {
-            await db.transcripts.update(transcripts[0].id, {
-              status: "failed",
-              error,
-              updatedAt: new Date(),
-            });
-          }
-          queryClient.invalidateQueries({
-            queryKey: fileStatusKeys.forFile(fileId),
-          });
-          results.push({ fileId, success: false, error });
-        }
-      });
-
-      // 将所有任务添加到队列
       for (const fileId of fileIds) {
-        queue.add(fileId, language);
+        await queue.add(fileId, language, { priority });
       }
-
-      return results;
     },
-    [queryClient, transcription],
+    [],
   );
 
   // 取消所有转录
   const cancelAllTranscriptions = useCallback(() => {
-    const queue = getTranscriptionQueue();
-    queue.cancelAll();
+    getTranscriptionQueue().cancelAll();
+  }, []);
+
+  const pauseQueue = useCallback(() => {
+    getTranscriptionQueue().pauseAll();
+  }, []);
+
+  const resumeQueue = useCallback(() => {
+    getTranscriptionQueue().resumeAll();
+  }, []);
+
+  const reorderQueue = useCallback((fileIds: number[]) => {
+    getTranscriptionQueue().reorder(fileIds);
   }, []);
 
   return {
     startBatchTranscription,
     cancelAllTranscriptions,
+    pauseQueue,
+    resumeQueue,
+    reorderQueue,
   };
 }
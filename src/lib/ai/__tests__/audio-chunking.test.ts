@@ -0,0 +1,189 @@
+import { describe, expect, it } from "vitest";
+import type { TranscriptionSegment } from "@/types/transcription";
+import {
+  AUDIO_CHUNKING_CONFIG,
+  type AudioChunkingConfig,
+  encodeWav,
+  mergeChunkTranscriptions,
+  planAudioChunks,
+  shouldChunkAudio,
+} from "../audio-chunking";
+
+const SAMPLE_RATE = 100;
+
+const testConfig: AudioChunkingConfig = {
+  ...AUDIO_CHUNKING_CONFIG,
+  sampleRate: SAMPLE_RATE,
+  chunkDuration: 60,
+  overlapDuration: 2,
+  silenceSearchWindow: 20,
+  rmsWindow: 1,
+};
+
+/** 生成持续有声、仅在指定秒数静音的信号 */
+function createSignal(durationSec: number, silentSeconds: number[] = []): Float32Array {
+  const samples = new Float32Array(durationSec * SAMPLE_RATE).fill(0.5);
+  for (const second of silentSeconds) {
+    samples.fill(0, second * SAMPLE_RATE, (second + 1) * SAMPLE_RATE);
+  }
+  return samples;
+}
+
+function segment(id: number, start: number, end: number, text: string): TranscriptionSegment {
+  return { id, start, end, text };
+}
+
+describe("audio-chunking", () => {
+  describe("planAudioChunks", () => {
+    it("should keep short audio in a single chunk", () => {
+      const chunks = planAudioChunks(createSignal(30), SAMPLE_RATE, testConfig);
+
+      expect(chunks).toEqual([{ index: 0, start: 0, end: 30 }]);
+    });
+
+    it("should cut at the quietest window before the target boundary", () => {
+      const chunks = planAudioChunks(createSignal(150, [50, 104, 105]), SAMPLE_RATE, testConfig);
+
+      expect(chunks).toHaveLength(3);
+      expect(chunks[0]).toEqual({ index: 0, start: 0, end: 50.5 });
+      expect(chunks[1].start).toBe(48.5);
+      expect(chunks[1].end).toBe(105);
+      expect(chunks[2]).toEqual({ index: 2, start: 103, end: 150 });
+    });
+
+    it("should overlap consecutive chunks and cover the whole audio", () => {
+      const chunks = planAudioChunks(createSignal(200), SAMPLE_RATE, testConfig);
+
+      for (let i = 1; i < chunks.length; i++) {
+        expect(chunks[i - 1].end - chunks[i].start).toBeCloseTo(testConfig.overlapDuration);
+      }
+      expect(chunks[0].start).toBe(0);
+      expect(chunks[chunks.length - 1].end).toBe(200);
+    });
+  });
+
+  describe("encodeWav", () => {
+    it("should produce a 16-bit mono PCM wav blob", () => {
+      const blob = encodeWav(new Float32Array(100), 16000);
+
+      expect(blob.type).toBe("audio/wav");
+      expect(blob.size).toBe(44 + 200);
+    });
+  });
+
+  describe("shouldChunkAudio", () => {
+    it("should only chunk files above the upload limit", () => {
+      const config = { ...AUDIO_CHUNKING_CONFIG, maxUploadBytes: 10 };
+
+      expect(shouldChunkAudio(new Blob(["small"]), config)).toBe(false);
+      expect(shouldChunkAudio(new Blob(["larger than ten bytes"]), config)).toBe(true);
+    });
+  });
+
+  describe("mergeChunkTranscriptions", () => {
+    it("should drop duplicated segments in the overlap region", () => {
+      const result = mergeChunkTranscriptions([
+        {
+          index: 0,
+          start: 0,
+          end: 60,
+          result: {
+            text: "",
+            language: "en",
+            segments: [
+              segment(1, 0, 20, "one"),
+              segment(2, 20, 57, "two"),
+              segment(3, 57, 60, "three"),
+            ],
+          },
+        },
+        {
+          index: 1,
+          start: 55,
+          end: 100,
+          result: {
+            text: "",
+            segments: [
+              segment(1, 55, 57, "wo"),
+              segment(2, 57.2, 70, "three"),
+              segment(3, 70, 100, "four"),
+            ],
+          },
+        },
+      ]);
+
+      expect(result.segments?.map((s) => s.text)).toEqual(["one", "two", "three", "four"]);
+      expect(result.segments?.map((s) => s.id)).toEqual([1, 2, 3, 4]);
+      expect(result.segments?.[2].start).toBe(57);
+      expect(result.duration).toBe(100);
+      expect(result.language).toBe("en");
+    });
+
+    it("should trim a kept segment that runs into the next chunk", () => {
+      const result = mergeChunkTranscriptions([
+        { index: 0, start: 0, end: 60, result: { text: "", segments: [segment(1, 50, 59, "a")] } },
+        {
+          index: 1,
+          start: 56,
+          end: 90,
+          result: { text: "", segments: [segment(1, 58.5, 70, "b")] },
+        },
+      ]);
+
+      expect(result.segments?.[0].end).toBe(58.5);
+    });
+
+    it("should drop word timestamps beyond the trimmed end", () => {
+      const result = mergeChunkTranscriptions([
+        {
+          index: 0,
+          start: 0,
+          end: 60,
+          result: {
+            text: "",
+            segments: [
+              {
+                ...segment(1, 50, 59, "a b c"),
+                wordTimestamps: [
+                  { word: "a", start: 50, end: 54 },
+                  { word: "b", start: 54, end: 58.8 },
+                  { word: "c", start: 58.8, end: 59 },
+                ],
+              },
+            ],
+          },
+        },
+        {
+          index: 1,
+          start: 56,
+          end: 90,
+          result: { text: "", segments: [segment(1, 58.5, 70, "c d")] },
+        },
+      ]);
+
+      expect(result.segments?.[0].wordTimestamps).toEqual([
+        { word: "a", start: 50, end: 54 },
+        { word: "b", start: 54, end: 58.5 },
+      ]);
+    });
+
+    it("should join text without spaces for CJK transcripts", () => {
+      const result = mergeChunkTranscriptions([
+        {
+          index: 0,
+          start: 0,
+          end: 30,
+          result: { text: "", segments: [segment(1, 0, 10, "こんにちは。")] },
+        },
+        {
+          index: 1,
+          start: 28,
+          end: 50,
+          result: { text: "", segments: [segment(1, 30, 40, "元気です。")] },
+        },
+      ]);
+
+      expect(result.text).toBe("こんにちは。元気です。");
+    });
+  });
+});
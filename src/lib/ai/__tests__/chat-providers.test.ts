@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createChatProvider,
+  getChatProviderConfig,
+  resolveChatModel,
+  validateChatProviderConfig,
+} from "../chat-providers";
+
+describe("chat-providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("getChatProviderConfig", () => {
+    it("should default to groq with gpt-oss-20b", () => {
+      const config = getChatProviderConfig({ GROQ_API_KEY: "gsk_test" });
+
+      expect(config.type).toBe("groq");
+      expect(config.model).toBe("openai/gpt-oss-20b");
+      expect(config.apiKey).toBe("gsk_test");
+    });
+
+    it("should read openai-compatible settings and the model map", () => {
+      const config = getChatProviderConfig({
+        POSTPROCESS_PROVIDER: "openai-compatible",
+        POSTPROCESS_BASE_URL: "http://localhost:11434/v1",
+        POSTPROCESS_MODEL: "llama3.1",
+        POSTPROCESS_MODEL_MAP: '{"ja-zh":"qwen2.5:7b","invalid":1}',
+      });
+
+      expect(config).toEqual({
+        type: "openai-compatible",
+        model: "llama3.1",
+        apiKey: undefined,
+        baseUrl: "http://localhost:11434/v1",
+        modelsByLanguagePair: { "ja-zh": "qwen2.5:7b" },
+      });
+    });
+
+    it("should ignore a malformed model map", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const config = getChatProviderConfig({ POSTPROCESS_MODEL_MAP: "not json" });
+
+      expect(config.modelsByLanguagePair).toBeUndefined();
+    });
+  });
+
+  describe("validateChatProviderConfig", () => {
+    it("should report missing credentials or endpoints", () => {
+      expect(validateChatProviderConfig({ type: "groq", model: "m" })).toHaveLength(1);
+      expect(validateChatProviderConfig({ type: "openai-compatible", model: "m" })).toEqual([
+        "POSTPROCESS_BASE_URL is not configured",
+      ]);
+    });
+  });
+
+  describe("resolveChatModel", () => {
+    const config = {
+      type: "openai-compatible" as const,
+      model: "default",
+      baseUrl: "http://localhost:11434/v1",
+      modelsByLanguagePair: { "ja-zh": "exact", "ja-*": "source", "*-en": "target" },
+    };
+
+    it("should prefer exact, then source, then target matches", () => {
+      expect(resolveChatModel(config, "ja", "zh")).toBe("exact");
+      expect(resolveChatModel(config, "ja", "ko")).toBe("source");
+      expect(resolveChatModel(config, "fr", "en")).toBe("target");
+      expect(resolveChatModel(config, "fr", "de")).toBe("default");
+    });
+  });
+
+  describe("openai-compatible provider", () => {
+    it("should post messages to /chat/completions and return the content", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ choices: [{ message: { content: "{}" } }] }), {
+          status: 200,
+        }),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const provider = createChatProvider({
+        type: "openai-compatible",
+        model: "llama3.1",
+        baseUrl: "http://localhost:11434/v1",
+      });
+      const content = await provider.complete({
+        model: "qwen2.5:7b",
+        temperature: 0.2,
+        messages: [{ role: "user", content: "hi" }],
+      });
+
+      expect(content).toBe("{}");
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("http://localhost:11434/v1/chat/completions");
+      expect(init.headers).toEqual({ "Content-Type": "application/json" });
+      expect(JSON.parse(init.body)).toEqual({
+        model: "qwen2.5:7b",
+        temperature: 0.2,
+        messages: [{ role: "user", content: "hi" }],
+      });
+    });
+
+    it("should throw with the status code when the server fails", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("boom", { status: 500 })));
+
+      const provider = createChatProvider({
+        type: "openai-compatible",
+        model: "llama3.1",
+        baseUrl: "http://localhost:11434/v1",
+      });
+
+      await expect(
+        provider.complete({ messages: [{ role: "user", content: "hi" }] }),
+      ).rejects.toThrow("对话服务请求失败 (500): boom");
+    });
+  });
+});
@@ -4,6 +4,7 @@ import {
   buildSegmentsFromPlainText,
   buildSegmentsFromWords,
   mapGroqSegmentToTranscriptionSegment,
+  offsetTranscriptionSegments,
 } from "../groq-transcription-utils";
 
 describe("groq-transcription-utils", () => {
@@ -205,4 +206,34 @@ describe("groq-transcription-utils", () => {
       expect(result[0].confidence).toBe(0.95);
     });
   });
+
+  describe("offsetTranscriptionSegments", () => {
+    it("should shift segment and word timestamps by the offset", () => {
+      const result = offsetTranscriptionSegments(
+        [
+          {
+            id: 1,
+            start: 1,
+            end: 2,
+            text: "Hello world",
+            wordTimestamps: [
+              { word: "Hello", start: 1, end: 1.5 },
+              { word: "world", start: 1.5, end: 2 },
+            ],
+          },
+        ],
+        600,
+      );
+
+      expect(result[0].start).toBe(601);
+      expect(result[0].end).toBe(602);
+      expect(result[0].wordTimestamps?.[1]).toEqual({ word: "world", start: 601.5, end: 602 });
+    });
+
+    it("should return segments unchanged when offset is zero", () => {
+      const segments = [{ id: 1, start: 0, end: 1, text: "Test" }];
+
+      expect(offsetTranscriptionSegments(segments, 0)).toBe(segments);
+    });
+  });
 });
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import type { Segment } from "@/types/db/database";
+import {
+  extractSpokenWords,
+  getReferenceWords,
+  normalizeWord,
+  scorePronunciation,
+} from "../pronunciation-scoring";
+
+const reference = [
+  { word: "I", start: 10, end: 10.2 },
+  { word: "like", start: 10.3, end: 10.6 },
+  { word: "green", start: 10.7, end: 11.1 },
+  { word: "tea.", start: 11.2, end: 11.6 },
+];
+
+const makeSegment = (overrides: Partial<Segment>): Segment => ({
+  transcriptId: 1,
+  start: 0,
+  end: 2,
+  text: "",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe("pronunciation-scoring", () => {
+  describe("normalizeWord", () => {
+    it("should ignore case, punctuation and full-width forms", () => {
+      expect(normalizeWord("Tea.")).toBe("tea");
+      expect(normalizeWord("ＡＢＣ！")).toBe("abc");
+      expect(normalizeWord("、")).toBe("");
+    });
+  });
+
+  describe("getReferenceWords", () => {
+    it("should prefer word timestamps", () => {
+      expect(getReferenceWords(makeSegment({ wordTimestamps: reference }))).toBe(reference);
+    });
+
+    it("should split CJK text into characters with evenly spaced times", () => {
+      const words = getReferenceWords(makeSegment({ start: 1, end: 3, text: "おはよう" }));
+
+      expect(words.map((word) => word.word)).toEqual(["お", "は", "よ", "う"]);
+      expect(words[1]).toMatchObject({ start: 1.5, end: 2 });
+    });
+  });
+
+  describe("extractSpokenWords", () => {
+    it("should flatten segment words when top-level words are missing", () => {
+      const words = extractSpokenWords({
+        text: "hello world",
+        segments: [
+          { words: [{ word: " hello", start: 0, end: 0.4 }] },
+          { words: [{ word: " world", start: 0.5, end: 0.9 }] },
+        ],
+      });
+
+      expect(words).toEqual([
+        { word: "hello", start: 0, end: 0.4 },
+        { word: "world", start: 0.5, end: 0.9 },
+      ]);
+    });
+  });
+
+  describe("scorePronunciation", () => {
+    it("should give full marks for a perfect attempt at a different tempo", () => {
+      // 整体慢一倍且从录音开头 0.5 秒开始，不应影响得分
+      const spoken = reference.map((word) => ({
+        word: word.word.replace(".", ""),
+        start: 0.5 + (word.start - 10) * 2,
+        end: 0.5 + (word.end - 10) * 2,
+      }));
+
+      const report = scorePronunciation(reference, spoken);
+
+      expect(report).toMatchObject({ score: 100, accuracy: 100, rhythm: 100, extraWords: [] });
+      expect(report.words.every((word) => word.accuracy === 1)).toBe(true);
+      expect(report.transcript).toBe("I like green tea");
+    });
+
+    it("should mark missing and mispronounced words", () => {
+      const report = scorePronunciation(reference, [
+        { word: "I", start: 0, end: 0.2 },
+        { word: "lake", start: 0.3, end: 0.6 },
+        { word: "tea", start: 1.2, end: 1.6 },
+      ]);
+
+      expect(report.words[1]).toMatchObject({ spoken: "lake", accuracy: 0.75 });
+      expect(report.words[2]).toMatchObject({ spoken: undefined, accuracy: 0 });
+      expect(report.accuracy).toBe(69);
+      expect(report.score).toBeLessThan(100);
+    });
+
+    it("should report timing offsets relative to the first word", () => {
+      const report = scorePronunciation(reference, [
+        { word: "I", start: 0, end: 0.2 },
+        { word: "like", start: 0.3, end: 0.6 },
+        { word: "green", start: 1.2, end: 1.6 },
+        { word: "tea", start: 1.7, end: 2.1 },
+      ]);
+
+      expect(report.words[0].timingOffset).toBeCloseTo(0);
+      expect(report.words[2].timingOffset).toBeCloseTo(0.5);
+      expect(report.rhythm).toBeLessThan(100);
+    });
+
+    it("should count extra words against accuracy", () => {
+      const report = scorePronunciation(reference, [
+        { word: "I", start: 0, end: 0.2 },
+        { word: "really", start: 0.25, end: 0.5 },
+        { word: "like", start: 0.6, end: 0.9 },
+        { word: "green", start: 1, end: 1.4 },
+        { word: "tea", start: 1.5, end: 1.9 },
+      ]);
+
+      expect(report.extraWords).toEqual(["really"]);
+      expect(report.accuracy).toBe(80);
+    });
+
+    it("should align CJK text by character", () => {
+      const report = scorePronunciation(
+        [
+          { word: "東京", start: 0, end: 0.6 },
+          { word: "に", start: 0.6, end: 0.8 },
+          { word: "行きます", start: 0.8, end: 1.6 },
+        ],
+        [{ word: "東京に行ます", start: 0, end: 1.5 }],
+      );
+
+      expect(report.words[0].accuracy).toBe(1);
+      expect(report.words[1].accuracy).toBe(1);
+      expect(report.words[2].accuracy).toBe(0.75);
+      expect(report.words[2].spoken).toBe("東京に行ます");
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  clearServerProgress,
+  publishServerSegments,
+  type ServerProgressEvent,
+  setServerProgress,
+  subscribeServerProgress,
+} from "../server-progress";
+
+describe("server-progress subscriptions", () => {
+  afterEach(async () => {
+    await clearServerProgress(1);
+  });
+
+  it("should notify subscribers of progress updates for their file only", async () => {
+    const events: ServerProgressEvent[] = [];
+    const unsubscribe = subscribeServerProgress(1, (event) => events.push(event));
+
+    await setServerProgress(1, { status: "processing", progress: 40, message: "转录中" });
+    await setServerProgress(2, { status: "processing", progress: 10, message: "其他文件" });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: "progress",
+      progress: { fileId: 1, status: "processing", progress: 40 },
+    });
+
+    unsubscribe();
+    await setServerProgress(1, { progress: 80 });
+    expect(events).toHaveLength(1);
+  });
+
+  it("should publish partial segments with the chunk index", () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeServerProgress(1, listener);
+
+    publishServerSegments(1, [], 0);
+    publishServerSegments(1, [{ id: 1, start: 600, end: 602, text: "続き" }], 1);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      type: "segments",
+      fileId: 1,
+      chunkIndex: 1,
+      segments: [{ id: 1, start: 600, end: 602, text: "続き" }],
+    });
+
+    unsubscribe();
+  });
+});
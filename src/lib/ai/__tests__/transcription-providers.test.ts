@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createTranscriptionProvider,
+  getTranscriptionProviderConfig,
+  validateTranscriptionProviderConfig,
+} from "../transcription-providers";
+
+describe("transcription-providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("getTranscriptionProviderConfig", () => {
+    it("should default to groq with the turbo model", () => {
+      const config = getTranscriptionProviderConfig({ GROQ_API_KEY: "gsk_test" });
+
+      expect(config).toEqual({
+        type: "groq",
+        model: "whisper-large-v3-turbo",
+        apiKey: "gsk_test",
+        baseUrl: undefined,
+      });
+    });
+
+    it("should read openai-compatible settings", () => {
+      const config = getTranscriptionProviderConfig({
+        TRANSCRIPTION_PROVIDER: "openai-compatible",
+        TRANSCRIPTION_BASE_URL: "http://localhost:8080/v1",
+        TRANSCRIPTION_MODEL: "large-v3",
+        GROQ_API_KEY: "gsk_test",
+      });
+
+      expect(config).toEqual({
+        type: "openai-compatible",
+        model: "large-v3",
+        apiKey: undefined,
+        baseUrl: "http://localhost:8080/v1",
+      });
+    });
+  });
+
+  describe("validateTranscriptionProviderConfig", () => {
+    it("should require an api key for groq", () => {
+      expect(validateTranscriptionProviderConfig({ type: "groq", model: "m" })?.code).toBe(
+        "API_KEY_MISSING",
+      );
+    });
+
+    it("should require a base url for openai-compatible servers", () => {
+      expect(
+        validateTranscriptionProviderConfig({ type: "openai-compatible", model: "m" })?.code,
+      ).toBe("PROVIDER_NOT_CONFIGURED");
+      expect(
+        validateTranscriptionProviderConfig({
+          type: "openai-compatible",
+          model: "m",
+          baseUrl: "http://localhost:8080/v1",
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("openai-compatible provider", () => {
+    it("should post verbose_json requests to /audio/transcriptions", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify({ text: "hello", segments: [] }), { status: 200 }),
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const provider = createTranscriptionProvider({
+        type: "openai-compatible",
+        model: "whisper-1",
+        apiKey: "local-key",
+        baseUrl: "http://localhost:8080/v1/",
+      });
+      const result = await provider.transcribe(new File(["audio"], "a.wav"), { language: "ja" });
+
+      expect(result.text).toBe("hello");
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("http://localhost:8080/v1/audio/transcriptions");
+      expect(init.headers).toEqual({ Authorization: "Bearer local-key" });
+      const body = init.body as FormData;
+      expect(body.get("model")).toBe("whisper-1");
+      expect(body.get("response_format")).toBe("verbose_json");
+      expect(body.get("language")).toBe("ja");
+      expect(body.getAll("timestamp_granularities[]")).toEqual(["word", "segment"]);
+    });
+
+    it("should surface server errors with the status code", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(new Response("model not loaded", { status: 503 })),
+      );
+
+      const provider = createTranscriptionProvider({
+        type: "openai-compatible",
+        model: "whisper-1",
+        baseUrl: "http://localhost:8080/v1",
+      });
+
+      await expect(provider.transcribe(new File(["audio"], "a.wav"))).rejects.toThrow(
+        "转录服务请求失败 (503): model not loaded",
+      );
+    });
+  });
+});
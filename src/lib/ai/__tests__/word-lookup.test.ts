@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ChatProvider } from "@/lib/ai/chat-providers";
+import { buildWordLookupPrompt, lookupWord, parseWordLookupResponse } from "@/lib/ai/word-lookup";
+
+describe("word-lookup", () => {
+  it("should include the sentence and the level scale in the prompt", () => {
+    const prompt = buildWordLookupPrompt({
+      word: "食べた",
+      context: "ご飯を食べた",
+      language: "ja",
+      targetLanguage: "zh",
+    });
+
+    expect(prompt).toContain('"食べた"');
+    expect(prompt).toContain("ご飯を食べた");
+    expect(prompt).toContain("JLPT");
+    expect(buildWordLookupPrompt({ word: "ran", language: "en", targetLanguage: "zh" })).toContain(
+      "CEFR",
+    );
+  });
+
+  it("should parse fenced JSON responses", () => {
+    const entry = parseWordLookupResponse(
+      '```json\n{ "lemma": "食べる", "surface": "食べた", "reading": "たべる", "gloss": "吃", "level": "jlpt n5" }\n```',
+      "食べた",
+    );
+
+    expect(entry).toEqual({
+      lemma: "食べる",
+      surface: "食べた",
+      reading: "たべる",
+      gloss: "吃",
+      level: "N5",
+    });
+  });
+
+  it("should fall back to the word itself when the response is not JSON", () => {
+    expect(parseWordLookupResponse("sorry", "ran")).toEqual({ lemma: "ran" });
+  });
+
+  it("should query the provider with the resolved model", async () => {
+    const complete = vi.fn().mockResolvedValue('{ "lemma": "run", "gloss": "跑" }');
+    const provider: ChatProvider = { type: "groq", model: "default", complete };
+
+    const entry = await lookupWord(
+      { word: "ran", language: "en", targetLanguage: "zh" },
+      provider,
+      "llama3.1",
+    );
+
+    expect(entry).toMatchObject({ lemma: "run", gloss: "跑" });
+    expect(complete).toHaveBeenCalledWith(expect.objectContaining({ model: "llama3.1" }));
+  });
+});
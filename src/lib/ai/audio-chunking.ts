@@ -0,0 +1,335 @@
+/**
+ * 长音频分块转录
+ * 在浏览器中将长音频解码为 16kHz 单声道，按静音位置切分成带重叠的 WAV 分块，
+ * 逐块转录后按偏移量拼接 segments，并去除重叠区域的重复内容
+ */
+
+import type { TranscriptionResult, TranscriptionSegment } from "@/types/transcription";
+
+export interface AudioChunkingConfig {
+  /** 转录采样率，Whisper 以 16kHz 处理音频 */
+  sampleRate: number;
+  /** 单个分块的目标时长（秒） */
+  chunkDuration: number;
+  /** 相邻分块的重叠时长（秒） */
+  overlapDuration: number;
+  /** 在目标切点之前搜索静音的范围（秒） */
+  silenceSearchWindow: number;
+  /** 计算音量时使用的窗口长度（秒） */
+  rmsWindow: number;
+  /** 超过该大小的文件才需要分块（字节），对应 Groq 的上传限制 */
+  maxUploadBytes: number;
+}
+
+export const AUDIO_CHUNKING_CONFIG: AudioChunkingConfig = {
+  sampleRate: 16000,
+  chunkDuration: 600,
+  overlapDuration: 5,
+  silenceSearchWindow: 30,
+  rmsWindow: 0.1,
+  maxUploadBytes: 24 * 1024 * 1024,
+};
+
+/** 分块在原音频中的位置（秒） */
+export interface AudioChunkRange {
+  index: number;
+  start: number;
+  end: number;
+}
+
+export interface AudioChunk extends AudioChunkRange {
+  blob: Blob;
+}
+
+/** 已转为绝对时间的分块转录结果 */
+export interface ChunkTranscription extends AudioChunkRange {
+  result: TranscriptionResult;
+}
+
+export type ChunkProgressHandler = (progress: {
+  chunkIndex: number;
+  totalChunks: number;
+  status: "pending" | "processing" | "completed" | "failed";
+  progress: number;
+  message?: string;
+  error?: string;
+}) => void;
+
+/**
+ * 判断音频是否需要分块转录
+ */
+export function shouldChunkAudio(
+  blob: Blob,
+  config: AudioChunkingConfig = AUDIO_CHUNKING_CONFIG,
+): boolean {
+  return blob.size > config.maxUploadBytes;
+}
+
+/**
+ * 在 [from, to) 范围内寻找音量最低的窗口中心（秒）
+ */
+function findQuietestPoint(
+  samples: Float32Array,
+  sampleRate: number,
+  from: number,
+  to: number,
+  windowSeconds: number,
+): number {
+  const windowSize = Math.max(1, Math.round(windowSeconds * sampleRate));
+  const startSample = Math.max(0, Math.floor(from * sampleRate));
+  const endSample = Math.min(samples.length, Math.floor(to * sampleRate));
+
+  let bestPosition = to;
+  let bestEnergy = Number.POSITIVE_INFINITY;
+
+  // 从后往前扫描，音量相同时优先选择靠近目标切点的位置
+  for (let windowEnd = endSample; windowEnd - windowSize >= startSample; windowEnd -= windowSize) {
+    let energy = 0;
+    for (let i = windowEnd - windowSize; i < windowEnd; i++) {
+      energy += samples[i] * samples[i];
+    }
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      bestPosition = (windowEnd - windowSize / 2) / sampleRate;
+    }
+  }
+
+  return bestPosition;
+}
+
+/**
+ * 规划分块范围
+ * 每个切点选在目标时长之前最安静的位置，下一个分块从切点前 overlapDuration 秒开始
+ */
+export function planAudioChunks(
+  samples: Float32Array,
+  sampleRate: number,
+  config: AudioChunkingConfig = AUDIO_CHUNKING_CONFIG,
+): AudioChunkRange[] {
+  const totalDuration = samples.length / sampleRate;
+  const chunks: AudioChunkRange[] = [];
+  let start = 0;
+
+  while (start < totalDuration) {
+    const target = start + config.chunkDuration;
+    if (target >= totalDuration) {
+      chunks.push({ index: chunks.length, start, end: totalDuration });
+      break;
+    }
+
+    // 搜索范围不能越过重叠区，保证每个分块都向前推进
+    const searchFrom = Math.max(
+      start + config.overlapDuration * 2,
+      target - config.silenceSearchWindow,
+    );
+    const end = findQuietestPoint(samples, sampleRate, searchFrom, target, config.rmsWindow);
+
+    chunks.push({ index: chunks.length, start, end });
+    start = end - config.overlapDuration;
+  }
+
+  return chunks;
+}
+
+/**
+ * 将单声道 PCM 编码为 16 位 WAV
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // 单声道
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true);
+  view.setUint16(32, bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * bytesPerSample, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+/**
+ * 解码音频并混合为单声道
+ * decodeAudioData 会按上下文的采样率重采样，因此直接得到 16kHz 数据
+ */
+export async function decodeToMono(
+  blob: Blob,
+  sampleRate: number = AUDIO_CHUNKING_CONFIG.sampleRate,
+): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const audioBuffer = await context.decodeAudioData(await blob.arrayBuffer());
+
+  if (audioBuffer.numberOfChannels === 1) {
+    return audioBuffer.getChannelData(0);
+  }
+
+  const mono = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / audioBuffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * 将已解码的单声道样本切分为带重叠的 WAV 分块
+ */
+export function splitAudioIntoChunks(
+  samples: Float32Array,
+  config: AudioChunkingConfig = AUDIO_CHUNKING_CONFIG,
+): AudioChunk[] {
+  return planAudioChunks(samples, config.sampleRate, config).map((range) => ({
+    ...range,
+    blob: encodeWav(
+      samples.subarray(
+        Math.floor(range.start * config.sampleRate),
+        Math.ceil(range.end * config.sampleRate),
+      ),
+      config.sampleRate,
+    ),
+  }));
+}
+
+/**
+ * 提取视频文件的音轨，转为单声道 WAV（仅限浏览器环境）
+ */
+export async function extractAudioTrack(
+  blob: Blob,
+  config: AudioChunkingConfig = AUDIO_CHUNKING_CONFIG,
+): Promise<Blob> {
+  const samples = await decodeToMono(blob, config.sampleRate);
+  return encodeWav(samples, config.sampleRate);
+}
+
+/**
+ * 上传转录时使用的文件名，使用单独音轨时按音轨格式替换扩展名
+ */
+export function getAudioFileName(file: { name: string; audioTrack?: Blob }): string {
+  if (!file.audioTrack) return file.name;
+  const extension = file.audioTrack.type === "audio/ogg" ? "ogg" : "wav";
+  return `${file.name.replace(/\.[^/.]+$/, "") || "audio"}.${extension}`;
+}
+
+/**
+ * 合并各分块的转录结果
+ * 相邻分块以重叠区的中点为界：前一块保留中点之前开始的 segment，后一块保留中点之后开始的
+ */
+export function mergeChunkTranscriptions(chunks: ChunkTranscription[]): TranscriptionResult {
+  const sorted = [...chunks].sort((a, b) => a.start - b.start);
+  const merged: TranscriptionSegment[] = [];
+
+  sorted.forEach((chunk, index) => {
+    const previous = sorted[index - 1];
+    const next = sorted[index + 1];
+    const lowerBound = previous ? (chunk.start + previous.end) / 2 : Number.NEGATIVE_INFINITY;
+    const upperBound = next ? (next.start + chunk.end) / 2 : Number.POSITIVE_INFINITY;
+
+    for (const segment of chunk.result.segments ?? []) {
+      if (segment.start < lowerBound || segment.start >= upperBound) continue;
+
+      const last = merged[merged.length - 1];
+      if (last && last.end > segment.start) {
+        last.end = segment.start;
+        // 重叠区的词已由后一个 segment 提供，超出新结束时间的部分一并截掉
+        last.wordTimestamps = last.wordTimestamps
+          ?.filter((word) => word.start < segment.start)
+          .map((word) => ({ ...word, end: Math.min(word.end, segment.start) }));
+      }
+      merged.push({ ...segment });
+    }
+  });
+
+  const segments = merged.map((segment, index) => ({ ...segment, id: index + 1 }));
+  const sampleText = segments.find((segment) => segment.text.trim())?.text.trim() ?? "";
+  const separator = /\s/.test(sampleText) ? " " : "";
+  const lastChunk = sorted[sorted.length - 1];
+
+  return {
+    text: segments
+      .map((segment) => segment.text.trim())
+      .filter(Boolean)
+      .join(separator),
+    language: sorted.find((chunk) => chunk.result.language)?.result.language,
+    duration: lastChunk ? lastChunk.end : undefined,
+    segments,
+  };
+}
+
+/**
+ * 分块转录长音频（解码部分仅限浏览器环境）
+ * @param transcribeChunk 转录单个分块，返回的时间需已加上分块偏移量
+ * @param options.samples 已按 config.sampleRate 解码的样本，传入时不再重复解码
+ */
+export async function transcribeInChunks(
+  blob: Blob,
+  transcribeChunk: (chunk: AudioChunk, totalChunks: number) => Promise<TranscriptionResult>,
+  options: {
+    onProgress?: ChunkProgressHandler;
+    config?: AudioChunkingConfig;
+    samples?: Float32Array;
+  } = {},
+): Promise<TranscriptionResult> {
+  const { onProgress, config = AUDIO_CHUNKING_CONFIG } = options;
+  const chunks = splitAudioIntoChunks(
+    options.samples ?? (await decodeToMono(blob, config.sampleRate)),
+    config,
+  );
+  const results: ChunkTranscription[] = [];
+
+  for (const chunk of chunks) {
+    onProgress?.({
+      chunkIndex: chunk.index,
+      totalChunks: chunks.length,
+      status: "processing",
+      progress: Math.round((chunk.index / chunks.length) * 100),
+      message: `正在转录第 ${chunk.index + 1}/${chunks.length} 段...`,
+    });
+
+    try {
+      const result = await transcribeChunk(chunk, chunks.length);
+      results.push({ index: chunk.index, start: chunk.start, end: chunk.end, result });
+    } catch (error) {
+      onProgress?.({
+        chunkIndex: chunk.index,
+        totalChunks: chunks.length,
+        status: "failed",
+        progress: Math.round((chunk.index / chunks.length) * 100),
+        message: `第 ${chunk.index + 1}/${chunks.length} 段转录失败`,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+
+    onProgress?.({
+      chunkIndex: chunk.index,
+      totalChunks: chunks.length,
+      status: "completed",
+      progress: Math.round(((chunk.index + 1) / chunks.length) * 100),
+      message: `第 ${chunk.index + 1}/${chunks.length} 段转录完成`,
+    });
+  }
+
+  return mergeChunkTranscriptions(results);
+}
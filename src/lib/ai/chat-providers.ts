@@ -0,0 +1,201 @@
+/**
+ * 后处理使用的对话补全提供方
+ * 通过环境变量选择 Groq 或任意兼容 OpenAI `/chat/completions` 接口的服务
+ * （例如本地的 llama.cpp server、Ollama），并支持按语言对选择模型
+ */
+
+import Groq from "groq-sdk";
+
+export type ChatProviderType = "groq" | "openai-compatible";
+
+export interface ChatProviderConfig {
+  type: ChatProviderType;
+  /** 默认模型 */
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  /**
+   * 按语言对覆盖模型，键为 `源语言-目标语言`，可用 `*` 作为通配符
+   * 例如 { "ja-zh": "qwen2.5:7b", "en-*": "llama3.1" }
+   */
+  modelsByLanguagePair?: Record<string, string>;
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  /** 不指定时使用提供方的默认模型 */
+  model?: string;
+}
+
+export interface ChatProvider {
+  type: ChatProviderType;
+  model: string;
+  /** 返回第一条候选消息的文本内容 */
+  complete(request: ChatCompletionRequest): Promise<string>;
+}
+
+export const DEFAULT_CHAT_MODELS: Record<ChatProviderType, string> = {
+  groq: "openai/gpt-oss-20b",
+  "openai-compatible": "llama3.1",
+};
+
+function parseModelMap(raw?: string): Record<string, string> | undefined {
+  if (!raw) return undefined;
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return undefined;
+    }
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string",
+      ),
+    );
+  } catch (error) {
+    console.warn("POSTPROCESS_MODEL_MAP 不是有效的 JSON:", error);
+    return undefined;
+  }
+}
+
+/**
+ * 从环境变量读取提供方配置
+ *
+ * - POSTPROCESS_PROVIDER: groq（默认）| openai-compatible
+ * - POSTPROCESS_MODEL: 默认模型
+ * - POSTPROCESS_MODEL_MAP: 按语言对覆盖模型的 JSON，例如 {"ja-zh":"qwen2.5:7b"}
+ * - POSTPROCESS_BASE_URL / POSTPROCESS_API_KEY: openai-compatible 的服务地址和可选密钥
+ * - GROQ_API_KEY / GROQ_BASE_URL: groq 的密钥和可选地址
+ */
+export function getChatProviderConfig(
+  env: Record<string, string | undefined> = process.env,
+): ChatProviderConfig {
+  const type: ChatProviderType =
+    env.POSTPROCESS_PROVIDER === "openai-compatible" ? "openai-compatible" : "groq";
+  const model = env.POSTPROCESS_MODEL || DEFAULT_CHAT_MODELS[type];
+  const modelsByLanguagePair = parseModelMap(env.POSTPROCESS_MODEL_MAP);
+
+  if (type === "openai-compatible") {
+    return {
+      type,
+      model,
+      apiKey: env.POSTPROCESS_API_KEY || undefined,
+      baseUrl: env.POSTPROCESS_BASE_URL || undefined,
+      modelsByLanguagePair,
+    };
+  }
+
+  return {
+    type,
+    model,
+    apiKey: env.GROQ_API_KEY || undefined,
+    baseUrl: env.GROQ_BASE_URL || undefined,
+    modelsByLanguagePair,
+  };
+}
+
+/**
+ * 检查配置是否完整，返回错误信息列表
+ */
+export function validateChatProviderConfig(config: ChatProviderConfig): string[] {
+  const errors: string[] = [];
+
+  if (config.type === "groq" && !config.apiKey) {
+    errors.push("Groq API key is not configured");
+  }
+
+  if (config.type === "openai-compatible" && !config.baseUrl) {
+    errors.push("POSTPROCESS_BASE_URL is not configured");
+  }
+
+  return errors;
+}
+
+/**
+ * 按语言对选择模型，优先级：精确匹配 > 源语言通配 > 目标语言通配 > 默认模型
+ */
+export function resolveChatModel(
+  config: ChatProviderConfig,
+  sourceLanguage: string,
+  targetLanguage: string,
+): string {
+  const models = config.modelsByLanguagePair ?? {};
+
+  return (
+    models[`${sourceLanguage}-${targetLanguage}`] ??
+    models[`${sourceLanguage}-*`] ??
+    models[`*-${targetLanguage}`] ??
+    config.model
+  );
+}
+
+function createGroqChatProvider(config: ChatProviderConfig): ChatProvider {
+  const groq = new Groq({ apiKey: config.apiKey, baseURL: config.baseUrl });
+
+  return {
+    type: "groq",
+    model: config.model,
+    async complete({ messages, temperature, model }) {
+      const response = await groq.chat.completions.create({
+        model: model ?? config.model,
+        temperature,
+        messages,
+      });
+
+      return response.choices[0]?.message?.content ?? "";
+    },
+  };
+}
+
+function createOpenAICompatibleChatProvider(config: ChatProviderConfig): ChatProvider {
+  const endpoint = `${(config.baseUrl ?? "").replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    type: "openai-compatible",
+    model: config.model,
+    async complete({ messages, temperature, model }) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: model ?? config.model, temperature, messages }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(
+          `对话服务请求失败 (${response.status}): ${detail || response.statusText}`.trim(),
+        );
+      }
+
+      const data = (await response.json()) as {
+        choices?: Array<{ message?: { content?: string | null } }>;
+      };
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+  };
+}
+
+/**
+ * 按配置创建对话补全提供方
+ */
+export function createChatProvider(
+  config: ChatProviderConfig = getChatProviderConfig(),
+): ChatProvider {
+  const errors = validateChatProviderConfig(config);
+  if (errors.length > 0) {
+    throw new Error(errors.join("; "));
+  }
+
+  return config.type === "openai-compatible"
+    ? createOpenAICompatibleChatProvider(config)
+    : createGroqChatProvider(config);
+}
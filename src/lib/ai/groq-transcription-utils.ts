@@ -118,6 +118,29 @@ export function buildSegmentsFromPlainText(
   });
 }
 
+/**
+ * 将分块内的相对时间平移为整段音频中的绝对时间
+ */
+export function offsetTranscriptionSegments(
+  segments: TranscriptionSegment[],
+  offsetSec: number,
+): TranscriptionSegment[] {
+  if (!offsetSec) {
+    return segments;
+  }
+
+  return segments.map((segment) => ({
+    ...segment,
+    start: segment.start + offsetSec,
+    end: segment.end + offsetSec,
+    wordTimestamps: segment.wordTimestamps?.map((word) => ({
+      ...word,
+      start: word.start + offsetSec,
+      end: word.end + offsetSec,
+    })),
+  }));
+}
+
 export function extractSegmentsFromGroq(
   transcription: GroqTranscriptionResponse,
 ): TranscriptionSegment[] {
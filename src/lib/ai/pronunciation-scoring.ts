@@ -0,0 +1,329 @@
+/**
+ * 跟读发音评分
+ * 将学习者录音的转录结果与字幕段的逐词时间戳对齐，计算逐词准确度、时间偏差和节奏分
+ * 中日韩文本按字符对齐，其余语言按单词对齐
+ */
+
+import type {
+  PronunciationScoreRow,
+  PronunciationWordScore,
+  Segment,
+  WordTimestamp,
+} from "@/types/db/database";
+import type { GroqTranscriptionResponse, GroqTranscriptionWord } from "@/types/transcription";
+
+/** 学习者录音转录出的单词 */
+export interface SpokenWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export type PronunciationReport = Pick<
+  PronunciationScoreRow,
+  "score" | "accuracy" | "rhythm" | "words" | "extraWords" | "transcript"
+>;
+
+/** 综合得分中准确度与节奏的权重 */
+const ACCURACY_WEIGHT = 0.7;
+const RHYTHM_WEIGHT = 0.3;
+
+/** 节奏偏差的惩罚系数：平均相对位置偏差达到 25% 时节奏分为 0 */
+const RHYTHM_PENALTY = 4;
+
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/;
+
+interface AlignmentUnit {
+  text: string;
+  time: number;
+  /** 所属单词的下标 */
+  wordIndex: number;
+}
+
+export function normalizeWord(word: string): string {
+  return word
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}\s]/gu, "");
+}
+
+/**
+ * 字幕段的参考单词：优先使用逐词时间戳，没有时按空格或字符均分时间
+ */
+export function getReferenceWords(segment: Segment): WordTimestamp[] {
+  if (segment.wordTimestamps && segment.wordTimestamps.length > 0) {
+    return segment.wordTimestamps;
+  }
+
+  const text = segment.text.trim();
+  const tokens = CJK_PATTERN.test(text) ? Array.from(text.replace(/\s+/g, "")) : text.split(/\s+/);
+  const words = tokens.filter((token) => normalizeWord(token));
+  const step = (segment.end - segment.start) / Math.max(1, words.length);
+
+  return words.map((word, index) => ({
+    word,
+    start: segment.start + step * index,
+    end: segment.start + step * (index + 1),
+  }));
+}
+
+/**
+ * 从 verbose_json 转录结果中取出逐词时间戳
+ * 优先使用顶层 words，其次合并各 segment 的 words，都没有时按文本均分录音时长
+ */
+export function extractSpokenWords(transcription: GroqTranscriptionResponse): SpokenWord[] {
+  const toSpokenWords = (words: GroqTranscriptionWord[]) =>
+    words
+      .filter((word) => typeof word.word === "string" && word.word.trim())
+      .map((word) => ({
+        word: (word.word as string).trim(),
+        start: word.start ?? 0,
+        end: word.end ?? word.start ?? 0,
+      }));
+
+  if (Array.isArray(transcription.words) && transcription.words.length > 0) {
+    return toSpokenWords(transcription.words);
+  }
+
+  const segmentWords = (transcription.segments ?? []).flatMap((segment) => segment.words ?? []);
+  if (segmentWords.length > 0) {
+    return toSpokenWords(segmentWords);
+  }
+
+  const fallback = getReferenceWords({
+    transcriptId: 0,
+    start: 0,
+    end: transcription.duration ?? 0,
+    text: transcription.text ?? "",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  return fallback.map(({ word, start, end }) => ({ word, start, end }));
+}
+
+/**
+ * 将单词拆分为对齐单元，中日韩文本的每个字符按比例分配单词内的时间
+ */
+function toAlignmentUnits(words: SpokenWord[], byCharacter: boolean): AlignmentUnit[] {
+  const units: AlignmentUnit[] = [];
+
+  words.forEach((word, wordIndex) => {
+    const normalized = normalizeWord(word.word);
+    if (!normalized) return;
+
+    if (!byCharacter) {
+      units.push({ text: normalized, time: word.start, wordIndex });
+      return;
+    }
+
+    const characters = Array.from(normalized);
+    const step = (word.end - word.start) / characters.length;
+    characters.forEach((character, index) => {
+      units.push({ text: character, time: word.start + step * index, wordIndex });
+    });
+  });
+
+  return units;
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = current;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * 两个单元的相似度（0-1）
+ */
+export function wordSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * 编辑距离对齐，替换代价为 1 - 相似度
+ * 返回每个参考单元对应的学习者单元下标（未读出为 -1），以及未匹配的学习者单元
+ */
+function alignUnits(
+  reference: AlignmentUnit[],
+  spoken: AlignmentUnit[],
+): { matches: number[]; inserted: number[] } {
+  const rows = reference.length + 1;
+  const cols = spoken.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) cost[i][0] = i;
+  for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+        cost[i - 1][j - 1] + 1 - wordSimilarity(reference[i - 1].text, spoken[j - 1].text),
+      );
+    }
+  }
+
+  const matches = new Array<number>(reference.length).fill(-1);
+  const inserted: number[] = [];
+  let i = reference.length;
+  let j = spoken.length;
+
+  while (i > 0 || j > 0) {
+    const substitution =
+      i > 0 && j > 0
+        ? cost[i - 1][j - 1] + 1 - wordSimilarity(reference[i - 1].text, spoken[j - 1].text)
+        : Number.POSITIVE_INFINITY;
+
+    if (i > 0 && j > 0 && Math.abs(cost[i][j] - substitution) < 1e-9) {
+      matches[i - 1] = j - 1;
+      i--;
+      j--;
+    } else if (i > 0 && Math.abs(cost[i][j] - (cost[i - 1][j] + 1)) < 1e-9) {
+      i--;
+    } else {
+      inserted.unshift(j - 1);
+      j--;
+    }
+  }
+
+  return { matches, inserted };
+}
+
+/**
+ * 节奏分：比较匹配单元在各自句子中的相对位置
+ * 只比较相对位置，整体语速快慢不影响得分
+ */
+function scoreRhythm(pairs: Array<{ reference: number; spoken: number }>): number {
+  if (pairs.length < 2) {
+    return pairs.length;
+  }
+
+  const referenceStart = pairs[0].reference;
+  const spokenStart = pairs[0].spoken;
+  const referenceSpan = pairs[pairs.length - 1].reference - referenceStart;
+  const spokenSpan = pairs[pairs.length - 1].spoken - spokenStart;
+
+  if (referenceSpan <= 0 || spokenSpan <= 0) {
+    return 1;
+  }
+
+  const deviation =
+    pairs.reduce(
+      (sum, pair) =>
+        sum +
+        Math.abs(
+          (pair.reference - referenceStart) / referenceSpan -
+            (pair.spoken - spokenStart) / spokenSpan,
+        ),
+      0,
+    ) / pairs.length;
+
+  return Math.max(0, 1 - deviation * RHYTHM_PENALTY);
+}
+
+/**
+ * 对一次跟读评分
+ * @param reference 字幕段的参考单词（含时间戳）
+ * @param spoken 学习者录音的转录单词（时间相对录音开头）
+ */
+export function scorePronunciation(
+  reference: WordTimestamp[],
+  spoken: SpokenWord[],
+): PronunciationReport {
+  const byCharacter = CJK_PATTERN.test(reference.map((word) => word.word).join(""));
+  const referenceUnits = toAlignmentUnits(reference, byCharacter);
+  const spokenUnits = toAlignmentUnits(spoken, byCharacter);
+  const { matches, inserted } = alignUnits(referenceUnits, spokenUnits);
+
+  const referenceStart = referenceUnits[0]?.time ?? 0;
+  const spokenStart = spokenUnits[0]?.time ?? 0;
+
+  // 按参考单词汇总各单元的准确度和时间偏差
+  const wordStats = reference.map(() => ({
+    accuracy: [] as number[],
+    offsets: [] as number[],
+    spoken: new Set<number>(),
+  }));
+  const rhythmPairs: Array<{ reference: number; spoken: number }> = [];
+
+  referenceUnits.forEach((unit, index) => {
+    const stats = wordStats[unit.wordIndex];
+    const matchIndex = matches[index];
+    if (matchIndex === -1) {
+      stats.accuracy.push(0);
+      return;
+    }
+
+    const match = spokenUnits[matchIndex];
+    const similarity = wordSimilarity(unit.text, match.text);
+    stats.accuracy.push(similarity);
+    stats.spoken.add(match.wordIndex);
+
+    if (similarity > 0) {
+      stats.offsets.push(match.time - spokenStart - (unit.time - referenceStart));
+      rhythmPairs.push({ reference: unit.time, spoken: match.time });
+    }
+  });
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  const words: PronunciationWordScore[] = reference.map((word, index) => {
+    const stats = wordStats[index];
+    const spokenText = Array.from(stats.spoken)
+      .sort((a, b) => a - b)
+      .map((spokenIndex) => spoken[spokenIndex].word.trim())
+      .join(byCharacter ? "" : " ");
+
+    return {
+      word: word.word,
+      spoken: spokenText || undefined,
+      accuracy: average(stats.accuracy),
+      timingOffset: stats.offsets.length > 0 ? average(stats.offsets) : undefined,
+      confidence: word.confidence,
+    };
+  });
+
+  // 多余的内容按所属单词去重
+  const extraWordIndexes = Array.from(
+    new Set(inserted.map((index) => spokenUnits[index].wordIndex)),
+  ).filter((wordIndex) => !wordStats.some((stats) => stats.spoken.has(wordIndex)));
+
+  // 多读的内容也计入分母，避免通过多说来凑分
+  const scoredWords = words.filter((word) => normalizeWord(word.word));
+  const accuracyTotal = scoredWords.length + extraWordIndexes.length;
+  const accuracy =
+    accuracyTotal > 0
+      ? scoredWords.reduce((sum, word) => sum + word.accuracy, 0) / accuracyTotal
+      : 0;
+  const rhythm = scoreRhythm(rhythmPairs);
+
+  return {
+    score: Math.round((accuracy * ACCURACY_WEIGHT + rhythm * RHYTHM_WEIGHT) * 100),
+    accuracy: Math.round(accuracy * 100),
+    rhythm: Math.round(rhythm * 100),
+    words,
+    extraWords: extraWordIndexes.map((index) => spoken[index].word.trim()),
+    transcript: spoken
+      .map((word) => word.word.trim())
+      .join(byCharacter ? "" : " ")
+      .trim(),
+  };
+}
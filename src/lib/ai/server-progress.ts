@@ -1,5 +1,8 @@
 // 服务器端进度存储 - 内存存储版本
 // 使用内存存储进行进度跟踪，适用于本地开发和Pages环境
+// 支持订阅进度和部分转录结果，供 SSE 接口推送
+
+import type { TranscriptionSegment } from "@/types/transcription";
 
 export type ServerProgress = {
   fileId: number;
@@ -10,8 +13,70 @@ export type ServerProgress = {
   updatedAt: number;
 };
 
+/**
+ * 一次转录各阶段开始时的总进度（百分比）
+ * 服务端只负责 transcribe 阶段，其余阶段在浏览器中完成，由客户端上报
+ */
+export const TRANSCRIPTION_PROGRESS = {
+  upload: 0,
+  transcribe: 5,
+  postprocess: 75,
+  refine: 80,
+  save: 90,
+  completed: 100,
+} as const;
+
+/** 推送给订阅者的事件：进度更新或新转录出的部分 segments */
+export type ServerProgressEvent =
+  | { type: "progress"; progress: ServerProgress }
+  | { type: "segments"; fileId: number; chunkIndex?: number; segments: TranscriptionSegment[] };
+
+export type ServerProgressListener = (event: ServerProgressEvent) => void;
+
 // 内存存储 - 适用于本地开发和Pages环境
 const progressStore = new Map<number, ServerProgress>();
+const listeners = new Map<number, Set<ServerProgressListener>>();
+
+function notifyListeners(fileId: number, event: ServerProgressEvent): void {
+  for (const listener of listeners.get(fileId) ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.warn("进度订阅回调失败:", error);
+    }
+  }
+}
+
+/**
+ * 订阅指定文件的进度事件，返回取消订阅函数
+ */
+export function subscribeServerProgress(
+  fileId: number,
+  listener: ServerProgressListener,
+): () => void {
+  const fileListeners = listeners.get(fileId) ?? new Set<ServerProgressListener>();
+  fileListeners.add(listener);
+  listeners.set(fileId, fileListeners);
+
+  return () => {
+    fileListeners.delete(listener);
+    if (fileListeners.size === 0) {
+      listeners.delete(fileId);
+    }
+  };
+}
+
+/**
+ * 推送部分转录结果（例如分块转录时每个分块完成后的 segments）
+ */
+export function publishServerSegments(
+  fileId: number,
+  segments: TranscriptionSegment[],
+  chunkIndex?: number,
+): void {
+  if (segments.length === 0) return;
+  notifyListeners(fileId, { type: "segments", fileId, chunkIndex, segments });
+}
 
 /**
  * 设置进度数据
@@ -35,6 +100,7 @@ export async function setServerProgress(
   };
 
   progressStore.set(fileId, updated);
+  notifyListeners(fileId, { type: "progress", progress: updated });
 
   // 30分钟后自动清理
   setTimeout(
@@ -1,7 +1,13 @@
-import Groq from "groq-sdk";
+import {
+  createChatProvider,
+  getChatProviderConfig,
+  resolveChatModel,
+} from "@/lib/ai/chat-providers";
 
 interface PostProcessOptions {
   language?: string;
+  /** 翻译目标语言，用于按语言对选择模型 */
+  targetLanguage?: string;
 }
 
 interface ProcessedText {
@@ -18,15 +24,13 @@ interface ProcessedText {
   }>;
 }
 
-// AI SDK 使用内置的优化配置，无需手动管理客户端
-
 /**
- * 使用 openai/gpt-oss-20b 模型对文本进行后处理
+ * 使用配置的对话模型对文本进行后处理
  * 添加 romaji 和中文翻译
  */
 export async function postProcessText(
   inputText: string,
-  _options: PostProcessOptions = {},
+  options: PostProcessOptions = {},
 ): Promise<ProcessedText> {
   // 检查是否在浏览器环境中
   if (typeof window === "undefined") {
@@ -54,10 +58,11 @@ export async function postProcessText(
 文本内容：
 ${inputText}`;
 
-    // 使用 Groq SDK 进行文本处理
-    const groqClient = new Groq({ apiKey: process.env.GROQ_API_KEY });
-    const response = await groqClient.chat.completions.create({
-      model: "openai/gpt-oss-20b",
+    // 使用配置的提供方进行文本处理，按语言对选择模型
+    const config = getChatProviderConfig();
+    const provider = createChatProvider(config);
+    const responseText = await provider.complete({
+      model: resolveChatModel(config, options.language ?? "ja", options.targetLanguage ?? "zh"),
       temperature: 0.3,
       messages: [
         {
@@ -72,7 +77,6 @@ ${inputText}`;
       ],
     });
 
-    const responseText = response.choices[0]?.message?.content;
     if (!responseText) {
       throw new Error("未收到有效的响应内容");
     }
@@ -0,0 +1,165 @@
+/**
+ * 转录服务提供方
+ * 通过环境变量选择 Groq 或任意兼容 OpenAI `/audio/transcriptions` 接口的服务
+ * （例如自建的 whisper.cpp server、faster-whisper-server）
+ */
+
+import Groq from "groq-sdk";
+import type { GroqTranscriptionResponse } from "@/types/transcription";
+
+export type TranscriptionProviderType = "groq" | "openai-compatible";
+
+export interface TranscriptionProviderConfig {
+  type: TranscriptionProviderType;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface TranscriptionRequest {
+  language?: string;
+  prompt?: string;
+}
+
+export interface TranscriptionProvider {
+  type: TranscriptionProviderType;
+  model: string;
+  /** 返回 verbose_json 格式的转录结果 */
+  transcribe(file: File, request?: TranscriptionRequest): Promise<GroqTranscriptionResponse>;
+}
+
+export const DEFAULT_TRANSCRIPTION_MODELS: Record<TranscriptionProviderType, string> = {
+  groq: "whisper-large-v3-turbo",
+  "openai-compatible": "whisper-1",
+};
+
+/**
+ * 从环境变量读取提供方配置
+ *
+ * - TRANSCRIPTION_PROVIDER: groq（默认）| openai-compatible
+ * - TRANSCRIPTION_MODEL: 模型名称
+ * - TRANSCRIPTION_BASE_URL / TRANSCRIPTION_API_KEY: openai-compatible 的服务地址和可选密钥
+ * - GROQ_API_KEY / GROQ_BASE_URL: groq 的密钥和可选地址
+ */
+export function getTranscriptionProviderConfig(
+  env: Record<string, string | undefined> = process.env,
+): TranscriptionProviderConfig {
+  const type: TranscriptionProviderType =
+    env.TRANSCRIPTION_PROVIDER === "openai-compatible" ? "openai-compatible" : "groq";
+  const model = env.TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODELS[type];
+
+  if (type === "openai-compatible") {
+    return {
+      type,
+      model,
+      apiKey: env.TRANSCRIPTION_API_KEY || undefined,
+      baseUrl: env.TRANSCRIPTION_BASE_URL || undefined,
+    };
+  }
+
+  return {
+    type,
+    model,
+    apiKey: env.GROQ_API_KEY || undefined,
+    baseUrl: env.GROQ_BASE_URL || undefined,
+  };
+}
+
+/**
+ * 检查配置是否完整，返回错误码和提示；配置可用时返回 null
+ */
+export function validateTranscriptionProviderConfig(
+  config: TranscriptionProviderConfig,
+): { code: string; message: string } | null {
+  if (config.type === "groq" && !config.apiKey) {
+    return { code: "API_KEY_MISSING", message: "Groq API 密钥未配置" };
+  }
+
+  if (config.type === "openai-compatible" && !config.baseUrl) {
+    return {
+      code: "PROVIDER_NOT_CONFIGURED",
+      message: "转录服务地址未配置 (TRANSCRIPTION_BASE_URL)",
+    };
+  }
+
+  return null;
+}
+
+function createGroqProvider(config: TranscriptionProviderConfig): TranscriptionProvider {
+  const groq = new Groq({ apiKey: config.apiKey, baseURL: config.baseUrl });
+
+  return {
+    type: "groq",
+    model: config.model,
+    async transcribe(file, request = {}) {
+      const transcription = await groq.audio.transcriptions.create({
+        file,
+        model: config.model,
+        temperature: 0,
+        response_format: "verbose_json",
+        language: request.language === "auto" ? undefined : request.language,
+        prompt: request.prompt,
+        timestamp_granularities: ["word", "segment"],
+      });
+
+      return transcription as GroqTranscriptionResponse;
+    },
+  };
+}
+
+function createOpenAICompatibleProvider(
+  config: TranscriptionProviderConfig,
+): TranscriptionProvider {
+  const endpoint = `${(config.baseUrl ?? "").replace(/\/+$/, "")}/audio/transcriptions`;
+
+  return {
+    type: "openai-compatible",
+    model: config.model,
+    async transcribe(file, request = {}) {
+      const formData = new FormData();
+      formData.append("file", file, file.name);
+      formData.append("model", config.model);
+      formData.append("temperature", "0");
+      formData.append("response_format", "verbose_json");
+      formData.append("timestamp_granularities[]", "word");
+      formData.append("timestamp_granularities[]", "segment");
+      if (request.language && request.language !== "auto") {
+        formData.append("language", request.language);
+      }
+      if (request.prompt) {
+        formData.append("prompt", request.prompt);
+      }
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined,
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(
+          `转录服务请求失败 (${response.status}): ${detail || response.statusText}`.trim(),
+        );
+      }
+
+      return (await response.json()) as GroqTranscriptionResponse;
+    },
+  };
+}
+
+/**
+ * 按配置创建转录提供方
+ */
+export function createTranscriptionProvider(
+  config: TranscriptionProviderConfig = getTranscriptionProviderConfig(),
+): TranscriptionProvider {
+  const configError = validateTranscriptionProviderConfig(config);
+  if (configError) {
+    throw new Error(configError.message);
+  }
+
+  return config.type === "openai-compatible"
+    ? createOpenAICompatibleProvider(config)
+    : createGroqProvider(config);
+}
@@ -1,16 +1,20 @@
 /**
- * 统一的转录服务 - 基于 Groq SDK 的简化版本
+ * 统一的转录服务
  * 合并了 transcription-service.ts 和 transcription-service-ai-sdk.ts 的功能
- * 移除了复杂的音频分块处理，使用统一的 Groq SDK 接口
+ * 通过可配置的转录提供方调用接口，超过上传限制的长音频会先分块再拼接结果
  */
 
-import Groq from "groq-sdk";
+import { getAudioFileName, shouldChunkAudio, transcribeInChunks } from "@/lib/ai/audio-chunking";
 import {
   buildSegmentsFromPlainText,
   buildSegmentsFromWords,
   mapGroqSegmentToTranscriptionSegment,
+  offsetTranscriptionSegments,
 } from "@/lib/ai/groq-transcription-utils";
-import type { GroqTranscriptionResponse } from "@/types/transcription";
+import {
+  createTranscriptionProvider,
+  type TranscriptionProvider,
+} from "@/lib/ai/transcription-providers";
 
 export interface TranscriptionOptions {
   language?: string;
@@ -26,6 +30,7 @@ export interface TranscriptionOptions {
 }
 
 export type TranscriptionResult = import("@/types/transcription").TranscriptionResult;
+type VocabularyEntry = import("@/types/transcription").VocabularyEntry;
 
 export interface TranscriptionProgress {
   fileId: number;
@@ -41,8 +46,12 @@ interface PostProcessedSegment {
   translation?: string;
   annotations?: string[];
   furigana?: string;
+  vocabulary?: VocabularyEntry[];
 }
 
+/** 后处理接口单次最多接受的 segments 数量 */
+const POST_PROCESS_BATCH_SIZE = 200;
+
 /**
  * 使用 AI SDK 进行转录 - 简化的主函数
  */
@@ -65,8 +74,8 @@ export async function transcribeAudio(
 
     await updateTranscriptionProgress(fileId, 30, "开始转录处理...", "processing", options);
 
-    // 使用 AI SDK 进行转录
-    const result = await transcribeWithGroqSDK(fileRecord, options);
+    // 使用配置的提供方进行转录
+    const result = await transcribeWithProvider(fileRecord, options);
 
     // 保存结果
     await updateTranscriptionProgress(fileId, 90, "保存转录结果...", "processing", options);
@@ -91,9 +100,9 @@ export async function transcribeAudio(
 }
 
 /**
- * Groq SDK 转录实现 - 简化版本
+ * 转录实现 - 简化版本
  */
-async function transcribeWithGroqSDK(
+async function transcribeWithProvider(
   fileRecord: import("@/types/db/database").FileRow,
   options: TranscriptionOptions,
 ): Promise<TranscriptionResult> {
@@ -109,37 +118,68 @@ async function transcribeWithGroqSDK(
     options,
   );
 
-  // 检查 API 密钥
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey) {
-    throw new Error("Groq API 密钥未配置");
+  // 按环境变量创建转录提供方，配置不完整时抛出错误
+  const provider = createTranscriptionProvider();
+
+  // 检查文件数据（分块存储的文件需要先拼接，视频文件使用提取的音轨）
+  const { DBUtils } = await import("../db/db");
+  const audioBlob = await DBUtils.getAudioBlob(fileRecord);
+  if (!audioBlob) {
+    throw new Error("文件数据不存在");
   }
 
-  // 初始化 Groq 客户端
-  const groq = new Groq({ apiKey });
+  if (shouldChunkAudio(audioBlob)) {
+    const fileId = fileRecord.id;
+    const baseName = fileRecord.name.replace(/\.[^/.]+$/, "") || "audio";
 
-  // 检查文件数据
-  if (!fileRecord.blob) {
-    throw new Error("文件数据不存在");
+    return transcribeInChunks(
+      audioBlob,
+      async (chunk) => {
+        const chunkFile = new File([chunk.blob], `${baseName}.part${chunk.index + 1}.wav`, {
+          type: chunk.blob.type,
+        });
+        const result = await transcribeFileWithProvider(provider, chunkFile, options);
+        return {
+          ...result,
+          segments: offsetTranscriptionSegments(result.segments ?? [], chunk.start),
+        };
+      },
+      {
+        // 分块进度映射到 50%-90% 区间
+        onProgress: (progress) => {
+          const overall = 50 + Math.round(progress.progress * 0.4);
+          if (progress.message) {
+            updateServerProgress(fileId, overall, progress.message, "processing");
+          }
+          options.onProgress?.({ ...progress, progress: overall });
+        },
+      },
+    );
   }
 
   // 将 Blob 转换为 File 对象
-  const file = new File([fileRecord.blob], fileRecord.name, {
-    type: fileRecord.type,
+  const file = new File([audioBlob], getAudioFileName(fileRecord), {
+    type: audioBlob.type || fileRecord.type,
     lastModified: fileRecord.uploadedAt.getTime(),
   });
 
-  const transcription = await groq.audio.transcriptions.create({
-    file: file, // 使用转换后的 File 对象
-    model: "whisper-large-v3-turbo",
-    temperature: 0,
-    response_format: "verbose_json",
-    language: options.language === "auto" ? undefined : options.language,
-    timestamp_granularities: ["word", "segment"],
+  return transcribeFileWithProvider(provider, file, options);
+}
+
+/**
+ * 调用转录提供方处理单个音频文件
+ */
+async function transcribeFileWithProvider(
+  provider: TranscriptionProvider,
+  file: File,
+  options: TranscriptionOptions,
+): Promise<TranscriptionResult> {
+  const transcriptionData = await provider.transcribe(file, {
+    language: options.language,
+    prompt: options.prompt,
   });
 
   // 处理转录结果 - 简化逻辑
-  const transcriptionData = transcription as GroqTranscriptionResponse;
   let processedSegments: TranscriptionResult["segments"] = [];
 
   if (Array.isArray(transcriptionData.segments) && transcriptionData.segments.length > 0) {
@@ -202,52 +242,82 @@ async function saveTranscriptionResult(
 }
 
 /**
- * 后处理 - 简化版本，错误不影响主要流程
+ * 调用后处理接口，将结果写回 segments，并把提取的词汇保存到个人词典
  */
-async function processPostTranscription(
+async function requestPostProcessing(
   transcriptId: number,
-  result: TranscriptionResult,
-): Promise<void> {
-  if (!result.segments || result.segments.length === 0) return;
+  segments: Array<{ start: number; end: number; text: string }>,
+  language: string,
+  targetLanguage = "zh",
+): Promise<boolean> {
+  const { db } = await import("../db/db");
+  const { saveFileVocabulary } = await import("../db/vocabulary");
+  const transcript = await db.transcripts.get(transcriptId);
+  if (!transcript) return false;
 
-  try {
+  const storedSegments = await db.segments.where("transcriptId").equals(transcriptId).toArray();
+  const vocabulary: Array<{ segmentId: number; entries: VocabularyEntry[] }> = [];
+  let processed = false;
+
+  for (let i = 0; i < segments.length; i += POST_PROCESS_BATCH_SIZE) {
     const response = await fetch("/api/postprocess", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
-        segments: result.segments,
-        language: result.language || "ja",
-        targetLanguage: "zh",
+        segments: segments.slice(i, i + POST_PROCESS_BATCH_SIZE),
+        language,
+        targetLanguage,
         enableAnnotations: true,
         enableFurigana: true,
         enableTerminology: true,
+        enableVocabulary: true,
       }),
     });
 
-    if (!response.ok) return;
+    if (!response.ok) continue;
 
     const postProcessResult = (await response.json()) as {
       success: boolean;
       data?: { segments?: PostProcessedSegment[] };
     };
-    if (!postProcessResult.success || !postProcessResult.data?.segments) return;
+    if (!postProcessResult.success || !postProcessResult.data?.segments) continue;
 
-    const { db } = await import("../db/db");
     for (const processedSegment of postProcessResult.data.segments) {
-      await db.segments
-        .where("transcriptId")
-        .equals(transcriptId)
-        .and(
-          (segment) =>
-            segment.start === processedSegment.start && segment.end === processedSegment.end,
-        )
-        .modify({
-          normalizedText: processedSegment.normalizedText,
-          translation: processedSegment.translation,
-          annotations: processedSegment.annotations,
-          furigana: processedSegment.furigana,
-        });
+      const segment = storedSegments.find(
+        (stored) => stored.start === processedSegment.start && stored.end === processedSegment.end,
+      );
+      if (!segment?.id) continue;
+
+      await db.segments.update(segment.id, {
+        normalizedText: processedSegment.normalizedText,
+        translation: processedSegment.translation,
+        annotations: processedSegment.annotations,
+        furigana: processedSegment.furigana,
+      });
+      if (processedSegment.vocabulary?.length) {
+        vocabulary.push({ segmentId: segment.id, entries: processedSegment.vocabulary });
+      }
+      processed = true;
     }
+  }
+
+  if (processed) {
+    await saveFileVocabulary(transcript.fileId, language, vocabulary);
+  }
+  return processed;
+}
+
+/**
+ * 后处理 - 简化版本，错误不影响主要流程
+ */
+async function processPostTranscription(
+  transcriptId: number,
+  result: TranscriptionResult,
+): Promise<void> {
+  if (!result.segments || result.segments.length === 0) return;
+
+  try {
+    await requestPostProcessing(transcriptId, result.segments, result.language || "ja");
   } catch (error) {
     console.warn("后处理失败:", error);
   }
@@ -263,12 +333,7 @@ async function updateTranscriptionProgress(
   status: "processing" | "completed" | "failed",
   options?: TranscriptionOptions,
 ): Promise<void> {
-  try {
-    const { setServerProgress } = await import("./server-progress");
-    setServerProgress(fileId, { status, progress, message });
-  } catch (error) {
-    console.warn("更新进度失败:", error);
-  }
+  await updateServerProgress(fileId, progress, message, status);
 
   if (options?.onProgress) {
     options.onProgress({
@@ -281,6 +346,23 @@ async function updateTranscriptionProgress(
   }
 }
 
+/**
+ * 同步服务端进度记录
+ */
+async function updateServerProgress(
+  fileId: number,
+  progress: number,
+  message: string,
+  status: "processing" | "completed" | "failed",
+): Promise<void> {
+  try {
+    const { setServerProgress } = await import("./server-progress");
+    setServerProgress(fileId, { status, progress, message });
+  } catch (error) {
+    console.warn("更新进度失败:", error);
+  }
+}
+
 /**
  * 获取转录进度 - 简化版本
  */
@@ -338,28 +420,36 @@ export async function getFileTranscripts(fileId: number) {
 }
 
 /**
- * 后处理segments - 简化版本
+ * 对已保存的转录重新进行后处理（翻译、注音、注释和词汇提取）
+ * @returns 更新后的 segments
  */
 export async function postProcessSegmentsByTranscriptId(
   transcriptId: number,
-  _options: {
+  options: {
     targetLanguage?: string;
     enableAnnotations?: boolean;
     enableFurigana?: boolean;
     enableTerminology?: boolean;
   } = {},
 ) {
-  try {
-    const { db } = await import("../db/db");
-    const segments = await db.segments.where("transcriptId").equals(transcriptId).toArray();
+  const { db } = await import("../db/db");
+  const transcript = await db.transcripts.get(transcriptId);
+  const segments = await db.segments.where("transcriptId").equals(transcriptId).toArray();
+  if (!transcript || segments.length === 0) return segments;
 
-    console.log(`后处理 ${segments.length} 个segments, transcriptId: ${transcriptId}`);
+  console.log(`后处理 ${segments.length} 个segments, transcriptId: ${transcriptId}`);
 
-    return segments;
-  } catch (error) {
-    console.error("后处理失败:", error);
-    return [];
+  const processed = await requestPostProcessing(
+    transcriptId,
+    segments.map(({ start, end, text }) => ({ start, end, text })),
+    transcript.language || "ja",
+    options.targetLanguage,
+  );
+  if (!processed) {
+    throw new Error("后处理失败，请检查后处理服务配置");
   }
+
+  return db.segments.where("transcriptId").equals(transcriptId).toArray();
 }
 
 export const TranscriptionService = {
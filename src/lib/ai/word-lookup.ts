@@ -0,0 +1,75 @@
+/**
+ * 单词查询
+ * 字幕中没有后处理释义时，按需让对话模型解释句中的单词
+ */
+
+import { type ChatProvider, createChatProvider } from "@/lib/ai/chat-providers";
+import { normalizeVocabularyEntries } from "@/lib/utils/optimized-postprocess";
+import type { VocabularyEntry } from "@/types/transcription";
+
+export interface WordLookupRequest {
+  word: string;
+  /** 单词所在的句子，用于区分多义词 */
+  context?: string;
+  language: string;
+  targetLanguage: string;
+}
+
+export function buildWordLookupPrompt({
+  word,
+  context,
+  language,
+  targetLanguage,
+}: WordLookupRequest): string {
+  const level =
+    language === "ja" ? '"level" is the JLPT level (N5-N1)' : '"level" is the CEFR level (A1-C2)';
+
+  return [
+    `Explain the ${language} word "${word}"${context ? ` as used in the sentence "${context}"` : ""}.`,
+    `"lemma" is the dictionary form, "surface" is the form used in the sentence, "reading" is the pronunciation${language === "ja" ? " in hiragana" : ""}, "gloss" is a short meaning in ${targetLanguage}, ${level}.`,
+    'Respond with JSON only: { "lemma": "...", "surface": "...", "reading": "...", "partOfSpeech": "...", "gloss": "...", "level": "..." }',
+  ].join("\n");
+}
+
+/**
+ * 解析模型返回的 JSON，解析失败时只返回单词本身
+ */
+export function parseWordLookupResponse(responseText: string, word: string): VocabularyEntry {
+  const jsonStart = responseText.indexOf("{");
+  const jsonEnd = responseText.lastIndexOf("}");
+
+  let parsed: unknown = null;
+  if (jsonStart !== -1 && jsonEnd > jsonStart) {
+    try {
+      parsed = JSON.parse(responseText.substring(jsonStart, jsonEnd + 1));
+    } catch (error) {
+      console.error("解析单词查询响应失败:", error);
+    }
+  }
+
+  const [entry] = normalizeVocabularyEntries([parsed]);
+  return entry ?? { lemma: word };
+}
+
+/**
+ * 查询单词，返回与后处理词汇相同结构的条目
+ */
+export async function lookupWord(
+  request: WordLookupRequest,
+  provider: ChatProvider = createChatProvider(),
+  model?: string,
+): Promise<VocabularyEntry> {
+  const responseText = await provider.complete({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: "You are a concise bilingual dictionary for language learners.",
+      },
+      { role: "user", content: buildWordLookupPrompt(request) },
+    ],
+    temperature: 0.1,
+  });
+
+  return parseWordLookupResponse(responseText, request.word);
+}
@@ -8,6 +8,12 @@ export const ROUTES = {
   HOME: "/",
   /** 播放器页面 */
   PLAYER: "/player/[fileId]",
+  /** 复习页面 */
+  REVIEW: "/review",
+  /** 词典页面 */
+  DICTIONARY: "/dictionary",
+  /** 全文搜索页面 */
+  SEARCH: "/search",
   /** 设置页面 */
   SETTINGS: "/settings",
   /** 账户页面 */
@@ -38,7 +44,9 @@ export function generatePath(key: RouteKey, params?: Record<string, string>): st
 
 /**
  * 获取播放器路由
+ * @param time 打开后跳转到的时间（秒）
  */
-export function getPlayerRoute(fileId: string): string {
-  return generatePath("PLAYER", { fileId });
+export function getPlayerRoute(fileId: string, time?: number): string {
+  const path = generatePath("PLAYER", { fileId });
+  return time === undefined ? path : `${path}?t=${Math.max(0, Math.floor(time * 100) / 100)}`;
 }
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  addFilesToCollection,
+  addTagsToFiles,
+  createCollection,
+  deleteCollection,
+  getCollectionFileIds,
+  getCollections,
+  getFileIdsByTag,
+  getFileTagMap,
+  getTags,
+  getUncollectedFileIds,
+  moveFilesToCollection,
+  normalizeTag,
+  removeFilesFromCollection,
+  removeTag,
+  renameCollection,
+  reorderCollection,
+} from "@/lib/db/collections";
+import { DBUtils, db } from "@/lib/db/db";
+
+async function createFile(name: string) {
+  const now = new Date();
+  return DBUtils.addFile({
+    name,
+    size: 1024,
+    type: "audio/mpeg",
+    uploadedAt: now,
+    updatedAt: now,
+  });
+}
+
+describe("collections", () => {
+  beforeEach(async () => {
+    await DBUtils.clearAll();
+  });
+
+  it("creates, renames and lists collections with file counts", async () => {
+    const fileId = await createFile("a.mp3");
+    const lessons = await createCollection("  Lessons  ");
+    await createCollection("Anime");
+    await addFilesToCollection(lessons, [fileId]);
+
+    await expect(createCollection("Lessons")).rejects.toThrow("已存在");
+    await expect(createCollection("   ")).rejects.toThrow("不能为空");
+    await expect(renameCollection(lessons, "Anime")).rejects.toThrow("已存在");
+
+    await renameCollection(lessons, "Podcasts");
+    const collections = await getCollections();
+    expect(collections.map((c) => [c.name, c.fileCount])).toEqual([
+      ["Anime", 0],
+      ["Podcasts", 1],
+    ]);
+  });
+
+  it("keeps collection order when adding, removing and reordering", async () => {
+    const [a, b, c] = [await createFile("a"), await createFile("b"), await createFile("c")];
+    const id = await createCollection("Course");
+
+    expect(await addFilesToCollection(id, [a, b, c, a])).toBe(3);
+    expect(await addFilesToCollection(id, [b])).toBe(0);
+    expect(await getCollectionFileIds(id)).toEqual([a, b, c]);
+
+    await reorderCollection(id, [c, a]);
+    expect(await getCollectionFileIds(id)).toEqual([c, a, b]);
+
+    await removeFilesFromCollection(id, [a]);
+    const items = await db.collectionItems.where("collectionId").equals(id).sortBy("position");
+    expect(items.map((item) => [item.fileId, item.position])).toEqual([
+      [c, 0],
+      [b, 1],
+    ]);
+  });
+
+  it("moves files between collections and tracks uncollected files", async () => {
+    const [a, b, c] = [await createFile("a"), await createFile("b"), await createFile("c")];
+    const from = await createCollection("From");
+    const to = await createCollection("To");
+    await addFilesToCollection(from, [a, b]);
+    await addFilesToCollection(to, [c]);
+
+    await moveFilesToCollection([a], to, from);
+    expect(await getCollectionFileIds(from)).toEqual([b]);
+    expect(await getCollectionFileIds(to)).toEqual([c, a]);
+
+    // 不指定来源时只加入目标合集
+    await moveFilesToCollection([b], to);
+    expect(await getCollectionFileIds(from)).toEqual([b]);
+    expect(await getCollectionFileIds(to)).toEqual([c, a, b]);
+
+    await deleteCollection(to);
+    expect((await getUncollectedFileIds()).sort()).toEqual([a, c].sort());
+    expect(await db.collectionItems.count()).toBe(1);
+  });
+
+  it("normalizes, adds and removes tags", async () => {
+    const [a, b] = [await createFile("a"), await createFile("b")];
+
+    expect(normalizeTag("  #N3   grammar ")).toBe("N3 grammar");
+
+    await addTagsToFiles([a, b], ["#N3", "listening", ""]);
+    await addTagsToFiles([a], ["N3", "anime"]);
+    expect(await getTags()).toEqual([
+      { tag: "anime", fileCount: 1 },
+      { tag: "listening", fileCount: 2 },
+      { tag: "N3", fileCount: 2 },
+    ]);
+    expect((await getFileTagMap()).get(a)).toEqual(["anime", "listening", "N3"]);
+    await expect(addTagsToFiles([a], [" ", "#"])).rejects.toThrow("不能为空");
+
+    await removeTag("N3", [a]);
+    expect(await getFileIdsByTag("#N3")).toEqual([b]);
+
+    await removeTag("listening");
+    expect(await getFileIdsByTag("listening")).toEqual([]);
+  });
+
+  it("drops collection items and tags when a file is deleted", async () => {
+    const [a, b] = [await createFile("a"), await createFile("b")];
+    const id = await createCollection("Course");
+    await addFilesToCollection(id, [a, b]);
+    await addTagsToFiles([a], ["anime"]);
+
+    await DBUtils.deleteFile(a);
+
+    expect(await getCollectionFileIds(id)).toEqual([b]);
+    expect(await getTags()).toEqual([]);
+  });
+});
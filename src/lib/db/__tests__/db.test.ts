@@ -131,6 +131,58 @@ describe("DBUtils", () => {
         const segments = await db.segments.where("transcriptId").equals(transcriptId).toArray();
         expect(segments.length).toBe(0);
       });
+
+      it("should delete audio chunks of chunked files", async () => {
+        const fileId = await DBUtils.addChunkedFile(createMockFile(), new Blob(["0123456789"]), 4);
+
+        await DBUtils.deleteFile(fileId);
+
+        expect(await db.fileChunks.where("fileId").equals(fileId).count()).toBe(0);
+      });
+    });
+
+    describe("addChunkedFile", () => {
+      it("should split data into ordered chunks", async () => {
+        const fileId = await DBUtils.addChunkedFile(createMockFile(), new Blob(["0123456789"]), 4);
+
+        const stored = await DBUtils.getFile(fileId);
+        expect(stored).toMatchObject({ isChunked: true, chunkSize: 4, totalChunks: 3 });
+        expect(stored?.blob).toBeUndefined();
+
+        const chunks = await db.fileChunks.where("fileId").equals(fileId).sortBy("index");
+        expect(chunks.map((chunk) => chunk.size)).toEqual([4, 4, 2]);
+      });
+    });
+
+    describe("getFileBlob", () => {
+      it("should reject chunked files with missing chunks", async () => {
+        const fileId = await DBUtils.addChunkedFile(createMockFile(), new Blob(["0123456789"]), 4);
+        await db.fileChunks.where("[fileId+index]").equals([fileId, 1]).delete();
+
+        await expect(DBUtils.getFileBlob(fileId)).rejects.toThrow("文件数据不完整");
+      });
+
+      it("should return undefined for unknown files", async () => {
+        expect(await DBUtils.getFileBlob(99999)).toBeUndefined();
+      });
+    });
+
+    describe("getAudioBlob", () => {
+      it("should prefer the extracted audio track of video files", async () => {
+        const video = new Blob(["0123456789"], { type: "video/mp4" });
+        const audioTrack = new Blob(["wav"], { type: "audio/wav" });
+        const file = { ...createMockFile(), type: "video/mp4", blob: video, audioTrack };
+
+        expect(await DBUtils.getAudioBlob(file)).toBe(audioTrack);
+        expect(await DBUtils.getFileBlob(file)).toBe(video);
+      });
+
+      it("should fall back to the file data", async () => {
+        const blob = new Blob(["mp3"], { type: "audio/mpeg" });
+
+        expect(await DBUtils.getAudioBlob({ ...createMockFile(), blob })).toBe(blob);
+        expect(await DBUtils.getAudioBlob(99999)).toBeUndefined();
+      });
     });
   });
 
@@ -288,6 +340,139 @@ describe("DBUtils", () => {
     });
   });
 
+  describe("Shadowing recording operations", () => {
+    const addRecording = (fileId: number, segmentId: number, createdAt: Date) =>
+      DBUtils.addShadowingRecording({
+        fileId,
+        segmentId,
+        blob: new Blob(["take"], { type: "audio/webm" }),
+        duration: 2,
+        createdAt,
+      });
+
+    it("should list recordings of a segment newest first", async () => {
+      const fileId = await DBUtils.addFile({
+        name: "shadowing.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+      });
+      const older = await addRecording(fileId, 1, new Date("2025-01-01T00:00:00Z"));
+      const newer = await addRecording(fileId, 1, new Date("2025-01-02T00:00:00Z"));
+      await addRecording(fileId, 2, new Date("2025-01-03T00:00:00Z"));
+
+      const recordings = await DBUtils.getShadowingRecordings(fileId, 1);
+      expect(recordings.map((recording) => recording.id)).toEqual([newer, older]);
+
+      await DBUtils.deleteShadowingRecording(newer);
+      expect(await DBUtils.getShadowingRecordings(fileId, 1)).toHaveLength(1);
+    });
+
+    it("should delete recordings together with the file", async () => {
+      const fileId = await DBUtils.addFile({
+        name: "shadowing.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+      });
+      await addRecording(fileId, 1, new Date());
+
+      await DBUtils.deleteFile(fileId);
+
+      expect(await db.shadowingRecordings.where("fileId").equals(fileId).count()).toBe(0);
+    });
+  });
+
+  describe("Pronunciation score operations", () => {
+    it("should list scores of a segment oldest first and delete them with the file", async () => {
+      const fileId = await DBUtils.addFile({
+        name: "scores.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+      });
+      const addScore = (segmentId: number, score: number, createdAt: Date) =>
+        DBUtils.addPronunciationScore({
+          fileId,
+          segmentId,
+          score,
+          accuracy: score,
+          rhythm: score,
+          words: [],
+          extraWords: [],
+          transcript: "",
+          createdAt,
+        });
+
+      await addScore(1, 80, new Date("2025-01-02T00:00:00Z"));
+      await addScore(1, 60, new Date("2025-01-01T00:00:00Z"));
+      await addScore(2, 90, new Date("2025-01-03T00:00:00Z"));
+
+      const scores = await DBUtils.getPronunciationScores(fileId, 1);
+      expect(scores.map((score) => score.score)).toEqual([60, 80]);
+
+      await DBUtils.deleteFile(fileId);
+      expect(await db.pronunciationScores.where("fileId").equals(fileId).count()).toBe(0);
+    });
+  });
+
+  describe("Waveform and pitch cache operations", () => {
+    it("should store peaks and delete them with the file", async () => {
+      const fileId = await DBUtils.addFile({
+        name: "waveform.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+      });
+      await DBUtils.saveWaveformCache({
+        fileId,
+        peaks: new Float32Array([0.1, 0.5, 1]),
+        peaksPerSecond: 100,
+        duration: 0.03,
+        fileSize: 1024,
+        createdAt: new Date(),
+      });
+
+      const cached = await DBUtils.getWaveformCache(fileId);
+      expect(Array.from(cached?.peaks ?? [])).toEqual([
+        expect.closeTo(0.1),
+        expect.closeTo(0.5),
+        1,
+      ]);
+
+      await DBUtils.deleteFile(fileId);
+      expect(await DBUtils.getWaveformCache(fileId)).toBeUndefined();
+    });
+
+    it("should store segment pitch contours and delete them with the file", async () => {
+      const fileId = await DBUtils.addFile({
+        name: "pitch.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+      });
+      await DBUtils.savePitchContour({
+        segmentId: 7,
+        fileId,
+        start: 1,
+        end: 2,
+        framesPerSecond: 100,
+        values: new Float32Array([0, 180, 0]),
+        createdAt: new Date(),
+      });
+
+      expect(Array.from((await DBUtils.getPitchContour(7))?.values ?? [])).toEqual([0, 180, 0]);
+
+      await DBUtils.deleteFile(fileId);
+      expect(await DBUtils.getPitchContour(7)).toBeUndefined();
+    });
+  });
+
   describe("clearAll", () => {
     it("should clear all data from database", async () => {
       // 添加一些数据
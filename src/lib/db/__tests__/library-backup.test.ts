@@ -0,0 +1,379 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DBUtils, db } from "../db";
+import { exportLibraryBackup, importLibraryBackup, readBackupManifest } from "../library-backup";
+
+async function seedLibrary() {
+  const now = new Date("2025-01-01T00:00:00Z");
+  const fileId = await DBUtils.addFile({
+    name: "lesson.mp3",
+    size: 5,
+    type: "audio/mpeg",
+    uploadedAt: now,
+    updatedAt: now,
+  });
+  const transcriptId = await DBUtils.addTranscript({
+    fileId,
+    status: "completed",
+    rawText: "こんにちは",
+    language: "ja",
+    createdAt: now,
+    updatedAt: now,
+  });
+  await DBUtils.addSegments([
+    { transcriptId, start: 0, end: 1, text: "こんにちは", createdAt: now, updatedAt: now },
+  ]);
+  return { fileId, transcriptId };
+}
+
+/** 按归档格式拼接 manifest 和数据 */
+function buildArchive(manifest: object, payloads: BlobPart[] = []): Blob {
+  const bytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const length = new Uint8Array(4);
+  new DataView(length.buffer).setUint32(0, bytes.length, true);
+  return new Blob([new TextEncoder().encode("UMUOBAK\0"), length, bytes, ...payloads]);
+}
+
+/** 含一个文件、一条转录和两个字幕段的 manifest，ID 故意与新库不同 */
+function createManifest(extra: object = {}) {
+  const now = new Date("2025-01-01T00:00:00Z").toISOString();
+  return {
+    format: "umuo-backup",
+    schemaVersion: 1,
+    dbVersion: 1,
+    exportedAt: now,
+    files: [{ id: 7, name: "lesson.mp3", size: 5, type: "audio/mpeg", uploadedAt: now }],
+    transcripts: [
+      { id: 8, fileId: 7, status: "completed", language: "ja", createdAt: now, updatedAt: now },
+    ],
+    segments: [
+      { id: 20, transcriptId: 8, start: 0, end: 1, text: "一", createdAt: now, updatedAt: now },
+      { id: 21, transcriptId: 8, start: 1, end: 2, text: "二", createdAt: now, updatedAt: now },
+    ],
+    ...extra,
+  };
+}
+
+describe("library-backup", () => {
+  beforeEach(async () => {
+    await DBUtils.clearAll();
+    localStorage.clear();
+  });
+
+  afterEach(async () => {
+    await DBUtils.clearAll();
+    localStorage.clear();
+  });
+
+  it("should write a versioned manifest with settings", async () => {
+    await seedLibrary();
+    localStorage.setItem("umuo-theme", "dark");
+    localStorage.setItem("unrelated", "ignored");
+
+    const archive = await exportLibraryBackup();
+    const { manifest } = await readBackupManifest(archive);
+
+    expect(manifest.schemaVersion).toBe(1);
+    expect(manifest.dbVersion).toBe(db.verno);
+    expect(manifest.files).toHaveLength(1);
+    expect(manifest.segments).toHaveLength(1);
+    expect(manifest.settings).toEqual({ "umuo-theme": "dark" });
+  });
+
+  it("should restore everything after replace import", async () => {
+    await seedLibrary();
+    localStorage.setItem("umuo-learning-language", '{"targetLanguage":"ja"}');
+    const archive = await exportLibraryBackup();
+
+    await DBUtils.clearAll();
+    localStorage.clear();
+
+    const result = await importLibraryBackup(archive, { mode: "replace" });
+    expect(result).toMatchObject({ files: 1, transcripts: 1, segments: 1, settings: 1 });
+
+    const [file] = await db.files.toArray();
+    expect(file.uploadedAt).toBeInstanceOf(Date);
+
+    const [transcript] = await db.transcripts.toArray();
+    expect(transcript.fileId).toBe(file.id);
+
+    const segments = await db.segments.toArray();
+    expect(segments[0].transcriptId).toBe(transcript.id);
+    expect(localStorage.getItem("umuo-learning-language")).toBe('{"targetLanguage":"ja"}');
+  });
+
+  it("should remap ids and skip duplicates when merging", async () => {
+    const original = await seedLibrary();
+    const archive = await exportLibraryBackup();
+
+    const skipped = await importLibraryBackup(archive, { mode: "merge" });
+    expect(skipped).toMatchObject({ files: 0, skippedFiles: 1 });
+
+    await db.files.update(original.fileId, { name: "renamed.mp3" });
+    const merged = await importLibraryBackup(archive, { mode: "merge" });
+
+    expect(merged).toMatchObject({ files: 1, transcripts: 1, segments: 1 });
+    expect(await db.files.count()).toBe(2);
+
+    const transcripts = await db.transcripts.toArray();
+    expect(new Set(transcripts.map((transcript) => transcript.fileId)).size).toBe(2);
+  });
+
+  it("should restore shadowing recordings with remapped ids", async () => {
+    const now = new Date("2025-01-01T00:00:00Z").toISOString();
+    const archive = buildArchive(
+      createManifest({
+        shadowingRecordings: [
+          {
+            id: 3,
+            fileId: 7,
+            segmentId: 21,
+            duration: 1.5,
+            createdAt: now,
+            blob: { offset: 0, size: 3, type: "audio/webm" },
+          },
+        ],
+        pronunciationScores: [
+          {
+            id: 4,
+            fileId: 7,
+            segmentId: 21,
+            recordingId: 3,
+            score: 60,
+            accuracy: 60,
+            rhythm: 60,
+            words: [],
+            extraWords: [],
+            transcript: "",
+            createdAt: now,
+          },
+        ],
+      }),
+      ["abc"],
+    );
+
+    await importLibraryBackup(archive, { mode: "replace" });
+
+    const [file] = await db.files.toArray();
+    const segments = await db.segments.orderBy("start").toArray();
+    const [recording] = await db.shadowingRecordings.toArray();
+    expect(recording).toMatchObject({ fileId: file.id, segmentId: segments[1].id, duration: 1.5 });
+
+    const [score] = await db.pronunciationScores.toArray();
+    expect(score.recordingId).toBe(recording.id);
+  });
+
+  it("should round-trip pronunciation scores", async () => {
+    const { fileId } = await seedLibrary();
+    const [segment] = await db.segments.toArray();
+    await db.pronunciationScores.add({
+      fileId,
+      segmentId: segment.id ?? 0,
+      recordingId: 99,
+      score: 80,
+      accuracy: 90,
+      rhythm: 70,
+      words: [{ word: "こんにちは", spoken: "こんにちは", accuracy: 1 }],
+      extraWords: [],
+      transcript: "こんにちは",
+      createdAt: new Date(),
+    });
+    const archive = await exportLibraryBackup();
+
+    await DBUtils.clearAll();
+    await db.files.add({
+      name: "other.mp3",
+      size: 1,
+      type: "audio/mpeg",
+      uploadedAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await importLibraryBackup(archive, { mode: "merge" });
+
+    const restoredFile = await db.files.where("name").equals("lesson.mp3").first();
+    const [restoredSegment] = await db.segments.toArray();
+    const [score] = await db.pronunciationScores.toArray();
+    expect(score).toMatchObject({
+      fileId: restoredFile?.id,
+      segmentId: restoredSegment.id,
+      score: 80,
+      recordingId: undefined,
+    });
+    expect(score.words[0].spoken).toBe("こんにちは");
+  });
+
+  it("should keep review cards and their schedule across a replace restore", async () => {
+    const { fileId } = await seedLibrary();
+    const [segment] = await db.segments.toArray();
+    const due = new Date("2025-02-01T00:00:00Z");
+    await db.reviewCards.add({
+      fileId,
+      segmentId: segment.id ?? 0,
+      start: 0,
+      end: 1,
+      text: "こんにちは",
+      ease: 2.2,
+      interval: 6,
+      repetitions: 3,
+      lapses: 1,
+      due,
+      lastReviewedAt: new Date("2025-01-26T00:00:00Z"),
+      createdAt: new Date("2025-01-01T00:00:00Z"),
+      updatedAt: new Date("2025-01-26T00:00:00Z"),
+    });
+    const archive = await exportLibraryBackup();
+
+    await importLibraryBackup(archive, { mode: "replace" });
+
+    const [file] = await db.files.toArray();
+    const [restoredSegment] = await db.segments.toArray();
+    const cards = await db.reviewCards.toArray();
+    expect(cards).toHaveLength(1);
+    expect(cards[0]).toMatchObject({
+      fileId: file.id,
+      segmentId: restoredSegment.id,
+      ease: 2.2,
+      interval: 6,
+      repetitions: 3,
+      lapses: 1,
+    });
+    expect(cards[0].due).toEqual(due);
+  });
+
+  it("should restore the personal dictionary and reuse existing words when merging", async () => {
+    const { fileId } = await seedLibrary();
+    const [segment] = await db.segments.toArray();
+    const now = new Date();
+    const vocabularyId = await db.vocabulary.add({
+      language: "ja",
+      lemma: "こんにちは",
+      gloss: "hello",
+      known: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await db.vocabularyOccurrences.add({
+      vocabularyId,
+      fileId,
+      segmentId: segment.id ?? 0,
+      surface: "こんにちは",
+    });
+    const archive = await exportLibraryBackup();
+
+    await importLibraryBackup(archive, { mode: "replace" });
+    const [entry] = await db.vocabulary.toArray();
+    const [restoredSegment] = await db.segments.toArray();
+    const [occurrence] = await db.vocabularyOccurrences.toArray();
+    expect(entry).toMatchObject({ lemma: "こんにちは", gloss: "hello", known: true });
+    expect(occurrence).toMatchObject({ vocabularyId: entry.id, segmentId: restoredSegment.id });
+
+    await db.files.toCollection().modify({ name: "renamed.mp3" });
+    await importLibraryBackup(archive, { mode: "merge" });
+    expect(await db.vocabulary.count()).toBe(1);
+    const occurrences = await db.vocabularyOccurrences.toArray();
+    expect(occurrences).toHaveLength(2);
+    expect(occurrences.every((row) => row.vocabularyId === entry.id)).toBe(true);
+  });
+
+  it("should restore collections and tags", async () => {
+    const { fileId } = await seedLibrary();
+    const now = new Date();
+    const collectionId = await db.collections.add({ name: "N3", createdAt: now, updatedAt: now });
+    await db.collectionItems.add({ collectionId, fileId, position: 0, addedAt: now });
+    await db.fileTags.add({ fileId, tag: "news", createdAt: now });
+    const archive = await exportLibraryBackup();
+
+    await importLibraryBackup(archive, { mode: "replace" });
+    const [file] = await db.files.toArray();
+    const [collection] = await db.collections.toArray();
+    expect(collection.name).toBe("N3");
+    expect(await db.collectionItems.toArray()).toMatchObject([
+      { collectionId: collection.id, fileId: file.id, position: 0 },
+    ]);
+    expect(await db.fileTags.toArray()).toMatchObject([{ fileId: file.id, tag: "news" }]);
+
+    await db.files.toCollection().modify({ name: "renamed.mp3" });
+    await importLibraryBackup(archive, { mode: "merge" });
+    expect(await db.collections.count()).toBe(1);
+    const positions = (await db.collectionItems.toArray()).map((item) => item.position);
+    expect(positions.sort()).toEqual([0, 1]);
+  });
+
+  it("should restore podcast subscriptions and skip known feeds when merging", async () => {
+    await seedLibrary();
+    const subscribedAt = new Date("2025-01-02T00:00:00Z");
+    await db.podcastSubscriptions.add({
+      feedUrl: "https://example.com/feed.xml",
+      title: "News",
+      subscribedAt,
+    });
+    const archive = await exportLibraryBackup();
+
+    // 导出后新增的订阅在覆盖导入时被移除
+    await db.podcastSubscriptions.add({
+      feedUrl: "https://example.com/other.xml",
+      title: "Other",
+      subscribedAt,
+    });
+    await importLibraryBackup(archive, { mode: "replace" });
+    const subscriptions = await db.podcastSubscriptions.toArray();
+    expect(subscriptions).toMatchObject([{ feedUrl: "https://example.com/feed.xml" }]);
+    expect(subscriptions[0].subscribedAt).toEqual(subscribedAt);
+
+    await db.files.toCollection().modify({ name: "renamed.mp3" });
+    await importLibraryBackup(archive, { mode: "merge" });
+    expect(await db.podcastSubscriptions.count()).toBe(1);
+  });
+
+  it("should reject recordings that point outside the archive data", async () => {
+    const archive = buildArchive(
+      createManifest({
+        shadowingRecordings: [
+          {
+            id: 3,
+            fileId: 7,
+            segmentId: 21,
+            duration: 1,
+            createdAt: new Date().toISOString(),
+            blob: { offset: 0, size: 10, type: "audio/webm" },
+          },
+        ],
+      }),
+      ["abc"],
+    );
+
+    await expect(readBackupManifest(archive)).rejects.toThrow("音频数据不完整");
+  });
+
+  it("should reject archives that are not backups", async () => {
+    await expect(readBackupManifest(new Blob(["not a backup file"]))).rejects.toThrow(
+      "无效的备份文件",
+    );
+  });
+
+  it("should reject manifests with broken references", async () => {
+    const manifest = {
+      format: "umuo-backup",
+      schemaVersion: 1,
+      dbVersion: 1,
+      exportedAt: new Date().toISOString(),
+      files: [],
+      transcripts: [
+        {
+          id: 1,
+          fileId: 99,
+          status: "completed",
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        },
+      ],
+      segments: [],
+    };
+    const bytes = new TextEncoder().encode(JSON.stringify(manifest));
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, bytes.length, true);
+
+    await expect(
+      readBackupManifest(new Blob([new TextEncoder().encode("UMUOBAK\0"), length, bytes])),
+    ).rejects.toThrow("转录引用了不存在的文件");
+  });
+});
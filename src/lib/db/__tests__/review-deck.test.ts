@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DBUtils, db } from "@/lib/db/db";
+import {
+  addReviewCard,
+  findMatchingSegment,
+  formatReviewInterval,
+  getDueReviewItems,
+  getReviewCardsForFile,
+  gradeReviewCard,
+  scheduleReview,
+} from "@/lib/db/review-deck";
+import type { Segment } from "@/types/db/database";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-03-01T00:00:00Z");
+
+const newCard = { ease: 2.5, interval: 0, repetitions: 0, lapses: 0, due: now };
+
+async function createTranscribedFile(cues: Array<[number, number, string]>) {
+  const fileId = await DBUtils.addFile({
+    name: "review.mp3",
+    size: 1024,
+    type: "audio/mpeg",
+    uploadedAt: now,
+    updatedAt: now,
+  });
+  const transcriptId = await db.transcripts.add({
+    fileId,
+    status: "completed",
+    createdAt: now,
+    updatedAt: now,
+  });
+  await db.segments.bulkAdd(
+    cues.map(([start, end, text]) => ({
+      transcriptId,
+      start,
+      end,
+      text,
+      createdAt: now,
+      updatedAt: now,
+    })),
+  );
+  const segments = await db.segments.where("transcriptId").equals(transcriptId).toArray();
+  return { fileId, transcriptId, segments };
+}
+
+describe("review-deck", () => {
+  describe("scheduleReview", () => {
+    it("should grow intervals with successful reviews", () => {
+      const first = scheduleReview(newCard, "good", now);
+      expect(first).toMatchObject({ interval: 1, repetitions: 1 });
+      expect(first.due.getTime() - now.getTime()).toBe(DAY_MS);
+
+      const second = scheduleReview(first, "good", now);
+      expect(second.interval).toBe(3);
+
+      const third = scheduleReview(second, "good", now);
+      expect(third.interval).toBe(8);
+    });
+
+    it("should reset the card and lower ease when forgotten", () => {
+      const learned = { ...newCard, interval: 20, repetitions: 4 };
+      const result = scheduleReview(learned, "again", now);
+
+      expect(result).toMatchObject({ interval: 0, repetitions: 0, lapses: 1, ease: 2.3 });
+      expect(result.due.getTime() - now.getTime()).toBe(10 * 60 * 1000);
+    });
+
+    it("should never drop ease below the minimum", () => {
+      const result = scheduleReview({ ...newCard, ease: 1.35 }, "hard", now);
+      expect(result.ease).toBe(1.3);
+    });
+
+    it("should schedule easy answers further out than good ones", () => {
+      const good = scheduleReview(newCard, "good", now);
+      const easy = scheduleReview(newCard, "easy", now);
+      expect(easy.interval).toBeGreaterThan(good.interval);
+      expect(easy.ease).toBeCloseTo(2.65);
+    });
+  });
+
+  describe("formatReviewInterval", () => {
+    it("should format minutes, days and months", () => {
+      expect(formatReviewInterval(new Date(now.getTime() + 10 * 60 * 1000), now)).toBe("10 分钟");
+      expect(formatReviewInterval(new Date(now.getTime() + 3 * DAY_MS), now)).toBe("3 天");
+      expect(formatReviewInterval(new Date(now.getTime() + 90 * DAY_MS), now)).toBe("3 个月");
+    });
+  });
+
+  describe("findMatchingSegment", () => {
+    const segments: Segment[] = [
+      { id: 10, transcriptId: 2, start: 0, end: 2.1, text: "a", createdAt: now, updatedAt: now },
+      { id: 11, transcriptId: 2, start: 2.1, end: 5, text: "b", createdAt: now, updatedAt: now },
+    ];
+
+    it("should match by overlapping time range when the id is gone", () => {
+      expect(findMatchingSegment({ segmentId: 1, start: 2, end: 4.8 }, segments)?.id).toBe(11);
+    });
+
+    it("should match segments that were trimmed or split after the card was saved", () => {
+      const refined: Segment[] = [
+        {
+          id: 20,
+          transcriptId: 3,
+          start: 0.4,
+          end: 2.6,
+          text: "a",
+          createdAt: now,
+          updatedAt: now,
+        },
+        {
+          id: 21,
+          transcriptId: 3,
+          start: 3.4,
+          end: 5.6,
+          text: "b",
+          createdAt: now,
+          updatedAt: now,
+        },
+      ];
+
+      expect(findMatchingSegment({ segmentId: 1, start: 0, end: 6 }, refined)?.id).toBe(20);
+      expect(findMatchingSegment({ segmentId: 1, start: 3, end: 6 }, refined)?.id).toBe(21);
+    });
+
+    it("should return null when nothing overlaps enough", () => {
+      expect(findMatchingSegment({ segmentId: 1, start: 4, end: 9 }, segments)).toBeNull();
+    });
+  });
+
+  describe("database operations", () => {
+    beforeEach(async () => {
+      await DBUtils.clearAll();
+    });
+
+    it("should not create duplicate cards for the same segment", async () => {
+      const { fileId, segments } = await createTranscribedFile([[0, 2, "こんにちは"]]);
+
+      const first = await addReviewCard(fileId, segments[0]);
+      const second = await addReviewCard(fileId, segments[0]);
+
+      expect(second).toBe(first);
+      expect(await db.reviewCards.count()).toBe(1);
+    });
+
+    it("should relink cards to new segments after re-transcription", async () => {
+      const original = await createTranscribedFile([
+        [0, 2, "おはよう"],
+        [2, 5, "ございます"],
+      ]);
+      await addReviewCard(original.fileId, original.segments[1]);
+
+      // 模拟重新转录：删除旧的转录和字幕段，写入时间略有偏差的新字幕段
+      await db.segments.where("transcriptId").equals(original.transcriptId).delete();
+      await db.transcripts.delete(original.transcriptId);
+      const transcriptId = await db.transcripts.add({
+        fileId: original.fileId,
+        status: "completed",
+        createdAt: now,
+        updatedAt: now,
+      });
+      const newSegmentId = await db.segments.add({
+        transcriptId,
+        start: 2.2,
+        end: 5.1,
+        text: "ございます。",
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      const [card] = await getReviewCardsForFile(original.fileId);
+
+      expect(card).toMatchObject({ segmentId: newSegmentId, start: 2.2, text: "ございます。" });
+      expect((await db.reviewCards.toArray())[0].segmentId).toBe(newSegmentId);
+    });
+
+    it("should return due cards with their segments and reschedule graded cards", async () => {
+      const { fileId, segments } = await createTranscribedFile([[0, 2, "hello"]]);
+      await addReviewCard(fileId, segments[0]);
+
+      const [item] = await getDueReviewItems(new Date(Date.now() + 1000));
+      expect(item.segment?.text).toBe("hello");
+      expect(item.file?.name).toBe("review.mp3");
+
+      const graded = await gradeReviewCard(item.card, "good");
+      expect(graded.repetitions).toBe(1);
+      expect(await getDueReviewItems(new Date(Date.now() + 1000))).toHaveLength(0);
+    });
+
+    it("should delete cards together with the file", async () => {
+      const { fileId, segments } = await createTranscribedFile([[0, 2, "hello"]]);
+      await addReviewCard(fileId, segments[0]);
+
+      await DBUtils.deleteFile(fileId);
+
+      expect(await db.reviewCards.count()).toBe(0);
+    });
+  });
+});
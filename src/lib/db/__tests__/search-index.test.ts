@@ -0,0 +1,154 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DBUtils, db } from "@/lib/db/db";
+import {
+  buildSnippet,
+  getIndexTerms,
+  getQueryTerms,
+  searchLibrary,
+  syncSearchIndex,
+} from "@/lib/db/search-index";
+
+async function createFileWithSegments(
+  name: string,
+  segments: Array<{ text: string; translation?: string }>,
+) {
+  const now = new Date();
+  const fileId = await DBUtils.addFile({
+    name,
+    size: 1024,
+    type: "audio/mpeg",
+    uploadedAt: now,
+    updatedAt: now,
+  });
+  const transcriptId = await db.transcripts.add({
+    fileId,
+    status: "completed",
+    createdAt: now,
+    updatedAt: now,
+  });
+  const segmentIds: number[] = [];
+  for (const [index, segment] of segments.entries()) {
+    segmentIds.push(
+      await db.segments.add({
+        transcriptId,
+        start: index * 5,
+        end: index * 5 + 4,
+        ...segment,
+        createdAt: now,
+        updatedAt: now,
+      }),
+    );
+  }
+  return { fileId, segmentIds };
+}
+
+describe("search-index", () => {
+  beforeEach(async () => {
+    await DBUtils.clearAll();
+  });
+
+  describe("tokenisation", () => {
+    it("should index CJK runs as characters and bigrams and latin text as words", () => {
+      expect(getIndexTerms("日本語 OK, Tokyo!")).toEqual([
+        "日",
+        "本",
+        "語",
+        "日本",
+        "本語",
+        "ok",
+        "tokyo",
+      ]);
+    });
+
+    it("should split mixed scripts and normalise full-width characters", () => {
+      expect(getIndexTerms("ＡＢＣ漢字")).toEqual(["abc", "漢", "字", "漢字"]);
+    });
+
+    it("should use bigrams for CJK queries and a prefix for the last word being typed", () => {
+      expect(getQueryTerms("東京タワー")).toEqual([
+        { term: "東京", prefix: false },
+        { term: "京タ", prefix: false },
+        { term: "タワ", prefix: false },
+        { term: "ワー", prefix: false },
+      ]);
+      expect(getQueryTerms("good mor")).toEqual([
+        { term: "good", prefix: false },
+        { term: "mor", prefix: true },
+      ]);
+      expect(getQueryTerms("good ")).toEqual([{ term: "good", prefix: false }]);
+    });
+  });
+
+  describe("buildSnippet", () => {
+    it("should highlight matches and crop long text", () => {
+      const text = `${"a".repeat(50)} the quick brown fox ${"b".repeat(80)}`;
+      const snippet = buildSnippet(text, "quick fox", 10);
+
+      expect(snippet?.[0]).toEqual({ text: "…", match: false });
+      expect(snippet?.filter((part) => part.match).map((part) => part.text)).toEqual([
+        "quick",
+        "fox",
+      ]);
+      expect(snippet?.[snippet.length - 1]).toEqual({ text: "…", match: false });
+    });
+
+    it("should return null when nothing matches", () => {
+      expect(buildSnippet("hello", "world")).toBeNull();
+    });
+  });
+
+  describe("searchLibrary", () => {
+    it("should find segments across files and rank exact phrases first", async () => {
+      const first = await createFileWithSegments("news.mp3", [
+        { text: "今日は東京に行きます", translation: "今天去东京" },
+        { text: "京都と東の話" },
+      ]);
+      const second = await createFileWithSegments("drama.mp3", [{ text: "東京タワーが見える" }]);
+
+      expect(await syncSearchIndex()).toEqual({ updated: 3, removed: 0 });
+
+      const results = await searchLibrary("東京");
+      expect(results.map((result) => result.segmentId).sort()).toEqual(
+        [first.segmentIds[0], second.segmentIds[0]].sort(),
+      );
+      expect(results[0].snippet.some((part) => part.match && part.text === "東京")).toBe(true);
+      expect(await searchLibrary("東")).toHaveLength(3);
+    });
+
+    it("should search translations with a lower weight than the original text", async () => {
+      const { segmentIds } = await createFileWithSegments("a.mp3", [
+        { text: "I like cats", translation: "我喜欢猫" },
+        { text: "猫が好き", translation: "I like cats too" },
+      ]);
+      await syncSearchIndex();
+
+      const results = await searchLibrary("like cats");
+      expect(results.map((result) => result.segmentId)).toEqual(segmentIds);
+      expect(results[1].translationSnippet?.some((part) => part.match)).toBe(true);
+      expect(results[0].start).toBe(0);
+      expect(results[0].fileName).toBe("a.mp3");
+    });
+
+    it("should match the last latin word as a prefix", async () => {
+      await createFileWithSegments("a.mp3", [{ text: "Good morning everyone" }]);
+      await syncSearchIndex();
+
+      expect(await searchLibrary("good mor")).toHaveLength(1);
+      expect(await searchLibrary("good mor ")).toHaveLength(0);
+    });
+
+    it("should reindex changed segments and drop deleted files", async () => {
+      const first = await createFileWithSegments("a.mp3", [{ text: "hello world" }]);
+      await createFileWithSegments("b.mp3", [{ text: "hello there" }]);
+      await syncSearchIndex();
+
+      await db.segments.update(first.segmentIds[0], { translation: "你好世界" });
+      expect(await syncSearchIndex()).toEqual({ updated: 1, removed: 0 });
+      expect(await searchLibrary("世界")).toHaveLength(1);
+
+      await DBUtils.deleteFile(first.fileId);
+      expect(await syncSearchIndex()).toEqual({ updated: 0, removed: 0 });
+      expect(await searchLibrary("hello")).toHaveLength(1);
+    });
+  });
+});
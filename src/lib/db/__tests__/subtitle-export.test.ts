@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { formatSrtTimestamp, formatVttTimestamp } from "@/lib/utils/subtitle-timestamp";
+import type { Segment } from "@/types/db/database";
+import { buildSubtitleExport, furiganaToText, segmentsToTsv } from "../subtitle-export";
+import { parseSrt, parseVtt } from "../subtitle-import";
+
+const now = new Date("2025-01-01T00:00:00Z");
+
+const segments: Segment[] = [
+  {
+    id: 2,
+    transcriptId: 1,
+    start: 3.5,
+    end: 5,
+    text: "世界",
+    translation: "world",
+    furigana: JSON.stringify([{ text: "世界", reading: "せかい" }]),
+    romaji: "sekai",
+    createdAt: now,
+    updatedAt: now,
+  },
+  {
+    id: 1,
+    transcriptId: 1,
+    start: 1,
+    end: 2.9996,
+    text: "hello there",
+    translation: "你好",
+    wordTimestamps: [
+      { word: "hello", start: 1, end: 1.6 },
+      { word: "there", start: 1.7, end: 2.9 },
+    ],
+    createdAt: now,
+    updatedAt: now,
+  },
+];
+
+describe("subtitle-export", () => {
+  it("should format timestamps without millisecond overflow", () => {
+    expect(formatSrtTimestamp(3661.5)).toBe("01:01:01,500");
+    expect(formatVttTimestamp(2.9996)).toBe("00:00:03.000");
+  });
+
+  it("should read furigana from JSON and plain text", () => {
+    expect(furiganaToText(segments[0].furigana)).toBe("せかい");
+    expect(furiganaToText("かな")).toBe("かな");
+    expect(furiganaToText(undefined)).toBe("");
+  });
+
+  it("should export SRT in time order with extra lines", () => {
+    const [file] = buildSubtitleExport(segments, "clip", {
+      format: "srt",
+      extras: ["translation"],
+    });
+
+    expect(file.fileName).toBe("clip.srt");
+    const cues = parseSrt(file.content);
+    expect(cues.map((cue) => cue.text)).toEqual(["hello there\n你好", "世界\nworld"]);
+  });
+
+  it("should export extras as separate tracks", () => {
+    const files = buildSubtitleExport(segments, "clip", {
+      format: "srt",
+      extras: ["translation", "romaji"],
+      extrasMode: "tracks",
+    });
+
+    expect(files.map((file) => file.fileName)).toEqual([
+      "clip.srt",
+      "clip.translation.srt",
+      "clip.romaji.srt",
+    ]);
+    expect(parseSrt(files[0].content).map((cue) => cue.text)).toEqual(["hello there", "世界"]);
+    expect(parseSrt(files[2].content)).toEqual([{ start: 3.5, end: 5, text: "sekai" }]);
+  });
+
+  it("should export WebVTT with word-level timing", () => {
+    const [file] = buildSubtitleExport(segments, "clip", { format: "vtt", wordTiming: true });
+
+    expect(file.content.startsWith("WEBVTT")).toBe(true);
+    expect(file.content).toContain("<c>hello</c> <00:00:01.700><c>there</c>");
+    expect(parseVtt(file.content).map((cue) => cue.text)).toEqual(["hello there", "世界"]);
+  });
+
+  it("should export TSV with extra columns", () => {
+    const tsv = segmentsToTsv(segments.slice(1), ["translation", "romaji"]);
+    expect(tsv).toBe("start\tend\ttext\ttranslation\tromaji\n1.000\t3.000\thello there\t你好\t\n");
+  });
+
+  it("should export lossless JSON", () => {
+    const [file] = buildSubtitleExport(segments, "clip", { format: "json" });
+    const parsed = JSON.parse(file.content);
+
+    expect(parsed.segments).toHaveLength(2);
+    expect(parsed.segments[0].wordTimestamps).toHaveLength(2);
+    expect(parsed.segments[1].furigana).toBe(segments[0].furigana);
+    expect(parsed.segments[0].id).toBeUndefined();
+  });
+});
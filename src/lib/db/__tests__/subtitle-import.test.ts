@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DBUtils, db } from "../db";
+import {
+  detectSubtitleFormat,
+  importSubtitlesForFile,
+  parseAss,
+  parseSrt,
+  parseSubtitleTimestamp,
+  parseVtt,
+} from "../subtitle-import";
+
+const SRT_SAMPLE = `1
+00:00:01,000 --> 00:00:03,500
+<i>こんにちは</i>
+
+2
+00:00:04,000 --> 00:00:06,250
+{\\an8}一行目
+<b>二行目</b>
+`;
+
+const VTT_SAMPLE = `WEBVTT - sample
+
+NOTE this is a comment
+
+STYLE
+::cue { color: white; }
+
+intro
+00:01.000 --> 00:02.000 align:start position:10%
+<v Speaker>Hello &amp; welcome</v>
+
+00:00:02.500 --> 00:00:04.000
+<c.yellow>second</c> <00:00:03.000>cue
+`;
+
+const ASS_SAMPLE = `[Script Info]
+Title: Sample
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize
+Style: Default,Arial,20
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,ignored
+Dialogue: 0,0:00:05.00,0:00:07.50,Default,,0,0,0,,{\\i1}Later{\\i0}, with comma
+Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,First\\Nsecond\\hline
+`;
+
+describe("subtitle-import", () => {
+  describe("parseSubtitleTimestamp", () => {
+    it("should parse SRT comma timestamps", () => {
+      expect(parseSubtitleTimestamp("00:01:02,500")).toBeCloseTo(62.5);
+    });
+
+    it("should parse VTT short timestamps", () => {
+      expect(parseSubtitleTimestamp("01:02.250")).toBeCloseTo(62.25);
+    });
+
+    it("should reject invalid timestamps", () => {
+      expect(parseSubtitleTimestamp("abc")).toBeNull();
+    });
+  });
+
+  describe("parseSrt", () => {
+    it("should parse cues and strip styling tags", () => {
+      const cues = parseSrt(SRT_SAMPLE);
+
+      expect(cues).toHaveLength(2);
+      expect(cues[0]).toEqual({ start: 1, end: 3.5, text: "こんにちは" });
+      expect(cues[1].text).toBe("一行目\n二行目");
+      expect(cues[1].end).toBeCloseTo(6.25);
+    });
+
+    it("should handle CRLF line endings", () => {
+      const cues = parseSrt(SRT_SAMPLE.replace(/\n/g, "\r\n"));
+      expect(cues).toHaveLength(2);
+    });
+
+    it("should not leave escaped markup in the text", () => {
+      const cues = parseSrt("1\n00:00:01,000 --> 00:00:02,000\n&lt;b&gt;x&lt;/b&gt; &amp; y\n");
+      expect(cues[0].text).toBe("x & y");
+    });
+  });
+
+  describe("parseVtt", () => {
+    it("should skip header blocks and cue settings", () => {
+      const cues = parseVtt(VTT_SAMPLE);
+
+      expect(cues).toHaveLength(2);
+      expect(cues[0]).toEqual({ start: 1, end: 2, text: "Hello & welcome" });
+      expect(cues[1].text).toBe("second cue");
+    });
+  });
+
+  describe("parseAss", () => {
+    it("should parse dialogue lines in time order", () => {
+      const cues = parseAss(ASS_SAMPLE);
+
+      expect(cues).toHaveLength(2);
+      expect(cues[0]).toEqual({ start: 1, end: 2, text: "First\nsecond line" });
+      expect(cues[1]).toEqual({ start: 5, end: 7.5, text: "Later, with comma" });
+    });
+  });
+
+  describe("detectSubtitleFormat", () => {
+    it("should detect by extension and content", () => {
+      expect(detectSubtitleFormat("", "movie.SRT")).toBe("srt");
+      expect(detectSubtitleFormat("", "movie.ssa")).toBe("ass");
+      expect(detectSubtitleFormat(VTT_SAMPLE)).toBe("vtt");
+      expect(detectSubtitleFormat(ASS_SAMPLE)).toBe("ass");
+      expect(detectSubtitleFormat(SRT_SAMPLE)).toBe("srt");
+      expect(detectSubtitleFormat("plain text")).toBeNull();
+    });
+  });
+
+  describe("importSubtitlesForFile", () => {
+    beforeEach(async () => {
+      await DBUtils.clearAll();
+    });
+
+    afterEach(async () => {
+      await DBUtils.clearAll();
+    });
+
+    it("should create a completed transcript with segments", async () => {
+      const fileId = await DBUtils.addFile({
+        name: "clip.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const result = await importSubtitlesForFile(fileId, SRT_SAMPLE, {
+        fileName: "clip.srt",
+        language: "ja",
+      });
+
+      expect(result.format).toBe("srt");
+      expect(result.segmentCount).toBe(2);
+
+      const transcript = await db.transcripts.get(result.transcriptId);
+      expect(transcript?.status).toBe("completed");
+      expect(transcript?.language).toBe("ja");
+      expect(transcript?.duration).toBeCloseTo(6.25);
+
+      const segments = await DBUtils.getSegmentsByTranscriptId(result.transcriptId);
+      expect(segments.map((segment) => segment.text)).toEqual(["こんにちは", "一行目\n二行目"]);
+    });
+
+    it("should replace segments of an existing transcript", async () => {
+      const fileId = await DBUtils.addFile({
+        name: "clip.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const first = await importSubtitlesForFile(fileId, SRT_SAMPLE, { fileName: "a.srt" });
+      const second = await importSubtitlesForFile(fileId, ASS_SAMPLE, { fileName: "a.ass" });
+
+      expect(second.transcriptId).toBe(first.transcriptId);
+      expect(await db.transcripts.where("fileId").equals(fileId).count()).toBe(1);
+
+      const segments = await DBUtils.getSegmentsByTranscriptId(second.transcriptId);
+      expect(segments).toHaveLength(2);
+      expect(segments[0].text).toBe("First\nsecond line");
+    });
+
+    it("should use the latest cue end as the duration", async () => {
+      const fileId = await DBUtils.addFile({
+        name: "clip.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      // 第一条字幕持续到最后，晚开始的字幕先结束
+      const result = await importSubtitlesForFile(
+        fileId,
+        "1\n00:00:01,000 --> 00:00:09,000\nlong\n\n2\n00:00:02,000 --> 00:00:03,000\nshort\n",
+        { fileName: "overlap.srt" },
+      );
+
+      expect(result.duration).toBe(9);
+    });
+
+    it("should reject files without cues", async () => {
+      const fileId = await DBUtils.addFile({
+        name: "clip.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      await expect(
+        importSubtitlesForFile(fileId, "WEBVTT\n\n", { fileName: "empty.vtt" }),
+      ).rejects.toThrow("字幕文件中没有可用的字幕");
+    });
+  });
+});
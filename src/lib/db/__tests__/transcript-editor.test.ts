@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DBUtils, db } from "@/lib/db/db";
+import {
+  editSegmentText,
+  MIN_SEGMENT_DURATION,
+  mergeSegments,
+  retimeSegment,
+  saveTranscriptEdits,
+  splitSegment,
+} from "@/lib/db/transcript-editor";
+import { saveFileVocabulary } from "@/lib/db/vocabulary";
+import type { Segment } from "@/types/db/database";
+
+function createSegment(overrides: Partial<Segment> = {}): Segment {
+  const now = new Date();
+  return {
+    id: 1,
+    transcriptId: 1,
+    start: 0,
+    end: 4,
+    text: "one two three four",
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+const WORDS = [
+  { word: "one", start: 0, end: 1 },
+  { word: "two", start: 1, end: 2 },
+  { word: "three", start: 2, end: 3 },
+  { word: "four", start: 3, end: 4 },
+];
+
+describe("transcript editor", () => {
+  describe("splitSegment", () => {
+    it("should split text at word boundaries using word timestamps", () => {
+      const segment = createSegment({ wordTimestamps: WORDS, translation: "一二三四" });
+      const parts = splitSegment(segment, 2.2);
+
+      expect(parts).not.toBeNull();
+      const [first, second] = parts as [Segment, Segment];
+      expect(first).toMatchObject({ id: 1, start: 0, end: 2.2, text: "one two" });
+      expect(second).toMatchObject({ id: undefined, start: 2.2, end: 4, text: "three four" });
+      expect(first.translation).toBeUndefined();
+      expect(first.wordTimestamps?.every((word) => word.end <= 2.2)).toBe(true);
+      expect(second.wordTimestamps?.every((word) => word.start >= 2.2)).toBe(true);
+      // 原字幕段不被修改
+      expect(segment.wordTimestamps).toEqual(WORDS);
+    });
+
+    it("should split CJK text by time ratio without word timestamps", () => {
+      const parts = splitSegment(createSegment({ text: "今日はいい天気" }), 2);
+
+      expect(parts?.map((part) => part.text)).toEqual(["今日はい", "い天気"]);
+    });
+
+    it("should reject split points too close to the edges", () => {
+      expect(splitSegment(createSegment(), MIN_SEGMENT_DURATION / 2)).toBeNull();
+      expect(splitSegment(createSegment(), 4 - MIN_SEGMENT_DURATION / 2)).toBeNull();
+    });
+  });
+
+  it("should merge adjacent segments and keep the first id", () => {
+    const merged = mergeSegments(
+      createSegment({ id: 1, start: 0, end: 2, text: "猫が", translation: "猫" }),
+      createSegment({ id: 2, start: 2, end: 3, text: "好き", translation: "喜欢" }),
+    );
+
+    expect(merged).toMatchObject({
+      id: 1,
+      start: 0,
+      end: 3,
+      text: "猫が好き",
+      translation: "猫 喜欢",
+    });
+  });
+
+  describe("retimeSegment", () => {
+    const segments = [
+      createSegment({ id: 1, start: 0, end: 2 }),
+      createSegment({ id: 2, start: 2.5, end: 4, wordTimestamps: WORDS.slice(0, 2) }),
+      createSegment({ id: 3, start: 5, end: 6 }),
+    ];
+
+    it("should clamp boundaries to neighbouring segments", () => {
+      const retimed = retimeSegment(segments, 1, { start: 1, end: 7 });
+
+      expect(retimed[1]).toMatchObject({ start: 2, end: 5 });
+      expect(retimed[0]).toBe(segments[0]);
+    });
+
+    it("should keep the minimum duration", () => {
+      const retimed = retimeSegment(segments, 1, { end: 2.5 });
+
+      expect(retimed[1].end - retimed[1].start).toBeCloseTo(MIN_SEGMENT_DURATION);
+    });
+
+    it("should rescale word timestamps into the new range", () => {
+      const retimed = retimeSegment(segments, 1, { start: 3 });
+
+      for (const word of retimed[1].wordTimestamps ?? []) {
+        expect(word.start).toBeGreaterThanOrEqual(3);
+        expect(word.end).toBeLessThanOrEqual(4);
+      }
+    });
+  });
+
+  it("should keep word timings when the word count is unchanged", () => {
+    const edited = editSegmentText(
+      createSegment({ wordTimestamps: WORDS, furigana: "x" }),
+      "one two tree four",
+    );
+
+    expect(edited.text).toBe("one two tree four");
+    expect(edited.wordTimestamps?.[2]).toEqual({ word: "tree", start: 2, end: 3 });
+    expect(edited.furigana).toBeUndefined();
+  });
+
+  describe("saveTranscriptEdits", () => {
+    beforeEach(async () => {
+      await DBUtils.clearAll();
+    });
+
+    it("should update, add and delete segments and move vocabulary occurrences", async () => {
+      const now = new Date();
+      const fileId = await DBUtils.addFile({
+        name: "a.mp3",
+        size: 1024,
+        type: "audio/mpeg",
+        uploadedAt: now,
+        updatedAt: now,
+      });
+      const transcriptId = await db.transcripts.add({
+        fileId,
+        status: "completed",
+        createdAt: now,
+        updatedAt: now,
+      });
+      const ids = await db.segments.bulkAdd(
+        [
+          createSegment({ id: undefined, transcriptId, start: 0, end: 2, text: "猫が" }),
+          createSegment({ id: undefined, transcriptId, start: 2, end: 3, text: "好き" }),
+          createSegment({ id: undefined, transcriptId, start: 3, end: 5, text: "犬も好き" }),
+        ],
+        { allKeys: true },
+      );
+      await saveFileVocabulary(fileId, "ja", [{ segmentId: ids[1], entries: [{ lemma: "好き" }] }]);
+
+      const original = await db.segments.where("transcriptId").equals(transcriptId).sortBy("start");
+      const merged = mergeSegments(original[0], original[1]);
+      const [first, second] = splitSegment(original[2], 4) as [Segment, Segment];
+
+      const result = await saveTranscriptEdits(transcriptId, original, [merged, first, second]);
+
+      expect(result).toEqual({ updated: 2, added: 1, removed: 1 });
+      const saved = await db.segments.where("transcriptId").equals(transcriptId).sortBy("start");
+      expect(saved.map((segment) => segment.text)).toEqual(["猫が好き", "犬も", "好き"]);
+      expect(await db.segments.get(ids[1])).toBeUndefined();
+
+      const occurrences = await db.vocabularyOccurrences.toArray();
+      expect(occurrences.map((occurrence) => occurrence.segmentId)).toEqual([ids[0]]);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DBUtils, db } from "@/lib/db/db";
+import {
+  addVocabularyWord,
+  findWordVocabulary,
+  getKnownWordForms,
+  getVocabularyList,
+  saveFileVocabulary,
+  setVocabularyKnown,
+} from "@/lib/db/vocabulary";
+
+async function createFileWithSegments(name: string, texts: string[]) {
+  const now = new Date();
+  const fileId = await DBUtils.addFile({
+    name,
+    size: 1024,
+    type: "audio/mpeg",
+    uploadedAt: now,
+    updatedAt: now,
+  });
+  const transcriptId = await db.transcripts.add({
+    fileId,
+    status: "completed",
+    createdAt: now,
+    updatedAt: now,
+  });
+  const segmentIds: number[] = [];
+  for (const [index, text] of texts.entries()) {
+    segmentIds.push(
+      await db.segments.add({
+        transcriptId,
+        start: index,
+        end: index + 1,
+        text,
+        createdAt: now,
+        updatedAt: now,
+      }),
+    );
+  }
+  return { fileId, segmentIds };
+}
+
+describe("vocabulary", () => {
+  beforeEach(async () => {
+    await DBUtils.clearAll();
+  });
+
+  it("should merge words across files and count occurrences", async () => {
+    const first = await createFileWithSegments("a.mp3", ["猫が好き", "猫を飼う"]);
+    const second = await createFileWithSegments("b.mp3", ["犬と猫"]);
+
+    expect(
+      await saveFileVocabulary(first.fileId, "ja", [
+        { segmentId: first.segmentIds[0], entries: [{ lemma: "猫", reading: "ねこ" }] },
+        {
+          segmentId: first.segmentIds[1],
+          entries: [{ lemma: "猫" }, { lemma: "飼う", surface: "飼う", level: "N3" }],
+        },
+      ]),
+    ).toBe(2);
+    expect(
+      await saveFileVocabulary(second.fileId, "ja", [
+        { segmentId: second.segmentIds[0], entries: [{ lemma: "猫", gloss: "cat" }] },
+      ]),
+    ).toBe(0);
+
+    const words = await getVocabularyList();
+    expect(words.map((word) => [word.lemma, word.occurrences])).toEqual([
+      ["猫", 3],
+      ["飼う", 1],
+    ]);
+    expect(words[0]).toMatchObject({ reading: "ねこ", gloss: "cat", known: false });
+    expect(words[0].example?.text).toBe("猫が好き");
+  });
+
+  it("should replace the occurrences of a file when saved again", async () => {
+    const { fileId, segmentIds } = await createFileWithSegments("a.mp3", ["run fast"]);
+
+    await saveFileVocabulary(fileId, "en", [
+      { segmentId: segmentIds[0], entries: [{ lemma: "run" }] },
+    ]);
+    await saveFileVocabulary(fileId, "en", [
+      { segmentId: segmentIds[0], entries: [{ lemma: "run" }] },
+    ]);
+
+    expect(await db.vocabulary.count()).toBe(1);
+    expect(await db.vocabularyOccurrences.count()).toBe(1);
+  });
+
+  it("should filter by search, level and known state", async () => {
+    const { fileId, segmentIds } = await createFileWithSegments("a.mp3", ["I run and walk"]);
+    await saveFileVocabulary(fileId, "en", [
+      {
+        segmentId: segmentIds[0],
+        entries: [
+          { lemma: "run", gloss: "跑", level: "A1" },
+          { lemma: "walk", gloss: "走", level: "A2" },
+        ],
+      },
+    ]);
+    const [run] = await db.vocabulary.where("lemma").equals("run").toArray();
+    await setVocabularyKnown(run.id as number, true);
+
+    expect((await getVocabularyList({ search: "Wal" })).map((word) => word.lemma)).toEqual([
+      "walk",
+    ]);
+    expect((await getVocabularyList({ search: "跑" })).map((word) => word.lemma)).toEqual(["run"]);
+    expect((await getVocabularyList({ level: "A2" })).map((word) => word.lemma)).toEqual(["walk"]);
+    expect((await getVocabularyList({ known: true })).map((word) => word.lemma)).toEqual(["run"]);
+  });
+
+  it("should return normalized forms of known words in a file", async () => {
+    const { fileId, segmentIds } = await createFileWithSegments("a.mp3", ["She runs."]);
+    await saveFileVocabulary(fileId, "en", [
+      {
+        segmentId: segmentIds[0],
+        entries: [{ lemma: "run", surface: "Runs" }, { lemma: "she" }],
+      },
+    ]);
+    const [run] = await db.vocabulary.where("lemma").equals("run").toArray();
+    await setVocabularyKnown(run.id as number, true);
+
+    expect(Array.from(await getKnownWordForms(fileId)).sort()).toEqual(["run", "runs"]);
+  });
+
+  it("should keep dictionary words but drop their occurrences when the file is deleted", async () => {
+    const { fileId, segmentIds } = await createFileWithSegments("a.mp3", ["run"]);
+    await saveFileVocabulary(fileId, "en", [
+      { segmentId: segmentIds[0], entries: [{ lemma: "run" }] },
+    ]);
+
+    await DBUtils.deleteFile(fileId);
+
+    expect(await db.vocabulary.count()).toBe(1);
+    expect(await db.vocabularyOccurrences.count()).toBe(0);
+  });
+
+  it("should add a single word once per segment and find it by surface form", async () => {
+    const { fileId, segmentIds } = await createFileWithSegments("a.mp3", ["She ran home"]);
+
+    const id = await addVocabularyWord(fileId, segmentIds[0], "en", {
+      lemma: "run",
+      surface: "ran",
+      gloss: "跑",
+    });
+    expect(
+      await addVocabularyWord(fileId, segmentIds[0], "en", { lemma: "run", surface: "ran" }),
+    ).toBe(id);
+
+    expect(await db.vocabularyOccurrences.count()).toBe(1);
+    expect(await findWordVocabulary(segmentIds[0], "en", "Ran")).toMatchObject({
+      id,
+      gloss: "跑",
+    });
+    expect(await findWordVocabulary(segmentIds[0], "en", "home")).toBeUndefined();
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * 合集与标签
+ * 合集是有顺序的文件列表，同一文件可以加入多个合集；标签是文件上的自由文本
+ */
+
+import { db } from "@/lib/db/db";
+import { handleError } from "@/lib/utils/error-handler";
+import type { CollectionRow } from "@/types/db/database";
+
+/** 标签最大长度 */
+export const MAX_TAG_LENGTH = 32;
+
+export interface CollectionSummary extends CollectionRow {
+  id: number;
+  fileCount: number;
+}
+
+export interface TagSummary {
+  tag: string;
+  fileCount: number;
+}
+
+/**
+ * 规范化标签：去掉首尾空白和开头的 #，合并连续空白
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, "").replace(/\s+/g, " ").trim().slice(0, MAX_TAG_LENGTH);
+}
+
+function normalizeCollectionName(name: string): string {
+  const normalized = name.trim().replace(/\s+/g, " ");
+  if (!normalized) {
+    throw new Error("合集名称不能为空");
+  }
+  return normalized;
+}
+
+async function assertUniqueCollectionName(name: string, exceptId?: number): Promise<void> {
+  const existing = await db.collections.where("name").equals(name).first();
+  if (existing && existing.id !== exceptId) {
+    throw new Error(`合集“${name}”已存在`);
+  }
+}
+
+/**
+ * 所有合集及其中的文件数，按名称排序
+ */
+export async function getCollections(): Promise<CollectionSummary[]> {
+  try {
+    const [collections, items] = await Promise.all([
+      db.collections.toArray(),
+      db.collectionItems.toArray(),
+    ]);
+    const counts = new Map<number, number>();
+    for (const item of items) {
+      counts.set(item.collectionId, (counts.get(item.collectionId) ?? 0) + 1);
+    }
+
+    return collections
+      .filter((collection): collection is CollectionRow & { id: number } => Boolean(collection.id))
+      .map((collection) => ({ ...collection, fileCount: counts.get(collection.id) ?? 0 }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    throw handleError(error, "getCollections");
+  }
+}
+
+export async function createCollection(name: string): Promise<number> {
+  try {
+    const normalized = normalizeCollectionName(name);
+    return await db.transaction("rw", db.collections, async () => {
+      await assertUniqueCollectionName(normalized);
+      const now = new Date();
+      return db.collections.add({ name: normalized, createdAt: now, updatedAt: now });
+    });
+  } catch (error) {
+    throw handleError(error, "createCollection");
+  }
+}
+
+export async function renameCollection(id: number, name: string): Promise<void> {
+  try {
+    const normalized = normalizeCollectionName(name);
+    await db.transaction("rw", db.collections, async () => {
+      await assertUniqueCollectionName(normalized, id);
+      await db.collections.update(id, { name: normalized, updatedAt: new Date() });
+    });
+  } catch (error) {
+    throw handleError(error, "renameCollection");
+  }
+}
+
+/**
+ * 删除合集，合集中的文件本身保留
+ */
+export async function deleteCollection(id: number): Promise<void> {
+  try {
+    await db.transaction("rw", db.collections, db.collectionItems, async () => {
+      await db.collectionItems.where("collectionId").equals(id).delete();
+      await db.collections.delete(id);
+    });
+  } catch (error) {
+    throw handleError(error, "deleteCollection");
+  }
+}
+
+/**
+ * 合集中的文件 id，按合集内顺序排列
+ */
+export async function getCollectionFileIds(collectionId: number): Promise<number[]> {
+  try {
+    const items = await db.collectionItems.where("collectionId").equals(collectionId).toArray();
+    return items.sort((a, b) => a.position - b.position).map((item) => item.fileId);
+  } catch (error) {
+    throw handleError(error, "getCollectionFileIds");
+  }
+}
+
+/**
+ * 不属于任何合集的文件 id
+ */
+export async function getUncollectedFileIds(): Promise<number[]> {
+  try {
+    const [fileIds, collected] = await Promise.all([
+      db.files.toCollection().primaryKeys(),
+      db.collectionItems.orderBy("fileId").uniqueKeys(),
+    ]);
+    const collectedIds = new Set(collected as number[]);
+    return (fileIds as number[]).filter((id) => !collectedIds.has(id));
+  } catch (error) {
+    throw handleError(error, "getUncollectedFileIds");
+  }
+}
+
+/**
+ * 把文件追加到合集末尾，已在合集中的文件保持原位置
+ * @returns 新加入的文件数
+ */
+async function appendToCollection(collectionId: number, fileIds: number[]): Promise<number> {
+  const items = await db.collectionItems.where("collectionId").equals(collectionId).toArray();
+  const existing = new Set(items.map((item) => item.fileId));
+  let position = items.reduce((max, item) => Math.max(max, item.position + 1), 0);
+  const now = new Date();
+
+  const additions = [...new Set(fileIds)]
+    .filter((fileId) => !existing.has(fileId))
+    .map((fileId) => ({ collectionId, fileId, position: position++, addedAt: now }));
+  await db.collectionItems.bulkAdd(additions);
+  return additions.length;
+}
+
+/**
+ * 重新编号，使合集内的 position 连续
+ */
+async function compactCollection(collectionId: number): Promise<void> {
+  const items = await db.collectionItems.where("collectionId").equals(collectionId).toArray();
+  items.sort((a, b) => a.position - b.position);
+  await Promise.all(
+    items.map((item, position) =>
+      item.id && item.position !== position
+        ? db.collectionItems.update(item.id, { position })
+        : Promise.resolve(0),
+    ),
+  );
+}
+
+export async function addFilesToCollection(
+  collectionId: number,
+  fileIds: number[],
+): Promise<number> {
+  try {
+    return await db.transaction("rw", db.collections, db.collectionItems, async () => {
+      if (!(await db.collections.get(collectionId))) {
+        throw new Error("合集不存在");
+      }
+      const added = await appendToCollection(collectionId, fileIds);
+      await db.collections.update(collectionId, { updatedAt: new Date() });
+      return added;
+    });
+  } catch (error) {
+    throw handleError(error, "addFilesToCollection");
+  }
+}
+
+export async function removeFilesFromCollection(
+  collectionId: number,
+  fileIds: number[],
+): Promise<void> {
+  try {
+    await db.transaction("rw", db.collections, db.collectionItems, async () => {
+      await db.collectionItems
+        .where("collectionId")
+        .equals(collectionId)
+        .filter((item) => fileIds.includes(item.fileId))
+        .delete();
+      await compactCollection(collectionId);
+      await db.collections.update(collectionId, { updatedAt: new Date() });
+    });
+  } catch (error) {
+    throw handleError(error, "removeFilesFromCollection");
+  }
+}
+
+/**
+ * 把文件移动到另一个合集
+ * @param fromCollectionId 提供时同时从该合集移除，否则只是加入目标合集
+ */
+export async function moveFilesToCollection(
+  fileIds: number[],
+  toCollectionId: number,
+  fromCollectionId?: number,
+): Promise<void> {
+  try {
+    await db.transaction("rw", db.collections, db.collectionItems, async () => {
+      if (!(await db.collections.get(toCollectionId))) {
+        throw new Error("合集不存在");
+      }
+      if (fromCollectionId !== undefined && fromCollectionId !== toCollectionId) {
+        await db.collectionItems
+          .where("collectionId")
+          .equals(fromCollectionId)
+          .filter((item) => fileIds.includes(item.fileId))
+          .delete();
+        await compactCollection(fromCollectionId);
+        await db.collections.update(fromCollectionId, { updatedAt: new Date() });
+      }
+      await appendToCollection(toCollectionId, fileIds);
+      await db.collections.update(toCollectionId, { updatedAt: new Date() });
+    });
+  } catch (error) {
+    throw handleError(error, "moveFilesToCollection");
+  }
+}
+
+/**
+ * 按给定顺序重新排列合集，未列出的文件保持相对顺序排在后面
+ */
+export async function reorderCollection(collectionId: number, fileIds: number[]): Promise<void> {
+  try {
+    await db.transaction("rw", db.collections, db.collectionItems, async () => {
+      const items = await db.collectionItems.where("collectionId").equals(collectionId).toArray();
+      const order = new Map(fileIds.map((fileId, index) => [fileId, index]));
+      items.sort(
+        (a, b) =>
+          (order.get(a.fileId) ?? fileIds.length + a.position) -
+          (order.get(b.fileId) ?? fileIds.length + b.position),
+      );
+      await Promise.all(
+        items.map((item, position) =>
+          item.id ? db.collectionItems.update(item.id, { position }) : Promise.resolve(0),
+        ),
+      );
+      await db.collections.update(collectionId, { updatedAt: new Date() });
+    });
+  } catch (error) {
+    throw handleError(error, "reorderCollection");
+  }
+}
+
+/**
+ * 所有标签及使用次数，按标签排序
+ */
+export async function getTags(): Promise<TagSummary[]> {
+  try {
+    const rows = await db.fileTags.toArray();
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      counts.set(row.tag, (counts.get(row.tag) ?? 0) + 1);
+    }
+    return [...counts.entries()]
+      .map(([tag, fileCount]) => ({ tag, fileCount }))
+      .sort((a, b) => a.tag.localeCompare(b.tag));
+  } catch (error) {
+    throw handleError(error, "getTags");
+  }
+}
+
+/**
+ * 每个文件的标签，用于文件列表展示
+ */
+export async function getFileTagMap(): Promise<Map<number, string[]>> {
+  try {
+    const rows = await db.fileTags.toArray();
+    const map = new Map<number, string[]>();
+    for (const row of rows) {
+      map.set(row.fileId, [...(map.get(row.fileId) ?? []), row.tag]);
+    }
+    for (const tags of map.values()) {
+      tags.sort((a, b) => a.localeCompare(b));
+    }
+    return map;
+  } catch (error) {
+    throw handleError(error, "getFileTagMap");
+  }
+}
+
+export async function getFileIdsByTag(tag: string): Promise<number[]> {
+  try {
+    const rows = await db.fileTags.where("tag").equals(normalizeTag(tag)).toArray();
+    return rows.map((row) => row.fileId);
+  } catch (error) {
+    throw handleError(error, "getFileIdsByTag");
+  }
+}
+
+/**
+ * 给文件添加标签，已有的标签跳过
+ */
+export async function addTagsToFiles(fileIds: number[], tags: string[]): Promise<void> {
+  try {
+    const normalized = [...new Set(tags.map(normalizeTag).filter(Boolean))];
+    if (normalized.length === 0) {
+      throw new Error("标签不能为空");
+    }
+
+    await db.transaction("rw", db.fileTags, async () => {
+      const existing = await db.fileTags.where("fileId").anyOf(fileIds).toArray();
+      const keys = new Set(existing.map((row) => `${row.fileId}\u0000${row.tag}`));
+      const now = new Date();
+      const additions = [...new Set(fileIds)].flatMap((fileId) =>
+        normalized
+          .filter((tag) => !keys.has(`${fileId}\u0000${tag}`))
+          .map((tag) => ({ fileId, tag, createdAt: now })),
+      );
+      await db.fileTags.bulkAdd(additions);
+    });
+  } catch (error) {
+    throw handleError(error, "addTagsToFiles");
+  }
+}
+
+/**
+ * 移除文件上的标签；不指定文件时从所有文件移除
+ */
+export async function removeTag(tag: string, fileIds?: number[]): Promise<void> {
+  try {
+    const collection = db.fileTags.where("tag").equals(normalizeTag(tag));
+    await (fileIds
+      ? collection.filter((row) => fileIds.includes(row.fileId))
+      : collection
+    ).delete();
+  } catch (error) {
+    throw handleError(error, "removeTag");
+  }
+}
@@ -4,13 +4,51 @@
  */
 
 import Dexie, { type Table } from "dexie";
-import type { FileRow, Segment, TranscriptRow } from "@/types/db/database";
+import type {
+  CollectionItemRow,
+  CollectionRow,
+  FileChunkRow,
+  FileRow,
+  FileTagRow,
+  PitchContourRow,
+  PodcastSubscriptionRow,
+  PronunciationScoreRow,
+  ReviewCardRow,
+  SearchIndexRow,
+  Segment,
+  ShadowingRecordingRow,
+  TranscriptionQueueRow,
+  TranscriptRow,
+  VocabularyOccurrenceRow,
+  VocabularyRow,
+  WaveformCacheRow,
+} from "@/types/db/database";
 import { handleError } from "../utils/error-handler";
 
+/** 单个音频分块大小 */
+export const AUDIO_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+
+/** 超过该大小的音频使用分块存储 */
+export const CHUNKED_STORAGE_THRESHOLD = 32 * 1024 * 1024; // 32MB
+
 export class AppDatabase extends Dexie {
   files!: Table<FileRow>;
   transcripts!: Table<TranscriptRow>;
   segments!: Table<Segment>;
+  fileChunks!: Table<FileChunkRow>;
+  transcriptionQueue!: Table<TranscriptionQueueRow>;
+  shadowingRecordings!: Table<ShadowingRecordingRow>;
+  pronunciationScores!: Table<PronunciationScoreRow>;
+  reviewCards!: Table<ReviewCardRow>;
+  vocabulary!: Table<VocabularyRow>;
+  vocabularyOccurrences!: Table<VocabularyOccurrenceRow>;
+  searchIndex!: Table<SearchIndexRow, number>;
+  waveforms!: Table<WaveformCacheRow, number>;
+  pitchContours!: Table<PitchContourRow, number>;
+  collections!: Table<CollectionRow>;
+  collectionItems!: Table<CollectionItemRow>;
+  fileTags!: Table<FileTagRow>;
+  podcastSubscriptions!: Table<PodcastSubscriptionRow>;
 
   constructor() {
     super("umuo-app-db");
@@ -57,6 +95,53 @@ export class AppDatabase extends Dexie {
         // Add enhanced segment fields for better transcription features
         console.log("Database migrated to version 3: Added enhanced transcription features");
       });
+
+    this.version(4).stores({
+      fileChunks: "++id, fileId, [fileId+index]",
+    });
+
+    this.version(5).stores({
+      transcriptionQueue: "++id, &fileId, status, position",
+    });
+
+    this.version(6).stores({
+      shadowingRecordings: "++id, fileId, [fileId+segmentId], createdAt",
+    });
+
+    this.version(7).stores({
+      pronunciationScores: "++id, fileId, [fileId+segmentId], recordingId, createdAt",
+    });
+
+    this.version(8).stores({
+      reviewCards: "++id, fileId, [fileId+segmentId], due",
+    });
+
+    this.version(9).stores({
+      vocabulary: "++id, &[language+lemma], lemma, level",
+      vocabularyOccurrences: "++id, vocabularyId, fileId, segmentId",
+    });
+
+    this.version(10).stores({
+      searchIndex: "segmentId, fileId, *terms",
+    });
+
+    this.version(11).stores({
+      waveforms: "fileId",
+    });
+
+    this.version(12).stores({
+      pitchContours: "segmentId, fileId",
+    });
+
+    this.version(13).stores({
+      collections: "++id, name",
+      collectionItems: "++id, collectionId, fileId, &[collectionId+fileId]",
+      fileTags: "++id, fileId, tag, &[fileId+tag]",
+    });
+
+    this.version(14).stores({
+      podcastSubscriptions: "++id, &feedUrl",
+    });
   }
 }
 
@@ -87,13 +172,228 @@ export const DBUtils = {
     }
   },
 
+  /**
+   * Add a large file using chunked storage
+   * 音频按 chunkSize 切分写入 fileChunks 表，FileRow 本身不保存 blob
+   */
+  async addChunkedFile(
+    file: Omit<FileRow, "id" | "blob" | "isChunked" | "chunkSize" | "totalChunks">,
+    data: Blob,
+    chunkSize: number = AUDIO_CHUNK_SIZE,
+  ): Promise<number> {
+    try {
+      const totalChunks = Math.max(1, Math.ceil(data.size / chunkSize));
+
+      return await db.transaction("rw", db.files, db.fileChunks, async () => {
+        const fileId = await db.files.add({
+          ...file,
+          isChunked: true,
+          chunkSize,
+          totalChunks,
+        } as FileRow);
+
+        // 逐块写入，Blob.slice 不会复制数据，避免一次性占用大量内存
+        for (let index = 0; index < totalChunks; index++) {
+          const blob = data.slice(index * chunkSize, (index + 1) * chunkSize, data.type);
+          await db.fileChunks.add({
+            fileId,
+            index,
+            blob,
+            size: blob.size,
+            createdAt: new Date(),
+          });
+        }
+
+        return fileId;
+      });
+    } catch (error) {
+      throw handleError(error, "DBUtils.addChunkedFile");
+    }
+  },
+
+  /**
+   * Get the audio data of a file
+   * 分块存储的文件会按顺序拼接为一个 Blob，浏览器按需读取各分块，不会一次性载入内存
+   */
+  async getFileBlob(fileOrId: FileRow | number): Promise<Blob | undefined> {
+    try {
+      const file = typeof fileOrId === "number" ? await db.files.get(fileOrId) : fileOrId;
+      if (!file) return undefined;
+
+      if (!file.isChunked) {
+        return file.blob;
+      }
+
+      if (!file.id) return undefined;
+
+      const chunks = await db.fileChunks
+        .where("[fileId+index]")
+        .between([file.id, Dexie.minKey], [file.id, Dexie.maxKey])
+        .toArray();
+
+      if (file.totalChunks !== undefined && chunks.length !== file.totalChunks) {
+        throw new Error(`文件数据不完整：缺少 ${file.totalChunks - chunks.length} 个分块`);
+      }
+
+      return new Blob(
+        chunks.map((chunk) => chunk.blob),
+        { type: file.type },
+      );
+    } catch (error) {
+      throw handleError(error, "DBUtils.getFileBlob");
+    }
+  },
+
+  /**
+   * Get the audio used for transcription and analysis
+   * 有单独音轨（视频提取或压缩后的音频）时返回音轨，否则返回原文件
+   */
+  async getAudioBlob(fileOrId: FileRow | number): Promise<Blob | undefined> {
+    try {
+      const file = typeof fileOrId === "number" ? await db.files.get(fileOrId) : fileOrId;
+      if (!file) return undefined;
+      return file.audioTrack ?? (await DBUtils.getFileBlob(file));
+    } catch (error) {
+      throw handleError(error, "DBUtils.getAudioBlob");
+    }
+  },
+
+  /**
+   * Add a shadowing recording for a segment
+   */
+  async addShadowingRecording(recording: Omit<ShadowingRecordingRow, "id">): Promise<number> {
+    try {
+      return await db.shadowingRecordings.add(recording as ShadowingRecordingRow);
+    } catch (error) {
+      throw handleError(error, "DBUtils.addShadowingRecording");
+    }
+  },
+
+  /**
+   * Get shadowing recordings of a segment, newest first
+   */
+  async getShadowingRecordings(
+    fileId: number,
+    segmentId: number,
+  ): Promise<ShadowingRecordingRow[]> {
+    try {
+      const recordings = await db.shadowingRecordings
+        .where("[fileId+segmentId]")
+        .equals([fileId, segmentId])
+        .toArray();
+      return recordings.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      throw handleError(error, "DBUtils.getShadowingRecordings");
+    }
+  },
+
+  /**
+   * Delete a shadowing recording
+   */
+  async deleteShadowingRecording(id: number): Promise<void> {
+    try {
+      await db.shadowingRecordings.delete(id);
+    } catch (error) {
+      throw handleError(error, "DBUtils.deleteShadowingRecording");
+    }
+  },
+
+  /**
+   * Add a pronunciation score for a shadowing attempt
+   */
+  async addPronunciationScore(score: Omit<PronunciationScoreRow, "id">): Promise<number> {
+    try {
+      return await db.pronunciationScores.add(score as PronunciationScoreRow);
+    } catch (error) {
+      throw handleError(error, "DBUtils.addPronunciationScore");
+    }
+  },
+
+  /**
+   * Get the pronunciation score history of a segment, oldest first
+   */
+  async getPronunciationScores(
+    fileId: number,
+    segmentId: number,
+  ): Promise<PronunciationScoreRow[]> {
+    try {
+      const scores = await db.pronunciationScores
+        .where("[fileId+segmentId]")
+        .equals([fileId, segmentId])
+        .toArray();
+      return scores.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      throw handleError(error, "DBUtils.getPronunciationScores");
+    }
+  },
+
+  /**
+   * Get the cached waveform peaks of a file
+   */
+  async getWaveformCache(fileId: number): Promise<WaveformCacheRow | undefined> {
+    try {
+      return await db.waveforms.get(fileId);
+    } catch (error) {
+      throw handleError(error, "DBUtils.getWaveformCache");
+    }
+  },
+
+  /**
+   * Save the waveform peaks of a file, replacing any existing cache
+   */
+  async saveWaveformCache(cache: WaveformCacheRow): Promise<void> {
+    try {
+      await db.waveforms.put(cache);
+    } catch (error) {
+      throw handleError(error, "DBUtils.saveWaveformCache");
+    }
+  },
+
+  /**
+   * Get the cached pitch contour of a segment
+   */
+  async getPitchContour(segmentId: number): Promise<PitchContourRow | undefined> {
+    try {
+      return await db.pitchContours.get(segmentId);
+    } catch (error) {
+      throw handleError(error, "DBUtils.getPitchContour");
+    }
+  },
+
+  /**
+   * Save the pitch contour of a segment, replacing any existing cache
+   */
+  async savePitchContour(contour: PitchContourRow): Promise<void> {
+    try {
+      await db.pitchContours.put(contour);
+    } catch (error) {
+      throw handleError(error, "DBUtils.savePitchContour");
+    }
+  },
+
   /**
    * Delete a file and its associated data
-   * 删除顺序：segments → transcripts → file（先删子表再删父表）
+   * 删除顺序：segments → transcripts → 其余按 fileId 关联的数据 → file（先删子表再删父表）
    */
   async deleteFile(id: number): Promise<void> {
     try {
-      await db.transaction("rw", db.files, db.transcripts, db.segments, async () => {
+      const tables = [
+        db.files,
+        db.transcripts,
+        db.segments,
+        db.fileChunks,
+        db.transcriptionQueue,
+        db.shadowingRecordings,
+        db.pronunciationScores,
+        db.reviewCards,
+        db.vocabularyOccurrences,
+        db.searchIndex,
+        db.waveforms,
+        db.pitchContours,
+        db.collectionItems,
+        db.fileTags,
+      ];
+      await db.transaction("rw", tables, async () => {
         // 1. 获取关联的 transcripts
         const transcripts = await db.transcripts.where("fileId").equals(id).toArray();
 
@@ -107,7 +407,19 @@ export const DBUtils = {
         // 3. 删除 transcripts
         await db.transcripts.where("fileId").equals(id).delete();
 
-        // 4. 最后删除 file
+        // 4. 删除音频分块、队列任务、跟读录音、评分、复习卡片、词汇出处、搜索索引、波形和音高缓存、
+        // 合集条目和标签，最后删除 file；个人词典中的单词和合集本身保留
+        await db.fileChunks.where("fileId").equals(id).delete();
+        await db.transcriptionQueue.where("fileId").equals(id).delete();
+        await db.shadowingRecordings.where("fileId").equals(id).delete();
+        await db.pronunciationScores.where("fileId").equals(id).delete();
+        await db.reviewCards.where("fileId").equals(id).delete();
+        await db.vocabularyOccurrences.where("fileId").equals(id).delete();
+        await db.searchIndex.where("fileId").equals(id).delete();
+        await db.waveforms.delete(id);
+        await db.pitchContours.where("fileId").equals(id).delete();
+        await db.collectionItems.where("fileId").equals(id).delete();
+        await db.fileTags.where("fileId").equals(id).delete();
         await db.files.delete(id);
       });
     } catch (error) {
@@ -220,9 +532,42 @@ export const DBUtils = {
    */
   async clearAll(): Promise<void> {
     try {
-      await db.transaction("rw", db.files, db.transcripts, db.segments, async () => {
+      const tables = [
+        db.files,
+        db.transcripts,
+        db.segments,
+        db.fileChunks,
+        db.transcriptionQueue,
+        db.shadowingRecordings,
+        db.pronunciationScores,
+        db.reviewCards,
+        db.vocabulary,
+        db.vocabularyOccurrences,
+        db.searchIndex,
+        db.waveforms,
+        db.pitchContours,
+        db.collections,
+        db.collectionItems,
+        db.fileTags,
+        db.podcastSubscriptions,
+      ];
+      await db.transaction("rw", tables, async () => {
         await db.segments.clear();
         await db.transcripts.clear();
+        await db.fileChunks.clear();
+        await db.transcriptionQueue.clear();
+        await db.shadowingRecordings.clear();
+        await db.pronunciationScores.clear();
+        await db.reviewCards.clear();
+        await db.vocabulary.clear();
+        await db.vocabularyOccurrences.clear();
+        await db.searchIndex.clear();
+        await db.waveforms.clear();
+        await db.pitchContours.clear();
+        await db.collections.clear();
+        await db.collectionItems.clear();
+        await db.fileTags.clear();
+        await db.podcastSubscriptions.clear();
         await db.files.clear();
       });
     } catch (error) {
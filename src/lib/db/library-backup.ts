@@ -0,0 +1,730 @@
+/**
+ * 资料库备份与恢复
+ * 将音频、转录、segments、跟读录音与评分、复习卡片、个人词典、合集与标签、播客订阅和本地设置打包为单个归档文件，并支持合并或覆盖导入
+ *
+ * 归档结构：
+ *   [8 字节魔数 "UMUOBAK\0"][4 字节小端 manifest 长度][manifest JSON][音频数据依次拼接]
+ * manifest 中的文件和录音通过 offset / size 引用音频数据，避免 base64 带来的体积膨胀
+ */
+
+import { z } from "zod";
+import { AUDIO_CHUNK_SIZE, CHUNKED_STORAGE_THRESHOLD, DBUtils, db } from "@/lib/db/db";
+import { handleError } from "@/lib/utils/error-handler";
+import type {
+  CollectionItemRow,
+  FileRow,
+  FileTagRow,
+  PronunciationScoreRow,
+  ReviewCardRow,
+  Segment,
+  ShadowingRecordingRow,
+  TranscriptRow,
+  VocabularyOccurrenceRow,
+} from "@/types/db/database";
+
+export const BACKUP_FORMAT = "umuo-backup";
+export const BACKUP_SCHEMA_VERSION = 1;
+export const BACKUP_FILE_EXTENSION = ".umuo";
+
+/** 备份中包含的 localStorage 设置前缀 */
+const SETTINGS_KEY_PREFIX = "umuo-";
+
+const MAGIC = new TextEncoder().encode("UMUOBAK\0");
+const HEADER_SIZE = MAGIC.length + 4;
+
+export type BackupImportMode = "merge" | "replace";
+
+export interface BackupImportResult {
+  files: number;
+  transcripts: number;
+  segments: number;
+  skippedFiles: number;
+  settings: number;
+}
+
+// 日期字段在 JSON 中以 ISO 字符串保存，导入时还原为 Date
+const dateSchema = z.coerce.date();
+
+const wordTimestampSchema = z.object({
+  word: z.string(),
+  start: z.number(),
+  end: z.number(),
+  confidence: z.number().optional(),
+});
+
+const blobRefSchema = z.object({
+  offset: z.number().int().nonnegative(),
+  size: z.number().int().nonnegative(),
+  type: z.string(),
+});
+
+const backupFileSchema = z.object({
+  id: z.number().int(),
+  name: z.string().min(1),
+  size: z.number().nonnegative(),
+  type: z.string(),
+  duration: z.number().optional(),
+  isChunked: z.boolean().optional(),
+  chunkSize: z.number().optional(),
+  totalChunks: z.number().optional(),
+  uploadedAt: dateSchema,
+  updatedAt: dateSchema.optional(),
+  source: z
+    .object({
+      type: z.enum(["url", "podcast"]),
+      url: z.string(),
+      title: z.string().optional(),
+      show: z.string().optional(),
+      feedUrl: z.string().optional(),
+      guid: z.string().optional(),
+      publishedAt: dateSchema.optional(),
+    })
+    .optional(),
+  blob: blobRefSchema.optional(),
+});
+
+const backupTranscriptSchema = z.object({
+  id: z.number().int(),
+  fileId: z.number().int(),
+  status: z.enum(["pending", "processing", "completed", "failed"]),
+  rawText: z.string().optional(),
+  text: z.string().optional(),
+  language: z.string().optional(),
+  duration: z.number().optional(),
+  error: z.string().optional(),
+  processingTime: z.number().optional(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+});
+
+const backupSegmentSchema = z.object({
+  id: z.number().int(),
+  transcriptId: z.number().int(),
+  start: z.number(),
+  end: z.number(),
+  text: z.string(),
+  normalizedText: z.string().optional(),
+  translation: z.string().optional(),
+  romaji: z.string().optional(),
+  annotations: z.array(z.string()).optional(),
+  furigana: z.string().optional(),
+  wordTimestamps: z.array(wordTimestampSchema).optional(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+});
+
+const backupRecordingSchema = z.object({
+  id: z.number().int(),
+  fileId: z.number().int(),
+  segmentId: z.number().int(),
+  duration: z.number(),
+  createdAt: dateSchema,
+  blob: blobRefSchema,
+});
+
+const backupPronunciationScoreSchema = z.object({
+  id: z.number().int(),
+  fileId: z.number().int(),
+  segmentId: z.number().int(),
+  recordingId: z.number().int().optional(),
+  score: z.number(),
+  accuracy: z.number(),
+  rhythm: z.number(),
+  words: z.array(
+    z.object({
+      word: z.string(),
+      spoken: z.string().optional(),
+      accuracy: z.number(),
+      timingOffset: z.number().optional(),
+      confidence: z.number().optional(),
+    }),
+  ),
+  extraWords: z.array(z.string()),
+  transcript: z.string(),
+  createdAt: dateSchema,
+});
+
+const backupReviewCardSchema = z.object({
+  id: z.number().int(),
+  fileId: z.number().int(),
+  segmentId: z.number().int(),
+  start: z.number(),
+  end: z.number(),
+  text: z.string(),
+  ease: z.number(),
+  interval: z.number(),
+  repetitions: z.number().int(),
+  lapses: z.number().int(),
+  due: dateSchema,
+  lastReviewedAt: dateSchema.optional(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+});
+
+const backupVocabularySchema = z.object({
+  id: z.number().int(),
+  language: z.string(),
+  lemma: z.string(),
+  reading: z.string().optional(),
+  partOfSpeech: z.string().optional(),
+  gloss: z.string().optional(),
+  level: z.string().optional(),
+  known: z.boolean(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+});
+
+const backupVocabularyOccurrenceSchema = z.object({
+  id: z.number().int(),
+  vocabularyId: z.number().int(),
+  fileId: z.number().int(),
+  segmentId: z.number().int(),
+  surface: z.string(),
+});
+
+const backupCollectionSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+});
+
+const backupCollectionItemSchema = z.object({
+  id: z.number().int(),
+  collectionId: z.number().int(),
+  fileId: z.number().int(),
+  position: z.number(),
+  addedAt: dateSchema,
+});
+
+const backupFileTagSchema = z.object({
+  id: z.number().int(),
+  fileId: z.number().int(),
+  tag: z.string(),
+  createdAt: dateSchema,
+});
+
+const backupPodcastSubscriptionSchema = z.object({
+  id: z.number().int(),
+  feedUrl: z.string(),
+  title: z.string(),
+  author: z.string().optional(),
+  imageUrl: z.string().optional(),
+  subscribedAt: dateSchema,
+  lastCheckedAt: dateSchema.optional(),
+});
+
+// 后来加入的表在旧版归档中不存在，默认为空
+const backupManifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  schemaVersion: z.number().int().positive(),
+  dbVersion: z.number().int().positive(),
+  exportedAt: z.string(),
+  files: z.array(backupFileSchema),
+  transcripts: z.array(backupTranscriptSchema),
+  segments: z.array(backupSegmentSchema),
+  shadowingRecordings: z.array(backupRecordingSchema).default([]),
+  pronunciationScores: z.array(backupPronunciationScoreSchema).default([]),
+  reviewCards: z.array(backupReviewCardSchema).default([]),
+  vocabulary: z.array(backupVocabularySchema).default([]),
+  vocabularyOccurrences: z.array(backupVocabularyOccurrenceSchema).default([]),
+  collections: z.array(backupCollectionSchema).default([]),
+  collectionItems: z.array(backupCollectionItemSchema).default([]),
+  fileTags: z.array(backupFileTagSchema).default([]),
+  podcastSubscriptions: z.array(backupPodcastSubscriptionSchema).default([]),
+  settings: z.record(z.string(), z.string()).default({}),
+});
+
+export type BackupManifest = z.infer<typeof backupManifestSchema>;
+
+type BackupBlobRef = z.infer<typeof blobRefSchema>;
+
+/**
+ * 读取 Blob 内容（FileReader 兼容性最好）
+ */
+function readBlobAsArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error ?? new Error("读取备份文件失败"));
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * 取出归档中 offset / size 引用的数据
+ */
+function slicePayload(archive: Blob, payloadOffset: number, ref: BackupBlobRef): Blob {
+  const start = payloadOffset + ref.offset;
+  return archive.slice(start, start + ref.size, ref.type);
+}
+
+function collectSettings(): Record<string, string> {
+  const settings: Record<string, string> = {};
+  if (typeof localStorage === "undefined") return settings;
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(SETTINGS_KEY_PREFIX)) continue;
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  }
+  return settings;
+}
+
+function restoreSettings(settings: Record<string, string>): number {
+  if (typeof localStorage === "undefined") return 0;
+
+  let count = 0;
+  for (const [key, value] of Object.entries(settings)) {
+    if (!key.startsWith(SETTINGS_KEY_PREFIX)) continue;
+    localStorage.setItem(key, value);
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 导出整个资料库为单个归档 Blob
+ */
+export async function exportLibraryBackup(): Promise<Blob> {
+  try {
+    const [
+      files,
+      transcripts,
+      segments,
+      recordings,
+      pronunciationScores,
+      reviewCards,
+      vocabulary,
+      vocabularyOccurrences,
+      collections,
+      collectionItems,
+      fileTags,
+      podcastSubscriptions,
+    ] = await db.transaction(
+      "r",
+      [
+        db.files,
+        db.transcripts,
+        db.segments,
+        db.shadowingRecordings,
+        db.pronunciationScores,
+        db.reviewCards,
+        db.vocabulary,
+        db.vocabularyOccurrences,
+        db.collections,
+        db.collectionItems,
+        db.fileTags,
+        db.podcastSubscriptions,
+      ],
+      () =>
+        Promise.all([
+          db.files.toArray(),
+          db.transcripts.toArray(),
+          db.segments.toArray(),
+          db.shadowingRecordings.toArray(),
+          db.pronunciationScores.toArray(),
+          db.reviewCards.toArray(),
+          db.vocabulary.toArray(),
+          db.vocabularyOccurrences.toArray(),
+          db.collections.toArray(),
+          db.collectionItems.toArray(),
+          db.fileTags.toArray(),
+          db.podcastSubscriptions.toArray(),
+        ]),
+    );
+
+    const payloads: Blob[] = [];
+    let offset = 0;
+    const appendPayload = (blob: Blob, fallbackType: string): BackupBlobRef => {
+      payloads.push(blob);
+      const ref = { offset, size: blob.size, type: blob.type || fallbackType };
+      offset += blob.size;
+      return ref;
+    };
+
+    const manifestFiles: Array<Omit<FileRow, "blob"> & { blob?: BackupBlobRef }> = [];
+
+    // 单独的音轨不写入归档，恢复后转录时直接使用原文件
+    for (const { blob: _blob, audioTrack: _audioTrack, ...file } of files) {
+      // 分块存储的文件拼接为完整音频写入归档
+      const blob = await DBUtils.getFileBlob({ ...file, blob: _blob });
+      if (!(blob instanceof Blob)) {
+        manifestFiles.push(file);
+        continue;
+      }
+
+      manifestFiles.push({ ...file, blob: appendPayload(blob, file.type) });
+    }
+
+    // 录音同样写入归档，读取不到数据的录音无法恢复，直接跳过
+    const manifestRecordings = recordings
+      .filter((recording) => recording.blob instanceof Blob)
+      .map(({ blob, ...recording }) => ({ ...recording, blob: appendPayload(blob, "audio/webm") }));
+
+    const manifest = {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      dbVersion: db.verno,
+      exportedAt: new Date().toISOString(),
+      files: manifestFiles,
+      transcripts,
+      segments,
+      shadowingRecordings: manifestRecordings,
+      pronunciationScores,
+      reviewCards,
+      vocabulary,
+      vocabularyOccurrences,
+      collections,
+      collectionItems,
+      fileTags,
+      podcastSubscriptions,
+      settings: collectSettings(),
+    };
+
+    const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+    const lengthBytes = new Uint8Array(4);
+    new DataView(lengthBytes.buffer).setUint32(0, manifestBytes.length, true);
+
+    return new Blob([MAGIC, lengthBytes, manifestBytes, ...payloads], {
+      type: "application/octet-stream",
+    });
+  } catch (error) {
+    throw handleError(error, "exportLibraryBackup");
+  }
+}
+
+/**
+ * 读取并校验归档的 manifest
+ */
+export async function readBackupManifest(
+  archive: Blob,
+): Promise<{ manifest: BackupManifest; payloadOffset: number }> {
+  if (archive.size < HEADER_SIZE) {
+    throw new Error("无效的备份文件");
+  }
+
+  const header = new Uint8Array(await readBlobAsArrayBuffer(archive.slice(0, HEADER_SIZE)));
+  const hasMagic = MAGIC.every((byte, index) => header[index] === byte);
+  if (!hasMagic) {
+    throw new Error("无效的备份文件");
+  }
+
+  const manifestLength = new DataView(header.buffer).getUint32(MAGIC.length, true);
+  const payloadOffset = HEADER_SIZE + manifestLength;
+  if (payloadOffset > archive.size) {
+    throw new Error("备份文件已损坏");
+  }
+
+  const manifestBuffer = await readBlobAsArrayBuffer(archive.slice(HEADER_SIZE, payloadOffset));
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(manifestBuffer));
+  } catch {
+    throw new Error("备份文件已损坏");
+  }
+
+  const parsed = backupManifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`备份文件格式不正确: ${parsed.error.issues[0]?.message ?? "未知错误"}`);
+  }
+
+  const manifest = parsed.data;
+  if (manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error("备份文件来自更新版本的应用，请先升级后再导入");
+  }
+  if (manifest.dbVersion > db.verno) {
+    throw new Error(`备份文件的数据库版本 (${manifest.dbVersion}) 高于当前版本 (${db.verno})`);
+  }
+
+  // 引用完整性校验
+  const fileIds = new Set(manifest.files.map((file) => file.id));
+  const transcriptIds = new Set(manifest.transcripts.map((transcript) => transcript.id));
+  if (manifest.transcripts.some((transcript) => !fileIds.has(transcript.fileId))) {
+    throw new Error("备份文件已损坏：转录引用了不存在的文件");
+  }
+  if (manifest.segments.some((segment) => !transcriptIds.has(segment.transcriptId))) {
+    throw new Error("备份文件已损坏：字幕引用了不存在的转录");
+  }
+
+  const payloadSize = archive.size - payloadOffset;
+  const blobRefs = [
+    ...manifest.files.map((file) => file.blob),
+    ...manifest.shadowingRecordings.map((recording) => recording.blob),
+  ];
+  if (blobRefs.some((ref) => ref && ref.offset + ref.size > payloadSize)) {
+    throw new Error("备份文件已损坏：音频数据不完整");
+  }
+
+  return { manifest, payloadOffset };
+}
+
+/**
+ * 从归档导入资料库
+ * merge: 保留现有数据，同名同类型同大小的文件会被跳过；replace: 先清空再导入
+ * 所有记录都会分配新的 ID，并同步更新 fileId / transcriptId / segmentId 引用
+ */
+export async function importLibraryBackup(
+  archive: Blob,
+  options: { mode?: BackupImportMode } = {},
+): Promise<BackupImportResult> {
+  const mode = options.mode ?? "merge";
+  const { manifest, payloadOffset } = await readBackupManifest(archive);
+
+  try {
+    const tables = [
+      db.files,
+      db.transcripts,
+      db.segments,
+      db.fileChunks,
+      db.transcriptionQueue,
+      db.shadowingRecordings,
+      db.pronunciationScores,
+      db.reviewCards,
+      db.vocabulary,
+      db.vocabularyOccurrences,
+      db.searchIndex,
+      db.waveforms,
+      db.pitchContours,
+      db.collections,
+      db.collectionItems,
+      db.fileTags,
+      db.podcastSubscriptions,
+    ];
+    const result = await db.transaction("rw", tables, async () => {
+      if (mode === "replace") {
+        await db.segments.clear();
+        await db.transcripts.clear();
+        await db.fileChunks.clear();
+        await db.transcriptionQueue.clear();
+        await db.shadowingRecordings.clear();
+        await db.pronunciationScores.clear();
+        await db.reviewCards.clear();
+        await db.vocabulary.clear();
+        await db.vocabularyOccurrences.clear();
+        await db.searchIndex.clear();
+        await db.waveforms.clear();
+        await db.pitchContours.clear();
+        await db.collections.clear();
+        await db.collectionItems.clear();
+        await db.fileTags.clear();
+        await db.podcastSubscriptions.clear();
+        await db.files.clear();
+      }
+
+      const fileIdMap = new Map<number, number>();
+      const transcriptIdMap = new Map<number, number>();
+      let skippedFiles = 0;
+
+      for (const {
+        id,
+        blob: blobRef,
+        isChunked,
+        chunkSize,
+        totalChunks: _totalChunks,
+        ...file
+      } of manifest.files) {
+        if (mode === "merge") {
+          const existing = await db.files
+            .where("[name+type]")
+            .equals([file.name, file.type])
+            .filter((row) => row.size === file.size)
+            .first();
+          if (existing) {
+            skippedFiles++;
+            continue;
+          }
+        }
+
+        const row: FileRow = { ...file, updatedAt: file.updatedAt ?? file.uploadedAt };
+        const blob = blobRef ? slicePayload(archive, payloadOffset, blobRef) : undefined;
+
+        // 大文件恢复为分块存储
+        if (blob && (isChunked || blob.size > CHUNKED_STORAGE_THRESHOLD)) {
+          fileIdMap.set(id, await DBUtils.addChunkedFile(row, blob, chunkSize ?? AUDIO_CHUNK_SIZE));
+          continue;
+        }
+
+        fileIdMap.set(id, await db.files.add({ ...row, blob, isChunked: false }));
+      }
+
+      for (const { id, fileId, ...transcript } of manifest.transcripts) {
+        const newFileId = fileIdMap.get(fileId);
+        if (newFileId === undefined) continue;
+
+        const row: TranscriptRow = { ...transcript, fileId: newFileId };
+        transcriptIdMap.set(id, await db.transcripts.add(row));
+      }
+
+      const segments: Segment[] = [];
+      const segmentOldIds: number[] = [];
+      for (const { id, transcriptId, ...segment } of manifest.segments) {
+        const newTranscriptId = transcriptIdMap.get(transcriptId);
+        if (newTranscriptId === undefined) continue;
+        segments.push({ ...segment, transcriptId: newTranscriptId });
+        segmentOldIds.push(id);
+      }
+      const segmentIds = await db.segments.bulkAdd(segments, { allKeys: true });
+      const segmentIdMap = new Map(segmentOldIds.map((id, index) => [id, segmentIds[index]]));
+
+      const recordings: ShadowingRecordingRow[] = [];
+      const recordingOldIds: number[] = [];
+      for (const { id, fileId, segmentId, blob, ...recording } of manifest.shadowingRecordings) {
+        const newFileId = fileIdMap.get(fileId);
+        const newSegmentId = segmentIdMap.get(segmentId);
+        if (newFileId === undefined || newSegmentId === undefined) continue;
+        recordings.push({
+          ...recording,
+          fileId: newFileId,
+          segmentId: newSegmentId,
+          blob: slicePayload(archive, payloadOffset, blob),
+        });
+        recordingOldIds.push(id);
+      }
+      const recordingIds = await db.shadowingRecordings.bulkAdd(recordings, { allKeys: true });
+      const recordingIdMap = new Map(recordingOldIds.map((id, index) => [id, recordingIds[index]]));
+
+      // 评分在录音删除后仍然保留，对应的录音不存在时只去掉 recordingId
+      const scores: PronunciationScoreRow[] = [];
+      for (const {
+        id: _id,
+        fileId,
+        segmentId,
+        recordingId,
+        ...score
+      } of manifest.pronunciationScores) {
+        const newFileId = fileIdMap.get(fileId);
+        const newSegmentId = segmentIdMap.get(segmentId);
+        if (newFileId === undefined || newSegmentId === undefined) continue;
+        scores.push({
+          ...score,
+          fileId: newFileId,
+          segmentId: newSegmentId,
+          recordingId: recordingId === undefined ? undefined : recordingIdMap.get(recordingId),
+        });
+      }
+      await db.pronunciationScores.bulkAdd(scores);
+
+      // 复习卡片连同调度状态一起恢复；字幕段已不存在的卡片用 0 占位，之后按时间范围重新关联
+      const cards: ReviewCardRow[] = [];
+      for (const { id: _id, fileId, segmentId, ...card } of manifest.reviewCards) {
+        const newFileId = fileIdMap.get(fileId);
+        if (newFileId === undefined) continue;
+        cards.push({ ...card, fileId: newFileId, segmentId: segmentIdMap.get(segmentId) ?? 0 });
+      }
+      await db.reviewCards.bulkAdd(cards);
+
+      // 合并时词典中已有的单词（同语言同词典形）沿用现有记录
+      const vocabularyIdMap = new Map<number, number>();
+      for (const { id, ...entry } of manifest.vocabulary) {
+        const existing =
+          mode === "merge"
+            ? await db.vocabulary
+                .where("[language+lemma]")
+                .equals([entry.language, entry.lemma])
+                .first()
+            : undefined;
+        vocabularyIdMap.set(id, existing?.id ?? (await db.vocabulary.add(entry)));
+      }
+
+      const occurrences: VocabularyOccurrenceRow[] = [];
+      for (const {
+        id: _id,
+        vocabularyId,
+        fileId,
+        segmentId,
+        ...occurrence
+      } of manifest.vocabularyOccurrences) {
+        const newVocabularyId = vocabularyIdMap.get(vocabularyId);
+        const newFileId = fileIdMap.get(fileId);
+        const newSegmentId = segmentIdMap.get(segmentId);
+        if (
+          newVocabularyId === undefined ||
+          newFileId === undefined ||
+          newSegmentId === undefined
+        ) {
+          continue;
+        }
+        occurrences.push({
+          ...occurrence,
+          vocabularyId: newVocabularyId,
+          fileId: newFileId,
+          segmentId: newSegmentId,
+        });
+      }
+      await db.vocabularyOccurrences.bulkAdd(occurrences);
+
+      // 合并时同名合集沿用现有记录，导入的文件排在合集已有文件之后
+      const collectionIdMap = new Map<number, number>();
+      const positionOffsets = new Map<number, number>();
+      for (const { id, ...collection } of manifest.collections) {
+        const existing =
+          mode === "merge"
+            ? await db.collections.where("name").equals(collection.name).first()
+            : undefined;
+        if (existing?.id !== undefined) {
+          collectionIdMap.set(id, existing.id);
+          positionOffsets.set(
+            existing.id,
+            await db.collectionItems.where("collectionId").equals(existing.id).count(),
+          );
+        } else {
+          collectionIdMap.set(id, await db.collections.add(collection));
+        }
+      }
+
+      const items: CollectionItemRow[] = [];
+      for (const { id: _id, collectionId, fileId, ...item } of manifest.collectionItems) {
+        const newCollectionId = collectionIdMap.get(collectionId);
+        const newFileId = fileIdMap.get(fileId);
+        if (newCollectionId === undefined || newFileId === undefined) continue;
+        items.push({
+          ...item,
+          collectionId: newCollectionId,
+          fileId: newFileId,
+          position: item.position + (positionOffsets.get(newCollectionId) ?? 0),
+        });
+      }
+      await db.collectionItems.bulkAdd(items);
+
+      const tags: FileTagRow[] = [];
+      for (const { id: _id, fileId, ...tag } of manifest.fileTags) {
+        const newFileId = fileIdMap.get(fileId);
+        if (newFileId === undefined) continue;
+        tags.push({ ...tag, fileId: newFileId });
+      }
+      await db.fileTags.bulkAdd(tags);
+
+      // 合并时已订阅的订阅源保留现有记录
+      for (const { id: _id, ...subscription } of manifest.podcastSubscriptions) {
+        const existing =
+          mode === "merge"
+            ? await db.podcastSubscriptions.where("feedUrl").equals(subscription.feedUrl).first()
+            : undefined;
+        if (!existing) {
+          await db.podcastSubscriptions.add(subscription);
+        }
+      }
+
+      return {
+        files: fileIdMap.size,
+        transcripts: transcriptIdMap.size,
+        segments: segments.length,
+        skippedFiles,
+      };
+    });
+
+    return { ...result, settings: restoreSettings(manifest.settings) };
+  } catch (error) {
+    throw handleError(error, "importLibraryBackup");
+  }
+}
+
+/**
+ * 生成备份文件名，例如 umuo-backup-2025-01-01.umuo
+ */
+export function getBackupFileName(date: Date = new Date()): string {
+  return `${BACKUP_FORMAT}-${date.toISOString().slice(0, 10)}${BACKUP_FILE_EXTENSION}`;
+}
@@ -0,0 +1,78 @@
+/**
+ * 播客订阅
+ * 只保存订阅源地址和节目信息，单集列表每次打开时重新拉取
+ */
+
+import { db } from "@/lib/db/db";
+import { handleError } from "@/lib/utils/error-handler";
+import type { PodcastSubscriptionRow } from "@/types/db/database";
+
+export type PodcastSubscription = PodcastSubscriptionRow & { id: number };
+
+/**
+ * 所有订阅，按节目名排序
+ */
+export async function getPodcastSubscriptions(): Promise<PodcastSubscription[]> {
+  try {
+    const rows = await db.podcastSubscriptions.toArray();
+    return rows
+      .filter((row): row is PodcastSubscription => Boolean(row.id))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  } catch (error) {
+    throw handleError(error, "getPodcastSubscriptions");
+  }
+}
+
+/**
+ * 订阅节目；已订阅时更新节目信息
+ */
+export async function subscribeToPodcast(feed: {
+  feedUrl: string;
+  title: string;
+  author?: string;
+  imageUrl?: string;
+}): Promise<number> {
+  try {
+    return await db.transaction("rw", db.podcastSubscriptions, async () => {
+      const { feedUrl, title, author, imageUrl } = feed;
+      const existing = await db.podcastSubscriptions.where("feedUrl").equals(feedUrl).first();
+      if (existing?.id) {
+        await db.podcastSubscriptions.update(existing.id, { title, author, imageUrl });
+        return existing.id;
+      }
+      const now = new Date();
+      return db.podcastSubscriptions.add({
+        feedUrl,
+        title,
+        author,
+        imageUrl,
+        subscribedAt: now,
+        lastCheckedAt: now,
+      });
+    });
+  } catch (error) {
+    throw handleError(error, "subscribeToPodcast");
+  }
+}
+
+export async function unsubscribeFromPodcast(id: number): Promise<void> {
+  try {
+    await db.podcastSubscriptions.delete(id);
+  } catch (error) {
+    throw handleError(error, "unsubscribeFromPodcast");
+  }
+}
+
+/**
+ * 记录最近一次查看单集列表的时间，之后发布的单集显示为新单集
+ */
+export async function markPodcastChecked(feedUrl: string): Promise<void> {
+  try {
+    await db.podcastSubscriptions
+      .where("feedUrl")
+      .equals(feedUrl)
+      .modify({ lastCheckedAt: new Date() });
+  } catch (error) {
+    throw handleError(error, "markPodcastChecked");
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * 复习卡片
+ * 收藏的字幕段按 SM-2 算法安排复习；卡片保存收藏时的时间范围，重新转录后据此重新关联字幕段
+ */
+
+import { db } from "@/lib/db/db";
+import { handleError } from "@/lib/utils/error-handler";
+import type { FileRow, ReviewCardRow, ReviewGrade, Segment } from "@/types/db/database";
+
+export const REVIEW_GRADES: readonly ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+export type ReviewSchedule = Pick<
+  ReviewCardRow,
+  "ease" | "interval" | "repetitions" | "lapses" | "due"
+>;
+
+export interface ReviewItem {
+  card: ReviewCardRow;
+  /** 当前转录中对应的字幕段，找不到时为 null */
+  segment: Segment | null;
+  file: FileRow | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+/** 忘记后重新学习的等待时间 */
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+/** 时间范围的重叠比例低于该值时视为找不到对应字幕段 */
+const MIN_SEGMENT_OVERLAP = 0.5;
+
+/**
+ * 根据回忆程度计算下一次复习的时间（SM-2 的简化变体，四档评价）
+ */
+export function scheduleReview(
+  card: ReviewSchedule,
+  grade: ReviewGrade,
+  now: Date = new Date(),
+): ReviewSchedule {
+  const { repetitions, lapses } = card;
+  let { ease, interval } = card;
+
+  if (grade === "again") {
+    return {
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      interval: 0,
+      repetitions: 0,
+      lapses: lapses + 1,
+      due: new Date(now.getTime() + RELEARN_DELAY_MS),
+    };
+  }
+
+  if (grade === "hard") {
+    ease = Math.max(MIN_EASE, ease - 0.15);
+    interval = repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+  } else if (grade === "good") {
+    interval =
+      repetitions === 0
+        ? 1
+        : repetitions === 1
+          ? 3
+          : Math.max(interval + 1, Math.round(interval * ease));
+  } else {
+    ease += 0.15;
+    interval = repetitions === 0 ? 4 : Math.max(interval + 1, Math.round(interval * ease * 1.3));
+  }
+
+  return {
+    ease,
+    interval,
+    repetitions: repetitions + 1,
+    lapses,
+    due: new Date(now.getTime() + interval * DAY_MS),
+  };
+}
+
+/**
+ * 评价按钮上显示的下次复习间隔
+ */
+export function formatReviewInterval(due: Date, now: Date = new Date()): string {
+  const minutes = Math.max(1, Math.round((due.getTime() - now.getTime()) / 60000));
+  if (minutes < 60) return `${minutes} 分钟`;
+
+  const days = Math.round(minutes / (24 * 60));
+  if (days < 1) return `${Math.round(minutes / 60)} 小时`;
+  if (days < 30) return `${days} 天`;
+  if (days < 365) return `${Math.round(days / 30)} 个月`;
+  return `${(days / 365).toFixed(1)} 年`;
+}
+
+/**
+ * 两个时间范围的重叠比例（交集 / 较短的范围）
+ * 字幕段被修剪或拆分后仍完整落在卡片范围内，不会因为变短而匹配不上
+ */
+export function getTimeRangeOverlap(
+  a: Pick<Segment, "start" | "end">,
+  b: Pick<Segment, "start" | "end">,
+): number {
+  const intersection = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  const shorter = Math.min(a.end - a.start, b.end - b.start);
+  return intersection > 0 && shorter > 0 ? intersection / shorter : 0;
+}
+
+/**
+ * 在当前字幕中查找卡片对应的字幕段：优先按 id，找不到时按时间范围重叠最多的字幕段
+ */
+export function findMatchingSegment(
+  card: Pick<ReviewCardRow, "segmentId" | "start" | "end">,
+  segments: Segment[],
+): Segment | null {
+  const sameId = segments.find((segment) => segment.id === card.segmentId);
+  if (sameId) return sameId;
+
+  let best: Segment | null = null;
+  let bestOverlap = 0;
+  for (const segment of segments) {
+    const overlap = getTimeRangeOverlap(card, segment);
+    // 比例相同时取靠前的字幕段，拆分后从卡片开头播放
+    if (overlap >= MIN_SEGMENT_OVERLAP && overlap > bestOverlap) {
+      best = segment;
+      bestOverlap = overlap;
+    }
+  }
+  return best;
+}
+
+/** 播放器展示的转录（与 useTranscriptionStatus 一致取第一条）中的字幕段 */
+async function getCurrentSegments(fileId: number): Promise<Segment[]> {
+  const transcript = await db.transcripts.where("fileId").equals(fileId).first();
+  if (!transcript?.id) return [];
+  return db.segments.where("transcriptId").equals(transcript.id).toArray();
+}
+
+/**
+ * 将文件的卡片重新关联到当前转录的字幕段，返回卡片及其字幕段
+ */
+async function resolveFileCards(
+  fileId: number,
+  cards: ReviewCardRow[],
+): Promise<Array<{ card: ReviewCardRow; segment: Segment | null }>> {
+  const segments = await getCurrentSegments(fileId);
+
+  return Promise.all(
+    cards.map(async (card) => {
+      const segment = findMatchingSegment(card, segments);
+      if (segment?.id && segment.id !== card.segmentId && card.id) {
+        const relinked = {
+          segmentId: segment.id,
+          start: segment.start,
+          end: segment.end,
+          text: segment.text,
+          updatedAt: new Date(),
+        };
+        await db.reviewCards.update(card.id, relinked);
+        return { card: { ...card, ...relinked }, segment };
+      }
+      return { card, segment };
+    }),
+  );
+}
+
+/**
+ * 收藏字幕段，已收藏时返回已有卡片的 id
+ */
+export async function addReviewCard(fileId: number, segment: Segment): Promise<number> {
+  try {
+    if (!segment.id) {
+      throw new Error("字幕段尚未保存，无法收藏");
+    }
+
+    const existing = await db.reviewCards
+      .where("[fileId+segmentId]")
+      .equals([fileId, segment.id])
+      .first();
+    if (existing?.id) return existing.id;
+
+    const now = new Date();
+    return await db.reviewCards.add({
+      fileId,
+      segmentId: segment.id,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+      ease: INITIAL_EASE,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      due: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+  } catch (error) {
+    throw handleError(error, "addReviewCard");
+  }
+}
+
+export async function removeReviewCard(id: number): Promise<void> {
+  try {
+    await db.reviewCards.delete(id);
+  } catch (error) {
+    throw handleError(error, "removeReviewCard");
+  }
+}
+
+/**
+ * 获取文件的全部卡片，并关联到当前转录的字幕段
+ */
+export async function getReviewCardsForFile(fileId: number): Promise<ReviewCardRow[]> {
+  try {
+    const cards = await db.reviewCards.where("fileId").equals(fileId).toArray();
+    const resolved = await resolveFileCards(fileId, cards);
+    return resolved.map(({ card }) => card);
+  } catch (error) {
+    throw handleError(error, "getReviewCardsForFile");
+  }
+}
+
+/**
+ * 获取到期的卡片，按到期时间排序
+ */
+export async function getDueReviewItems(now: Date = new Date()): Promise<ReviewItem[]> {
+  try {
+    const cards = await db.reviewCards.where("due").belowOrEqual(now).sortBy("due");
+    const fileIds = Array.from(new Set(cards.map((card) => card.fileId)));
+    const items = new Map<number, ReviewItem>();
+
+    for (const fileId of fileIds) {
+      const file = (await db.files.get(fileId)) ?? null;
+      const fileCards = cards.filter((card) => card.fileId === fileId);
+      for (const { card, segment } of await resolveFileCards(fileId, fileCards)) {
+        if (card.id) items.set(card.id, { card, segment, file });
+      }
+    }
+
+    return cards.flatMap((card) => {
+      const item = card.id ? items.get(card.id) : undefined;
+      return item ? [item] : [];
+    });
+  } catch (error) {
+    throw handleError(error, "getDueReviewItems");
+  }
+}
+
+export async function getReviewStats(
+  now: Date = new Date(),
+): Promise<{ total: number; due: number }> {
+  try {
+    const [total, due] = await Promise.all([
+      db.reviewCards.count(),
+      db.reviewCards.where("due").belowOrEqual(now).count(),
+    ]);
+    return { total, due };
+  } catch (error) {
+    throw handleError(error, "getReviewStats");
+  }
+}
+
+/**
+ * 记录一次复习结果并安排下一次复习
+ */
+export async function gradeReviewCard(
+  card: ReviewCardRow,
+  grade: ReviewGrade,
+  now: Date = new Date(),
+): Promise<ReviewCardRow> {
+  try {
+    if (!card.id) {
+      throw new Error("卡片不存在");
+    }
+
+    const updated: ReviewCardRow = {
+      ...card,
+      ...scheduleReview(card, grade, now),
+      lastReviewedAt: now,
+      updatedAt: now,
+    };
+    await db.reviewCards.put(updated);
+    return updated;
+  } catch (error) {
+    throw handleError(error, "gradeReviewCard");
+  }
+}
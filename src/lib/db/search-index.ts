@@ -0,0 +1,362 @@
+/**
+ * 全文搜索
+ * 对所有转录的原文、规范化文本和翻译建立倒排索引：拉丁文按单词切分，中日韩文字按单字和二元组切分
+ */
+
+import { db } from "@/lib/db/db";
+import { handleError } from "@/lib/utils/error-handler";
+import type { SearchIndexRow, Segment } from "@/types/db/database";
+
+const CJK_CHARS = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}ー々";
+const TOKEN_PATTERN = new RegExp(`[${CJK_CHARS}]+|(?:(?![${CJK_CHARS}])[\\p{L}\\p{N}])+`, "gu");
+const CJK_PATTERN = new RegExp(`^[${CJK_CHARS}]`, "u");
+
+/** 翻译命中的权重低于原文 */
+const TRANSLATION_WEIGHT = 0.6;
+/** 整个查询连续出现时的额外加分比例 */
+const PHRASE_BONUS = 0.5;
+const SNIPPET_RADIUS = 30;
+
+export interface QueryTerm {
+  term: string;
+  /** 输入中的最后一个拉丁单词按前缀匹配，便于边输入边搜索 */
+  prefix: boolean;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  segmentId: number;
+  fileId: number;
+  fileName: string;
+  start: number;
+  end: number;
+  score: number;
+  snippet: SnippetPart[];
+  /** 翻译中也有命中时的高亮片段 */
+  translationSnippet?: SnippetPart[];
+}
+
+function normalizeSearchText(text: string): string {
+  return text.normalize("NFKC").toLowerCase();
+}
+
+function splitTokens(text: string): string[] {
+  return normalizeSearchText(text).match(TOKEN_PATTERN) ?? [];
+}
+
+function isCjk(token: string): boolean {
+  return CJK_PATTERN.test(token);
+}
+
+function bigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length === 1) return chars;
+  return chars.slice(0, -1).map((char, index) => char + chars[index + 1]);
+}
+
+/**
+ * 索引用检索词：中日韩文字同时保存单字和二元组，使单字查询也能命中
+ */
+export function getIndexTerms(text: string): string[] {
+  const terms = new Set<string>();
+  for (const token of splitTokens(text)) {
+    if (isCjk(token)) {
+      for (const char of Array.from(token)) terms.add(char);
+      for (const gram of bigrams(token)) terms.add(gram);
+    } else {
+      terms.add(token);
+    }
+  }
+  return Array.from(terms);
+}
+
+/**
+ * 查询用检索词：中日韩文字只用二元组（单字时用单字），所有检索词都需命中
+ */
+export function getQueryTerms(query: string): QueryTerm[] {
+  const tokens = splitTokens(query);
+  const endsWithWord = /[\p{L}\p{N}]$/u.test(query);
+  const terms = new Map<string, QueryTerm>();
+
+  tokens.forEach((token, index) => {
+    if (isCjk(token)) {
+      for (const gram of bigrams(token)) {
+        terms.set(gram, { term: gram, prefix: false });
+      }
+      return;
+    }
+    const prefix = endsWithWord && index === tokens.length - 1;
+    const existing = terms.get(token);
+    terms.set(token, { term: token, prefix: prefix && !existing });
+  });
+
+  return Array.from(terms.values());
+}
+
+/**
+ * 字幕段中参与搜索的字段内容，原文与规范化文本相同时只取一次
+ */
+function getSearchableText(segment: Segment): string {
+  const parts = [segment.text];
+  if (segment.normalizedText && segment.normalizedText !== segment.text) {
+    parts.push(segment.normalizedText);
+  }
+  if (segment.translation) {
+    parts.push(segment.translation);
+  }
+  return parts.join("\n");
+}
+
+/** 字符串校验和（djb2），只用于判断内容是否变化 */
+function checksum(text: string): number {
+  let hash = 5381;
+  for (let index = 0; index < text.length; index++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(index)) | 0;
+  }
+  return hash;
+}
+
+export function buildSearchIndexRow(
+  segment: Segment & { id: number },
+  fileId: number,
+): SearchIndexRow {
+  const text = getSearchableText(segment);
+  return {
+    segmentId: segment.id,
+    fileId,
+    transcriptId: segment.transcriptId,
+    terms: getIndexTerms(text),
+    checksum: checksum(text),
+  };
+}
+
+/**
+ * 同步索引：为新增或内容变化的字幕段重建索引，并删除已不存在的字幕段
+ * @returns 重建和删除的行数
+ */
+export async function syncSearchIndex(): Promise<{ updated: number; removed: number }> {
+  try {
+    return await db.transaction("rw", db.segments, db.transcripts, db.searchIndex, async () => {
+      const [segments, transcripts, indexRows] = await Promise.all([
+        db.segments.toArray(),
+        db.transcripts.toArray(),
+        db.searchIndex.toArray(),
+      ]);
+
+      const fileByTranscript = new Map(
+        transcripts.flatMap((transcript) =>
+          transcript.id ? [[transcript.id, transcript.fileId] as const] : [],
+        ),
+      );
+      const indexed = new Map(indexRows.map((row) => [row.segmentId, row]));
+
+      const updates: SearchIndexRow[] = [];
+      const segmentIds = new Set<number>();
+      for (const segment of segments) {
+        const fileId = fileByTranscript.get(segment.transcriptId);
+        if (!segment.id || fileId === undefined) continue;
+        segmentIds.add(segment.id);
+
+        const existing = indexed.get(segment.id);
+        if (
+          existing &&
+          existing.fileId === fileId &&
+          existing.checksum === checksum(getSearchableText(segment))
+        ) {
+          continue;
+        }
+        updates.push(buildSearchIndexRow({ ...segment, id: segment.id }, fileId));
+      }
+
+      const removed = indexRows
+        .map((row) => row.segmentId)
+        .filter((segmentId) => !segmentIds.has(segmentId));
+
+      await db.searchIndex.bulkPut(updates);
+      await db.searchIndex.bulkDelete(removed);
+      return { updated: updates.length, removed: removed.length };
+    });
+  } catch (error) {
+    throw handleError(error, "syncSearchIndex");
+  }
+}
+
+function findMatchRanges(text: string, needles: string[]): Array<[number, number]> {
+  const haystack = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+
+  for (const needle of needles) {
+    if (!needle) continue;
+    let index = haystack.indexOf(needle);
+    while (index !== -1) {
+      ranges.push([index, index + needle.length]);
+      index = haystack.indexOf(needle, index + needle.length);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * 截取命中位置附近的文本并标出命中部分，没有命中时返回 null
+ */
+export function buildSnippet(
+  text: string,
+  query: string,
+  radius: number = SNIPPET_RADIUS,
+): SnippetPart[] | null {
+  const phrase = query.trim().toLowerCase();
+  const needles = [phrase, ...getQueryTerms(query).map((term) => term.term)];
+  const ranges = findMatchRanges(text, needles);
+  if (ranges.length === 0) return null;
+
+  const windowStart = Math.max(0, ranges[0][0] - radius);
+  const windowEnd = Math.min(text.length, Math.max(ranges[0][1], windowStart) + radius * 2);
+
+  const parts: SnippetPart[] = [];
+  let cursor = windowStart;
+  for (const [start, end] of ranges) {
+    if (start >= windowEnd) break;
+    const matchStart = Math.max(start, cursor);
+    if (matchStart > cursor) {
+      parts.push({ text: text.slice(cursor, matchStart), match: false });
+    }
+    const matchEnd = Math.min(end, windowEnd);
+    if (matchEnd > matchStart) {
+      parts.push({ text: text.slice(matchStart, matchEnd), match: true });
+    }
+    cursor = Math.max(cursor, matchEnd);
+  }
+  if (cursor < windowEnd) {
+    parts.push({ text: text.slice(cursor, windowEnd), match: false });
+  }
+
+  if (windowStart > 0) parts.unshift({ text: "…", match: false });
+  if (windowEnd < text.length) parts.push({ text: "…", match: false });
+  return parts;
+}
+
+function matchesTerm(fieldTerms: Set<string>, queryTerm: QueryTerm): boolean {
+  if (fieldTerms.has(queryTerm.term)) return true;
+  if (!queryTerm.prefix) return false;
+  for (const term of fieldTerms) {
+    if (term.startsWith(queryTerm.term)) return true;
+  }
+  return false;
+}
+
+function scoreField(
+  value: string | undefined,
+  query: string,
+  queryTerms: QueryTerm[],
+  idf: Map<string, number>,
+): number {
+  if (!value) return 0;
+
+  const fieldTerms = new Set(getIndexTerms(value));
+  let score = 0;
+  for (const queryTerm of queryTerms) {
+    if (matchesTerm(fieldTerms, queryTerm)) {
+      score += idf.get(queryTerm.term) ?? 0;
+    }
+  }
+
+  if (score > 0 && normalizeSearchText(value).includes(normalizeSearchText(query.trim()))) {
+    score *= 1 + PHRASE_BONUS;
+  }
+  return score;
+}
+
+/**
+ * 在所有转录中搜索，结果按相关度排序
+ * 所有检索词都需命中，得分为各检索词 IDF 之和，整句连续命中额外加分，翻译命中权重较低
+ */
+export async function searchLibrary(query: string, limit: number = 50): Promise<SearchResult[]> {
+  try {
+    const queryTerms = getQueryTerms(query);
+    if (queryTerms.length === 0) return [];
+
+    const total = await db.searchIndex.count();
+    const idf = new Map<string, number>();
+    let candidates = new Set<number>();
+
+    for (const [index, queryTerm] of queryTerms.entries()) {
+      const collection = queryTerm.prefix
+        ? db.searchIndex.where("terms").startsWith(queryTerm.term)
+        : db.searchIndex.where("terms").equals(queryTerm.term);
+      const postings = new Set(await collection.primaryKeys());
+
+      idf.set(queryTerm.term, Math.log(1 + (total - postings.size + 0.5) / (postings.size + 0.5)));
+      const previous = candidates;
+      candidates =
+        index === 0
+          ? postings
+          : new Set(Array.from(postings).filter((segmentId) => previous.has(segmentId)));
+      if (candidates.size === 0) return [];
+    }
+
+    const segmentIds = Array.from(candidates);
+    const [segments, indexRows] = await Promise.all([
+      db.segments.bulkGet(segmentIds),
+      db.searchIndex.bulkGet(segmentIds),
+    ]);
+    const files = await db.files.bulkGet(
+      Array.from(new Set(indexRows.flatMap((row) => (row ? [row.fileId] : [])))),
+    );
+    const fileNames = new Map(
+      files.flatMap((file) => (file?.id ? [[file.id, file.name] as const] : [])),
+    );
+
+    const results: SearchResult[] = [];
+    segments.forEach((segment, index) => {
+      const row = indexRows[index];
+      if (!segment?.id || !row) return;
+
+      const textScore = Math.max(
+        scoreField(segment.text, query, queryTerms, idf),
+        scoreField(segment.normalizedText, query, queryTerms, idf),
+      );
+      const translationScore =
+        scoreField(segment.translation, query, queryTerms, idf) * TRANSLATION_WEIGHT;
+
+      const displayText = segment.normalizedText || segment.text;
+      const snippet = buildSnippet(displayText, query) ??
+        buildSnippet(segment.text, query) ?? [{ text: displayText, match: false }];
+
+      results.push({
+        segmentId: segment.id,
+        fileId: row.fileId,
+        fileName: fileNames.get(row.fileId) ?? "",
+        start: segment.start,
+        end: segment.end,
+        score: textScore + translationScore,
+        snippet,
+        translationSnippet: segment.translation
+          ? (buildSnippet(segment.translation, query) ?? undefined)
+          : undefined,
+      });
+    });
+
+    return results
+      .sort(
+        (a, b) => b.score - a.score || a.fileName.localeCompare(b.fileName) || a.start - b.start,
+      )
+      .slice(0, limit);
+  } catch (error) {
+    throw handleError(error, "searchLibrary");
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * 字幕导出
+ * 将转录 segments 导出为 SRT / WebVTT / TSV / JSON，可选附带翻译、振假名和罗马音
+ */
+
+import { db } from "@/lib/db/db";
+import { handleError } from "@/lib/utils/error-handler";
+import { formatSrtTimestamp, formatVttTimestamp } from "@/lib/utils/subtitle-timestamp";
+import type { FileRow, Segment, TranscriptRow } from "@/types/db/database";
+
+export type SubtitleExportFormat = "srt" | "vtt" | "tsv" | "json";
+
+/** 可附加的注释字段 */
+export type SubtitleExtraField = "translation" | "furigana" | "romaji";
+
+/**
+ * 附加字段的输出方式
+ * lines: 作为原文下方的额外行；tracks: 每个字段单独导出一个字幕文件
+ */
+export type SubtitleExtraMode = "lines" | "tracks";
+
+export interface SubtitleExportOptions {
+  format: SubtitleExportFormat;
+  extras?: SubtitleExtraField[];
+  extrasMode?: SubtitleExtraMode;
+  /** 仅对 WebVTT 生效，使用 <c> 标签输出逐词时间 */
+  wordTiming?: boolean;
+}
+
+export interface ExportedSubtitleFile {
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export const SUBTITLE_EXPORT_FORMATS: Record<
+  SubtitleExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  srt: { label: "SRT", extension: "srt", mimeType: "application/x-subrip" },
+  vtt: { label: "WebVTT", extension: "vtt", mimeType: "text/vtt" },
+  tsv: { label: "TSV", extension: "tsv", mimeType: "text/tab-separated-values" },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+};
+
+export const SUBTITLE_EXTRA_FIELDS: Record<SubtitleExtraField, string> = {
+  translation: "翻译",
+  furigana: "振假名",
+  romaji: "罗马音",
+};
+
+const SUBTITLE_EXPORT_VERSION = "1.0.0";
+
+/**
+ * 将 furigana 字段转换为可读文本
+ * 兼容 JSON 数组（[{ text, reading }]）和纯文本两种存储形式
+ */
+export function furiganaToText(furigana?: string): string {
+  const trimmed = furigana?.trim();
+  if (!trimmed) return "";
+
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    if (Array.isArray(parsed)) {
+      return parsed
+        .map((entry) => {
+          if (typeof entry === "string") return entry;
+          if (entry && typeof entry === "object") {
+            const candidate = entry as Record<string, unknown>;
+            const reading = candidate.reading ?? candidate.text;
+            return typeof reading === "string" ? reading : "";
+          }
+          return "";
+        })
+        .join(" ")
+        .trim();
+    }
+  } catch (_error) {
+    // 非 JSON，按纯文本处理
+  }
+
+  return trimmed;
+}
+
+/**
+ * 读取 segment 上的附加字段文本
+ */
+export function getSegmentExtra(segment: Segment, field: SubtitleExtraField): string {
+  switch (field) {
+    case "translation":
+      return segment.translation?.trim() ?? "";
+    case "furigana":
+      return furiganaToText(segment.furigana);
+    case "romaji":
+      return segment.romaji?.trim() ?? "";
+  }
+}
+
+/**
+ * 组合 cue 文本：原文 + 可选的附加行
+ */
+function buildCueText(segment: Segment, extras: SubtitleExtraField[]): string {
+  const lines = [segment.text.trim()];
+  for (const field of extras) {
+    const value = getSegmentExtra(segment, field);
+    if (value) lines.push(value);
+  }
+  return lines.filter(Boolean).join("\n");
+}
+
+/**
+ * 生成带逐词时间的 WebVTT cue 文本
+ * 每个词前插入时间戳标签，例如 <00:00:01.200><c>word</c>
+ */
+function buildWordTimedText(segment: Segment): string | null {
+  const words = segment.wordTimestamps?.filter((word) => word.word.trim());
+  if (!words || words.length === 0) return null;
+
+  const separator = /\s/.test(segment.text.trim()) ? " " : "";
+
+  return words
+    .map((word, index) => {
+      const text = escapeVttText(word.word.trim());
+      const timestamp =
+        index > 0 && word.start > segment.start && word.start < segment.end
+          ? `<${formatVttTimestamp(word.start)}>`
+          : "";
+      return `${timestamp}<c>${text}</c>`;
+    })
+    .join(separator);
+}
+
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * 生成 SRT 内容
+ * @param getText 自定义每条 cue 的文本，返回空字符串时跳过该 cue
+ */
+export function segmentsToSrt(
+  segments: Segment[],
+  getText: (segment: Segment) => string = (segment) => segment.text.trim(),
+): string {
+  const cues = segments
+    .map((segment) => ({ segment, text: getText(segment) }))
+    .filter((cue) => cue.text);
+
+  return cues
+    .map(
+      ({ segment, text }, index) =>
+        `${index + 1}\n${formatSrtTimestamp(segment.start)} --> ${formatSrtTimestamp(segment.end)}\n${text}\n`,
+    )
+    .join("\n");
+}
+
+/**
+ * 生成 WebVTT 内容
+ */
+export function segmentsToVtt(
+  segments: Segment[],
+  getText: (segment: Segment) => string = (segment) => escapeVttText(segment.text.trim()),
+): string {
+  let vtt = "WEBVTT\n\n";
+
+  segments.forEach((segment) => {
+    const text = getText(segment);
+    if (!text) return;
+    vtt += `${formatVttTimestamp(segment.start)} --> ${formatVttTimestamp(segment.end)}\n${text}\n\n`;
+  });
+
+  return vtt;
+}
+
+/**
+ * 生成 TSV 内容，附加字段作为额外的列
+ */
+export function segmentsToTsv(segments: Segment[], extras: SubtitleExtraField[] = []): string {
+  const escapeCell = (value: string) => value.replace(/\t/g, " ").replace(/\r?\n/g, "\\n");
+  const header = ["start", "end", "text", ...extras].join("\t");
+
+  const rows = segments.map((segment) =>
+    [
+      segment.start.toFixed(3),
+      segment.end.toFixed(3),
+      escapeCell(segment.text.trim()),
+      ...extras.map((field) => escapeCell(getSegmentExtra(segment, field))),
+    ].join("\t"),
+  );
+
+  return `${[header, ...rows].join("\n")}\n`;
+}
+
+/**
+ * 生成无损 JSON 导出，保留 segment 的全部字段
+ */
+export function segmentsToJson(
+  segments: Segment[],
+  meta: { file?: FileRow; transcript?: TranscriptRow } = {},
+): string {
+  const { file, transcript } = meta;
+
+  return JSON.stringify(
+    {
+      version: SUBTITLE_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      file: file
+        ? { name: file.name, type: file.type, size: file.size, duration: file.duration }
+        : undefined,
+      transcript: transcript
+        ? {
+            language: transcript.language,
+            duration: transcript.duration,
+            rawText: transcript.rawText,
+            text: transcript.text,
+            processingTime: transcript.processingTime,
+            createdAt: transcript.createdAt,
+            updatedAt: transcript.updatedAt,
+          }
+        : undefined,
+      segments: segments.map(({ id: _id, transcriptId: _transcriptId, ...segment }) => segment),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * 按选项生成导出文件
+ * 当附加字段以 tracks 方式输出时，会为每个字段额外生成一个字幕文件
+ */
+export function buildSubtitleExport(
+  segments: Segment[],
+  baseName: string,
+  options: SubtitleExportOptions,
+  meta: { file?: FileRow; transcript?: TranscriptRow } = {},
+): ExportedSubtitleFile[] {
+  const { format, extras = [], extrasMode = "lines", wordTiming = false } = options;
+  const { extension, mimeType } = SUBTITLE_EXPORT_FORMATS[format];
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+
+  if (format === "json") {
+    return [
+      { fileName: `${baseName}.${extension}`, mimeType, content: segmentsToJson(sorted, meta) },
+    ];
+  }
+
+  if (format === "tsv") {
+    return [
+      { fileName: `${baseName}.${extension}`, mimeType, content: segmentsToTsv(sorted, extras) },
+    ];
+  }
+
+  const lineExtras = extrasMode === "lines" ? extras : [];
+  const render = (getText: (segment: Segment) => string) =>
+    format === "srt" ? segmentsToSrt(sorted, getText) : segmentsToVtt(sorted, getText);
+
+  const mainText = (segment: Segment) => {
+    if (format === "vtt") {
+      const timed = wordTiming ? buildWordTimedText(segment) : null;
+      const extraLines = lineExtras
+        .map((field) => escapeVttText(getSegmentExtra(segment, field)))
+        .filter(Boolean);
+      return [timed ?? escapeVttText(segment.text.trim()), ...extraLines]
+        .filter(Boolean)
+        .join("\n");
+    }
+    return buildCueText(segment, lineExtras);
+  };
+
+  const files: ExportedSubtitleFile[] = [
+    { fileName: `${baseName}.${extension}`, mimeType, content: render(mainText) },
+  ];
+
+  if (extrasMode === "tracks") {
+    for (const field of extras) {
+      const hasContent = sorted.some((segment) => getSegmentExtra(segment, field));
+      if (!hasContent) continue;
+
+      files.push({
+        fileName: `${baseName}.${field}.${extension}`,
+        mimeType,
+        content: render((segment) => {
+          const value = getSegmentExtra(segment, field);
+          return format === "vtt" ? escapeVttText(value) : value;
+        }),
+      });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * 导出指定文件的转录内容
+ */
+export async function exportTranscriptForFile(
+  fileId: number,
+  options: SubtitleExportOptions,
+): Promise<ExportedSubtitleFile[]> {
+  try {
+    const file = await db.files.get(fileId);
+    if (!file) {
+      throw new Error("文件不存在");
+    }
+
+    const transcript = await db.transcripts.where("fileId").equals(fileId).first();
+    if (!transcript?.id) {
+      throw new Error("该文件还没有转录内容");
+    }
+
+    const segments = await db.segments.where("transcriptId").equals(transcript.id).toArray();
+    if (segments.length === 0) {
+      throw new Error("该文件还没有字幕内容");
+    }
+
+    const baseName = file.name.replace(/\.[^/.]+$/, "") || "transcript";
+    return buildSubtitleExport(segments, baseName, options, { file, transcript });
+  } catch (error) {
+    throw handleError(error, "exportTranscriptForFile");
+  }
+}
+
+/**
+ * 在浏览器中触发文件下载
+ */
+export function downloadExportedFiles(files: ExportedSubtitleFile[]): void {
+  for (const file of files) {
+    const blob = new Blob([file.content], { type: `${file.mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = file.fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
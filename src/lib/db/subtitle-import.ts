@@ -0,0 +1,331 @@
+/**
+ * 字幕导入
+ * 解析 SRT / WebVTT / ASS 字幕文件，直接生成已完成的转录记录和 segments，跳过转录 API 调用
+ */
+
+import { db } from "@/lib/db/db";
+import { parseTime } from "@/lib/db/subtitle-sync";
+import { handleError } from "@/lib/utils/error-handler";
+import type { Segment } from "@/types/db/database";
+
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+export interface ParsedCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SubtitleImportResult {
+  transcriptId: number;
+  format: SubtitleFormat;
+  segmentCount: number;
+  duration: number;
+}
+
+export const SUBTITLE_FILE_EXTENSIONS = [".srt", ".vtt", ".ass", ".ssa"] as const;
+
+const TIMING_LINE_PATTERN = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&apos;": "'",
+  "&nbsp;": " ",
+  "&lrm;": "",
+  "&rlm;": "",
+};
+
+/**
+ * 统一换行符并去除 BOM
+ */
+function normalizeContent(content: string): string {
+  return content.replace(/^﻿/, "").replace(/\r\n?/g, "\n");
+}
+
+/**
+ * 解析字幕时间戳
+ * SRT 使用逗号作为毫秒分隔符（00:01:02,500），统一转换后交给 parseTime 处理
+ */
+export function parseSubtitleTimestamp(raw: string): number | null {
+  const normalized = raw.trim().replace(",", ".");
+  if (!/^\d+(:\d+){1,2}(\.\d+)?$/.test(normalized)) {
+    return null;
+  }
+
+  const seconds = parseTime(normalized);
+  return Number.isFinite(seconds) ? seconds : null;
+}
+
+/**
+ * 去除 SRT / VTT 中的样式标签，保留纯文本
+ * 包括 <i> <b> <font> <c.class> <v Speaker> <ruby>、卡拉OK时间戳 <00:00:01.000> 以及 {\an8} 之类的 ASS 风格定位标记
+ * 先解码实体再去标签，避免 &lt;b&gt; 解码后以标签形式留在文本中
+ */
+function stripMarkupTags(text: string): string {
+  return text
+    .replace(/&(amp|lt|gt|quot|#39|apos|nbsp|lrm|rlm);/g, (entity) => HTML_ENTITIES[entity] ?? "")
+    .replace(/<rt>.*?<\/rt>/gi, "")
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "");
+}
+
+/**
+ * 规范化 cue 文本：去标签、逐行 trim、移除空行
+ */
+function cleanCueLines(lines: string[]): string {
+  return lines
+    .map((line) =>
+      stripMarkupTags(line)
+        .replace(/[ \t]+/g, " ")
+        .trim(),
+    )
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * 过滤无效 cue 并按开始时间排序
+ */
+function finalizeCues(cues: ParsedCue[]): ParsedCue[] {
+  return cues
+    .filter((cue) => cue.text.length > 0 && cue.end > cue.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * 解析 SRT / VTT 共用的 cue 块结构
+ * 每个块以空行分隔，包含可选的序号/标识行、时间轴行和若干文本行
+ */
+function parseCueBlocks(content: string): ParsedCue[] {
+  const cues: ParsedCue[] = [];
+  const blocks = content.split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING_LINE_PATTERN.test(line));
+    if (timingIndex === -1) continue;
+
+    const match = lines[timingIndex].match(TIMING_LINE_PATTERN);
+    if (!match) continue;
+
+    const start = parseSubtitleTimestamp(match[1]);
+    const end = parseSubtitleTimestamp(match[2]);
+    if (start === null || end === null) continue;
+
+    cues.push({
+      start,
+      end,
+      text: cleanCueLines(lines.slice(timingIndex + 1)),
+    });
+  }
+
+  return finalizeCues(cues);
+}
+
+/**
+ * 解析 SRT 字幕
+ */
+export function parseSrt(content: string): ParsedCue[] {
+  return parseCueBlocks(normalizeContent(content));
+}
+
+/**
+ * 解析 WebVTT 字幕
+ * 跳过文件头、NOTE / STYLE / REGION 块，时间轴行后的 cue 设置（align:start 等）会被忽略
+ */
+export function parseVtt(content: string): ParsedCue[] {
+  const blocks = normalizeContent(content)
+    .split(/\n{2,}/)
+    .filter((block) => {
+      const firstLine = block.trimStart().split("\n")[0] ?? "";
+      return !/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(firstLine);
+    });
+
+  return parseCueBlocks(blocks.join("\n\n"));
+}
+
+/**
+ * 解析 ASS / SSA 字幕
+ * 根据 [Events] 中的 Format 行定位 Start / End / Text 字段，Text 为最后一个字段且可能包含逗号
+ */
+export function parseAss(content: string): ParsedCue[] {
+  const cues: ParsedCue[] = [];
+  const lines = normalizeContent(content).split("\n");
+
+  let inEvents = false;
+  let fields = [
+    "Layer",
+    "Start",
+    "End",
+    "Style",
+    "Name",
+    "MarginL",
+    "MarginR",
+    "MarginV",
+    "Effect",
+    "Text",
+  ];
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+
+    if (/^\[.*\]$/.test(line)) {
+      inEvents = line.toLowerCase() === "[events]";
+      continue;
+    }
+
+    if (!inEvents) continue;
+
+    if (line.startsWith("Format:")) {
+      fields = line
+        .slice("Format:".length)
+        .split(",")
+        .map((field) => field.trim());
+      continue;
+    }
+
+    if (!line.startsWith("Dialogue:")) continue;
+
+    const values = line.slice("Dialogue:".length).split(",");
+    const textIndex = fields.indexOf("Text");
+    const startIndex = fields.indexOf("Start");
+    const endIndex = fields.indexOf("End");
+    if (textIndex === -1 || startIndex === -1 || endIndex === -1) continue;
+    if (values.length < fields.length) continue;
+
+    const start = parseSubtitleTimestamp(values[startIndex]);
+    const end = parseSubtitleTimestamp(values[endIndex]);
+    if (start === null || end === null) continue;
+
+    const rawText = values.slice(textIndex).join(",");
+    const text = rawText
+      .replace(/\{[^}]*\}/g, "")
+      .replace(/\\[Nn]/g, "\n")
+      .replace(/\\h/g, " ");
+
+    cues.push({ start, end, text: cleanCueLines(text.split("\n")) });
+  }
+
+  return finalizeCues(cues);
+}
+
+/**
+ * 根据文件名和内容判断字幕格式
+ */
+export function detectSubtitleFormat(content: string, fileName?: string): SubtitleFormat | null {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "srt") return "srt";
+  if (extension === "vtt") return "vtt";
+  if (extension === "ass" || extension === "ssa") return "ass";
+
+  const normalized = normalizeContent(content).trimStart();
+  if (normalized.startsWith("WEBVTT")) return "vtt";
+  if (/^\[Script Info\]/i.test(normalized) || /^Dialogue:/m.test(normalized)) return "ass";
+  if (/\d{1,2}:\d{2}:\d{2},\d{1,3}\s+-->/.test(normalized)) return "srt";
+
+  return null;
+}
+
+/**
+ * 解析字幕内容
+ */
+export function parseSubtitles(content: string, format: SubtitleFormat): ParsedCue[] {
+  switch (format) {
+    case "srt":
+      return parseSrt(content);
+    case "vtt":
+      return parseVtt(content);
+    case "ass":
+      return parseAss(content);
+  }
+}
+
+/**
+ * 将字幕文件导入到指定音频文件
+ * 生成状态为 completed 的转录记录并替换已有 segments
+ */
+export async function importSubtitlesForFile(
+  fileId: number,
+  content: string,
+  options: { fileName?: string; language?: string } = {},
+): Promise<SubtitleImportResult> {
+  const format = detectSubtitleFormat(content, options.fileName);
+  if (!format) {
+    throw new Error("不支持的字幕格式，请使用 SRT、VTT 或 ASS 文件");
+  }
+
+  const cues = parseSubtitles(content, format);
+  if (cues.length === 0) {
+    throw new Error("字幕文件中没有可用的字幕");
+  }
+
+  // 字幕可能重叠，最后开始的字幕不一定最后结束
+  const duration = Math.max(...cues.map((cue) => cue.end));
+  const rawText = cues.map((cue) => cue.text).join("\n");
+
+  try {
+    const transcriptId = await db.transaction(
+      "rw",
+      db.files,
+      db.transcripts,
+      db.segments,
+      async () => {
+        const file = await db.files.get(fileId);
+        if (!file) {
+          throw new Error("文件不存在");
+        }
+
+        const now = new Date();
+        const existing = await db.transcripts.where("fileId").equals(fileId).first();
+
+        let id: number;
+        if (existing?.id) {
+          id = existing.id;
+          await db.transcripts.update(id, {
+            status: "completed",
+            rawText,
+            text: rawText,
+            language: options.language ?? existing.language,
+            duration,
+            error: undefined,
+            processingTime: 0,
+            updatedAt: now,
+          });
+          await db.segments.where("transcriptId").equals(id).delete();
+        } else {
+          id = await db.transcripts.add({
+            fileId,
+            status: "completed",
+            rawText,
+            text: rawText,
+            language: options.language,
+            duration,
+            processingTime: 0,
+            createdAt: now,
+            updatedAt: now,
+          });
+        }
+
+        const segments: Segment[] = cues.map((cue) => ({
+          transcriptId: id,
+          start: cue.start,
+          end: cue.end,
+          text: cue.text,
+          createdAt: now,
+          updatedAt: now,
+        }));
+        await db.segments.bulkAdd(segments);
+
+        return id;
+      },
+    );
+
+    return { transcriptId, format, segmentCount: cues.length, duration };
+  } catch (error) {
+    throw handleError(error, "importSubtitlesForFile");
+  }
+}
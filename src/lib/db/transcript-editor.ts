@@ -0,0 +1,306 @@
+/**
+ * 字幕编辑
+ * 在播放器中修改文本、拆分、合并和调整字幕段边界；编辑在内存中进行，保存时一次性写入数据库
+ */
+
+import { db } from "@/lib/db/db";
+import { handleError } from "@/lib/utils/error-handler";
+import { generateWordTimestamps, smoothTimestamps } from "@/lib/utils/word-timestamp-service";
+import type { Segment, WordTimestamp } from "@/types/db/database";
+
+/** 编辑后字幕段的最短时长（秒） */
+export const MIN_SEGMENT_DURATION = 0.2;
+
+export interface TranscriptEditResult {
+  updated: number;
+  added: number;
+  removed: number;
+}
+
+/** 文本中包含空白时按空格连接，否则（中日文）直接拼接 */
+function joinText(first: string, second: string): string {
+  const separator = /\s/.test(`${first}${second}`.trim()) ? " " : "";
+  return `${first.trim()}${separator}${second.trim()}`;
+}
+
+function cloneTimestamps(timestamps: WordTimestamp[]): WordTimestamp[] {
+  return timestamps.map((timestamp) => ({ ...timestamp }));
+}
+
+/**
+ * 单词时间戳限制在字幕段范围内，并修正重叠和负时长
+ */
+function fitTimestamps(timestamps: WordTimestamp[], start: number, end: number): WordTimestamp[] {
+  return smoothTimestamps(
+    cloneTimestamps(timestamps).map((timestamp) => ({
+      ...timestamp,
+      start: Math.min(Math.max(timestamp.start, start), end),
+      end: Math.min(Math.max(timestamp.end, start), end),
+    })),
+  );
+}
+
+/**
+ * 把单词时间戳从旧的时间范围按比例缩放到新的时间范围
+ */
+export function rescaleWordTimestamps(
+  timestamps: WordTimestamp[],
+  from: { start: number; end: number },
+  to: { start: number; end: number },
+): WordTimestamp[] {
+  const fromDuration = from.end - from.start;
+  const ratio = fromDuration > 0 ? (to.end - to.start) / fromDuration : 0;
+  const scale = (time: number) => to.start + (time - from.start) * ratio;
+
+  return fitTimestamps(
+    timestamps.map((timestamp) => ({
+      ...timestamp,
+      start: scale(timestamp.start),
+      end: scale(timestamp.end),
+    })),
+    to.start,
+    to.end,
+  );
+}
+
+/**
+ * 修改字幕文本
+ * 单词数不变时保留原有时间，否则按新文本重新估算单词时间戳
+ */
+export function editSegmentText(segment: Segment, text: string): Segment {
+  const trimmed = text.trim();
+  if (!trimmed || trimmed === (segment.normalizedText || segment.text)) {
+    return segment;
+  }
+
+  let wordTimestamps = segment.wordTimestamps;
+  if (wordTimestamps?.length) {
+    const words = trimmed.split(/\s+/);
+    wordTimestamps =
+      words.length === wordTimestamps.length
+        ? wordTimestamps.map((timestamp, index) => ({ ...timestamp, word: words[index] }))
+        : smoothTimestamps(generateWordTimestamps(trimmed, segment.start, segment.end));
+  }
+
+  return {
+    ...segment,
+    text: trimmed,
+    normalizedText: segment.normalizedText ? trimmed : undefined,
+    furigana: undefined,
+    wordTimestamps,
+  };
+}
+
+/**
+ * 在指定时间把字幕段拆成两段
+ * 有单词时间戳时按单词中点分配文本，否则按时间比例在最近的空白处（或字符处）切开
+ * 翻译、注音和注释不再对应拆分后的文本，因此清空
+ * @returns 拆分后的两段，时间不在段内或拆分后过短时返回 null
+ */
+export function splitSegment(segment: Segment, time: number): [Segment, Segment] | null {
+  if (time - segment.start < MIN_SEGMENT_DURATION || segment.end - time < MIN_SEGMENT_DURATION) {
+    return null;
+  }
+
+  const text = segment.normalizedText || segment.text;
+  let firstText: string;
+  let secondText: string;
+  let firstWords: WordTimestamp[] | undefined;
+  let secondWords: WordTimestamp[] | undefined;
+
+  const timestamps = segment.wordTimestamps ?? [];
+  const splitIndex = timestamps.findIndex(
+    (timestamp) => (timestamp.start + timestamp.end) / 2 >= time,
+  );
+  if (timestamps.length > 1 && splitIndex > 0) {
+    const joiner = /\s/.test(text) ? " " : "";
+    firstWords = fitTimestamps(timestamps.slice(0, splitIndex), segment.start, time);
+    secondWords = fitTimestamps(timestamps.slice(splitIndex), time, segment.end);
+    firstText = firstWords.map((timestamp) => timestamp.word.trim()).join(joiner);
+    secondText = secondWords.map((timestamp) => timestamp.word.trim()).join(joiner);
+  } else {
+    const ratio = (time - segment.start) / (segment.end - segment.start);
+    if (/\s/.test(text)) {
+      const target = Math.round(text.length * ratio);
+      const before = text.lastIndexOf(" ", target);
+      const after = text.indexOf(" ", target);
+      const cut =
+        before <= 0 ? after : after === -1 || target - before <= after - target ? before : after;
+      firstText = cut > 0 ? text.slice(0, cut) : "";
+      secondText = cut > 0 ? text.slice(cut) : "";
+    } else {
+      const chars = Array.from(text);
+      const cut = Math.round(chars.length * ratio);
+      firstText = chars.slice(0, cut).join("");
+      secondText = chars.slice(cut).join("");
+    }
+  }
+
+  firstText = firstText.trim();
+  secondText = secondText.trim();
+  if (!firstText || !secondText) {
+    return null;
+  }
+
+  const base = {
+    ...segment,
+    normalizedText: undefined,
+    translation: undefined,
+    furigana: undefined,
+    annotations: undefined,
+    romaji: undefined,
+  };
+  return [
+    { ...base, end: time, text: firstText, wordTimestamps: firstWords },
+    { ...base, id: undefined, start: time, text: secondText, wordTimestamps: secondWords },
+  ];
+}
+
+/**
+ * 合并相邻的两段，保留第一段的 id
+ */
+export function mergeSegments(first: Segment, second: Segment): Segment {
+  const wordTimestamps =
+    first.wordTimestamps?.length || second.wordTimestamps?.length
+      ? smoothTimestamps(
+          cloneTimestamps([...(first.wordTimestamps ?? []), ...(second.wordTimestamps ?? [])]),
+        )
+      : undefined;
+
+  return {
+    ...first,
+    start: Math.min(first.start, second.start),
+    end: Math.max(first.end, second.end),
+    text: joinText(first.text, second.text),
+    normalizedText:
+      first.normalizedText && second.normalizedText
+        ? joinText(first.normalizedText, second.normalizedText)
+        : undefined,
+    translation:
+      first.translation && second.translation
+        ? `${first.translation.trim()} ${second.translation.trim()}`
+        : undefined,
+    annotations:
+      first.annotations || second.annotations
+        ? [...(first.annotations ?? []), ...(second.annotations ?? [])]
+        : undefined,
+    furigana: undefined,
+    romaji: undefined,
+    wordTimestamps,
+  };
+}
+
+/**
+ * 调整第 index 段的开始和结束时间
+ * 边界不能越过相邻字幕段，也不能短于最短时长；单词时间戳按比例缩放
+ */
+export function retimeSegment(
+  segments: Segment[],
+  index: number,
+  range: { start?: number; end?: number },
+): Segment[] {
+  const segment = segments[index];
+  if (!segment) return segments;
+
+  const previousEnd = segments[index - 1]?.end ?? 0;
+  const nextStart = segments[index + 1]?.start ?? Number.POSITIVE_INFINITY;
+
+  let start = Math.max(previousEnd, range.start ?? segment.start);
+  let end = Math.min(nextStart, range.end ?? segment.end);
+  if (end - start < MIN_SEGMENT_DURATION) {
+    if (range.start !== undefined) {
+      start = end - MIN_SEGMENT_DURATION;
+    } else {
+      end = start + MIN_SEGMENT_DURATION;
+    }
+  }
+  if (start === segment.start && end === segment.end) {
+    return segments;
+  }
+
+  const retimed: Segment = {
+    ...segment,
+    start,
+    end,
+    wordTimestamps: segment.wordTimestamps
+      ? rescaleWordTimestamps(segment.wordTimestamps, segment, { start, end })
+      : undefined,
+  };
+  return segments.map((item, itemIndex) => (itemIndex === index ? retimed : item));
+}
+
+function isSameSegment(a: Segment, b: Segment): boolean {
+  return (
+    a.start === b.start &&
+    a.end === b.end &&
+    a.text === b.text &&
+    a.normalizedText === b.normalizedText &&
+    a.translation === b.translation &&
+    a.furigana === b.furigana &&
+    JSON.stringify(a.annotations) === JSON.stringify(b.annotations) &&
+    JSON.stringify(a.wordTimestamps) === JSON.stringify(b.wordTimestamps)
+  );
+}
+
+/**
+ * 保存编辑结果：更新修改过的字幕段，添加拆分出的新段，删除被合并的段
+ * 被删除字幕段上的词汇出处转移到覆盖它的字幕段
+ */
+export async function saveTranscriptEdits(
+  transcriptId: number,
+  original: Segment[],
+  edited: Segment[],
+): Promise<TranscriptEditResult> {
+  try {
+    const tables = [db.segments, db.vocabularyOccurrences, db.pitchContours];
+    return await db.transaction("rw", tables, async () => {
+      const now = new Date();
+      const originalById = new Map(
+        original.flatMap((segment) => (segment.id ? [[segment.id, segment] as const] : [])),
+      );
+      const keptIds = new Set<number>();
+      const result: TranscriptEditResult = { updated: 0, added: 0, removed: 0 };
+
+      const survivors: Segment[] = [];
+      for (const segment of edited) {
+        if (segment.id && originalById.has(segment.id)) {
+          keptIds.add(segment.id);
+          survivors.push(segment);
+          const previous = originalById.get(segment.id);
+          if (previous && !isSameSegment(previous, segment)) {
+            await db.segments.put({ ...segment, transcriptId, updatedAt: now });
+            result.updated++;
+          }
+        } else {
+          const { id: _id, ...rest } = segment;
+          await db.segments.add({ ...rest, transcriptId, createdAt: now, updatedAt: now });
+          result.added++;
+        }
+      }
+
+      for (const [id, segment] of originalById) {
+        if (keptIds.has(id)) continue;
+
+        const middle = (segment.start + segment.end) / 2;
+        const target = survivors.find(
+          (survivor) => survivor.start <= middle && middle <= survivor.end,
+        );
+        if (target?.id) {
+          await db.vocabularyOccurrences
+            .where("segmentId")
+            .equals(id)
+            .modify({ segmentId: target.id });
+        } else {
+          await db.vocabularyOccurrences.where("segmentId").equals(id).delete();
+        }
+        await db.pitchContours.delete(id);
+        await db.segments.delete(id);
+        result.removed++;
+      }
+
+      return result;
+    });
+  } catch (error) {
+    throw handleError(error, "saveTranscriptEdits");
+  }
+}
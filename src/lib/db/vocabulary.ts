@@ -0,0 +1,261 @@
+/**
+ * 个人词典
+ * 保存后处理提取的词汇及其在字幕段中的出处，并记录单词是否已掌握
+ */
+
+import { normalizeWord } from "@/lib/ai/pronunciation-scoring";
+import { db } from "@/lib/db/db";
+import { handleError } from "@/lib/utils/error-handler";
+import type { VocabularyRow } from "@/types/db/database";
+import type { VocabularyEntry } from "@/types/transcription";
+
+export interface SegmentVocabulary {
+  segmentId: number;
+  entries: VocabularyEntry[];
+}
+
+export interface VocabularyListItem extends VocabularyRow {
+  /** 在所有字幕中出现的次数 */
+  occurrences: number;
+  /** 第一次出现的例句 */
+  example?: { fileId: number; segmentId: number; text: string };
+}
+
+export interface VocabularyFilter {
+  search?: string;
+  known?: boolean;
+  level?: string;
+}
+
+/**
+ * 新增或补全一个单词：已存在时只补全缺失的字段
+ */
+async function upsertVocabularyEntry(
+  language: string,
+  entry: VocabularyEntry,
+): Promise<{ id: number; added: boolean }> {
+  const now = new Date();
+  const existing = await db.vocabulary
+    .where("[language+lemma]")
+    .equals([language, entry.lemma])
+    .first();
+
+  if (existing?.id) {
+    await db.vocabulary.update(existing.id, {
+      reading: existing.reading ?? entry.reading,
+      partOfSpeech: existing.partOfSpeech ?? entry.partOfSpeech,
+      gloss: existing.gloss ?? entry.gloss,
+      level: existing.level ?? entry.level,
+      updatedAt: now,
+    });
+    return { id: existing.id, added: false };
+  }
+
+  const id = await db.vocabulary.add({
+    language,
+    lemma: entry.lemma,
+    reading: entry.reading,
+    partOfSpeech: entry.partOfSpeech,
+    gloss: entry.gloss,
+    level: entry.level,
+    known: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return { id, added: true };
+}
+
+/**
+ * 保存一个文件的词汇：重新生成该文件的出处
+ * @returns 新加入词典的单词数
+ */
+export async function saveFileVocabulary(
+  fileId: number,
+  language: string,
+  items: SegmentVocabulary[],
+): Promise<number> {
+  try {
+    return await db.transaction("rw", db.vocabulary, db.vocabularyOccurrences, async () => {
+      await db.vocabularyOccurrences.where("fileId").equals(fileId).delete();
+
+      let added = 0;
+      for (const { segmentId, entries } of items) {
+        for (const entry of entries) {
+          const result = await upsertVocabularyEntry(language, entry);
+          if (result.added) added++;
+
+          await db.vocabularyOccurrences.add({
+            vocabularyId: result.id,
+            fileId,
+            segmentId,
+            surface: entry.surface ?? entry.lemma,
+          });
+        }
+      }
+
+      return added;
+    });
+  } catch (error) {
+    throw handleError(error, "saveFileVocabulary");
+  }
+}
+
+/**
+ * 把单个单词加入词典，并记录它在字幕段中的出处
+ * @returns 单词 id
+ */
+export async function addVocabularyWord(
+  fileId: number,
+  segmentId: number,
+  language: string,
+  entry: VocabularyEntry,
+): Promise<number> {
+  try {
+    return await db.transaction("rw", db.vocabulary, db.vocabularyOccurrences, async () => {
+      const { id } = await upsertVocabularyEntry(language, entry);
+
+      const occurrences = await db.vocabularyOccurrences
+        .where("segmentId")
+        .equals(segmentId)
+        .toArray();
+      if (!occurrences.some((occurrence) => occurrence.vocabularyId === id)) {
+        await db.vocabularyOccurrences.add({
+          vocabularyId: id,
+          fileId,
+          segmentId,
+          surface: entry.surface ?? entry.lemma,
+        });
+      }
+
+      return id;
+    });
+  } catch (error) {
+    throw handleError(error, "addVocabularyWord");
+  }
+}
+
+/**
+ * 查找字幕段中某个单词对应的词典条目
+ * 先按该字幕段的出处匹配原形或句中形式，找不到时再按原形在整个词典中查找
+ */
+export async function findWordVocabulary(
+  segmentId: number,
+  language: string,
+  word: string,
+): Promise<VocabularyRow | undefined> {
+  try {
+    const form = normalizeWord(word);
+    if (!form) return undefined;
+
+    const occurrences = await db.vocabularyOccurrences
+      .where("segmentId")
+      .equals(segmentId)
+      .toArray();
+    const rows = await db.vocabulary.bulkGet(
+      occurrences.map((occurrence) => occurrence.vocabularyId),
+    );
+    const match = occurrences.findIndex(
+      (occurrence, index) =>
+        normalizeWord(occurrence.surface) === form ||
+        (rows[index] && normalizeWord(rows[index].lemma) === form),
+    );
+    if (match !== -1 && rows[match]) {
+      return rows[match];
+    }
+
+    return await db.vocabulary.where("[language+lemma]").equals([language, word.trim()]).first();
+  } catch (error) {
+    throw handleError(error, "findWordVocabulary");
+  }
+}
+
+/**
+ * 词典列表，按出现次数从多到少排序
+ */
+export async function getVocabularyList(
+  filter: VocabularyFilter = {},
+): Promise<VocabularyListItem[]> {
+  try {
+    const [rows, occurrences] = await Promise.all([
+      db.vocabulary.toArray(),
+      db.vocabularyOccurrences.toArray(),
+    ]);
+
+    const search = filter.search ? normalizeWord(filter.search) : "";
+    const matches = rows.filter((row) => {
+      if (filter.known !== undefined && row.known !== filter.known) return false;
+      if (filter.level && row.level !== filter.level) return false;
+      if (!search) return true;
+      return [row.lemma, row.reading, row.gloss].some((value) =>
+        value ? normalizeWord(value).includes(search) : false,
+      );
+    });
+
+    const occurrencesByWord = new Map<number, typeof occurrences>();
+    for (const occurrence of occurrences) {
+      const list = occurrencesByWord.get(occurrence.vocabularyId) ?? [];
+      list.push(occurrence);
+      occurrencesByWord.set(occurrence.vocabularyId, list);
+    }
+
+    const exampleSegmentIds = matches.flatMap((row) => {
+      const first = row.id ? occurrencesByWord.get(row.id)?.[0] : undefined;
+      return first ? [first.segmentId] : [];
+    });
+    const segments = await db.segments.bulkGet(exampleSegmentIds);
+    const segmentText = new Map(
+      segments.flatMap((segment) => (segment?.id ? [[segment.id, segment.text] as const] : [])),
+    );
+
+    return matches
+      .map((row) => {
+        const wordOccurrences = (row.id && occurrencesByWord.get(row.id)) || [];
+        const first = wordOccurrences[0];
+        const text = first ? segmentText.get(first.segmentId) : undefined;
+        return {
+          ...row,
+          occurrences: wordOccurrences.length,
+          example:
+            first && text ? { fileId: first.fileId, segmentId: first.segmentId, text } : undefined,
+        };
+      })
+      .sort((a, b) => b.occurrences - a.occurrences || a.lemma.localeCompare(b.lemma));
+  } catch (error) {
+    throw handleError(error, "getVocabularyList");
+  }
+}
+
+export async function setVocabularyKnown(id: number, known: boolean): Promise<void> {
+  try {
+    await db.vocabulary.update(id, { known, updatedAt: new Date() });
+  } catch (error) {
+    throw handleError(error, "setVocabularyKnown");
+  }
+}
+
+/**
+ * 文件中已掌握单词的所有形式（原形和句中形式），已按 normalizeWord 规范化
+ */
+export async function getKnownWordForms(fileId: number): Promise<Set<string>> {
+  try {
+    const occurrences = await db.vocabularyOccurrences.where("fileId").equals(fileId).toArray();
+    const words = await db.vocabulary.bulkGet(
+      Array.from(new Set(occurrences.map((occurrence) => occurrence.vocabularyId))),
+    );
+    const known = new Map(
+      words.flatMap((word) => (word?.id && word.known ? [[word.id, word] as const] : [])),
+    );
+
+    const forms = new Set<string>();
+    for (const occurrence of occurrences) {
+      const word = known.get(occurrence.vocabularyId);
+      if (!word) continue;
+      forms.add(normalizeWord(word.lemma));
+      forms.add(normalizeWord(occurrence.surface));
+    }
+    forms.delete("");
+    return forms;
+  } catch (error) {
+    throw handleError(error, "getKnownWordForms");
+  }
+}
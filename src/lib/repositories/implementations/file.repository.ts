@@ -1,3 +1,4 @@
+import { getCollectionFileIds, getFileIdsByTag, getUncollectedFileIds } from "@/lib/db/collections";
 import { db } from "@/lib/db/db";
 import type { FileRow } from "@/types/db/database";
 import { BaseRepository } from "../base.repository";
@@ -121,8 +122,11 @@ export class FileRepository extends BaseRepository<FileRow> implements IFileRepo
           return false;
         }
 
-        // 删除文件
-        await db.files.delete(id);
+        // 删除音频分块和文件
+        await db.transaction("rw", db.files, db.fileChunks, async () => {
+          await db.fileChunks.where("fileId").equals(id).delete();
+          await db.files.delete(id);
+        });
 
         return true;
       },
@@ -204,6 +208,52 @@ export class FileRepository extends BaseRepository<FileRow> implements IFileRepo
     );
   }
 
+  async findByCollection(collectionId: number): Promise<FileRow[]> {
+    this.validateId(collectionId);
+
+    return this.executeWithMetrics(
+      "findByCollection",
+      async () => {
+        // 按合集内的顺序返回
+        const fileIds = await getCollectionFileIds(collectionId);
+        const files = await db.files.bulkGet(fileIds);
+        return files.filter((file): file is FileRow => Boolean(file));
+      },
+      { collectionId },
+    );
+  }
+
+  async findUncollected(): Promise<FileRow[]> {
+    return this.executeWithMetrics("findUncollected", async () => {
+      const fileIds = await getUncollectedFileIds();
+      return await db.files.where("id").anyOf(fileIds).toArray();
+    });
+  }
+
+  async findByTag(tag: string): Promise<FileRow[]> {
+    return this.executeWithMetrics(
+      "findByTag",
+      async () => {
+        const fileIds = await getFileIdsByTag(tag);
+        return await db.files.where("id").anyOf(fileIds).toArray();
+      },
+      { tag },
+    );
+  }
+
+  async findTags(fileId: number): Promise<string[]> {
+    this.validateId(fileId);
+
+    return this.executeWithMetrics(
+      "findTags",
+      async () => {
+        const rows = await db.fileTags.where("fileId").equals(fileId).toArray();
+        return rows.map((row) => row.tag).sort((a, b) => a.localeCompare(b));
+      },
+      { fileId },
+    );
+  }
+
   async getTotalSize(): Promise<number> {
     return this.executeWithMetrics("getTotalSize", async () => {
       const files = await db.files.toArray();
@@ -1,4 +1,5 @@
 import { db } from "@/lib/db/db";
+import { segmentsToSrt, segmentsToVtt } from "@/lib/db/subtitle-export";
 import type { Segment } from "@/types/db/database";
 import { BaseRepository } from "../base.repository";
 import type { ISegmentRepository, QueryOptions } from "../interfaces/repository.interface";
@@ -299,14 +300,7 @@ export class SegmentRepository extends BaseRepository<Segment> implements ISegme
       "exportToSRT",
       async () => {
         const segments = await this.findByTranscriptId(transcriptId);
-
-        return segments
-          .map((segment, index) => {
-            const startTime = this.formatSRTTime(segment.start);
-            const endTime = this.formatSRTTime(segment.end);
-            return `${index + 1}\n${startTime} --> ${endTime}\n${segment.text}\n`;
-          })
-          .join("\n");
+        return segmentsToSrt(segments);
       },
       { transcriptId },
     );
@@ -317,35 +311,9 @@ export class SegmentRepository extends BaseRepository<Segment> implements ISegme
       "exportToVTT",
       async () => {
         const segments = await this.findByTranscriptId(transcriptId);
-
-        let vtt = "WEBVTT\n\n";
-        segments.forEach((segment) => {
-          const startTime = this.formatVTTTime(segment.start);
-          const endTime = this.formatVTTTime(segment.end);
-          vtt += `${startTime} --> ${endTime}\n${segment.text}\n\n`;
-        });
-
-        return vtt;
+        return segmentsToVtt(segments);
       },
       { transcriptId },
     );
   }
-
-  private formatSRTTime(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 1000);
-
-    return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")},${ms.toString().padStart(3, "0")}`;
-  }
-
-  private formatVTTTime(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 1000);
-
-    return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}.${ms.toString().padStart(3, "0")}`;
-  }
 }
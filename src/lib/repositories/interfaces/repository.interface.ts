@@ -91,6 +91,12 @@ export interface IFileRepository extends IRepository<FileRow> {
   findRecent(limit?: number): Promise<FileRow[]>;
   findByNamePattern(pattern: string): Promise<FileRow[]>;
 
+  // 合集与标签
+  findByCollection(collectionId: number): Promise<FileRow[]>;
+  findUncollected(): Promise<FileRow[]>;
+  findByTag(tag: string): Promise<FileRow[]>;
+  findTags(fileId: number): Promise<string[]>;
+
   // 统计方法
   getTotalSize(): Promise<number>;
   getAverageProcessingTime(): Promise<number>;
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_OPUS_PRE_SKIP,
+  downmixToMono,
+  muxOggOpus,
+  oggCrc,
+  readOpusPreSkip,
+  transcodeToCompactAudio,
+} from "../audio-transcode";
+
+interface ParsedPage {
+  headerType: number;
+  granulePosition: number;
+  sequence: number;
+  crcValid: boolean;
+  body: Uint8Array;
+}
+
+/** jsdom 的 Blob 没有 arrayBuffer()，改用 FileReader 读取 */
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/** 按 Ogg 页格式拆分文件，并校验每页的 CRC */
+function parseOggPages(bytes: Uint8Array): ParsedPage[] {
+  const pages: ParsedPage[] = [];
+  let offset = 0;
+  while (offset < bytes.length) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+    const segmentCount = view.getUint8(26);
+    const lacing = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    const bodySize = lacing.reduce((sum, value) => sum + value, 0);
+    const pageSize = 27 + segmentCount + bodySize;
+
+    const page = bytes.slice(offset, offset + pageSize);
+    const storedCrc = new DataView(page.buffer).getUint32(22, true);
+    page.fill(0, 22, 26);
+
+    pages.push({
+      headerType: view.getUint8(5),
+      granulePosition: view.getUint32(6, true) + view.getUint32(10, true) * 2 ** 32,
+      sequence: view.getUint32(18, true),
+      crcValid: oggCrc(page) === storedCrc,
+      body: bytes.slice(offset + 27 + segmentCount, offset + pageSize),
+    });
+    offset += pageSize;
+  }
+  return pages;
+}
+
+describe("audio-transcode", () => {
+  it("averages channels when downmixing", () => {
+    const mono = downmixToMono([new Float32Array([1, 0.5]), new Float32Array([0, -0.5])]);
+    expect(Array.from(mono)).toEqual([0.5, 0]);
+  });
+
+  it("computes the Ogg CRC", () => {
+    // 与 CRC-32/POSIX 相同但不做最终取反，标准校验串的结果为 ~0x765e7680
+    expect(oggCrc(new TextEncoder().encode("123456789"))).toBe(0x89a1897f);
+  });
+
+  it("muxes Opus packets into Ogg pages", async () => {
+    const packets = Array.from({ length: 120 }, (_, index) => ({
+      data: new Uint8Array(index === 0 ? 300 : 60).fill(index % 256),
+      duration: 960,
+    }));
+    // 120 个 20ms 的包共 2.4 秒，实际输入只有 2.39 秒
+    const blob = muxOggOpus(packets, 16000, 38240);
+    const pages = parseOggPages(await readBlob(blob));
+
+    expect(blob.type).toBe("audio/ogg");
+    expect(pages.every((page) => page.crcValid)).toBe(true);
+    expect(pages.map((page) => page.sequence)).toEqual(pages.map((_, index) => index));
+    expect(new TextDecoder().decode(pages[0].body.subarray(0, 8))).toBe("OpusHead");
+    expect(new TextDecoder().decode(pages[1].body.subarray(0, 8))).toBe("OpusTags");
+    expect(pages[0].headerType).toBe(0x02);
+    expect(pages[pages.length - 1].headerType).toBe(0x04);
+    // 3 个音频页：50 + 50 + 20 个包
+    expect(pages).toHaveLength(5);
+    expect(pages[2].granulePosition).toBe(DEFAULT_OPUS_PRE_SKIP + 50 * 960);
+    expect(pages[pages.length - 1].granulePosition).toBe(DEFAULT_OPUS_PRE_SKIP + 38240 * 3);
+  });
+
+  it("uses the encoder's pre-skip in the header and granule positions", async () => {
+    const packets = [{ data: new Uint8Array(60), duration: 960 }];
+    const pages = parseOggPages(await readBlob(muxOggOpus(packets, 48000, 960, 120)));
+
+    expect(readOpusPreSkip(pages[0].body)).toBe(120);
+    expect(pages[pages.length - 1].granulePosition).toBe(120 + 960);
+  });
+
+  it("reads pre-skip from an OpusHead description", () => {
+    const head = new Uint8Array(19);
+    head.set(new TextEncoder().encode("OpusHead"));
+    new DataView(head.buffer).setUint16(10, 3840, true);
+
+    expect(readOpusPreSkip(head.buffer)).toBe(3840);
+    expect(readOpusPreSkip(new Uint8Array(19))).toBeNull();
+  });
+
+  it("falls back to WAV when WebCodecs is unavailable", async () => {
+    const blob = await transcodeToCompactAudio(
+      [new Float32Array(1600), new Float32Array(1600)],
+      16000,
+    );
+
+    expect(blob.type).toBe("audio/wav");
+    expect(blob.size).toBe(44 + 1600 * 2);
+  });
+});
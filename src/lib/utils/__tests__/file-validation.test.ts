@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { detectFileType, resolveMediaType, validateExtensionMatch } from "../file-validation";
+
+/** 生成以 ftyp 盒开头的 MP4 文件头 */
+function mp4Header(brand: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(32);
+  bytes.set([0x00, 0x00, 0x00, 0x20], 0);
+  bytes.set(new TextEncoder().encode(`ftyp${brand}`), 4);
+  return bytes;
+}
+
+/** 生成带 Tracks 的 WebM 文件头，轨道类型 1 为视频、2 为音频 */
+function webmHeader(trackTypes: number[]): Uint8Array<ArrayBuffer> {
+  const entries = trackTypes.flatMap((type) => [0xae, 0x83, 0x83, 0x81, type]);
+  return new Uint8Array([
+    // EBML 头，DocType = "webm"
+    ...[0x1a, 0x45, 0xdf, 0xa3, 0x87, 0x42, 0x82, 0x84, 0x77, 0x65, 0x62, 0x6d],
+    // 大小未知的 Segment，和 MediaRecorder 的输出一样
+    ...[0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff],
+    ...[0x16, 0x54, 0xae, 0x6b, 0x80 | entries.length, ...entries],
+    ...[0x1f, 0x43, 0xb6, 0x75, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff],
+    ...[0x83, 0x81, 0x01],
+  ]);
+}
+
+describe("file-validation", () => {
+  describe("detectFileType", () => {
+    it("detects WebM videos by their video track", async () => {
+      const file = new File([webmHeader([1, 2])], "a.webm");
+      expect(await detectFileType(file)).toEqual({ type: "video/webm", confidence: 1 });
+    });
+
+    it("treats WebM without a video track as audio", async () => {
+      const file = new File([webmHeader([2])], "recording.webm", { type: "video/webm" });
+      expect((await detectFileType(file)).type).toBe("audio/webm");
+    });
+
+    it("falls back to the declared type when the WebM tracks are not readable", async () => {
+      const bytes = new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42]);
+
+      expect((await detectFileType(new File([bytes], "a.webm", { type: "video/webm" }))).type).toBe(
+        "video/webm",
+      );
+      expect((await detectFileType(new File([bytes], "a.webm"))).type).toBe("audio/webm");
+    });
+
+    it("distinguishes MP4 videos from M4A audio by brand", async () => {
+      const video = new File([mp4Header("isom")], "lecture.mp4");
+      const audio = new File([mp4Header("M4A ")], "episode.mp4");
+
+      expect((await detectFileType(video)).type).toBe("video/mp4");
+      expect((await detectFileType(audio)).type).toBe("audio/mp4");
+    });
+
+    it("treats generic MP4 brands with audio extensions as audio", async () => {
+      const file = new File([mp4Header("mp42")], "episode.m4a");
+      expect((await detectFileType(file)).type).toBe("audio/mp4");
+    });
+  });
+
+  describe("resolveMediaType", () => {
+    it("stores audio-only WebM declared as video as audio", async () => {
+      const audio = new File([webmHeader([2])], "recording.webm", { type: "video/webm" });
+      const video = new File([webmHeader([1])], "lecture.webm", { type: "video/webm" });
+
+      expect(await resolveMediaType(audio)).toBe("audio/webm");
+      expect(await resolveMediaType(video)).toBe("video/webm");
+    });
+  });
+
+  describe("validateExtensionMatch", () => {
+    it("accepts video extensions", () => {
+      expect(validateExtensionMatch(new File([], "lecture.mp4"), "video/mp4")).toBeNull();
+      expect(validateExtensionMatch(new File([], "lecture.webm"), "video/webm")).toBeNull();
+    });
+
+    it("rejects unsupported extensions", () => {
+      expect(validateExtensionMatch(new File([], "lecture.avi"), "unknown")?.code).toBe(
+        "UNSUPPORTED_EXTENSION",
+      );
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { isPublicAddress } from "../ip-address";
+
+describe("ip-address", () => {
+  describe("isPublicAddress", () => {
+    it("accepts public addresses", () => {
+      expect(isPublicAddress("8.8.8.8")).toBe(true);
+      expect(isPublicAddress("2606:4700:4700::1111")).toBe(true);
+      expect(isPublicAddress("[2001:4860:4860::8888]")).toBe(true);
+    });
+
+    it("rejects loopback, private, link-local and CGNAT IPv4", () => {
+      for (const address of [
+        "0.0.0.0",
+        "127.0.0.1",
+        "10.1.2.3",
+        "172.16.0.1",
+        "172.31.255.255",
+        "192.168.1.1",
+        "169.254.169.254",
+        "100.64.0.1",
+        "224.0.0.1",
+        "255.255.255.255",
+      ]) {
+        expect(isPublicAddress(address), address).toBe(false);
+      }
+      expect(isPublicAddress("172.32.0.1")).toBe(true);
+    });
+
+    it("rejects local IPv6 and addresses embedding IPv4", () => {
+      for (const address of [
+        "::",
+        "::1",
+        "fc00::1",
+        "fd12:3456::1",
+        "fe80::1%eth0",
+        "ff02::1",
+        "::ffff:169.254.169.254",
+        "[::ffff:a9fe:a9fe]",
+        "::ffff:8.8.8.8",
+        "::127.0.0.1",
+        "64:ff9b::a9fe:a9fe",
+        "64:ff9b:1::1",
+        "2002:a9fe:a9fe::1",
+        "2001:0:4136:e378::1",
+        "2001:db8::1",
+      ]) {
+        expect(isPublicAddress(address), address).toBe(false);
+      }
+    });
+
+    it("rejects host names and malformed input", () => {
+      expect(isPublicAddress("example.com")).toBe(false);
+      expect(isPublicAddress("1.2.3")).toBe(false);
+      expect(isPublicAddress("")).toBe(false);
+    });
+  });
+});
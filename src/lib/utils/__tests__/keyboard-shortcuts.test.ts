@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  findShortcutAction,
+  findShortcutConflict,
+  formatKeyCombo,
+  getDefaultShortcutBindings,
+  getKeyCombo,
+  loadShortcutBindings,
+  SHORTCUT_STORAGE_KEY,
+  saveShortcutBindings,
+} from "@/lib/utils/keyboard-shortcuts";
+
+function keyEvent(
+  key: string,
+  modifiers: Partial<Record<"ctrlKey" | "altKey" | "metaKey" | "shiftKey", boolean>> = {},
+) {
+  return { key, ctrlKey: false, altKey: false, metaKey: false, shiftKey: false, ...modifiers };
+}
+
+describe("keyboard shortcuts", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("should build key combos from keyboard events", () => {
+    expect(getKeyCombo(keyEvent(" "))).toBe("Space");
+    expect(getKeyCombo(keyEvent("K", { ctrlKey: true, shiftKey: true }))).toBe("Ctrl+Shift+k");
+    // 符号键已经包含 Shift
+    expect(getKeyCombo(keyEvent("?", { shiftKey: true }))).toBe("?");
+    expect(getKeyCombo(keyEvent("Shift", { shiftKey: true }))).toBeNull();
+  });
+
+  it("should format key combos for display", () => {
+    expect(formatKeyCombo("Ctrl+Shift+k")).toBe("Ctrl + Shift + K");
+    expect(formatKeyCombo("ArrowLeft")).toBe("←");
+    expect(formatKeyCombo("Ctrl++")).toBe("Ctrl + +");
+    expect(formatKeyCombo("")).toBe("未设置");
+  });
+
+  it("should find the action bound to a combo and report conflicts", () => {
+    const bindings = getDefaultShortcutBindings();
+
+    expect(findShortcutAction(bindings, "Space")).toBe("playPause");
+    expect(findShortcutConflict(bindings, "loopSegment", "r")).toBe("replaySegment");
+    expect(findShortcutConflict(bindings, "replaySegment", "r")).toBeNull();
+    expect(findShortcutConflict(bindings, "loopSegment", "")).toBeNull();
+  });
+
+  it("should persist only customised bindings", () => {
+    saveShortcutBindings({
+      ...getDefaultShortcutBindings(),
+      nextSegment: "j",
+      previousSegment: "n",
+    });
+
+    expect(JSON.parse(window.localStorage.getItem(SHORTCUT_STORAGE_KEY) ?? "{}")).toEqual({
+      nextSegment: "j",
+      previousSegment: "n",
+    });
+    const loaded = loadShortcutBindings();
+    expect(loaded.nextSegment).toBe("j");
+    expect(loaded.previousSegment).toBe("n");
+  });
+
+  it("should unbind defaults that clash with customised bindings", () => {
+    window.localStorage.setItem(
+      SHORTCUT_STORAGE_KEY,
+      JSON.stringify({ loopSegment: "r", toggleMute: "Escape" }),
+    );
+    const loaded = loadShortcutBindings();
+
+    expect(loaded.loopSegment).toBe("r");
+    expect(loaded.replaySegment).toBe("");
+    expect(loaded.toggleMute).toBe("m");
+  });
+});
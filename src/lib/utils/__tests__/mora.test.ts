@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { isKana, splitMora } from "@/lib/utils/mora";
+
+describe("mora", () => {
+  it("should join small kana with the previous mora", () => {
+    expect(splitMora("きょう")).toEqual(["きょ", "う"]);
+    expect(splitMora("シャツ")).toEqual(["シャ", "ツ"]);
+  });
+
+  it("should count sokuon, hatsuon and long vowels as separate mora", () => {
+    expect(splitMora("がっこう")).toEqual(["が", "っ", "こ", "う"]);
+    expect(splitMora("にほんご")).toEqual(["に", "ほ", "ん", "ご"]);
+    expect(splitMora("コーヒー")).toEqual(["コ", "ー", "ヒ", "ー"]);
+  });
+
+  it("should only treat kana strings as kana", () => {
+    expect(isKana("ひらがなカタカナー")).toBe(true);
+    expect(isKana("日本語")).toBe(false);
+    expect(isKana("hello")).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ChatCompletionRequest, ChatProvider } from "@/lib/ai/chat-providers";
+import { normalizeVocabularyEntries, OptimizedPostProcessor } from "../optimized-postprocess";
+
+function createMockProvider(respond: (request: ChatCompletionRequest) => string) {
+  const complete = vi.fn(async (request: ChatCompletionRequest) => respond(request));
+  const provider: ChatProvider = { type: "openai-compatible", model: "mock", complete };
+  return { provider, complete };
+}
+
+describe("OptimizedPostProcessor", () => {
+  const config = {
+    type: "openai-compatible" as const,
+    model: "mock",
+    baseUrl: "http://localhost:11434/v1",
+    modelsByLanguagePair: { "ja-zh": "ja-zh-model" },
+  };
+
+  it("should enrich segments using the provider response", async () => {
+    const { provider, complete } = createMockProvider(
+      () =>
+        '```json\n{"segments":[{"id":0,"normalizedText":"こんにちは","translation":"你好","furigana":"こんにちは"},{"id":1,"translation":"谢谢"}]}\n```',
+    );
+    const processor = new OptimizedPostProcessor(provider, config);
+
+    const result = await processor.processSegments(
+      [
+        { text: "こんにちは", start: 0, end: 1 },
+        { text: "ありがとう", start: 1, end: 2 },
+      ],
+      "ja",
+      { targetLanguage: "zh" },
+    );
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(complete.mock.calls[0][0].model).toBe("ja-zh-model");
+    expect(result.map((segment) => segment.translation)).toEqual(["你好", "谢谢"]);
+    expect(result[1].normalizedText).toBe("ありがとう");
+  });
+
+  it("should fall back to the original text when the provider fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { provider } = createMockProvider(() => {
+      throw new Error("server down");
+    });
+    const processor = new OptimizedPostProcessor(provider, config);
+
+    const result = await processor.processSegments([{ text: "テスト", start: 0, end: 1 }], "ja", {
+      targetLanguage: "en",
+      model: "explicit",
+    });
+
+    expect(result).toEqual([
+      {
+        originalText: "テスト",
+        normalizedText: "テスト",
+        translation: "",
+        annotations: [],
+        furigana: "",
+        start: 0,
+        end: 1,
+      },
+    ]);
+  });
+
+  it("should request and return structured vocabulary", async () => {
+    const { provider, complete } = createMockProvider(() =>
+      JSON.stringify({
+        normalizedText: "猫が好きです",
+        vocabulary: [
+          { lemma: "猫", reading: "ねこ", partOfSpeech: "名詞", gloss: "猫", level: "N5" },
+          { lemma: "好き", surface: "好き", level: "jlpt n4" },
+        ],
+      }),
+    );
+    const processor = new OptimizedPostProcessor(provider, config);
+
+    const [result] = await processor.processSegments(
+      [{ text: "猫が好きです", start: 0, end: 1 }],
+      "ja",
+      { targetLanguage: "zh" },
+    );
+
+    expect(complete.mock.calls[0][0].messages[1].content).toContain("JLPT level");
+    expect(result.vocabulary).toEqual([
+      {
+        lemma: "猫",
+        reading: "ねこ",
+        partOfSpeech: "名詞",
+        gloss: "猫",
+        level: "N5",
+        surface: undefined,
+      },
+      {
+        lemma: "好き",
+        surface: "好き",
+        level: "N4",
+        reading: undefined,
+        partOfSpeech: undefined,
+        gloss: undefined,
+      },
+    ]);
+  });
+});
+
+describe("normalizeVocabularyEntries", () => {
+  it("should drop invalid entries, duplicates and unknown levels", () => {
+    expect(
+      normalizeVocabularyEntries([
+        { lemma: " run ", level: "b1" },
+        { lemma: "run", level: "A1" },
+        { reading: "no lemma" },
+        { lemma: "walk", level: "expert" },
+        "bad",
+      ]),
+    ).toMatchObject([
+      { lemma: "run", level: "B1" },
+      { lemma: "walk", level: undefined },
+    ]);
+    expect(normalizeVocabularyEntries(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { isFeedContent, parseEpisodeDuration, parsePodcastFeed } from "../podcast-feed";
+
+const ATOM_FEED = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Atom Show</title>
+  <subtitle>&lt;b&gt;Weekly&lt;/b&gt; listening practice</subtitle>
+  <author><name>Atom Host</name></author>
+  <logo>https://example.com/logo.png</logo>
+  <entry>
+    <title>Episode 1</title>
+    <id>urn:uuid:1</id>
+    <published>2024-03-01T10:00:00Z</published>
+    <link rel="alternate" href="https://example.com/ep1" />
+    <link rel="enclosure" href="media/ep1.m4a?token=a&amp;b=1" type="audio/mp4" length="1000" />
+  </entry>
+  <entry>
+    <title>Notes only</title>
+    <id>urn:uuid:2</id>
+  </entry>
+</feed>`;
+
+describe("podcast-feed", () => {
+  it("parses Atom feeds and resolves relative enclosure links", () => {
+    const feed = parsePodcastFeed(ATOM_FEED, "https://example.com/feeds/atom.xml");
+
+    expect(feed).toMatchObject({
+      title: "Atom Show",
+      author: "Atom Host",
+      description: "Weekly listening practice",
+      imageUrl: "https://example.com/logo.png",
+    });
+    expect(feed.episodes).toEqual([
+      {
+        guid: "urn:uuid:1",
+        title: "Episode 1",
+        audioUrl: "https://example.com/feeds/media/ep1.m4a?token=a&b=1",
+        audioType: "audio/mp4",
+        audioSize: 1000,
+        publishedAt: "2024-03-01T10:00:00.000Z",
+        duration: undefined,
+        description: undefined,
+      },
+    ]);
+  });
+
+  it("falls back to the audio URL when RSS items lack a guid or type", () => {
+    const feed = parsePodcastFeed(
+      `<rss><channel><title>Show</title><item><enclosure url="https://cdn.example.com/a.mp3"/></item></channel></rss>`,
+      "https://example.com/rss",
+    );
+
+    expect(feed.episodes[0]).toMatchObject({
+      guid: "https://cdn.example.com/a.mp3",
+      title: "https://cdn.example.com/a.mp3",
+    });
+  });
+
+  it("parses itunes durations", () => {
+    expect(parseEpisodeDuration("3723")).toBe(3723);
+    expect(parseEpisodeDuration("62:03")).toBe(3723);
+    expect(parseEpisodeDuration("1:02:03")).toBe(3723);
+    expect(parseEpisodeDuration("about an hour")).toBeUndefined();
+  });
+
+  it("rejects content that is not a feed", () => {
+    expect(isFeedContent("<html><body></body></html>")).toBe(false);
+    expect(() => parsePodcastFeed("<html></html>", "https://example.com")).toThrow();
+  });
+});
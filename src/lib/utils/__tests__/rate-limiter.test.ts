@@ -4,6 +4,7 @@ import {
   getClientIdentifier,
   getRateLimitConfig,
   getRateLimitHeaders,
+  isFollowUpTranscribeChunk,
   type RateLimitConfig,
 } from "../rate-limiter";
 
@@ -111,6 +112,19 @@ describe("rate-limiter", () => {
     });
   });
 
+  describe("isFollowUpTranscribeChunk", () => {
+    it("should only match chunks after the first one", () => {
+      const check = (query: string) => isFollowUpTranscribeChunk(new URLSearchParams(query));
+
+      expect(check("chunkIndex=1&totalChunks=12")).toBe(true);
+      expect(check("chunkIndex=11&totalChunks=12")).toBe(true);
+      expect(check("chunkIndex=0&totalChunks=12")).toBe(false);
+      expect(check("chunkIndex=12&totalChunks=12")).toBe(false);
+      expect(check("chunkIndex=1")).toBe(false);
+      expect(check("fileId=1")).toBe(false);
+    });
+  });
+
   describe("getClientIdentifier", () => {
     it("should extract IP from X-Forwarded-For header", () => {
       const request = new Request("http://localhost/api/test", {
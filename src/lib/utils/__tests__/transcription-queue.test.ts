@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DBUtils, db } from "@/lib/db/db";
+import { repairInterruptedTranscriptions } from "../file-status-manager";
+import { TranscriptionQueue, type TranscriptionTask } from "../transcription-queue";
+
+async function addFile(name: string): Promise<number> {
+  return DBUtils.addFile({
+    name,
+    size: 1024,
+    type: "audio/mpeg",
+    uploadedAt: new Date(),
+    updatedAt: new Date(),
+  });
+}
+
+/** 可手动结束的任务回调 */
+function createControlledCallback() {
+  const started: TranscriptionTask[] = [];
+  const finishers = new Map<number, () => void>();
+
+  const callback = (task: TranscriptionTask) =>
+    new Promise<void>((resolve, reject) => {
+      started.push(task);
+      finishers.set(task.fileId, resolve);
+      task.abortController.signal.addEventListener("abort", () => {
+        reject(new DOMException("Aborted", "AbortError"));
+      });
+    });
+
+  return { callback, started, finish: (fileId: number) => finishers.get(fileId)?.() };
+}
+
+const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("TranscriptionQueue", () => {
+  let queues: TranscriptionQueue[] = [];
+
+  // 记录创建的队列，测试结束后等待其写入完成，避免影响下一个测试
+  const createQueue = () => {
+    const queue = new TranscriptionQueue();
+    queues.push(queue);
+    return queue;
+  };
+
+  beforeEach(async () => {
+    window.localStorage.clear();
+    await DBUtils.clearAll();
+  });
+
+  afterEach(async () => {
+    for (const queue of queues) {
+      queue.setTaskCallback(null);
+      queue.cancelAll();
+      await queue.flush();
+    }
+    queues = [];
+    await DBUtils.clearAll();
+  });
+
+  it("persists tasks and restores them in a new instance", async () => {
+    const first = await addFile("a.mp3");
+    const second = await addFile("b.mp3");
+
+    const queue = createQueue();
+    await queue.add(first, "ja");
+    await queue.add(second, "en");
+    await queue.flush();
+
+    const restoredQueue = createQueue();
+    await restoredQueue.restore();
+
+    expect(restoredQueue.getTasks().map((task) => [task.fileId, task.language])).toEqual([
+      [first, "ja"],
+      [second, "en"],
+    ]);
+  });
+
+  it("does not start tasks until a task callback is set", async () => {
+    const fileId = await addFile("a.mp3");
+    const queue = createQueue();
+    await queue.add(fileId, "ja");
+
+    expect(queue.getTasks()[0].status).toBe("pending");
+
+    const { callback, started } = createControlledCallback();
+    queue.setTaskCallback(callback);
+
+    expect(started.map((task) => task.fileId)).toEqual([fileId]);
+    expect(queue.isProcessing(fileId)).toBe(true);
+  });
+
+  it("inserts tasks after pending tasks of the same or higher priority", async () => {
+    const low = await addFile("low.mp3");
+    const normal = await addFile("normal.mp3");
+    const urgent = await addFile("urgent.mp3");
+    const high = await addFile("high.mp3");
+
+    const queue = createQueue();
+    await queue.add(low, "ja", { priority: "low" });
+    await queue.add(normal, "ja");
+    await queue.add(urgent, "ja", { priority: "urgent" });
+    await queue.add(high, "ja", { priority: "high" });
+
+    expect(queue.getTasks().map((task) => task.fileId)).toEqual([urgent, high, normal, low]);
+  });
+
+  it("reorders tasks and keeps unlisted tasks at the end", async () => {
+    const ids = [await addFile("a.mp3"), await addFile("b.mp3"), await addFile("c.mp3")];
+    const queue = createQueue();
+    for (const id of ids) {
+      await queue.add(id, "ja");
+    }
+
+    queue.reorder([ids[2], ids[0]]);
+    await queue.flush();
+
+    expect(queue.getTasks().map((task) => task.fileId)).toEqual([ids[2], ids[0], ids[1]]);
+
+    const rows = await db.transcriptionQueue.orderBy("position").toArray();
+    expect(rows.map((row) => row.fileId)).toEqual([ids[2], ids[0], ids[1]]);
+  });
+
+  it("pauses a processing task and runs the next one", async () => {
+    const first = await addFile("a.mp3");
+    const second = await addFile("b.mp3");
+    const queue = createQueue();
+    const { callback, started } = createControlledCallback();
+    queue.setTaskCallback(callback);
+
+    await queue.add(first, "ja");
+    await queue.add(second, "ja");
+    queue.pause(first);
+    await flushPromises();
+
+    expect(queue.getTasks().find((task) => task.fileId === first)?.status).toBe("paused");
+    expect(started.map((task) => task.fileId)).toEqual([first, second]);
+
+    queue.resume(first);
+    expect(queue.getTasks().find((task) => task.fileId === first)?.status).toBe("pending");
+  });
+
+  it("removes completed tasks and stops starting new ones while paused", async () => {
+    const first = await addFile("a.mp3");
+    const second = await addFile("b.mp3");
+    const queue = createQueue();
+    const { callback, started, finish } = createControlledCallback();
+    queue.setTaskCallback(callback);
+
+    await queue.add(first, "ja");
+    await queue.add(second, "ja");
+    queue.pauseAll();
+    finish(first);
+    await flushPromises();
+
+    expect(queue.getTasks().map((task) => task.fileId)).toEqual([second]);
+    expect(started).toHaveLength(1);
+
+    queue.resumeAll();
+    expect(started.map((task) => task.fileId)).toEqual([first, second]);
+  });
+
+  it("requeues interrupted tasks and repairs their transcripts on restore", async () => {
+    const queued = await addFile("queued.mp3");
+    const orphan = await addFile("orphan.mp3");
+    const now = new Date();
+
+    await db.transcriptionQueue.add({
+      fileId: queued,
+      language: "ja",
+      priority: "normal",
+      position: 0,
+      status: "processing",
+      createdAt: now,
+      updatedAt: now,
+    });
+    await db.transcripts.bulkAdd([
+      { fileId: queued, status: "processing", createdAt: now, updatedAt: now },
+      { fileId: orphan, status: "processing", createdAt: now, updatedAt: now },
+    ]);
+
+    const queue = createQueue();
+    const repaired = await queue.restore();
+
+    expect(repaired.sort()).toEqual([queued, orphan].sort());
+    expect(queue.getTasks()).toMatchObject([{ fileId: queued, status: "pending" }]);
+
+    const transcripts = await db.transcripts.toArray();
+    expect(transcripts.find((t) => t.fileId === queued)?.status).toBe("pending");
+    expect(transcripts.find((t) => t.fileId === orphan)?.status).toBe("failed");
+  });
+
+  it("drops persisted tasks whose files no longer exist", async () => {
+    const now = new Date();
+    await db.transcriptionQueue.add({
+      fileId: 999,
+      language: "ja",
+      priority: "normal",
+      position: 0,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const queue = createQueue();
+    await queue.restore();
+    await queue.flush();
+
+    expect(queue.length).toBe(0);
+    expect(await db.transcriptionQueue.count()).toBe(0);
+  });
+});
+
+describe("repairInterruptedTranscriptions", () => {
+  beforeEach(async () => {
+    await DBUtils.clearAll();
+  });
+
+  it("leaves transcripts in other states untouched", async () => {
+    const fileId = await addFile("done.mp3");
+    const now = new Date();
+    await db.transcripts.add({ fileId, status: "completed", createdAt: now, updatedAt: now });
+
+    expect(await repairInterruptedTranscriptions([])).toEqual([]);
+    expect((await db.transcripts.toArray())[0].status).toBe("completed");
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectSpeechRegions,
+  findSilenceSkipTarget,
+  refineSegmentsWithSpeech,
+} from "../voice-activity";
+
+const SAMPLE_RATE = 8000;
+
+/** 按 [开始, 结束] 秒生成含正弦波“语音”的音频，其余部分为低电平噪声 */
+function synthesize(duration: number, speech: Array<[number, number]>): Float32Array {
+  const samples = new Float32Array(duration * SAMPLE_RATE);
+  for (let index = 0; index < samples.length; index++) {
+    const time = index / SAMPLE_RATE;
+    const isSpeech = speech.some(([start, end]) => time >= start && time < end);
+    samples[index] = isSpeech
+      ? 0.5 * Math.sin(2 * Math.PI * 220 * time)
+      : 0.001 * Math.sin(2 * Math.PI * 50 * time);
+  }
+  return samples;
+}
+
+describe("voice-activity", () => {
+  describe("detectSpeechRegions", () => {
+    it("finds speech between silences", () => {
+      const regions = detectSpeechRegions(
+        synthesize(6, [
+          [1, 2],
+          [4, 5.5],
+        ]),
+        SAMPLE_RATE,
+      );
+
+      expect(regions).toHaveLength(2);
+      expect(regions[0].start).toBeCloseTo(1, 1);
+      expect(regions[0].end).toBeCloseTo(2, 1);
+      expect(regions[1].start).toBeCloseTo(4, 1);
+      expect(regions[1].end).toBeCloseTo(5.5, 1);
+    });
+
+    it("merges short pauses and drops short blips", () => {
+      const regions = detectSpeechRegions(
+        synthesize(4, [
+          [0.5, 1],
+          [1.1, 1.6],
+          [3, 3.04],
+        ]),
+        SAMPLE_RATE,
+      );
+
+      expect(regions).toHaveLength(1);
+      expect(regions[0].end).toBeCloseTo(1.6, 1);
+    });
+
+    it("treats audio without distinguishable silence as speech", () => {
+      expect(detectSpeechRegions(synthesize(2, [[0, 2]]), SAMPLE_RATE)).toEqual([
+        { start: 0, end: 2 },
+      ]);
+      expect(detectSpeechRegions(new Float32Array(SAMPLE_RATE), SAMPLE_RATE)).toEqual([]);
+    });
+  });
+
+  describe("refineSegmentsWithSpeech", () => {
+    it("trims leading and trailing silence", () => {
+      const [segment] = refineSegmentsWithSpeech(
+        [
+          {
+            id: 0,
+            start: 0,
+            end: 3,
+            text: "hello there",
+            wordTimestamps: [
+              { word: "hello", start: 0, end: 1.5 },
+              { word: "there", start: 1.5, end: 2.9 },
+            ],
+          },
+        ],
+        [{ start: 1, end: 2 }],
+      );
+
+      expect(segment.start).toBeCloseTo(0.9);
+      expect(segment.end).toBeCloseTo(2.1);
+      expect(segment.wordTimestamps?.[0].start).toBeCloseTo(0.9);
+      expect(segment.wordTimestamps?.[1].end).toBeCloseTo(2.1);
+    });
+
+    it("splits segments at long silences using word timestamps", () => {
+      const segments = refineSegmentsWithSpeech(
+        [
+          {
+            id: 1,
+            start: 0,
+            end: 6,
+            text: "おはよう。元気ですか",
+            wordTimestamps: [
+              { word: "おはよう", start: 0.2, end: 1.5 },
+              { word: "元気", start: 3, end: 3.8 },
+              { word: "ですか", start: 3.8, end: 5 },
+            ],
+          },
+          { id: 2, start: 6, end: 8, text: "はい" },
+        ],
+        [
+          { start: 0.5, end: 1.5 },
+          { start: 3, end: 5 },
+          { start: 6.5, end: 7.5 },
+        ],
+      );
+
+      expect(segments.map((segment) => segment.text)).toEqual(["おはよう。", "元気ですか", "はい"]);
+      expect(segments.map((segment) => segment.id)).toEqual([1, 2, 3]);
+      expect(segments[0].end).toBeCloseTo(1.6);
+      expect(segments[1].start).toBeCloseTo(2.9);
+      expect(segments[1].wordTimestamps).toHaveLength(2);
+      expect(segments[2].start).toBeCloseTo(6.4);
+    });
+
+    it("keeps segments whose text cannot be matched to the words", () => {
+      const segment = {
+        id: 0,
+        start: 0,
+        end: 6,
+        text: "unrelated text",
+        wordTimestamps: [
+          { word: "first", start: 0.5, end: 1.5 },
+          { word: "second", start: 3, end: 5 },
+        ],
+      };
+      const [refined, ...rest] = refineSegmentsWithSpeech(
+        [segment],
+        [
+          { start: 0.5, end: 1.5 },
+          { start: 3, end: 5 },
+        ],
+      );
+
+      expect(rest).toHaveLength(0);
+      expect(refined.text).toBe("unrelated text");
+      expect(refined.start).toBeCloseTo(0.4);
+      expect(refined.end).toBeCloseTo(5.1);
+    });
+  });
+
+  describe("findSilenceSkipTarget", () => {
+    const regions = [
+      { start: 1, end: 2 },
+      { start: 2.4, end: 3 },
+      { start: 6, end: 7 },
+    ];
+
+    it("skips to the next speech region in long silences", () => {
+      expect(findSilenceSkipTarget(regions, 0.2, 0.6)).toBeCloseTo(0.9);
+      expect(findSilenceSkipTarget(regions, 3.5, 0.6)).toBeCloseTo(5.9);
+    });
+
+    it("ignores speech, short pauses and trailing silence", () => {
+      expect(findSilenceSkipTarget(regions, 1.5, 0.6)).toBeNull();
+      expect(findSilenceSkipTarget(regions, 2.1, 0.6)).toBeNull();
+      expect(findSilenceSkipTarget(regions, 5.85, 0.6)).toBeNull();
+      expect(findSilenceSkipTarget(regions, 8, 0.6)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  computePitchContour,
+  estimateFramePitch,
+  getVoicedSpan,
+  toSemitones,
+} from "@/lib/utils/pitch";
+import { computePeaks, computeSpectrogram, fftMagnitudes } from "@/lib/utils/waveform";
+
+const SAMPLE_RATE = 8000;
+
+function sine(frequency: number, seconds: number, amplitude: number = 0.5): Float32Array {
+  return Float32Array.from(
+    { length: Math.round(seconds * SAMPLE_RATE) },
+    (_, index) => amplitude * Math.sin((2 * Math.PI * frequency * index) / SAMPLE_RATE),
+  );
+}
+
+function maxIndex(values: Float32Array): number {
+  let best = 0;
+  values.forEach((value, index) => {
+    if (value > values[best]) best = index;
+  });
+  return best;
+}
+
+describe("waveform analysis", () => {
+  it("should take the maximum absolute value of every channel per slice", () => {
+    const peaks = computePeaks(
+      [new Float32Array([0.1, -0.4, 0.2, 0]), new Float32Array([0.3, 0, -0.9, 0.1])],
+      2,
+    );
+
+    expect(Array.from(peaks)).toEqual([expect.closeTo(0.4), expect.closeTo(0.9)]);
+  });
+
+  it("should find the frequency bin of a pure tone", () => {
+    // 1000Hz 在 256 点 FFT（8kHz）中位于第 32 个频率
+    const magnitudes = fftMagnitudes(sine(1000, 256 / SAMPLE_RATE));
+
+    expect(magnitudes).toHaveLength(128);
+    expect(maxIndex(magnitudes)).toBe(32);
+  });
+
+  it("should normalise spectrogram columns to the loudest bin", () => {
+    const audio = { samples: sine(500, 1), sampleRate: SAMPLE_RATE, duration: 1 };
+    const spectrogram = computeSpectrogram(audio, { start: 0.2, end: 0.8 }, 10);
+
+    expect(spectrogram.values).toHaveLength(10 * spectrogram.bins);
+    const column = spectrogram.values.subarray(5 * spectrogram.bins, 6 * spectrogram.bins);
+    expect(maxIndex(column)).toBe(16);
+    expect(Math.max(...column)).toBeCloseTo(1, 1);
+  });
+
+  describe("pitch", () => {
+    it("should estimate the fundamental frequency of a voiced frame", () => {
+      expect(estimateFramePitch(sine(200, 0.032), SAMPLE_RATE)).toBeCloseTo(200, -1);
+      expect(estimateFramePitch(sine(120, 0.032), SAMPLE_RATE)).toBeCloseTo(120, -1);
+    });
+
+    it("should return 0 for silence", () => {
+      expect(estimateFramePitch(new Float32Array(256), SAMPLE_RATE)).toBe(0);
+    });
+
+    it("should compute one value per frame in the range", () => {
+      const samples = new Float32Array(SAMPLE_RATE);
+      samples.set(sine(150, 0.5), SAMPLE_RATE / 2);
+      const contour = computePitchContour(
+        { samples, sampleRate: SAMPLE_RATE, duration: 1 },
+        { start: 0, end: 1 },
+        20,
+      );
+
+      expect(contour.values).toHaveLength(20);
+      expect(contour.values[4]).toBe(0);
+      expect(contour.values[15]).toBeCloseTo(150, -1);
+    });
+
+    it("should express pitch in semitones relative to the median", () => {
+      const semitones = toSemitones(new Float32Array([0, 100, 200, 200, 400, 0]));
+
+      expect(Number.isNaN(semitones[0])).toBe(true);
+      expect(Array.from(semitones.subarray(1, 5))).toEqual([-12, 0, 0, 12]);
+      expect(getVoicedSpan(new Float32Array([0, 100, 0, 200, 0]))).toEqual({ first: 1, last: 3 });
+      expect(getVoicedSpan(new Float32Array(3))).toBeNull();
+    });
+  });
+});
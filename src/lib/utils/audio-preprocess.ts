@@ -0,0 +1,155 @@
+/**
+ * 上传前的音频预处理
+ * 验证通过后解码并重采样到 16kHz，交给 Worker 混合为单声道并压缩编码，
+ * 只有压缩后确实更小才替换原文件
+ */
+
+import { AUDIO_CHUNKING_CONFIG } from "@/lib/ai/audio-chunking";
+import type { TranscodeRequest, TranscodeResponse } from "@/lib/utils/audio-transcode";
+import { isVideoType, resolveMediaType, validateAudioContent } from "@/lib/utils/file-validation";
+
+export const AUDIO_PREPROCESS_STORAGE_KEY = "umuo-audio-preprocess";
+
+export interface AudioPreprocessSettings {
+  /** 上传前压缩音频 */
+  enabled: boolean;
+  /** 保留原始文件用于播放，压缩后的音频只用于转录 */
+  keepOriginal: boolean;
+}
+
+export const DEFAULT_AUDIO_PREPROCESS_SETTINGS: AudioPreprocessSettings = {
+  enabled: false,
+  keepOriginal: false,
+};
+
+/** 一次上传中压缩前后的总大小 */
+export interface AudioCompressionSummary {
+  fileCount: number;
+  originalSize: number;
+  compressedSize: number;
+}
+
+export interface PreprocessedFiles {
+  files: File[];
+  /** 保留原文件时，与 files 对应的压缩音频 */
+  audioTracks: (Blob | undefined)[];
+  summary: AudioCompressionSummary | null;
+}
+
+export function loadAudioPreprocessSettings(): AudioPreprocessSettings {
+  if (typeof window === "undefined") return DEFAULT_AUDIO_PREPROCESS_SETTINGS;
+
+  try {
+    const stored = window.localStorage.getItem(AUDIO_PREPROCESS_STORAGE_KEY);
+    const parsed: Partial<AudioPreprocessSettings> = stored ? JSON.parse(stored) : {};
+    return {
+      enabled: parsed.enabled === true,
+      keepOriginal: parsed.keepOriginal === true,
+    };
+  } catch {
+    return DEFAULT_AUDIO_PREPROCESS_SETTINGS;
+  }
+}
+
+export function saveAudioPreprocessSettings(settings: AudioPreprocessSettings): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    window.localStorage.setItem(AUDIO_PREPROCESS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Failed to save audio preprocessing settings to localStorage:", error);
+  }
+}
+
+function runTranscodeWorker(request: TranscodeRequest): Promise<Blob> {
+  const worker = new Worker(new URL("./audio-transcode.worker.ts", import.meta.url), {
+    type: "module",
+  });
+
+  return new Promise<Blob>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<TranscodeResponse>) => {
+      if (event.data.ok) {
+        resolve(event.data.blob);
+      } else {
+        reject(new Error(event.data.message));
+      }
+    };
+    worker.onerror = (event) => {
+      reject(new Error(event.message || "音频压缩失败"));
+    };
+    worker.postMessage(
+      request,
+      request.channels.map((channel) => channel.buffer),
+    );
+  }).finally(() => worker.terminate());
+}
+
+/**
+ * 压缩单个音频文件
+ * decodeAudioData 只能在主线程调用，解码时直接重采样到 16kHz，混合声道和编码在 Worker 中进行
+ * @returns 无法解码或压缩后没有变小时返回 null
+ */
+export async function compressAudioFile(file: File): Promise<File | null> {
+  const validation = await validateAudioContent(file);
+  if ("code" in validation && validation.severity === "error") {
+    return null;
+  }
+
+  const { sampleRate } = AUDIO_CHUNKING_CONFIG;
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const audioBuffer = await context.decodeAudioData(await file.arrayBuffer());
+  // 复制一份再转移给 Worker，AudioBuffer 自身的数据不能转移
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, channel) => {
+    const data = new Float32Array(audioBuffer.length);
+    audioBuffer.copyFromChannel(data, channel);
+    return data;
+  });
+
+  const blob = await runTranscodeWorker({ channels, sampleRate });
+  if (blob.size >= file.size) {
+    return null;
+  }
+
+  const baseName = file.name.replace(/\.[^/.]+$/, "") || "audio";
+  const extension = blob.type === "audio/ogg" ? "ogg" : "wav";
+  return new File([blob], `${baseName}.${extension}`, {
+    type: blob.type,
+    lastModified: file.lastModified,
+  });
+}
+
+/**
+ * 按设置逐个压缩音频；视频和压缩失败的文件保持原样
+ */
+export async function preprocessAudioFiles(
+  files: File[],
+  settings: AudioPreprocessSettings,
+): Promise<PreprocessedFiles> {
+  const result: PreprocessedFiles = { files: [], audioTracks: [], summary: null };
+
+  for (const file of files) {
+    let compressed: File | null = null;
+    if (settings.enabled && !isVideoType(await resolveMediaType(file))) {
+      compressed = await compressAudioFile(file).catch((error) => {
+        console.warn(`音频压缩失败，保留原文件: ${file.name}`, error);
+        return null;
+      });
+    }
+
+    if (!compressed) {
+      result.files.push(file);
+      result.audioTracks.push(undefined);
+      continue;
+    }
+
+    result.files.push(settings.keepOriginal ? file : compressed);
+    result.audioTracks.push(settings.keepOriginal ? compressed : undefined);
+    result.summary = {
+      fileCount: (result.summary?.fileCount ?? 0) + 1,
+      originalSize: (result.summary?.originalSize ?? 0) + file.size,
+      compressedSize: (result.summary?.compressedSize ?? 0) + compressed.size,
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,305 @@
+/**
+ * 音频转码
+ * 在 Web Worker 中把解码后的 PCM 混合为单声道并压缩编码：
+ * 浏览器支持 WebCodecs Opus 编码时输出 Ogg Opus，否则退回 16 位 WAV
+ */
+
+import { encodeWav } from "@/lib/ai/audio-chunking";
+
+/** Opus 码率（bps），用于语音转录 24kbps 已经足够 */
+const OPUS_BITRATE = 24_000;
+/** Ogg Opus 的时间位置固定以 48kHz 计数 */
+const OPUS_GRANULE_RATE = 48_000;
+/**
+ * 解码时需要丢弃的编码器延迟（48kHz 采样数），与 libopus 默认值一致
+ * 编码器在 decoderConfig.description 中给出 OpusHead 时以其中的值为准
+ */
+export const DEFAULT_OPUS_PRE_SKIP = 312;
+/** 单个 Ogg 页最多容纳的包数，20ms 一包时约 1 秒 */
+const PACKETS_PER_PAGE = 50;
+/** 编码队列积压超过该数量时等待编码器消化 */
+const MAX_ENCODE_QUEUE = 8;
+
+const OGG_HEADER_BOS = 0x02;
+const OGG_HEADER_EOS = 0x04;
+
+/** 发给转码 Worker 的数据：各声道的 PCM */
+export interface TranscodeRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+export type TranscodeResponse = { ok: true; blob: Blob } | { ok: false; message: string };
+
+/** Opus 编码后的单个包，duration 以 48kHz 采样数计 */
+export interface OpusPacket {
+  data: Uint8Array<ArrayBuffer>;
+  duration: number;
+}
+
+interface OpusEncoding {
+  packets: OpusPacket[];
+  preSkip: number;
+}
+
+/**
+ * 多声道取平均混合为单声道
+ */
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+
+  const mono = new Float32Array(channels[0]?.length ?? 0);
+  for (const data of channels) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += data[i] / channels.length;
+    }
+  }
+  return mono;
+}
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let remainder = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      remainder = remainder & 0x80000000 ? (remainder << 1) ^ 0x04c11db7 : remainder << 1;
+    }
+    table[i] = remainder >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Ogg 页校验和（多项式 0x04c11db7，不反转、初值为 0）
+ */
+export function oggCrc(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function getLacingValues(packet: Uint8Array): number[] {
+  const values = new Array<number>(Math.floor(packet.length / 255)).fill(255);
+  values.push(packet.length % 255);
+  return values;
+}
+
+function createOggPage(
+  packets: Uint8Array[],
+  options: { granulePosition: number; serial: number; sequence: number; headerType: number },
+): Uint8Array<ArrayBuffer> {
+  const lacing = packets.flatMap(getLacingValues);
+  const bodySize = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodySize);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53], 0); // 'OggS'
+  view.setUint8(4, 0);
+  view.setUint8(5, options.headerType);
+  // 64 位时间位置拆成两个 32 位写入
+  view.setUint32(6, options.granulePosition % 2 ** 32, true);
+  view.setUint32(10, Math.floor(options.granulePosition / 2 ** 32), true);
+  view.setUint32(14, options.serial, true);
+  view.setUint32(18, options.sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+/**
+ * 从编码器输出的 OpusHead（RFC 7845 5.1）中读取 pre-skip，格式不符时返回 null
+ */
+export function readOpusPreSkip(description: AllowSharedBufferSource): number | null {
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 19 || new TextDecoder().decode(bytes.subarray(0, 8)) !== "OpusHead") {
+    return null;
+  }
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(10, true);
+}
+
+function createOpusHead(inputSampleRate: number, preSkip: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"), 0);
+  view.setUint8(8, 1); // 版本
+  view.setUint8(9, 1); // 单声道
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setUint16(16, 0, true); // 输出增益
+  view.setUint8(18, 0); // 声道映射族
+  return head;
+}
+
+function createOpusTags(): Uint8Array {
+  const vendor = new TextEncoder().encode("umuo");
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode("OpusTags"), 0);
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // 没有注释
+  return tags;
+}
+
+/**
+ * 把 Opus 包封装为 Ogg 文件（RFC 7845）
+ * @param totalSamples 输入的采样数，用于在最后一页裁掉编码器补齐的静音
+ * @param preSkip 编码器延迟（48kHz 采样数）
+ */
+export function muxOggOpus(
+  packets: OpusPacket[],
+  inputSampleRate: number,
+  totalSamples: number,
+  preSkip: number = DEFAULT_OPUS_PRE_SKIP,
+): Blob {
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  const pages: Uint8Array<ArrayBuffer>[] = [
+    createOggPage([createOpusHead(inputSampleRate, preSkip)], {
+      granulePosition: 0,
+      serial,
+      sequence: 0,
+      headerType: OGG_HEADER_BOS,
+    }),
+    createOggPage([createOpusTags()], { granulePosition: 0, serial, sequence: 1, headerType: 0 }),
+  ];
+
+  const endPosition = preSkip + Math.round((totalSamples * OPUS_GRANULE_RATE) / inputSampleRate);
+  let granulePosition = preSkip;
+  let pagePackets: Uint8Array[] = [];
+  let lacingCount = 0;
+
+  const flush = (isLast: boolean) => {
+    pages.push(
+      createOggPage(pagePackets, {
+        granulePosition: isLast ? Math.min(granulePosition, endPosition) : granulePosition,
+        serial,
+        sequence: pages.length,
+        headerType: isLast ? OGG_HEADER_EOS : 0,
+      }),
+    );
+    pagePackets = [];
+    lacingCount = 0;
+  };
+
+  for (const packet of packets) {
+    const segments = Math.floor(packet.data.length / 255) + 1;
+    if (pagePackets.length > 0 && lacingCount + segments > 255) {
+      flush(false);
+    }
+    pagePackets.push(packet.data);
+    lacingCount += segments;
+    granulePosition += packet.duration;
+    if (pagePackets.length >= PACKETS_PER_PAGE) {
+      flush(false);
+    }
+  }
+  flush(true);
+
+  return new Blob(pages, { type: "audio/ogg" });
+}
+
+/**
+ * 用 WebCodecs 编码为 Opus 包；浏览器不支持时返回 null
+ */
+async function encodeOpusPackets(
+  samples: Float32Array,
+  sampleRate: number,
+): Promise<OpusEncoding | null> {
+  if (typeof AudioEncoder === "undefined" || typeof AudioData === "undefined") {
+    return null;
+  }
+
+  const config: AudioEncoderConfig = {
+    codec: "opus",
+    sampleRate,
+    numberOfChannels: 1,
+    bitrate: OPUS_BITRATE,
+  };
+  const support = await AudioEncoder.isConfigSupported(config).catch(() => null);
+  if (!support?.supported) {
+    return null;
+  }
+
+  const packets: OpusPacket[] = [];
+  let preSkip = DEFAULT_OPUS_PRE_SKIP;
+  let encodeError: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      // 第一个输出附带解码配置，其中的 OpusHead 给出编码器实际的延迟
+      const description = metadata?.decoderConfig?.description;
+      if (description) {
+        preSkip = readOpusPreSkip(description) ?? preSkip;
+      }
+
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({
+        data,
+        duration: Math.round(((chunk.duration ?? 20_000) * OPUS_GRANULE_RATE) / 1_000_000),
+      });
+    },
+    error: (error) => {
+      encodeError = error;
+    },
+  });
+  encoder.configure(config);
+
+  // 每次送入 1 秒音频
+  for (let offset = 0; offset < samples.length && !encodeError; offset += sampleRate) {
+    const frame = samples.slice(offset, Math.min(samples.length, offset + sampleRate));
+    const audioData = new AudioData({
+      format: "f32",
+      sampleRate,
+      numberOfFrames: frame.length,
+      numberOfChannels: 1,
+      timestamp: Math.round((offset * 1_000_000) / sampleRate),
+      data: frame,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+
+    while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) {
+    throw encodeError;
+  }
+  return { packets, preSkip };
+}
+
+/**
+ * 混合为单声道并压缩编码，Opus 不可用或编码失败时退回 WAV
+ */
+export async function transcodeToCompactAudio(
+  channels: Float32Array[],
+  sampleRate: number,
+): Promise<Blob> {
+  const samples = downmixToMono(channels);
+
+  try {
+    const encoded = await encodeOpusPackets(samples, sampleRate);
+    if (encoded) {
+      return muxOggOpus(encoded.packets, sampleRate, samples.length, encoded.preSkip);
+    }
+  } catch (error) {
+    console.warn("Opus 编码失败，改用 WAV:", error);
+  }
+
+  return encodeWav(samples, sampleRate);
+}
@@ -0,0 +1,21 @@
+/**
+ * 音频转码 Worker
+ * 混合声道和编码都比较耗时，放到 Worker 中避免阻塞页面
+ */
+
+import {
+  type TranscodeRequest,
+  type TranscodeResponse,
+  transcodeToCompactAudio,
+} from "./audio-transcode";
+
+self.onmessage = async (event: MessageEvent<TranscodeRequest>) => {
+  let response: TranscodeResponse;
+  try {
+    const blob = await transcodeToCompactAudio(event.data.channels, event.data.sampleRate);
+    response = { ok: true, blob };
+  } catch (error) {
+    response = { ok: false, message: error instanceof Error ? error.message : "音频压缩失败" };
+  }
+  self.postMessage(response);
+};
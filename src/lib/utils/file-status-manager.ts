@@ -182,7 +182,7 @@ export function isValidStatusTransition(
   const validTransitions: Record<string, TranscriptStatus[]> = {
     undefined: ["pending", "processing"], // 初始状态
     pending: ["processing", "failed"],
-    processing: ["completed", "failed"],
+    processing: ["completed", "failed", "pending"], // 取消或暂停时回到待转录
     completed: ["processing"], // 允许重新转录
     failed: ["pending", "processing"], // 允许重试
   };
@@ -219,3 +219,36 @@ export async function safeUpdateTranscriptionStatus(
     throw error;
   }
 }
+
+/**
+ * 修复被中断的转录
+ * 页面关闭时仍处于 processing 的转录不会再有结果：
+ * 仍在持久化队列中的文件回到 pending 等待重新转录，其余标记为失败
+ * @returns 状态被修复的文件 ID
+ */
+export async function repairInterruptedTranscriptions(queuedFileIds: number[]): Promise<number[]> {
+  const queued = new Set(queuedFileIds);
+  const repaired: number[] = [];
+
+  try {
+    const stale = await db.transcripts.where("status").equals("processing").toArray();
+
+    for (const transcript of stale) {
+      const toStatus: TranscriptStatus = queued.has(transcript.fileId) ? "pending" : "failed";
+      if (!transcript.id || !isValidStatusTransition(transcript.status, toStatus)) {
+        continue;
+      }
+
+      await db.transcripts.update(transcript.id, {
+        status: toStatus,
+        error: toStatus === "failed" ? "转录被中断，请重试" : undefined,
+        updatedAt: new Date(),
+      });
+      repaired.push(transcript.fileId);
+    }
+  } catch (error) {
+    console.error("修复中断的转录失败:", error);
+  }
+
+  return repaired;
+}
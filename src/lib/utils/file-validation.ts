@@ -31,6 +31,11 @@ export interface AudioProperties {
   format?: string;
 }
 
+export interface ValidationOptions {
+  /** 是否用 Web Audio 解码验证音频内容；服务端没有 AudioContext，需要关闭 */
+  decodeAudio?: boolean;
+}
+
 export interface FileSignature {
   magicNumber: number[];
   mimeType: string;
@@ -114,8 +119,161 @@ const AUDIO_FILE_SIGNATURES: FileSignature[] = [
     extensions: ["m4a", "aac"],
     offset: 4,
   },
+  // 纯音频 WebM（如 MediaRecorder 录制的 Opus），与 WebM 视频共用 EBML 头，按轨道区分
+  {
+    magicNumber: [0x1a, 0x45, 0xdf, 0xa3],
+    mimeType: "audio/webm",
+    extensions: ["webm", "weba"],
+    offset: 0,
+  },
+];
+
+/**
+ * 支持的视频文件签名，导入后提取音轨用于转录
+ */
+const VIDEO_FILE_SIGNATURES: FileSignature[] = [
+  // WebM (EBML)
+  {
+    magicNumber: [0x1a, 0x45, 0xdf, 0xa3],
+    mimeType: "video/webm",
+    extensions: ["webm"],
+    offset: 0,
+  },
+  // MP4 视频，与 M4A 共用 'ftyp'，按品牌和扩展名区分
+  {
+    magicNumber: [0x66, 0x74, 0x79, 0x70],
+    mimeType: "video/mp4",
+    extensions: ["mp4", "m4v"],
+    offset: 4,
+  },
 ];
 
+const MEDIA_FILE_SIGNATURES = [...AUDIO_FILE_SIGNATURES, ...VIDEO_FILE_SIGNATURES];
+
+/** 只含音频的 MP4 品牌 */
+const AUDIO_MP4_BRANDS = ["M4A ", "M4B ", "M4P ", "F4A "];
+
+/**
+ * 判断 MP4 容器是否为纯音频：品牌为 M4A 等，或扩展名是音频扩展名
+ */
+function isAudioMp4(header: Uint8Array, fileName: string): boolean {
+  const brand = new TextDecoder().decode(header.slice(8, 12));
+  const extension = fileName.split(".").pop()?.toLowerCase() || "";
+  return AUDIO_MP4_BRANDS.includes(brand) || ["m4a", "aac"].includes(extension);
+}
+
+/** WebM 头部的轨道信息通常在前几 KB 内 */
+const WEBM_HEADER_BYTES = 64 * 1024;
+
+const EBML_SEGMENT_ID = 0x18538067;
+const EBML_TRACKS_ID = 0x1654ae6b;
+const EBML_TRACK_ENTRY_ID = 0xae;
+const EBML_TRACK_TYPE_ID = 0x83;
+const EBML_CLUSTER_ID = 0x1f43b675;
+const WEBM_VIDEO_TRACK_TYPE = 1;
+
+/**
+ * 读取 EBML 变长整数；元素 ID 保留长度标记位，大小为全 1 时表示未知大小（返回 -1）
+ */
+function readEbmlVint(
+  bytes: Uint8Array,
+  offset: number,
+  keepMarker: boolean,
+): { value: number; length: number } | null {
+  const first = bytes[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23;
+  if (offset + length > bytes.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  const unknownSize = !keepMarker && value === 2 ** (7 * length) - 1;
+  return { value: unknownSize ? -1 : value, length };
+}
+
+/**
+ * 在 WebM 头部查找视频轨道，没有读到 Tracks 元素时返回 null
+ */
+function findWebmVideoTrack(bytes: Uint8Array): boolean | null {
+  // 只需进入这些容器，其余元素整体跳过
+  const containers = [EBML_SEGMENT_ID, EBML_TRACKS_ID, EBML_TRACK_ENTRY_ID];
+  let sawTracks = false;
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const id = readEbmlVint(bytes, offset, true);
+    const size = id && readEbmlVint(bytes, offset + id.length, false);
+    if (!id || !size || id.value === EBML_CLUSTER_ID) break;
+
+    const dataStart = offset + id.length + size.length;
+    if (id.value === EBML_TRACKS_ID) sawTracks = true;
+    if (containers.includes(id.value)) {
+      offset = dataStart;
+      continue;
+    }
+    if (
+      id.value === EBML_TRACK_TYPE_ID &&
+      size.value === 1 &&
+      bytes[dataStart] === WEBM_VIDEO_TRACK_TYPE
+    ) {
+      return true;
+    }
+    if (size.value < 0) break;
+    offset = dataStart + size.value;
+  }
+
+  return sawTracks ? false : null;
+}
+
+/**
+ * 判断 WebM 是否为视频：有视频轨道时为视频；读不到轨道信息时按声明的类型和扩展名判断
+ */
+async function isVideoWebm(file: File): Promise<boolean> {
+  const header = new Uint8Array(await readFileHeader(file, WEBM_HEADER_BYTES));
+  const hasVideoTrack = findWebmVideoTrack(header);
+  if (hasVideoTrack !== null) return hasVideoTrack;
+
+  const extension = file.name.split(".").pop()?.toLowerCase() || "";
+  return file.type.startsWith("video/") && extension !== "weba";
+}
+
+/**
+ * 是否为视频文件
+ */
+export function isVideoType(type: string): boolean {
+  return type.startsWith("video/");
+}
+
+/**
+ * 导入文件的媒体类型：声明为视频但文件头检测为纯音频时（如 MediaRecorder 导出的 .webm）按音频处理
+ */
+export async function resolveMediaType(file: File): Promise<string> {
+  if (!isVideoType(file.type)) return file.type;
+  const detected = await detectFileType(file);
+  return detected.type.startsWith("audio/") ? detected.type : file.type;
+}
+
+/**
+ * 是否为 FormData 中的文件，不依赖运行环境是否提供全局 File
+ */
+export function isFileLike(obj: unknown): obj is File {
+  return (
+    obj !== null &&
+    typeof obj === "object" &&
+    "name" in obj &&
+    typeof obj.name === "string" &&
+    "size" in obj &&
+    typeof obj.size === "number" &&
+    "type" in obj &&
+    typeof obj.type === "string" &&
+    "arrayBuffer" in obj &&
+    typeof obj.arrayBuffer === "function"
+  );
+}
+
 /**
  * 恶意文件模式检测
  */
@@ -144,6 +302,11 @@ const MALICIOUS_PATTERNS = [
  * 读取文件头用于签名检测
  */
 async function readFileHeader(file: File, bytesToRead: number = 32): Promise<ArrayBuffer> {
+  // 服务端（导入链接时）没有 FileReader
+  if (typeof FileReader === "undefined") {
+    return file.slice(0, Math.min(bytesToRead, file.size)).arrayBuffer();
+  }
+
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -181,8 +344,8 @@ export async function detectFileType(file: File): Promise<{ type: string; confid
       }
     }
 
-    // 检查音频文件签名
-    for (const signature of AUDIO_FILE_SIGNATURES) {
+    // 检查音频和视频文件签名
+    for (const signature of MEDIA_FILE_SIGNATURES) {
       const offset = signature.offset || 0;
       if (headerArray.length >= offset + signature.magicNumber.length) {
         const matches = signature.magicNumber.every(
@@ -201,6 +364,14 @@ export async function detectFileType(file: File): Promise<{ type: string; confid
             }
           }
 
+          if (signature.mimeType === "audio/mp4" && !isAudioMp4(headerArray, file.name)) {
+            continue;
+          }
+
+          if (signature.mimeType === "audio/webm" && (await isVideoWebm(file))) {
+            continue;
+          }
+
           return { type: signature.mimeType, confidence: 1.0 };
         }
       }
@@ -240,7 +411,7 @@ export function validateExtensionMatch(file: File, detectedType: string): Valida
   const extension = file.name.split(".").pop()?.toLowerCase() || "";
 
   // 查找支持该扩展名的 MIME 类型
-  const expectedTypes = AUDIO_FILE_SIGNATURES.filter((sig) =>
+  const expectedTypes = MEDIA_FILE_SIGNATURES.filter((sig) =>
     sig.extensions.includes(extension),
   ).map((sig) => sig.mimeType);
 
@@ -593,7 +764,11 @@ async function checkFileTypeSecurity(file: File): Promise<ValidationError[]> {
 /**
  * 主要的文件验证函数
  */
-export async function validateFileWithSecurity(file: File): Promise<ValidationResult> {
+export async function validateFileWithSecurity(
+  file: File,
+  options: ValidationOptions = {},
+): Promise<ValidationResult> {
+  const { decodeAudio = true } = options;
   const result: ValidationResult = {
     isValid: true,
     errors: [],
@@ -647,8 +822,22 @@ export async function validateFileWithSecurity(file: File): Promise<ValidationRe
       }
     }
 
-    // 4. 音频内容验证（仅对音频文件）
-    if (detectedType.type.startsWith("audio/")) {
+    // 4. 音频内容验证（仅对音频文件；视频在导入时提取音轨）
+    if (isVideoType(detectedType.type)) {
+      result.info.push({
+        code: "VIDEO_FILE",
+        message: "视频文件，导入后将提取音轨用于转录",
+        severity: "info",
+        field: "audio",
+      });
+    } else if (detectedType.type.startsWith("audio/") && !decodeAudio) {
+      result.info.push({
+        code: "AUDIO_DECODE_SKIPPED",
+        message: "已跳过音频解码验证",
+        severity: "info",
+        field: "audio",
+      });
+    } else if (detectedType.type.startsWith("audio/")) {
       const audioValidation = await validateAudioContent(file);
 
       if ("code" in audioValidation) {
@@ -433,3 +433,66 @@ export function parseFuriganaAuto(furiganaString: string, originalText: string):
   const format = detectFuriganaFormat(furiganaString);
   return parseFurigana(furiganaString, originalText, format);
 }
+
+export interface FuriganaEntry {
+  text: string;
+  reading: string;
+}
+
+/**
+ * 把字幕段中各种格式的 furigana 统一为按单词排列的读音列表
+ */
+export function normalizeFuriganaEntries(rawFurigana: unknown): FuriganaEntry[] {
+  if (!rawFurigana) {
+    return [];
+  }
+
+  if (Array.isArray(rawFurigana)) {
+    return rawFurigana
+      .map((entry) => {
+        if (typeof entry === "string") {
+          const trimmed = entry.trim();
+          return trimmed ? { text: trimmed, reading: trimmed } : null;
+        }
+
+        if (entry && typeof entry === "object") {
+          const candidate = entry as Record<string, unknown>;
+          const textValue = typeof candidate.text === "string" ? candidate.text : undefined;
+          const readingValue =
+            typeof candidate.reading === "string" ? candidate.reading : undefined;
+
+          if (textValue || readingValue) {
+            const safeText = (textValue ?? readingValue ?? "").trim();
+            const safeReading = (readingValue ?? textValue ?? "").trim();
+            if (safeText && safeReading) {
+              return { text: safeText, reading: safeReading };
+            }
+          }
+        }
+
+        return null;
+      })
+      .filter((entry): entry is FuriganaEntry => !!entry);
+  }
+
+  if (typeof rawFurigana === "string") {
+    const trimmed = rawFurigana.trim();
+    if (!trimmed) return [];
+
+    try {
+      const parsed = JSON.parse(trimmed);
+      return normalizeFuriganaEntries(parsed);
+    } catch (_error) {
+      return trimmed
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((token) => ({ text: token, reading: token }));
+    }
+  }
+
+  if (typeof rawFurigana === "object") {
+    return normalizeFuriganaEntries(Object.values(rawFurigana ?? {}));
+  }
+
+  return [];
+}
@@ -0,0 +1,75 @@
+/**
+ * IP 地址分类（服务端）
+ * 判断地址能否从公网访问，用于拦截指向本机和内网的请求
+ */
+
+import { isIPv4, isIPv6 } from "node:net";
+
+function parseIpv4(address: string): number[] | null {
+  if (!isIPv4(address)) return null;
+  return address.split(".").map(Number);
+}
+
+/**
+ * 展开为 8 组 16 位数字，支持 :: 缩写和末尾的点分 IPv4
+ */
+function parseIpv6(address: string): number[] | null {
+  const host = address.replace(/%.*$/, "");
+  if (!isIPv6(host)) return null;
+
+  let text = host.toLowerCase();
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[1].split(".").map(Number);
+    text = `${text.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const missing = tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length;
+  const groups = [...headGroups, ...Array<string>(missing).fill("0"), ...tailGroups];
+  return groups.length === 8 ? groups.map((group) => Number.parseInt(group, 16)) : null;
+}
+
+function isPublicIpv4([a, b, c]: number[]): boolean {
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 || // 组播和保留地址
+    (a === 100 && b >= 64 && b <= 127) || // 运营商级 NAT
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113)
+  );
+}
+
+/**
+ * 只允许全球单播地址 2000::/3
+ * 映射 / 兼容 IPv4、NAT64、唯一本地、链路本地和组播地址都在这个范围之外；
+ * 另外排除文档地址和内嵌 IPv4 的 6to4、Teredo
+ */
+function isPublicIpv6(groups: number[]): boolean {
+  const [first, second] = groups;
+  if ((first & 0xe000) !== 0x2000) return false;
+  if (first === 0x2002) return false;
+  if (first === 0x2001 && (second === 0 || second === 0xdb8)) return false;
+  return true;
+}
+
+/**
+ * 判断 IP 地址是否为公网地址，无法解析的内容一律视为非公网
+ */
+export function isPublicAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, "");
+  const ipv4 = parseIpv4(host);
+  if (ipv4) return isPublicIpv4(ipv4);
+
+  const ipv6 = parseIpv6(host);
+  return ipv6 ? isPublicIpv6(ipv6) : false;
+}
@@ -0,0 +1,201 @@
+/**
+ * 播放器快捷键注册表
+ * 定义所有快捷键动作及默认按键，用户自定义的按键保存在 localStorage 中
+ */
+
+export const SHORTCUT_STORAGE_KEY = "umuo-keyboard-shortcuts";
+
+export type ShortcutAction =
+  | "playPause"
+  | "skipBack"
+  | "skipForward"
+  | "toggleMute"
+  | "rate025"
+  | "rate050"
+  | "rate075"
+  | "rate100"
+  | "rate125"
+  | "previousSegment"
+  | "nextSegment"
+  | "replaySegment"
+  | "loopSegment"
+  | "toggleTranslation"
+  | "toggleFurigana"
+  | "showHelp";
+
+export type ShortcutGroup = "playback" | "segment" | "display";
+
+export interface ShortcutDefinition {
+  label: string;
+  group: ShortcutGroup;
+  defaultKey: string;
+  /** 设置播放速度的动作对应的倍速 */
+  playbackRate?: number;
+}
+
+/** 动作 -> 按键组合，如 "Space"、"Ctrl+k"、"?"；空字符串表示未绑定 */
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const SHORTCUT_GROUP_LABELS: Record<ShortcutGroup, string> = {
+  playback: "播放",
+  segment: "字幕段",
+  display: "显示",
+};
+
+export const SHORTCUT_DEFINITIONS: Record<ShortcutAction, ShortcutDefinition> = {
+  playPause: { label: "播放 / 暂停", group: "playback", defaultKey: "Space" },
+  skipBack: { label: "后退 10 秒", group: "playback", defaultKey: "ArrowLeft" },
+  skipForward: { label: "前进 10 秒", group: "playback", defaultKey: "ArrowRight" },
+  toggleMute: { label: "静音 / 取消静音", group: "playback", defaultKey: "m" },
+  rate025: { label: "0.25 倍速", group: "playback", defaultKey: "1", playbackRate: 0.25 },
+  rate050: { label: "0.5 倍速", group: "playback", defaultKey: "2", playbackRate: 0.5 },
+  rate075: { label: "0.75 倍速", group: "playback", defaultKey: "3", playbackRate: 0.75 },
+  rate100: { label: "正常速度", group: "playback", defaultKey: "4", playbackRate: 1 },
+  rate125: { label: "1.25 倍速", group: "playback", defaultKey: "5", playbackRate: 1.25 },
+  previousSegment: { label: "上一句", group: "segment", defaultKey: "p" },
+  nextSegment: { label: "下一句", group: "segment", defaultKey: "n" },
+  replaySegment: { label: "重播当前句", group: "segment", defaultKey: "r" },
+  loopSegment: { label: "循环当前句", group: "segment", defaultKey: "l" },
+  toggleTranslation: { label: "显示 / 隐藏翻译", group: "display", defaultKey: "t" },
+  toggleFurigana: { label: "显示 / 隐藏注音", group: "display", defaultKey: "f" },
+  showHelp: { label: "快捷键列表", group: "display", defaultKey: "?" },
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(SHORTCUT_DEFINITIONS) as ShortcutAction[];
+
+/** 媒体键固定对应的动作，不允许重新绑定 */
+export const MEDIA_KEY_ACTIONS: Record<string, ShortcutAction> = {
+  MediaPlayPause: "playPause",
+  MediaTrackPrevious: "previousSegment",
+  MediaTrackNext: "nextSegment",
+};
+
+/** 保留给焦点导航和取消操作的按键 */
+const RESERVED_KEYS = new Set(["Escape", "Tab", "Enter"]);
+const MODIFIER_KEYS = new Set(["Control", "Shift", "Alt", "Meta", "AltGraph", "CapsLock"]);
+
+const KEY_LABELS: Record<string, string> = {
+  Space: "空格",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Meta: "⌘",
+};
+
+/**
+ * 把按键事件转换为按键组合字符串，只按下修饰键时返回 null
+ * 符号键的 key 已经体现了 Shift（如 "?"），只有字母和功能键才记录 Shift
+ */
+export function getKeyCombo(
+  event: Pick<KeyboardEvent, "key" | "ctrlKey" | "altKey" | "metaKey" | "shiftKey">,
+): string | null {
+  if (!event.key || MODIFIER_KEYS.has(event.key)) return null;
+
+  const isLetter = /^[a-z]$/i.test(event.key);
+  const key =
+    event.key === " " ? "Space" : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  const parts: string[] = [];
+  if (event.ctrlKey) parts.push("Ctrl");
+  if (event.altKey) parts.push("Alt");
+  if (event.metaKey) parts.push("Meta");
+  if (event.shiftKey && (isLetter || event.key.length > 1)) parts.push("Shift");
+  parts.push(key);
+  return parts.join("+");
+}
+
+/**
+ * 用于界面显示的按键组合，如 "Ctrl + K"
+ */
+export function formatKeyCombo(combo: string): string {
+  if (!combo) return "未设置";
+  const match = /^((?:(?:Ctrl|Alt|Meta|Shift)\+)*)(.+)$/.exec(combo);
+  if (!match) return combo;
+  const modifiers = match[1].split("+").filter(Boolean);
+  const key = match[2];
+  const keyLabel = KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+  return [...modifiers.map((modifier) => KEY_LABELS[modifier] ?? modifier), keyLabel].join(" + ");
+}
+
+export function isReservedKeyCombo(combo: string): boolean {
+  return RESERVED_KEYS.has(combo) || combo in MEDIA_KEY_ACTIONS;
+}
+
+export function getDefaultShortcutBindings(): ShortcutBindings {
+  return Object.fromEntries(
+    SHORTCUT_ACTIONS.map((action) => [action, SHORTCUT_DEFINITIONS[action].defaultKey]),
+  ) as ShortcutBindings;
+}
+
+export function findShortcutAction(
+  bindings: ShortcutBindings,
+  combo: string,
+): ShortcutAction | null {
+  if (!combo) return null;
+  return SHORTCUT_ACTIONS.find((action) => bindings[action] === combo) ?? null;
+}
+
+/**
+ * 把 combo 绑定到 action 时与之冲突的其他动作
+ */
+export function findShortcutConflict(
+  bindings: ShortcutBindings,
+  action: ShortcutAction,
+  combo: string,
+): ShortcutAction | null {
+  if (!combo) return null;
+  return SHORTCUT_ACTIONS.find((other) => other !== action && bindings[other] === combo) ?? null;
+}
+
+/**
+ * 读取用户自定义的按键
+ * 默认按键与自定义按键冲突时保留自定义按键，其余冲突的按键解除绑定
+ */
+export function loadShortcutBindings(): ShortcutBindings {
+  const bindings = getDefaultShortcutBindings();
+  if (typeof window === "undefined") return bindings;
+
+  try {
+    const stored = window.localStorage.getItem(SHORTCUT_STORAGE_KEY);
+    const overrides: Record<string, unknown> = stored ? JSON.parse(stored) : {};
+    const overridden = new Set<ShortcutAction>();
+    for (const action of SHORTCUT_ACTIONS) {
+      const combo = overrides[action];
+      if (typeof combo !== "string" || isReservedKeyCombo(combo)) continue;
+      bindings[action] = combo;
+      overridden.add(action);
+    }
+    for (const action of SHORTCUT_ACTIONS) {
+      if (!overridden.has(action) && findShortcutConflict(bindings, action, bindings[action])) {
+        bindings[action] = "";
+      }
+    }
+    SHORTCUT_ACTIONS.forEach((action, index) => {
+      const combo = bindings[action];
+      if (combo && SHORTCUT_ACTIONS.slice(0, index).some((other) => bindings[other] === combo)) {
+        bindings[action] = "";
+      }
+    });
+  } catch (error) {
+    console.warn("Failed to read keyboard shortcuts from localStorage:", error);
+  }
+  return bindings;
+}
+
+/**
+ * 只保存与默认值不同的按键，以后调整默认按键时未自定义的动作会自动更新
+ */
+export function saveShortcutBindings(bindings: ShortcutBindings): void {
+  if (typeof window === "undefined") return;
+
+  const overrides = Object.fromEntries(
+    SHORTCUT_ACTIONS.filter(
+      (action) => bindings[action] !== SHORTCUT_DEFINITIONS[action].defaultKey,
+    ).map((action) => [action, bindings[action]]),
+  );
+  try {
+    window.localStorage.setItem(SHORTCUT_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.warn("Failed to save keyboard shortcuts to localStorage:", error);
+  }
+}
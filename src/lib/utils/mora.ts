@@ -0,0 +1,29 @@
+/**
+ * 日语拍（モーラ）切分
+ * 拗音的小写假名与前一个假名合为一拍，促音「っ」、拨音「ん」和长音「ー」各占一拍
+ */
+
+const SMALL_KANA = /[ぁぃぅぇぉゃゅょゎァィゥェォャュョヮ]/;
+const KANA_ONLY = /^[\p{Script=Hiragana}\p{Script=Katakana}ー]+$/u;
+
+/**
+ * 是否只由假名组成
+ */
+export function isKana(text: string): boolean {
+  return KANA_ONLY.test(text);
+}
+
+/**
+ * 把假名切分为拍
+ */
+export function splitMora(kana: string): string[] {
+  const mora: string[] = [];
+  for (const char of Array.from(kana.trim())) {
+    if (SMALL_KANA.test(char) && mora.length > 0) {
+      mora[mora.length - 1] += char;
+    } else if (char.trim()) {
+      mora.push(char);
+    }
+  }
+  return mora;
+}
@@ -3,7 +3,14 @@
  * 提供高性能的segments处理，支持智能分类、并发控制和批处理
  */
 
-import Groq from "groq-sdk";
+import {
+  type ChatProvider,
+  type ChatProviderConfig,
+  createChatProvider,
+  getChatProviderConfig,
+  resolveChatModel,
+} from "@/lib/ai/chat-providers";
+import type { VocabularyEntry } from "@/types/transcription";
 
 export interface Segment {
   text: string;
@@ -17,6 +24,7 @@ export interface ProcessedSegment {
   translation?: string;
   annotations?: string[];
   furigana?: string;
+  vocabulary?: VocabularyEntry[];
   start: number;
   end: number;
 }
@@ -25,25 +33,81 @@ export interface PostProcessOptions {
   targetLanguage?: string;
   enableAnnotations?: boolean;
   enableFurigana?: boolean;
+  /** 提取结构化词汇（原形、读音、词性、释义、等级） */
+  enableVocabulary?: boolean;
   maxConcurrent?: number;
   batchSize?: number;
+  /** 指定模型，不指定时按语言对从配置中选择 */
+  model?: string;
 }
 
 const DEFAULT_OPTIONS: Required<PostProcessOptions> = {
   targetLanguage: "en",
   enableAnnotations: true,
   enableFurigana: true,
+  enableVocabulary: true,
   maxConcurrent: 8,
   batchSize: 20,
+  model: "",
 };
 
-const GROQ_CHAT_MODEL = "openai/gpt-oss-20b";
+const VOCABULARY_EXAMPLE =
+  '{ "lemma": "...", "surface": "...", "reading": "...", "partOfSpeech": "...", "gloss": "...", "level": "..." }';
 
-class OptimizedPostProcessor {
-  private groqClient: Groq;
+const VOCABULARY_LEVEL_PATTERN = /^(N[1-5]|[ABC][12])$/;
 
-  constructor() {
-    this.groqClient = new Groq({ apiKey: process.env.GROQ_API_KEY });
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+/**
+ * 清理模型返回的词汇列表：丢弃没有原形的条目，等级统一为 N1-N5 / A1-C2，同一原形只保留一条
+ */
+export function normalizeVocabularyEntries(raw: unknown): VocabularyEntry[] {
+  if (!Array.isArray(raw)) return [];
+
+  const entries = new Map<string, VocabularyEntry>();
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const candidate = item as Record<string, unknown>;
+    const lemma = optionalString(candidate.lemma);
+    if (!lemma || entries.has(lemma)) continue;
+
+    const level = optionalString(candidate.level)
+      ?.toUpperCase()
+      .replace(/^JLPT\s*/, "");
+    entries.set(lemma, {
+      lemma,
+      surface: optionalString(candidate.surface),
+      reading: optionalString(candidate.reading),
+      partOfSpeech: optionalString(candidate.partOfSpeech),
+      gloss: optionalString(candidate.gloss),
+      level: level && VOCABULARY_LEVEL_PATTERN.test(level) ? level : undefined,
+    });
+  }
+
+  return Array.from(entries.values());
+}
+
+export class OptimizedPostProcessor {
+  private provider?: ChatProvider;
+  private config?: ChatProviderConfig;
+
+  /**
+   * @param provider 对话补全提供方，不传时在首次使用时按环境变量创建
+   */
+  constructor(provider?: ChatProvider, config?: ChatProviderConfig) {
+    this.provider = provider;
+    this.config = config;
+  }
+
+  private getConfig(): ChatProviderConfig {
+    this.config ??= getChatProviderConfig();
+    return this.config;
+  }
+
+  private getProvider(): ChatProvider {
+    this.provider ??= createChatProvider(this.getConfig());
+    return this.provider;
   }
 
   /**
@@ -55,9 +119,14 @@ class OptimizedPostProcessor {
     options: PostProcessOptions = {},
   ): Promise<ProcessedSegment[]> {
     const finalOptions = { ...DEFAULT_OPTIONS, ...options };
+    finalOptions.model ||= resolveChatModel(
+      this.getConfig(),
+      sourceLanguage,
+      finalOptions.targetLanguage,
+    );
     const startTime = Date.now();
 
-    console.log(`🚀 开始优化后处理: ${segments.length} segments`);
+    console.log(`🚀 开始优化后处理: ${segments.length} segments (模型: ${finalOptions.model})`);
 
     // 智能文本分类
     const categorizedSegments = this.categorizeSegments(segments);
@@ -264,8 +333,8 @@ class OptimizedPostProcessor {
     const prompt = this.buildBatchPrompt(combinedText, sourceLanguage, options);
 
     try {
-      const response = await this.groqClient.chat.completions.create({
-        model: GROQ_CHAT_MODEL,
+      const responseText = await this.getProvider().complete({
+        model: options.model,
         temperature: 0.2, // 降低温度提高一致性
         messages: [
           {
@@ -277,7 +346,6 @@ class OptimizedPostProcessor {
         ],
       });
 
-      const responseText = response.choices[0]?.message?.content || "";
       const parsedResponse = this.parseBatchResponse(responseText, segments.length);
 
       return segments.map((segment, index) => {
@@ -288,6 +356,7 @@ class OptimizedPostProcessor {
           translation: processed?.translation || "",
           annotations: processed?.annotations || [],
           furigana: processed?.furigana || "",
+          vocabulary: normalizeVocabularyEntries(processed?.vocabulary),
           start: segment.start,
           end: segment.end,
         };
@@ -338,8 +407,8 @@ class OptimizedPostProcessor {
   ): Promise<ProcessedSegment> {
     const prompt = this.buildSinglePrompt(segment.text, sourceLanguage, options);
 
-    const response = await this.groqClient.chat.completions.create({
-      model: GROQ_CHAT_MODEL,
+    const responseText = await this.getProvider().complete({
+      model: options.model,
       temperature: 0.3,
       messages: [
         {
@@ -351,7 +420,6 @@ class OptimizedPostProcessor {
       ],
     });
 
-    const responseText = response.choices[0]?.message?.content || "";
     const parsed = this.parseSingleResponse(responseText);
 
     return {
@@ -360,6 +428,7 @@ class OptimizedPostProcessor {
       translation: parsed.translation || "",
       annotations: parsed.annotations || [],
       furigana: parsed.furigana || "",
+      vocabulary: normalizeVocabularyEntries(parsed.vocabulary),
       start: segment.start,
       end: segment.end,
     };
@@ -373,10 +442,18 @@ class OptimizedPostProcessor {
     sourceLanguage: string,
     options: Required<PostProcessOptions>,
   ): string {
+    const vocabularyField = options.enableVocabulary
+      ? `,
+      "vocabulary": [${VOCABULARY_EXAMPLE}]`
+      : "";
+    const vocabularyHint = options.enableVocabulary
+      ? `\n${this.buildVocabularyInstruction(sourceLanguage, options.targetLanguage)}\n`
+      : "";
+
     return `Process these ${sourceLanguage} text segments for language learning:
 
 ${combinedText}
-
+${vocabularyHint}
 Return JSON:
 {
   "segments": [
@@ -385,12 +462,20 @@ Return JSON:
       "normalizedText": "clean text",
       "translation": "translation",
       "annotations": ["notes"],
-      "furigana": "reading"
+      "furigana": "reading"${vocabularyField}
     }
   ]
 }`;
   }
 
+  /**
+   * 词汇提取说明：等级体系随源语言变化
+   */
+  private buildVocabularyInstruction(sourceLanguage: string, targetLanguage: string): string {
+    const levelSystem = sourceLanguage === "ja" ? "JLPT level (N5-N1)" : "CEFR level (A1-C2)";
+    return `List the notable vocabulary of each segment in "vocabulary": dictionary form as "lemma", the form used in the text as "surface", "reading", "partOfSpeech", a short "gloss" in ${targetLanguage}, and the ${levelSystem} as "level". Skip particles and proper nouns.`;
+  }
+
   /**
    * 构建单个segment的提示
    */
@@ -413,7 +498,14 @@ Return JSON:
       prompt += `\nInclude furigana`;
     }
 
-    prompt += `\n\nRespond with JSON: { "normalizedText": "...", "translation": "...", "annotations": [...], "furigana": "..." }`;
+    if (options.enableVocabulary) {
+      prompt += `\n${this.buildVocabularyInstruction(sourceLanguage, options.targetLanguage)}`;
+    }
+
+    const vocabularyField = options.enableVocabulary
+      ? `, "vocabulary": [${VOCABULARY_EXAMPLE}]`
+      : "";
+    prompt += `\n\nRespond with JSON: { "normalizedText": "...", "translation": "...", "annotations": [...], "furigana": "..."${vocabularyField} }`;
 
     return prompt;
   }
@@ -0,0 +1,180 @@
+/**
+ * 基频（F0）估计
+ * 用归一化自相关逐帧估计音高，无声或清音帧记为 0
+ */
+
+import type { AudioSamples } from "@/lib/utils/waveform";
+
+/** 人声基频的搜索范围（Hz） */
+export const MIN_PITCH_HZ = 70;
+export const MAX_PITCH_HZ = 400;
+
+/** 分析窗长（秒），需覆盖最低基频的两个周期 */
+const PITCH_WINDOW = 0.032;
+/** 自相关峰值低于该值时视为清音 */
+const VOICING_THRESHOLD = 0.45;
+/** 自相关峰值达到最大值的该比例即认为是基本周期 */
+const OCTAVE_TOLERANCE = 0.9;
+/** RMS 低于该值时视为静音 */
+const SILENCE_RMS = 0.01;
+
+export interface PitchContour {
+  /** 每帧的基频（Hz），0 表示无声 */
+  values: Float32Array;
+  framesPerSecond: number;
+  /** 第一帧对应的时间（秒） */
+  start: number;
+}
+
+/**
+ * 估计一帧的基频
+ * @returns 基频（Hz），无声或清音时返回 0
+ */
+export function estimateFramePitch(frame: Float32Array, sampleRate: number): number {
+  let energy = 0;
+  for (const value of frame) energy += value * value;
+  if (Math.sqrt(energy / frame.length) < SILENCE_RMS) return 0;
+
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / MIN_PITCH_HZ));
+
+  const correlations = new Float32Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1 && lag < frame.length; lag++) {
+    let sum = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let index = 0; index + lag < frame.length; index++) {
+      sum += frame[index] * frame[index + lag];
+      energyA += frame[index] * frame[index];
+      energyB += frame[index + lag] * frame[index + lag];
+    }
+    correlations[lag] = energyA > 0 && energyB > 0 ? sum / Math.sqrt(energyA * energyB) : 0;
+  }
+
+  let peak = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    peak = Math.max(peak, correlations[lag]);
+  }
+  if (peak < VOICING_THRESHOLD) return 0;
+
+  // 取第一个接近最大值的局部峰，避免把周期的整数倍误认为周期（低八度错误）
+  let bestLag = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const value = correlations[lag];
+    if (
+      value >= peak * OCTAVE_TOLERANCE &&
+      value >= correlations[lag - 1] &&
+      value >= correlations[lag + 1]
+    ) {
+      bestLag = lag;
+      break;
+    }
+  }
+  if (bestLag === 0) return 0;
+  const best = correlations[bestLag];
+
+  // 抛物线插值得到亚采样精度的周期
+  const left = correlations[bestLag - 1] ?? best;
+  const right = correlations[bestLag + 1] ?? best;
+  const denominator = left - 2 * best + right;
+  const offset = denominator !== 0 ? (0.5 * (left - right)) / denominator : 0;
+  return sampleRate / (bestLag + Math.max(-0.5, Math.min(0.5, offset)));
+}
+
+/**
+ * 计算 [start, end] 时间范围内的基频曲线
+ */
+export function computePitchContour(
+  audio: AudioSamples,
+  range: { start: number; end: number },
+  framesPerSecond: number = 100,
+): PitchContour {
+  const windowSize = Math.round(PITCH_WINDOW * audio.sampleRate);
+  const frameCount = Math.max(0, Math.floor((range.end - range.start) * framesPerSecond));
+  const values = new Float32Array(frameCount);
+
+  for (let index = 0; index < frameCount; index++) {
+    const center = Math.round((range.start + index / framesPerSecond) * audio.sampleRate);
+    const from = Math.max(0, center - Math.floor(windowSize / 2));
+    const frame = audio.samples.subarray(from, from + windowSize);
+    values[index] = frame.length === windowSize ? estimateFramePitch(frame, audio.sampleRate) : 0;
+  }
+
+  return { values, framesPerSecond, start: range.start };
+}
+
+/**
+ * 第一个和最后一个有声帧的下标，全部无声时返回 null
+ */
+export function getVoicedSpan(values: Float32Array): { first: number; last: number } | null {
+  const first = values.findIndex((value) => value > 0);
+  if (first === -1) return null;
+  let last = values.length - 1;
+  while (last > first && values[last] <= 0) last--;
+  return { first, last };
+}
+
+/**
+ * 换算为相对说话人中位音高的半音数，消除男女声音域差异；无声帧为 NaN
+ */
+export function toSemitones(values: Float32Array): Float32Array {
+  const voiced = Array.from(values)
+    .filter((value) => value > 0)
+    .sort((a, b) => a - b);
+  const semitones = new Float32Array(values.length).fill(Number.NaN);
+  if (voiced.length === 0) return semitones;
+
+  const median = voiced[Math.floor(voiced.length / 2)];
+  values.forEach((value, index) => {
+    if (value > 0) semitones[index] = 12 * Math.log2(value / median);
+  });
+  return semitones;
+}
+
+/**
+ * 在画布上绘制 [start, end] 时间范围内的基频曲线，纵轴按半音（对数）刻度
+ */
+export function drawPitchContour(
+  canvas: HTMLCanvasElement,
+  contour: PitchContour,
+  range: { start: number; end: number },
+  color: string,
+): void {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.max(1, Math.floor(canvas.clientWidth * ratio));
+  const height = Math.max(1, Math.floor(canvas.clientHeight * ratio));
+  canvas.width = width;
+  canvas.height = height;
+  context.clearRect(0, 0, width, height);
+
+  const duration = range.end - range.start;
+  if (duration <= 0) return;
+
+  const minLog = Math.log2(MIN_PITCH_HZ);
+  const maxLog = Math.log2(MAX_PITCH_HZ);
+  context.strokeStyle = color;
+  context.lineWidth = 2 * ratio;
+  context.lineJoin = "round";
+  context.beginPath();
+
+  let drawing = false;
+  contour.values.forEach((value, index) => {
+    if (value <= 0) {
+      drawing = false;
+      return;
+    }
+    const time = contour.start + index / contour.framesPerSecond;
+    const x = ((time - range.start) / duration) * width;
+    const y = height - ((Math.log2(value) - minLog) / (maxLog - minLog)) * height;
+    if (drawing) {
+      context.lineTo(x, y);
+    } else {
+      context.moveTo(x, y);
+      drawing = true;
+    }
+  });
+  context.stroke();
+}
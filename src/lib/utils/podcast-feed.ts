@@ -0,0 +1,224 @@
+/**
+ * 播客订阅源解析
+ * 支持 RSS 2.0（含 iTunes 扩展）和 Atom；服务端没有 DOMParser，按标签用正则提取
+ */
+
+export interface PodcastEpisode {
+  guid: string;
+  title: string;
+  audioUrl: string;
+  audioType?: string;
+  audioSize?: number;
+  /** ISO 字符串，经 JSON 传给客户端 */
+  publishedAt?: string;
+  /** 秒 */
+  duration?: number;
+  description?: string;
+}
+
+export interface PodcastFeed {
+  feedUrl: string;
+  title: string;
+  author?: string;
+  description?: string;
+  imageUrl?: string;
+  episodes: PodcastEpisode[];
+}
+
+/** 简介最多保留的字符数 */
+const MAX_DESCRIPTION_LENGTH = 300;
+
+const AUDIO_URL_PATTERN = /\.(mp3|m4a|aac|wav|ogg|oga|opus|flac)(\?|#|$)/i;
+
+function escapeTag(tag: string): string {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    const lower = name.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(Number.parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(Number.parseInt(lower.slice(1), 10));
+    const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+    return named[lower] ?? entity;
+  });
+}
+
+/**
+ * 元素文本：CDATA 原样保留，其余解码实体
+ */
+function decodeText(raw: string): string {
+  const parts = raw.split(/<!\[CDATA\[([\s\S]*?)\]\]>/);
+  return parts
+    .map((part, index) => (index % 2 === 1 ? part : decodeEntities(part)))
+    .join("")
+    .trim();
+}
+
+function getElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(
+    `<${escapeTag(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeTag(tag)}>`,
+    "gi",
+  );
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+function getText(xml: string, tag: string): string | undefined {
+  const [inner] = getElements(xml, tag);
+  if (inner === undefined) return undefined;
+  return decodeText(inner) || undefined;
+}
+
+function getAttributeSets(xml: string, tag: string): Record<string, string>[] {
+  const pattern = new RegExp(`<${escapeTag(tag)}(\\s[^>]*?)?/?>`, "gi");
+  return Array.from(xml.matchAll(pattern), (match) => {
+    const attributes: Record<string, string> = {};
+    for (const attr of (match[1] ?? "").matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attributes[attr[1].toLowerCase()] = decodeEntities(attr[2] ?? attr[3] ?? "");
+    }
+    return attributes;
+  });
+}
+
+function stripHtml(text: string): string {
+  const plain = decodeEntities(text.replace(/<[^>]*>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+  return plain.length > MAX_DESCRIPTION_LENGTH
+    ? `${plain.slice(0, MAX_DESCRIPTION_LENGTH)}…`
+    : plain;
+}
+
+function resolveUrl(url: string | undefined, baseUrl: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url.trim(), baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function parseDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * 解析 itunes:duration，支持 "3723"、"62:03" 和 "1:02:03"
+ */
+export function parseEpisodeDuration(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parts = value.trim().split(":");
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return undefined;
+  const seconds = parts.reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds > 0 ? seconds : undefined;
+}
+
+/**
+ * 内容是否为 RSS / Atom 订阅源
+ */
+export function isFeedContent(text: string): boolean {
+  return /<(rss|feed|rdf:RDF)[\s>]/i.test(text.slice(0, 2048));
+}
+
+/**
+ * 链接路径是否以音频扩展名结尾
+ */
+export function isAudioUrl(url: string): boolean {
+  return AUDIO_URL_PATTERN.test(url);
+}
+
+function isAudioEnclosure(type: string | undefined, url: string): boolean {
+  return type ? type.toLowerCase().startsWith("audio/") : isAudioUrl(url);
+}
+
+function parseRssItem(item: string, feedUrl: string): PodcastEpisode | null {
+  const enclosure = getAttributeSets(item, "enclosure").find(
+    (attrs) => attrs.url && isAudioEnclosure(attrs.type, attrs.url),
+  );
+  const audioUrl = resolveUrl(enclosure?.url, feedUrl);
+  if (!enclosure || !audioUrl) return null;
+
+  const description = getText(item, "itunes:summary") ?? getText(item, "description");
+  return {
+    guid: getText(item, "guid") ?? audioUrl,
+    title: getText(item, "title") ?? getText(item, "itunes:title") ?? audioUrl,
+    audioUrl,
+    audioType: enclosure.type,
+    audioSize: parseNumber(enclosure.length),
+    publishedAt: parseDate(getText(item, "pubDate") ?? getText(item, "dc:date")),
+    duration: parseEpisodeDuration(getText(item, "itunes:duration")),
+    description: description ? stripHtml(description) : undefined,
+  };
+}
+
+function parseAtomEntry(entry: string, feedUrl: string): PodcastEpisode | null {
+  const link = getAttributeSets(entry, "link").find(
+    (attrs) => attrs.rel === "enclosure" && attrs.href && isAudioEnclosure(attrs.type, attrs.href),
+  );
+  const audioUrl = resolveUrl(link?.href, feedUrl);
+  if (!link || !audioUrl) return null;
+
+  const description = getText(entry, "summary") ?? getText(entry, "content");
+  return {
+    guid: getText(entry, "id") ?? audioUrl,
+    title: getText(entry, "title") ?? audioUrl,
+    audioUrl,
+    audioType: link.type,
+    audioSize: parseNumber(link.length),
+    publishedAt: parseDate(getText(entry, "published") ?? getText(entry, "updated")),
+    duration: parseEpisodeDuration(getText(entry, "itunes:duration")),
+    description: description ? stripHtml(description) : undefined,
+  };
+}
+
+/**
+ * 解析订阅源，只保留带音频附件的单集
+ * @param feedUrl 订阅源地址，用于解析相对链接
+ */
+export function parsePodcastFeed(xml: string, feedUrl: string): PodcastFeed {
+  if (!isFeedContent(xml)) {
+    throw new Error("不是有效的 RSS 或 Atom 订阅源");
+  }
+
+  const isAtom = /<feed[\s>]/i.test(xml) && !/<rss[\s>]/i.test(xml);
+  const itemTag = isAtom ? "entry" : "item";
+  // 频道信息只从第一个单集之前的部分读取，避免取到单集的标题
+  const firstItem = xml.search(new RegExp(`<${itemTag}[\\s>]`, "i"));
+  const head = firstItem === -1 ? xml : xml.slice(0, firstItem);
+  // RSS 的 <image> 里也有 <title>
+  const channel = head.replace(/<image[\s>][\s\S]*?<\/image>/gi, "");
+
+  const episodes = getElements(xml, itemTag)
+    .map((item) => (isAtom ? parseAtomEntry(item, feedUrl) : parseRssItem(item, feedUrl)))
+    .filter((episode): episode is PodcastEpisode => episode !== null);
+
+  const description = isAtom
+    ? getText(channel, "subtitle")
+    : (getText(channel, "itunes:summary") ?? getText(channel, "description"));
+  const atomAuthor = getElements(channel, "author")[0];
+
+  return {
+    feedUrl,
+    title: getText(channel, "title") ?? feedUrl,
+    author: isAtom
+      ? atomAuthor && getText(atomAuthor, "name")
+      : (getText(channel, "itunes:author") ?? getText(channel, "managingEditor")),
+    description: description ? stripHtml(description) : undefined,
+    imageUrl: resolveUrl(
+      getAttributeSets(head, "itunes:image")[0]?.href ??
+        getText(getElements(head, "image")[0] ?? "", "url") ??
+        getText(head, "logo") ??
+        getText(head, "icon"),
+      feedUrl,
+    ),
+    episodes,
+  };
+}
@@ -59,6 +59,24 @@ export const API_RATE_LIMIT_CONFIG: Record<string, RateLimitConfig> = {
     maxRequests: 20,
     message: "文本处理请求过于频繁，请稍后再试",
   },
+  // 跟读评分 API - 每次只转录一句录音
+  "/api/pronunciation": {
+    windowMs: 60 * 1000,
+    maxRequests: 30,
+    message: "评分请求过于频繁，请稍后再试",
+  },
+  // 单词查询 API - 点击字幕单词时按需调用
+  "/api/lookup": {
+    windowMs: 60 * 1000,
+    maxRequests: 60,
+    message: "查词请求过于频繁，请稍后再试",
+  },
+  // 链接导入 API - 服务端代为下载音频和订阅源
+  "/api/import": {
+    windowMs: 60 * 1000,
+    maxRequests: 30,
+    message: "导入请求过于频繁，请稍后再试",
+  },
   // 默认 API 限制
   default: {
     windowMs: 60 * 1000,
@@ -222,6 +240,21 @@ export function getRateLimitConfig(pathname: string): RateLimitConfig {
   return API_RATE_LIMIT_CONFIG.default;
 }
 
+/**
+ * 判断是否为分块转录的后续分块
+ * 长音频按分块逐个上传，一个文件只在第一个分块时计入转录限流
+ */
+export function isFollowUpTranscribeChunk(searchParams: URLSearchParams): boolean {
+  const chunkIndex = Number(searchParams.get("chunkIndex"));
+  const totalChunks = Number(searchParams.get("totalChunks"));
+  return (
+    Number.isInteger(chunkIndex) &&
+    Number.isInteger(totalChunks) &&
+    chunkIndex > 0 &&
+    chunkIndex < totalChunks
+  );
+}
+
 /**
  * 从请求中提取客户端标识
  * 优先使用 X-Forwarded-For，其次使用 X-Real-IP
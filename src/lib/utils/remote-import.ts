@@ -0,0 +1,361 @@
+/**
+ * 链接导入（服务端）
+ * 拉取远程音频和播客订阅源，限制协议、主机、重定向、大小和超时
+ * 主机解析后的每个地址都必须是公网地址，连接直接使用校验过的地址
+ */
+
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import http from "node:http";
+import https from "node:https";
+import { isIP } from "node:net";
+import { Readable } from "node:stream";
+import { createError } from "@/lib/utils/error-handler";
+import {
+  detectFileType,
+  isVideoType,
+  type ValidationResult,
+  validateFileWithSecurity,
+} from "@/lib/utils/file-validation";
+import { isPublicAddress } from "@/lib/utils/ip-address";
+import {
+  isAudioUrl,
+  isFeedContent,
+  type PodcastFeed,
+  parsePodcastFeed,
+} from "@/lib/utils/podcast-feed";
+
+/** 与 performSecurityChecks 的文件大小上限一致 */
+export const MAX_IMPORT_AUDIO_BYTES = 100 * 1024 * 1024;
+export const MAX_FEED_BYTES = 5 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 60 * 1000;
+const MAX_REDIRECTS = 5;
+const MAX_FILE_NAME_LENGTH = 120;
+
+const EXTENSION_BY_TYPE: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/flac": "flac",
+  "audio/ogg": "ogg",
+  "audio/aac": "aac",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/webm": "webm",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+};
+
+export type ImportPreview =
+  | { kind: "audio"; url: string; fileName: string; size?: number }
+  | { kind: "feed"; feed: PodcastFeed };
+
+export interface RemoteAudio {
+  data: Uint8Array<ArrayBuffer>;
+  fileName: string;
+  type: string;
+  validation: ValidationResult;
+}
+
+function isLocalHostName(host: string): boolean {
+  return host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local");
+}
+
+function privateHostError(host: string) {
+  return createError("apiValidationError", "不能导入本机或内网地址", { host }, 400);
+}
+
+/**
+ * 解析主机名并校验所有地址，返回用于连接的地址
+ * 只要有一个地址不是公网地址就拒绝，避免 DNS 轮换到内网地址
+ */
+async function resolvePublicAddress(url: URL): Promise<LookupAddress> {
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  if (family) return { address: host, family };
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch (error) {
+    throw createError(
+      "networkError",
+      "无法解析该链接的域名",
+      { host, error: error instanceof Error ? error.message : String(error) },
+      502,
+    );
+  }
+
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    throw privateHostError(host);
+  }
+  return addresses[0];
+}
+
+/**
+ * 校验用户提供的链接，只允许 http / https
+ */
+export function parseImportUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw createError("apiValidationError", "链接格式不正确", { url: raw }, 400);
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw createError("apiValidationError", "只支持 http 和 https 链接", { url: raw }, 400);
+  }
+  if (url.username || url.password) {
+    throw createError("apiValidationError", "链接中不能包含账号密码", undefined, 400);
+  }
+  // IP 字面量和本机域名在解析前就能拒绝，其余域名在连接前解析校验
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (isLocalHostName(host) || (isIP(host) && !isPublicAddress(host))) {
+    throw privateHostError(url.hostname);
+  }
+  return url;
+}
+
+/**
+ * 向指定地址发起 GET 请求，DNS 查询直接返回该地址，连接不会落到校验之外的主机
+ * HTTPS 仍按链接中的主机名做 SNI 和证书校验
+ */
+function requestPinned(url: URL, address: LookupAddress, accept: string): Promise<Response> {
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      {
+        headers: { accept, "user-agent": "umuo-app/1.0 (+podcast import)" },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        lookup: (_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, [address]);
+          } else {
+            callback(null, address.address, address.family);
+          }
+        },
+      },
+      (message) => {
+        try {
+          const headers = new Headers();
+          for (let i = 0; i < message.rawHeaders.length; i += 2) {
+            headers.append(message.rawHeaders[i], message.rawHeaders[i + 1]);
+          }
+          const status = message.statusCode ?? 0;
+          const hasBody = ![204, 205, 304].includes(status);
+          if (!hasBody) message.resume();
+          resolve(
+            new Response(hasBody ? (Readable.toWeb(message) as ReadableStream<Uint8Array>) : null, {
+              status,
+              headers,
+            }),
+          );
+        } catch (error) {
+          message.destroy();
+          reject(error);
+        }
+      },
+    );
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+/**
+ * 手动跟随重定向，每一跳都重新校验链接并解析地址
+ */
+async function fetchRemote(url: URL, accept: string): Promise<{ response: Response; url: URL }> {
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const address = await resolvePublicAddress(current);
+
+    let response: Response;
+    try {
+      response = await requestPinned(current, address, accept);
+    } catch (error) {
+      throw createError(
+        "networkError",
+        "无法访问该链接",
+        { url: current.toString(), error: error instanceof Error ? error.message : String(error) },
+        502,
+      );
+    }
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = parseImportUrl(new URL(location, current).toString());
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw createError(
+        "networkError",
+        `远程服务器返回错误 (${response.status})`,
+        { url: current.toString(), status: response.status },
+        502,
+      );
+    }
+
+    return { response, url: current };
+  }
+
+  throw createError("networkError", "重定向次数过多", { url: url.toString() }, 502);
+}
+
+/**
+ * 读取响应内容，超过上限立即中止
+ */
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array<ArrayBuffer>> {
+  const tooLarge = () =>
+    createError(
+      "fileUploadFailed",
+      `文件超过 ${Math.round(maxBytes / 1024 / 1024)}MB 上限`,
+      { maxBytes },
+      413,
+    );
+
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) return new Uint8Array(0);
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+function getContentType(response: Response): string {
+  return (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * 去掉文件名中会被安全检查拒绝的字符
+ */
+export function sanitizeFileName(name: string): string {
+  return (
+    name
+      .replace(/[\\/<>:"|?*\p{Cc}]/gu, " ")
+      .replace(/\.{2,}/g, ".")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, MAX_FILE_NAME_LENGTH)
+      .replace(/^\.+|\.+$/g, "") || "audio"
+  );
+}
+
+function getUrlBaseName(url: URL): string {
+  const segment = url.pathname.split("/").pop() ?? "";
+  let name = segment;
+  try {
+    name = decodeURIComponent(segment);
+  } catch {
+    // 编码不完整时保留原样
+  }
+  return name.replace(/\.[a-z0-9]+$/i, "");
+}
+
+function getUrlExtension(url: URL): string | undefined {
+  return url.pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+}
+
+/**
+ * 判断链接是音频还是订阅源；订阅源会直接解析出单集列表
+ */
+export async function fetchImportPreview(rawUrl: string): Promise<ImportPreview> {
+  const { response, url } = await fetchRemote(
+    parseImportUrl(rawUrl),
+    "application/rss+xml, application/atom+xml, application/xml, text/xml, audio/*, */*;q=0.5",
+  );
+  const contentType = getContentType(response);
+  const looksLikeAudio =
+    contentType.startsWith("audio/") ||
+    isVideoType(contentType) ||
+    (contentType === "application/octet-stream" && isAudioUrl(url.pathname));
+
+  if (looksLikeAudio) {
+    await response.body?.cancel();
+    const extension = EXTENSION_BY_TYPE[contentType] ?? getUrlExtension(url) ?? "mp3";
+    const size = Number(response.headers.get("content-length"));
+    return {
+      kind: "audio",
+      url: url.toString(),
+      fileName: `${sanitizeFileName(getUrlBaseName(url))}.${extension}`,
+      size: size > 0 ? size : undefined,
+    };
+  }
+
+  const text = new TextDecoder().decode(await readLimited(response, MAX_FEED_BYTES));
+  if (!isFeedContent(text)) {
+    throw createError(
+      "apiValidationError",
+      "该链接既不是音频文件，也不是播客订阅源",
+      { url: url.toString(), contentType },
+      422,
+    );
+  }
+  return { kind: "feed", feed: parsePodcastFeed(text, url.toString()) };
+}
+
+/**
+ * 下载音频并做安全验证
+ * @param title 用作文件名，缺省时取链接中的文件名
+ */
+export async function downloadRemoteAudio(rawUrl: string, title?: string): Promise<RemoteAudio> {
+  const { response, url } = await fetchRemote(parseImportUrl(rawUrl), "audio/*, */*;q=0.5");
+  const contentType = getContentType(response);
+  const bytes = await readLimited(response, MAX_IMPORT_AUDIO_BYTES);
+  const baseName = sanitizeFileName(title?.trim() || getUrlBaseName(url));
+
+  // 扩展名以文件头检测结果为准，其次是 Content-Type 和链接
+  // 链接中的扩展名参与检测，用于区分 MP4 容器里是音频还是视频
+  const urlExtension = getUrlExtension(url);
+  const probe = new File([bytes], urlExtension ? `${baseName}.${urlExtension}` : baseName);
+  const detected = await detectFileType(probe);
+  const type = EXTENSION_BY_TYPE[detected.type]
+    ? detected.type
+    : EXTENSION_BY_TYPE[contentType]
+      ? contentType
+      : "application/octet-stream";
+  const extension = EXTENSION_BY_TYPE[type] ?? urlExtension ?? "bin";
+  const file = new File([bytes], `${baseName}.${extension}`, { type });
+
+  const validation = await validateFileWithSecurity(file, { decodeAudio: false });
+  if (!validation.isValid) {
+    throw createError(
+      "fileUploadFailed",
+      validation.errors[0]?.message ?? "文件验证失败",
+      { errors: validation.errors.map((error) => error.code) },
+      422,
+    );
+  }
+  return { data: bytes, fileName: file.name, type, validation };
+}
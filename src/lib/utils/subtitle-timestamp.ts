@@ -0,0 +1,25 @@
+/**
+ * 字幕时间戳格式化
+ * SRT 使用逗号分隔毫秒，WebVTT 使用句点
+ */
+
+/**
+ * 格式化时间戳，先取整到毫秒避免出现 00:00:01,1000 之类的进位错误
+ */
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}${separator}${ms.toString().padStart(3, "0")}`;
+}
+
+export function formatSrtTimestamp(seconds: number): string {
+  return formatTimestamp(seconds, ",");
+}
+
+export function formatVttTimestamp(seconds: number): string {
+  return formatTimestamp(seconds, ".");
+}
@@ -1,19 +1,41 @@
 /**
  * 转录队列管理
- * 提供并发控制和取消功能
+ * 队列持久化在 IndexedDB 中，页面刷新后可恢复；支持优先级、暂停/继续、手动排序和取消
  */
 
 import type { TranscriptionLanguageCode } from "@/components/layout/contexts/TranscriptionLanguageContext";
+import { db } from "@/lib/db/db";
+import { repairInterruptedTranscriptions } from "@/lib/utils/file-status-manager";
+import type { TranscriptionQueuePriority, TranscriptionQueueRow } from "@/types/db/database";
+
+export type { TranscriptionQueuePriority } from "@/types/db/database";
 
 export interface TranscriptionTask {
   fileId: number;
   language: TranscriptionLanguageCode;
+  priority: TranscriptionQueuePriority;
   abortController: AbortController;
-  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
+  status: "pending" | "processing" | "paused" | "completed" | "failed" | "cancelled";
   error?: string;
   createdAt: Date;
 }
 
+/** 供界面展示的任务快照 */
+export interface TranscriptionQueueItem {
+  fileId: number;
+  language: TranscriptionLanguageCode;
+  priority: TranscriptionQueuePriority;
+  status: TranscriptionQueueRow["status"];
+  /** 从 0 开始的队列位置 */
+  position: number;
+}
+
+export interface TranscriptionQueueSnapshot {
+  tasks: TranscriptionQueueItem[];
+  /** 整个队列是否已暂停 */
+  paused: boolean;
+}
+
 interface TranscriptionQueueConfig {
   maxConcurrent: number;
 }
@@ -25,147 +47,335 @@ type StatusChangeCallback = (
   error?: string,
 ) => void;
 
+export const TRANSCRIPTION_QUEUE_PRIORITIES: TranscriptionQueuePriority[] = [
+  "urgent",
+  "high",
+  "normal",
+  "low",
+];
+
+const PRIORITY_RANK: Record<TranscriptionQueuePriority, number> = {
+  urgent: 3,
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+const PAUSED_STORAGE_KEY = "umuo-transcription-queue-paused";
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
 /**
  * 转录队列管理器
- * 控制并发数量，支持取消操作
+ * 内存中的任务列表按执行顺序排列，每次变更后整体写回 transcriptionQueue 表
+ * 优先级只决定新任务的插入位置，手动排序可以覆盖它
  */
 export class TranscriptionQueue {
-  private queue: TranscriptionTask[] = [];
-  private processing: Map<number, TranscriptionTask> = new Map();
+  private tasks: TranscriptionTask[] = [];
   private config: TranscriptionQueueConfig;
   private taskCallback: TaskCallback | null = null;
   private statusChangeCallback: StatusChangeCallback | null = null;
+  private listeners = new Set<() => void>();
+  private snapshot: TranscriptionQueueSnapshot = { tasks: [], paused: false };
+  private paused = false;
+  private restorePromise: Promise<number[]> | null = null;
+  private persistChain: Promise<void> = Promise.resolve();
 
   constructor(config: TranscriptionQueueConfig = { maxConcurrent: 1 }) {
     this.config = config;
+    if (typeof window !== "undefined") {
+      this.paused = window.localStorage.getItem(PAUSED_STORAGE_KEY) === "true";
+    }
+    this.snapshot = this.createSnapshot();
   }
 
   /**
    * 设置任务执行回调
+   * 未设置回调时任务只排队不执行，设置后立即开始处理
    */
-  setTaskCallback(callback: TaskCallback): void {
+  setTaskCallback(callback: TaskCallback | null): void {
     this.taskCallback = callback;
+    this.processNext();
   }
 
   /**
    * 设置状态变更回调
    */
-  setStatusChangeCallback(callback: StatusChangeCallback): void {
+  setStatusChangeCallback(callback: StatusChangeCallback | null): void {
     this.statusChangeCallback = callback;
   }
 
+  /**
+   * 订阅队列变化，返回取消订阅函数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 获取队列快照（变化前引用保持不变，可直接用于 useSyncExternalStore）
+   */
+  getSnapshot(): TranscriptionQueueSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * 获取按执行顺序排列的任务
+   */
+  getTasks(): TranscriptionQueueItem[] {
+    return this.snapshot.tasks;
+  }
+
+  /**
+   * 从 IndexedDB 恢复队列
+   * 上次中断的任务重新排队，并修复残留的 processing 转录状态
+   * 多次调用只会执行一次，返回被修复状态的文件 ID
+   */
+  restore(): Promise<number[]> {
+    if (!this.restorePromise) {
+      this.restorePromise = this.loadPersistedTasks();
+    }
+    return this.restorePromise;
+  }
+
   /**
    * 添加任务到队列
+   * 新任务排在所有同级或更高优先级的等待任务之后
    */
-  add(fileId: number, language: TranscriptionLanguageCode): AbortController {
+  async add(
+    fileId: number,
+    language: TranscriptionLanguageCode,
+    options: { priority?: TranscriptionQueuePriority } = {},
+  ): Promise<AbortController> {
+    await this.restore();
+
     // 如果已经在队列或处理中，返回现有的 controller
-    const existing = this.queue.find((t) => t.fileId === fileId) || this.processing.get(fileId);
+    const existing = this.findTask(fileId);
     if (existing) {
       return existing.abortController;
     }
 
-    const abortController = new AbortController();
     const task: TranscriptionTask = {
       fileId,
       language,
-      abortController,
+      priority: options.priority ?? "normal",
+      abortController: new AbortController(),
       status: "pending",
       createdAt: new Date(),
     };
 
-    this.queue.push(task);
+    this.tasks.splice(this.insertionIndex(task.priority), 0, task);
+    this.commit();
     this.notifyStatusChange(fileId, "pending");
 
     // 尝试处理队列
     this.processNext();
 
-    return abortController;
+    return task.abortController;
   }
 
   /**
    * 取消特定任务
    */
   cancel(fileId: number): boolean {
-    // 检查是否在队列中
-    const queueIndex = this.queue.findIndex((t) => t.fileId === fileId);
-    if (queueIndex !== -1) {
-      const task = this.queue[queueIndex];
-      task.abortController.abort();
-      task.status = "cancelled";
-      this.queue.splice(queueIndex, 1);
-      this.notifyStatusChange(fileId, "cancelled");
-      return true;
-    }
-
-    // 检查是否正在处理
-    const processingTask = this.processing.get(fileId);
-    if (processingTask) {
-      processingTask.abortController.abort();
-      processingTask.status = "cancelled";
-      this.processing.delete(fileId);
-      this.notifyStatusChange(fileId, "cancelled");
-      // 继续处理下一个任务
-      this.processNext();
-      return true;
+    const task = this.findTask(fileId);
+    if (!task) {
+      return false;
     }
 
-    return false;
+    task.abortController.abort();
+    task.status = "cancelled";
+    this.removeTask(task);
+    this.commit();
+    this.notifyStatusChange(fileId, "cancelled");
+    // 继续处理下一个任务
+    this.processNext();
+    return true;
   }
 
   /**
    * 取消所有任务
    */
   cancelAll(): void {
-    // 取消队列中的任务
-    for (const task of this.queue) {
+    const tasks = this.tasks;
+    this.tasks = [];
+
+    for (const task of tasks) {
       task.abortController.abort();
       task.status = "cancelled";
       this.notifyStatusChange(task.fileId, "cancelled");
     }
-    this.queue = [];
+    this.commit();
+  }
+
+  /**
+   * 暂停特定任务
+   * 处理中的任务会被中止，并以暂停状态保留在原位置，继续后从头转录
+   */
+  pause(fileId: number): boolean {
+    const task = this.findTask(fileId);
+    if (!task || task.status === "paused") {
+      return false;
+    }
 
-    // 取消处理中的任务
-    for (const [fileId, task] of this.processing) {
+    const wasProcessing = task.status === "processing";
+    task.status = "paused";
+    if (wasProcessing) {
       task.abortController.abort();
-      task.status = "cancelled";
-      this.notifyStatusChange(fileId, "cancelled");
     }
-    this.processing.clear();
+    this.commit();
+    this.notifyStatusChange(fileId, "paused");
+    return true;
+  }
+
+  /**
+   * 继续已暂停的任务
+   */
+  resume(fileId: number): boolean {
+    const task = this.findTask(fileId);
+    if (!task || task.status !== "paused") {
+      return false;
+    }
+
+    task.status = "pending";
+    this.commit();
+    this.notifyStatusChange(fileId, "pending");
+    this.processNext();
+    return true;
+  }
+
+  /**
+   * 暂停整个队列，不再开始新任务（当前任务会继续完成）
+   */
+  pauseAll(): void {
+    this.setPaused(true);
+  }
+
+  /**
+   * 继续整个队列
+   */
+  resumeAll(): void {
+    this.setPaused(false);
+    this.processNext();
+  }
+
+  /**
+   * 调整任务优先级，等待中的任务会移动到对应优先级的末尾
+   */
+  setPriority(fileId: number, priority: TranscriptionQueuePriority): boolean {
+    const task = this.findTask(fileId);
+    if (!task) {
+      return false;
+    }
+
+    task.priority = priority;
+    if (task.status !== "processing") {
+      this.removeTask(task);
+      this.tasks.splice(this.insertionIndex(priority), 0, task);
+    }
+    this.commit();
+    return true;
+  }
+
+  /**
+   * 按给定的文件 ID 顺序重新排列任务
+   * 未列出的任务保持原有相对顺序并排在后面
+   */
+  reorder(fileIds: number[]): void {
+    const order = new Map(fileIds.map((fileId, index) => [fileId, index]));
+    const rank = (task: TranscriptionTask) => order.get(task.fileId) ?? fileIds.length;
+
+    // Array.prototype.sort 是稳定排序
+    this.tasks = [...this.tasks].sort((a, b) => rank(a) - rank(b));
+    this.commit();
+    this.processNext();
   }
 
   /**
    * 检查任务是否在处理中
    */
   isProcessing(fileId: number): boolean {
-    return this.processing.has(fileId);
+    return this.findTask(fileId)?.status === "processing";
   }
 
   /**
-   * 检查任务是否在队列中（包括处理中）
+   * 检查任务是否在队列中（包括处理中和已暂停）
    */
   isInQueue(fileId: number): boolean {
-    return this.queue.some((t) => t.fileId === fileId) || this.processing.has(fileId);
+    return this.findTask(fileId) !== undefined;
+  }
+
+  /**
+   * 整个队列是否已暂停
+   */
+  get isPaused(): boolean {
+    return this.paused;
   }
 
   /**
    * 获取队列长度
    */
   get length(): number {
-    return this.queue.length + this.processing.size;
+    return this.tasks.length;
   }
 
   /**
    * 获取等待中的任务数
    */
   get pendingCount(): number {
-    return this.queue.length;
+    return this.tasks.filter((task) => task.status === "pending").length;
   }
 
   /**
    * 获取处理中的任务数
    */
   get processingCount(): number {
-    return this.processing.size;
+    return this.tasks.filter((task) => task.status === "processing").length;
+  }
+
+  /**
+   * 等待所有排队中的持久化写入完成
+   */
+  flush(): Promise<void> {
+    return this.persistChain;
+  }
+
+  private async loadPersistedTasks(): Promise<number[]> {
+    const rows = await db.transcriptionQueue.orderBy("position").toArray();
+
+    // 跳过文件已被删除的任务
+    const existingFileIds = new Set(
+      await db.files
+        .where("id")
+        .anyOf(rows.map((row) => row.fileId))
+        .primaryKeys(),
+    );
+
+    const restored: TranscriptionTask[] = rows
+      .filter((row) => existingFileIds.has(row.fileId) && !this.findTask(row.fileId))
+      .map((row) => ({
+        fileId: row.fileId,
+        language: row.language as TranscriptionLanguageCode,
+        priority: row.priority,
+        abortController: new AbortController(),
+        // 上次处理中的任务已随页面中断，重新排队
+        status: row.status === "paused" ? "paused" : "pending",
+        createdAt: row.createdAt,
+      }));
+
+    // 恢复的任务排在恢复前就已加入的任务之前
+    this.tasks = [...restored, ...this.tasks];
+
+    const repaired = await repairInterruptedTranscriptions(restored.map((task) => task.fileId));
+
+    this.commit();
+    this.processNext();
+    return repaired;
   }
 
   /**
@@ -173,54 +383,133 @@ export class TranscriptionQueue {
    */
   private async processNext(): Promise<void> {
     // 检查是否可以处理更多任务
-    if (this.processing.size >= this.config.maxConcurrent) {
+    if (this.paused || !this.taskCallback || this.processingCount >= this.config.maxConcurrent) {
       return;
     }
 
     // 获取下一个待处理任务
-    const task = this.queue.shift();
+    const task = this.tasks.find((t) => t.status === "pending");
     if (!task) {
       return;
     }
 
-    // 检查是否已被取消
-    if (task.abortController.signal.aborted) {
-      this.processNext();
-      return;
-    }
-
-    // 标记为处理中
-    task.status = "processing";
-    this.processing.set(task.fileId, task);
-    this.notifyStatusChange(task.fileId, "processing");
+    this.markProcessing(task);
 
     try {
-      if (this.taskCallback) {
-        await this.taskCallback(task);
-      }
+      await this.taskCallback(task);
 
-      // 只有在未被取消的情况下才标记完成
+      // 只有在未被取消或暂停的情况下才标记完成
       if (!task.abortController.signal.aborted) {
         task.status = "completed";
+        this.removeTask(task);
         this.notifyStatusChange(task.fileId, "completed");
       }
     } catch (error) {
-      // 检查是否是取消错误
-      if (error instanceof DOMException && error.name === "AbortError") {
-        task.status = "cancelled";
-        this.notifyStatusChange(task.fileId, "cancelled");
-      } else {
-        task.status = "failed";
-        task.error = error instanceof Error ? error.message : "转录失败";
-        this.notifyStatusChange(task.fileId, "failed", task.error);
+      // 暂停导致的中止会保留任务，其余情况移出队列
+      if (!(task.status === "paused" && isAbortError(error)) && task.status !== "cancelled") {
+        this.removeTask(task);
+        if (isAbortError(error)) {
+          task.status = "cancelled";
+          this.notifyStatusChange(task.fileId, "cancelled");
+        } else {
+          task.status = "failed";
+          task.error = error instanceof Error ? error.message : "转录失败";
+          this.notifyStatusChange(task.fileId, "failed", task.error);
+        }
       }
     } finally {
-      this.processing.delete(task.fileId);
+      if (task.status === "paused" && task.abortController.signal.aborted) {
+        // 换一个新的 controller，继续时重新转录
+        task.abortController = new AbortController();
+      }
+      this.commit();
       // 继续处理下一个任务
       this.processNext();
     }
   }
 
+  /**
+   * 标记为处理中
+   */
+  private markProcessing(task: TranscriptionTask): void {
+    task.status = "processing";
+    this.commit();
+    this.notifyStatusChange(task.fileId, "processing");
+  }
+
+  private findTask(fileId: number): TranscriptionTask | undefined {
+    return this.tasks.find((task) => task.fileId === fileId);
+  }
+
+  private removeTask(task: TranscriptionTask): void {
+    this.tasks = this.tasks.filter((t) => t !== task);
+  }
+
+  /**
+   * 计算指定优先级的插入位置：第一个更低优先级的等待任务之前
+   */
+  private insertionIndex(priority: TranscriptionQueuePriority): number {
+    const index = this.tasks.findIndex(
+      (task) =>
+        task.status !== "processing" && PRIORITY_RANK[task.priority] < PRIORITY_RANK[priority],
+    );
+    return index === -1 ? this.tasks.length : index;
+  }
+
+  private setPaused(paused: boolean): void {
+    this.paused = paused;
+    if (typeof window !== "undefined") {
+      window.localStorage.setItem(PAUSED_STORAGE_KEY, String(paused));
+    }
+    this.commit();
+  }
+
+  private createSnapshot(): TranscriptionQueueSnapshot {
+    return {
+      paused: this.paused,
+      tasks: this.tasks.map((task, position) => ({
+        fileId: task.fileId,
+        language: task.language,
+        priority: task.priority,
+        status: task.status === "processing" || task.status === "paused" ? task.status : "pending",
+        position,
+      })),
+    };
+  }
+
+  /**
+   * 刷新快照、通知订阅者并写回 IndexedDB
+   */
+  private commit(): void {
+    this.snapshot = this.createSnapshot();
+    for (const listener of this.listeners) {
+      listener();
+    }
+
+    const now = new Date();
+    const rows: TranscriptionQueueRow[] = this.tasks.map((task, position) => ({
+      fileId: task.fileId,
+      language: task.language,
+      priority: task.priority,
+      position,
+      status: this.snapshot.tasks[position].status,
+      createdAt: task.createdAt,
+      updatedAt: now,
+    }));
+
+    // 串行写入，保证最后一次写入的是最新状态
+    this.persistChain = this.persistChain
+      .then(() =>
+        db.transaction("rw", db.transcriptionQueue, async () => {
+          await db.transcriptionQueue.clear();
+          await db.transcriptionQueue.bulkAdd(rows);
+        }),
+      )
+      .catch((error) => {
+        console.error("保存转录队列失败:", error);
+      });
+  }
+
   /**
    * 通知状态变更
    */
@@ -0,0 +1,291 @@
+/**
+ * 语音活动检测
+ * 按帧计算能量，用自适应的噪声门限找出语音区间，
+ * 用来把字幕段的起止时间对齐到语音、在长静音处拆分字幕段，以及播放时跳过静音
+ */
+
+import { decodeAudioSamples } from "@/lib/utils/waveform";
+
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+export interface VadConfig {
+  /** 分析帧长（秒） */
+  frameDuration: number;
+  /** 取帧能量的该分位数作为噪声底 */
+  noiseFloorPercentile: number;
+  /** 语音门限比噪声底高出的分贝数 */
+  thresholdOffsetDb: number;
+  /** 门限下限（dBFS），避免把数字静音录音中的底噪当成语音 */
+  minThresholdDb: number;
+  /** 间隔短于该值（秒）的语音区间合并，避免在词间停顿处断开 */
+  mergeGap: number;
+  /** 短于该值（秒）的语音区间视为噪声 */
+  minSpeechDuration: number;
+  /** 对齐时在语音前后保留的余量（秒），避免截掉清辅音和尾音 */
+  padding: number;
+  /** 字幕段内部超过该值（秒）的静音处拆分字幕段 */
+  splitSilence: number;
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  frameDuration: 0.02,
+  noiseFloorPercentile: 0.1,
+  thresholdOffsetDb: 12,
+  minThresholdDb: -55,
+  mergeGap: 0.3,
+  minSpeechDuration: 0.1,
+  padding: 0.1,
+  splitSilence: 1.2,
+};
+
+/** 需要修正的字幕段，兼容转录接口返回的结构 */
+export interface RefinableSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  wordTimestamps?: Array<{ word: string; start: number; end: number }>;
+}
+
+/** 拆分文本时归入前半段的句尾标点 */
+const TRAILING_PUNCTUATION = /[.,!?;:。、！？，；：…」』）)\]"'”’]/;
+
+const SILENCE_DB = -100;
+
+function percentile(sorted: Float32Array, ratio: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.floor(sorted.length * ratio)));
+  return sorted[index];
+}
+
+/**
+ * 每帧的 RMS 能量（dBFS）
+ */
+export function computeFrameEnergies(samples: Float32Array, frameSize: number): Float32Array {
+  const energies = new Float32Array(Math.ceil(samples.length / frameSize));
+
+  for (let frame = 0; frame < energies.length; frame++) {
+    const from = frame * frameSize;
+    const to = Math.min(samples.length, from + frameSize);
+    let sum = 0;
+    for (let index = from; index < to; index++) {
+      sum += samples[index] * samples[index];
+    }
+    const rms = Math.sqrt(sum / Math.max(1, to - from));
+    energies[frame] = rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+  }
+
+  return energies;
+}
+
+/**
+ * 检测语音区间
+ * 噪声底取低分位的帧能量，高出门限的连续帧视为语音；
+ * 整段音频的能量起伏不足门限时无法区分静音，整段视为语音
+ */
+export function detectSpeechRegions(
+  samples: Float32Array,
+  sampleRate: number,
+  config: VadConfig = DEFAULT_VAD_CONFIG,
+): SpeechRegion[] {
+  const frameSize = Math.max(1, Math.round(sampleRate * config.frameDuration));
+  const energies = computeFrameEnergies(samples, frameSize);
+  if (energies.length === 0) return [];
+
+  const duration = samples.length / sampleRate;
+  const sorted = Float32Array.from(energies).sort();
+  const noiseFloor = percentile(sorted, config.noiseFloorPercentile);
+  const loud = percentile(sorted, 1 - config.noiseFloorPercentile);
+  if (loud - noiseFloor < config.thresholdOffsetDb) {
+    return loud > config.minThresholdDb ? [{ start: 0, end: duration }] : [];
+  }
+
+  const threshold = Math.max(config.minThresholdDb, noiseFloor + config.thresholdOffsetDb);
+  const frameDuration = frameSize / sampleRate;
+  const regions: SpeechRegion[] = [];
+  let regionStart = -1;
+
+  for (let frame = 0; frame <= energies.length; frame++) {
+    const isSpeech = frame < energies.length && energies[frame] >= threshold;
+    if (isSpeech && regionStart === -1) {
+      regionStart = frame;
+    } else if (!isSpeech && regionStart !== -1) {
+      const start = regionStart * frameDuration;
+      const end = Math.min(duration, frame * frameDuration);
+      const previous = regions[regions.length - 1];
+      if (previous && start - previous.end < config.mergeGap) {
+        previous.end = end;
+      } else {
+        regions.push({ start, end });
+      }
+      regionStart = -1;
+    }
+  }
+
+  return regions.filter((region) => region.end - region.start >= config.minSpeechDuration);
+}
+
+/**
+ * 在前 wordCount 个词之后切分文本，句尾标点留在前半段
+ * @returns 无法在文本中依次找到这些词时返回 null
+ */
+function splitTextAfterWords(
+  text: string,
+  words: Array<{ word: string }>,
+  wordCount: number,
+): [string, string] | null {
+  let cursor = 0;
+  for (const { word } of words.slice(0, wordCount)) {
+    const token = word.trim();
+    if (!token) continue;
+    const index = text.indexOf(token, cursor);
+    if (index === -1) return null;
+    cursor = index + token.length;
+  }
+  while (cursor < text.length && TRAILING_PUNCTUATION.test(text[cursor])) {
+    cursor++;
+  }
+
+  const head = text.slice(0, cursor).trim();
+  const tail = text.slice(cursor).trim();
+  return head && tail ? [head, tail] : null;
+}
+
+/**
+ * 在字幕段内部的长静音中点处拆分，拆出的静音随后由 snapToSpeech 去掉
+ * 依靠词级时间戳分配文字，没有词级时间戳或文字对不上时保持原样
+ */
+function splitAtSilences<T extends RefinableSegment>(
+  segment: T,
+  regions: SpeechRegion[],
+  config: VadConfig,
+): T[] {
+  const words = segment.wordTimestamps ?? [];
+  if (words.length < 2) return [segment];
+
+  const inside = regions.filter(
+    (region) => region.end > segment.start && region.start < segment.end,
+  );
+  for (let index = 0; index < inside.length - 1; index++) {
+    const silenceStart = inside[index].end;
+    const silenceEnd = inside[index + 1].start;
+    if (silenceEnd - silenceStart < config.splitSilence) continue;
+
+    const splitTime = (silenceStart + silenceEnd) / 2;
+    const wordCount = words.filter((word) => (word.start + word.end) / 2 < splitTime).length;
+    if (wordCount === 0 || wordCount === words.length) continue;
+
+    const texts = splitTextAfterWords(segment.text, words, wordCount);
+    if (!texts) continue;
+
+    const head: T = {
+      ...segment,
+      end: splitTime,
+      text: texts[0],
+      wordTimestamps: words.slice(0, wordCount),
+    };
+    const tail: T = {
+      ...segment,
+      start: splitTime,
+      text: texts[1],
+      wordTimestamps: words.slice(wordCount),
+    };
+    return [head, ...splitAtSilences(tail, regions, config)];
+  }
+
+  return [segment];
+}
+
+/**
+ * 去掉字幕段首尾的静音，词级时间戳随之收进新的起止范围
+ */
+function snapToSpeech<T extends RefinableSegment>(
+  segment: T,
+  regions: SpeechRegion[],
+  config: VadConfig,
+): T {
+  const overlapping = regions.filter(
+    (region) => region.end > segment.start && region.start < segment.end,
+  );
+  if (overlapping.length === 0) return segment;
+
+  const start = Math.max(segment.start, overlapping[0].start - config.padding);
+  const end = Math.min(segment.end, overlapping[overlapping.length - 1].end + config.padding);
+  if (end - start < config.minSpeechDuration) return segment;
+
+  return {
+    ...segment,
+    start,
+    end,
+    wordTimestamps: segment.wordTimestamps?.map((word) => {
+      const wordStart = Math.min(end, Math.max(start, word.start));
+      return { ...word, start: wordStart, end: Math.min(end, Math.max(wordStart, word.end)) };
+    }),
+  };
+}
+
+/**
+ * 用语音区间修正字幕段：先在长静音处拆分，再把起止时间对齐到语音
+ * 拆分后按顺序重新编号
+ */
+export function refineSegmentsWithSpeech<T extends RefinableSegment>(
+  segments: T[],
+  regions: SpeechRegion[],
+  config: VadConfig = DEFAULT_VAD_CONFIG,
+): T[] {
+  if (regions.length === 0) return segments;
+
+  const firstId = segments[0]?.id ?? 0;
+  return segments
+    .flatMap((segment) => splitAtSilences(segment, regions, config))
+    .map((segment) => snapToSpeech(segment, regions, config))
+    .map((segment, index) => ({ ...segment, id: firstId + index }));
+}
+
+/**
+ * 解码音频后修正字幕段，解码失败时返回原字幕段
+ */
+export async function refineSegmentsWithAudio<T extends RefinableSegment>(
+  audio: Blob,
+  segments: T[],
+  config: VadConfig = DEFAULT_VAD_CONFIG,
+): Promise<T[]> {
+  if (segments.length === 0) return segments;
+
+  try {
+    const { samples, sampleRate } = await decodeAudioSamples(audio);
+    return refineSegmentsWithSpeech(
+      segments,
+      detectSpeechRegions(samples, sampleRate, config),
+      config,
+    );
+  } catch (error) {
+    console.warn("语音活动检测失败，保留原始字幕段时间:", error);
+    return segments;
+  }
+}
+
+/**
+ * 播放时需要跳过的静音：当前时间位于足够长的静音中时返回下一段语音的开始时间
+ * @param minSilence 短于该值（秒）的静音不跳过
+ */
+export function findSilenceSkipTarget(
+  regions: SpeechRegion[],
+  time: number,
+  minSilence: number,
+  padding: number = DEFAULT_VAD_CONFIG.padding,
+): number | null {
+  let silenceStart = 0;
+  for (const region of regions) {
+    if (time < region.start) {
+      const target = region.start - padding;
+      const silence = region.start - silenceStart;
+      return silence >= minSilence && target - time > padding ? target : null;
+    }
+    if (time < region.end) return null;
+    silenceStart = region.end;
+  }
+  return null;
+}
@@ -0,0 +1,254 @@
+/**
+ * 波形数据
+ * 用 Web Audio API 解码音频并计算峰值和频谱，供播放器绘制波形和频谱图
+ */
+
+/** 解码时使用的采样率，只用于分析语音，不需要高采样率 */
+const WAVEFORM_SAMPLE_RATE = 8000;
+/** 频谱图的 FFT 长度（8kHz 下为 32ms） */
+const SPECTROGRAM_FFT_SIZE = 256;
+/** 频谱图显示的动态范围（dB） */
+const SPECTROGRAM_RANGE_DB = 70;
+
+export interface WaveformPeaks {
+  /** 每个时间片内的最大振幅（0-1） */
+  peaks: Float32Array;
+  peaksPerSecond: number;
+  duration: number;
+}
+
+/** 解码后的单声道音频 */
+export interface AudioSamples {
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+}
+
+export interface Spectrogram {
+  /** 按列存储，每列 bins 个值（0-1），低频在前 */
+  values: Float32Array;
+  columns: number;
+  bins: number;
+}
+
+/**
+ * 按固定时间片计算峰值，多声道时取各声道的最大值
+ */
+export function computePeaks(channels: Float32Array[], samplesPerPeak: number): Float32Array {
+  const length = channels[0]?.length ?? 0;
+  const peaks = new Float32Array(Math.ceil(length / samplesPerPeak));
+
+  for (let peakIndex = 0; peakIndex < peaks.length; peakIndex++) {
+    const from = peakIndex * samplesPerPeak;
+    const to = Math.min(length, from + samplesPerPeak);
+    let max = 0;
+    for (const channel of channels) {
+      for (let index = from; index < to; index++) {
+        const value = Math.abs(channel[index]);
+        if (value > max) max = value;
+      }
+    }
+    peaks[peakIndex] = Math.min(1, max);
+  }
+
+  return peaks;
+}
+
+/**
+ * 解码音频文件并混合为单声道
+ */
+export async function decodeAudioSamples(blob: Blob): Promise<AudioSamples> {
+  // decodeAudioData 会按上下文的采样率重采样
+  const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+  const audioBuffer = await context.decodeAudioData(await blob.arrayBuffer());
+
+  const samples = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let index = 0; index < data.length; index++) {
+      samples[index] += data[index] / audioBuffer.numberOfChannels;
+    }
+  }
+
+  return { samples, sampleRate: audioBuffer.sampleRate, duration: audioBuffer.duration };
+}
+
+/**
+ * 解码音频文件并计算峰值
+ */
+export async function decodeWaveformPeaks(
+  blob: Blob,
+  peaksPerSecond: number = 100,
+): Promise<WaveformPeaks> {
+  const { samples, sampleRate, duration } = await decodeAudioSamples(blob);
+  const samplesPerPeak = Math.max(1, Math.round(sampleRate / peaksPerSecond));
+
+  return {
+    peaks: computePeaks([samples], samplesPerPeak),
+    peaksPerSecond: sampleRate / samplesPerPeak,
+    duration,
+  };
+}
+
+/**
+ * 原地计算实数信号的 FFT 幅度谱（基 2，长度必须是 2 的幂）
+ * @returns 前 size / 2 个频率的幅度
+ */
+export function fftMagnitudes(signal: Float32Array): Float32Array {
+  const size = signal.length;
+  const real = Float32Array.from(signal);
+  const imag = new Float32Array(size);
+
+  for (let index = 1, reversed = 0; index < size; index++) {
+    let bit = size >> 1;
+    for (; reversed & bit; bit >>= 1) reversed ^= bit;
+    reversed ^= bit;
+    if (index < reversed) {
+      [real[index], real[reversed]] = [real[reversed], real[index]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    for (let offset = 0; offset < size; offset += length) {
+      for (let index = 0; index < length / 2; index++) {
+        const cos = Math.cos(angle * index);
+        const sin = Math.sin(angle * index);
+        const a = offset + index;
+        const b = a + length / 2;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+
+  const magnitudes = new Float32Array(size / 2);
+  for (let index = 0; index < magnitudes.length; index++) {
+    magnitudes[index] = Math.hypot(real[index], imag[index]);
+  }
+  return magnitudes;
+}
+
+/**
+ * 计算 [start, end] 时间范围内的频谱图，按 dB 归一化到 0-1
+ */
+export function computeSpectrogram(
+  audio: AudioSamples,
+  range: { start: number; end: number },
+  columns: number,
+): Spectrogram {
+  const bins = SPECTROGRAM_FFT_SIZE / 2;
+  const values = new Float32Array(columns * bins);
+  const window = Float32Array.from(
+    { length: SPECTROGRAM_FFT_SIZE },
+    (_, index) => 0.5 - 0.5 * Math.cos((2 * Math.PI * index) / (SPECTROGRAM_FFT_SIZE - 1)),
+  );
+  const frame = new Float32Array(SPECTROGRAM_FFT_SIZE);
+  const duration = range.end - range.start;
+
+  for (let column = 0; column < columns; column++) {
+    const center = Math.round(
+      (range.start + ((column + 0.5) / columns) * duration) * audio.sampleRate,
+    );
+    const from = center - SPECTROGRAM_FFT_SIZE / 2;
+    for (let index = 0; index < SPECTROGRAM_FFT_SIZE; index++) {
+      frame[index] = (audio.samples[from + index] ?? 0) * window[index];
+    }
+
+    const magnitudes = fftMagnitudes(frame);
+    for (let bin = 0; bin < bins; bin++) {
+      values[column * bins + bin] = 20 * Math.log10(magnitudes[bin] + 1e-6);
+    }
+  }
+
+  // 以范围内的最大值为上限归一化，显示其下 SPECTROGRAM_RANGE_DB 的动态范围
+  let max = Number.NEGATIVE_INFINITY;
+  for (const value of values) {
+    if (value > max) max = value;
+  }
+  for (let index = 0; index < values.length; index++) {
+    values[index] = Math.max(0, 1 - (max - values[index]) / SPECTROGRAM_RANGE_DB);
+  }
+
+  return { values, columns, bins };
+}
+
+/**
+ * 在画布上绘制 [start, end] 时间范围内的波形，画布尺寸按设备像素比设置
+ */
+export function drawWaveform(
+  canvas: HTMLCanvasElement,
+  waveform: WaveformPeaks,
+  range: { start: number; end: number },
+  color: string,
+): void {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.max(1, Math.floor(canvas.clientWidth * ratio));
+  const height = Math.max(1, Math.floor(canvas.clientHeight * ratio));
+  canvas.width = width;
+  canvas.height = height;
+  context.clearRect(0, 0, width, height);
+  context.fillStyle = color;
+
+  const duration = range.end - range.start;
+  if (duration <= 0) return;
+
+  const middle = height / 2;
+  for (let x = 0; x < width; x++) {
+    const from = Math.floor((range.start + (x / width) * duration) * waveform.peaksPerSecond);
+    const to = Math.max(
+      from + 1,
+      Math.floor((range.start + ((x + 1) / width) * duration) * waveform.peaksPerSecond),
+    );
+    let peak = 0;
+    for (let index = Math.max(0, from); index < Math.min(to, waveform.peaks.length); index++) {
+      if (waveform.peaks[index] > peak) peak = waveform.peaks[index];
+    }
+    const barHeight = Math.max(1, peak * height);
+    context.fillRect(x, middle - barHeight / 2, 1, barHeight);
+  }
+}
+
+/**
+ * 把频谱图铺满画布，强度映射为颜色的透明度
+ */
+export function drawSpectrogram(
+  canvas: HTMLCanvasElement,
+  spectrogram: Spectrogram,
+  color: string,
+): void {
+  const context = canvas.getContext("2d");
+  if (!context) return;
+
+  const ratio = window.devicePixelRatio || 1;
+  const width = Math.max(1, Math.floor(canvas.clientWidth * ratio));
+  const height = Math.max(1, Math.floor(canvas.clientHeight * ratio));
+  canvas.width = width;
+  canvas.height = height;
+  context.clearRect(0, 0, width, height);
+  context.fillStyle = color;
+
+  const columnWidth = width / spectrogram.columns;
+  const binHeight = height / spectrogram.bins;
+  for (let column = 0; column < spectrogram.columns; column++) {
+    for (let bin = 0; bin < spectrogram.bins; bin++) {
+      const value = spectrogram.values[column * spectrogram.bins + bin];
+      if (value <= 0) continue;
+      context.globalAlpha = value;
+      context.fillRect(
+        column * columnWidth,
+        height - (bin + 1) * binHeight,
+        Math.ceil(columnWidth),
+        Math.ceil(binHeight),
+      );
+    }
+  }
+  context.globalAlpha = 1;
+}
@@ -1,3 +1,4 @@
+import { formatSrtTimestamp } from "@/lib/utils/subtitle-timestamp";
 import type { Segment, WordTimestamp } from "@/types/db/database";
 
 /**
@@ -166,18 +167,10 @@ export function smoothTimestamps(wordTimestamps: WordTimestamp[]): WordTimestamp
  */
 export function convertWordTimestampsToSrtFormat(wordTimestamps: WordTimestamp[]): string {
   return wordTimestamps
-    .map((ts, index) => {
-      const formatTime = (seconds: number): string => {
-        const hours = Math.floor(seconds / 3600);
-        const minutes = Math.floor((seconds % 3600) / 60);
-        const secs = seconds % 60;
-        const millis = Math.floor((seconds % 1) * 1000);
-
-        return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")},${millis.toString().padStart(3, "0")}`;
-      };
-
-      return `${index + 1}\n${formatTime(ts.start)} --> ${formatTime(ts.end)}\n${ts.word}\n`;
-    })
+    .map(
+      (ts, index) =>
+        `${index + 1}\n${formatSrtTimestamp(ts.start)} --> ${formatSrtTimestamp(ts.end)}\n${ts.word}\n`,
+    )
     .join("\n");
 }
 
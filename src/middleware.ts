@@ -5,6 +5,7 @@ import {
   getClientIdentifier,
   getRateLimitConfig,
   getRateLimitHeaders,
+  isFollowUpTranscribeChunk,
 } from "@/lib/utils/rate-limiter";
 
 // Theme detection middleware
@@ -33,10 +34,14 @@ export function middleware(request: NextRequest) {
     const clientId = getClientIdentifier(request);
     const rateLimitKey = `${clientId}:${pathname}`;
     const config = getRateLimitConfig(pathname);
-    const result = checkRateLimit(rateLimitKey, config);
+    // 分块转录的后续分块属于同一个文件，不再单独计数
+    const result =
+      pathname === "/api/transcribe" && isFollowUpTranscribeChunk(searchParams)
+        ? null
+        : checkRateLimit(rateLimitKey, config);
 
     // 如果被限流，返回 429 响应
-    if (result.limited) {
+    if (result?.limited) {
       return new NextResponse(
         JSON.stringify({
           success: false,
@@ -58,13 +63,14 @@ export function middleware(request: NextRequest) {
 
     // 正常响应，添加限流头
     const response = NextResponse.next();
-    const rateLimitHeaders = getRateLimitHeaders(result);
-    for (const [key, value] of Object.entries(rateLimitHeaders)) {
-      response.headers.set(key, value);
+    if (result) {
+      for (const [key, value] of Object.entries(getRateLimitHeaders(result))) {
+        response.headers.set(key, value);
+      }
     }
 
     // Add security headers
-    response.headers.set("Permissions-Policy", "camera=(), microphone=(), geolocation=()");
+    response.headers.set("Permissions-Policy", "camera=(), microphone=(self), geolocation=()");
     response.headers.set("Strict-Transport-Security", "max-age=31536000; includeSubDomains");
     response.headers.set("X-DNS-Prefetch-Control", "on");
 
@@ -73,7 +79,7 @@ export function middleware(request: NextRequest) {
 
   // Non-API routes: Set security headers only
   const response = NextResponse.next();
-  response.headers.set("Permissions-Policy", "camera=(), microphone=(), geolocation=()");
+  response.headers.set("Permissions-Policy", "camera=(), microphone=(self), geolocation=()");
   response.headers.set("Strict-Transport-Security", "max-age=31536000; includeSubDomains");
   response.headers.set("X-DNS-Prefetch-Control", "on");
 
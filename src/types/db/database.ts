@@ -22,6 +22,253 @@ export interface FileRow {
   updatedAt: Date;
   // 统一文件状态字段
   status?: FileStatus;
+  // 从链接或播客导入时的来源信息
+  source?: FileSource;
+  // 转录和波形分析使用的音轨：视频提取出的音轨，或保留原文件时压缩后的音频
+  audioTrack?: Blob;
+}
+
+/**
+ * 通过链接导入的文件来源；播客单集额外保留节目名和发布日期
+ */
+export interface FileSource {
+  type: "url" | "podcast";
+  url: string;
+  title?: string;
+  show?: string;
+  feedUrl?: string;
+  guid?: string;
+  publishedAt?: Date;
+}
+
+/**
+ * 音频分块，大文件按 chunkSize 切分后按 index 顺序存储
+ */
+export interface FileChunkRow {
+  id?: number;
+  fileId: number;
+  index: number;
+  blob: Blob;
+  size: number;
+  createdAt: Date;
+}
+
+/**
+ * 跟读录音，按文件和字幕段保存学习者的每次录音
+ */
+export interface ShadowingRecordingRow {
+  id?: number;
+  fileId: number;
+  /** 对应 segments 表的 id */
+  segmentId: number;
+  blob: Blob;
+  /** 录音时长（秒） */
+  duration: number;
+  createdAt: Date;
+}
+
+/**
+ * 跟读评分中单个参考单词的结果
+ */
+export interface PronunciationWordScore {
+  /** 参考单词 */
+  word: string;
+  /** 学习者对应读出的内容，未读出时为 undefined */
+  spoken?: string;
+  /** 0-1 的准确度 */
+  accuracy: number;
+  /** 相对句首的时间偏差（秒），正数表示读得偏晚 */
+  timingOffset?: number;
+  /** 参考转录的置信度 */
+  confidence?: number;
+}
+
+/**
+ * 跟读评分记录，按字幕段保留历史以便查看进步
+ */
+export interface PronunciationScoreRow {
+  id?: number;
+  fileId: number;
+  segmentId: number;
+  /** 被评分的录音，录音删除后评分仍保留 */
+  recordingId?: number;
+  /** 综合得分 0-100 */
+  score: number;
+  /** 准确度得分 0-100 */
+  accuracy: number;
+  /** 节奏得分 0-100 */
+  rhythm: number;
+  words: PronunciationWordScore[];
+  /** 参考文本中没有的多余内容 */
+  extraWords: string[];
+  /** 学习者录音的转录文本 */
+  transcript: string;
+  createdAt: Date;
+}
+
+/** 复习时对回忆程度的评价 */
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+/**
+ * 复习卡片，引用收藏的字幕段并保存 SM-2 调度状态
+ */
+export interface ReviewCardRow {
+  id?: number;
+  fileId: number;
+  /** 对应 segments 表的 id，重新转录后按时间范围重新关联 */
+  segmentId: number;
+  /** 收藏时字幕段的时间范围（秒） */
+  start: number;
+  end: number;
+  /** 收藏时的字幕文本，字幕段找不到时用于展示 */
+  text: string;
+  /** SM-2 易度因子 */
+  ease: number;
+  /** 当前复习间隔（天），0 表示处于重新学习阶段 */
+  interval: number;
+  /** 连续答对次数 */
+  repetitions: number;
+  /** 遗忘次数 */
+  lapses: number;
+  due: Date;
+  lastReviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 个人词典中的单词，按语言和词典形去重
+ */
+export interface VocabularyRow {
+  id?: number;
+  language: string;
+  lemma: string;
+  reading?: string;
+  partOfSpeech?: string;
+  gloss?: string;
+  /** JLPT（N5-N1）或 CEFR（A1-C2）等级 */
+  level?: string;
+  /** 已掌握的单词在字幕中弱化显示 */
+  known: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 单词在字幕段中的出现位置
+ */
+export interface VocabularyOccurrenceRow {
+  id?: number;
+  vocabularyId: number;
+  fileId: number;
+  segmentId: number;
+  /** 在句中出现的形式 */
+  surface: string;
+}
+
+/**
+ * 全文搜索倒排索引，每个字幕段一行，terms 为多值索引
+ */
+export interface SearchIndexRow {
+  segmentId: number;
+  fileId: number;
+  transcriptId: number;
+  /** 去重后的检索词：拉丁文按单词，中日韩文字按单字和二元组 */
+  terms: string[];
+  /** 建立索引时字幕内容的校验和，用于发现需要重建的字幕段 */
+  checksum: number;
+}
+
+/**
+ * 波形峰值缓存，每个文件一行，避免每次打开播放器都重新解码音频
+ */
+export interface WaveformCacheRow {
+  fileId: number;
+  /** 每个时间片内的最大振幅（0-1） */
+  peaks: Float32Array;
+  peaksPerSecond: number;
+  duration: number;
+  /** 生成缓存时音频文件的大小，文件内容变化后缓存失效 */
+  fileSize: number;
+  createdAt: Date;
+}
+
+/**
+ * 字幕段的基频曲线缓存，每个字幕段一行
+ * 字幕段时间范围变化后缓存失效
+ */
+export interface PitchContourRow {
+  segmentId: number;
+  fileId: number;
+  start: number;
+  end: number;
+  framesPerSecond: number;
+  /** 每帧的基频（Hz），0 表示无声 */
+  values: Float32Array;
+  createdAt: Date;
+}
+
+/**
+ * 用户创建的合集（播放列表）
+ */
+export interface CollectionRow {
+  id?: number;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 合集中的文件，同一文件可以属于多个合集
+ */
+export interface CollectionItemRow {
+  id?: number;
+  collectionId: number;
+  fileId: number;
+  /** 在合集中的顺序，从 0 开始 */
+  position: number;
+  addedAt: Date;
+}
+
+/**
+ * 文件的标签，每个文件与标签的组合一行
+ */
+export interface FileTagRow {
+  id?: number;
+  fileId: number;
+  tag: string;
+  createdAt: Date;
+}
+
+/**
+ * 订阅的播客，打开时重新拉取节目列表
+ */
+export interface PodcastSubscriptionRow {
+  id?: number;
+  feedUrl: string;
+  title: string;
+  author?: string;
+  imageUrl?: string;
+  subscribedAt: Date;
+  lastCheckedAt?: Date;
+}
+
+export type TranscriptionQueuePriority = "low" | "normal" | "high" | "urgent";
+
+/**
+ * 持久化的转录队列任务，页面刷新后据此恢复队列
+ * 完成、失败或取消的任务会从表中移除
+ */
+export interface TranscriptionQueueRow {
+  id?: number;
+  fileId: number;
+  language: string;
+  priority: TranscriptionQueuePriority;
+  /** 队列中的排序位置，越小越先执行 */
+  position: number;
+  status: "pending" | "processing" | "paused";
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface TranscriptRow {
@@ -17,11 +17,28 @@ export interface TranscriptionSegment {
   }>;
 }
 
+/**
+ * 后处理提取的结构化词汇
+ */
+export interface VocabularyEntry {
+  /** 词典形（原形） */
+  lemma: string;
+  /** 在句中出现的形式 */
+  surface?: string;
+  reading?: string;
+  partOfSpeech?: string;
+  /** 释义（翻译目标语言） */
+  gloss?: string;
+  /** 日语为 JLPT 等级（N5-N1），其他语言为 CEFR 等级（A1-C2） */
+  level?: string;
+}
+
 export interface ProcessedSegment extends TranscriptionSegment {
   normalizedText?: string;
   translation?: string;
   annotations?: string[];
   furigana?: string;
+  vocabulary?: VocabularyEntry[];
 }
 
 // 转录结果